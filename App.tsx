@@ -1,77 +1,311 @@
-import React, { useState, useRef, useEffect, useCallback } from 'react';
-import { useNeogenesis } from './hooks/useNeogenesis';
-import { NeogenesisProps, AudioSource, Theme } from './types';
+import React, { useState, useRef, useEffect, useCallback, useMemo } from 'react';
+import { QualityStats, useNeogenesis } from './hooks/useNeogenesis';
+import { usePlaylist } from './hooks/usePlaylist';
+import { useNotifications } from './hooks/useNotifications';
+import { NeogenesisProps, AudioSource, AudioInputDevice, AudioFeatureSource, AudioState } from './types';
 import { AudioProcessor } from './services/AudioProcessor';
+import { AudioError, toCaptureError } from './services/audioErrors';
+import { DEFAULT_SYNTHETIC_SETTINGS, SyntheticFeatureSource, SyntheticSignalSettings } from './services/SyntheticFeatureSource';
+import { loadImageMask } from './services/particleDistributions';
+import { FeatureRecorder, FeatureTrackPlayer, parseFeatureTrack, serializeFeatureTrack } from './services/featureTrack';
+import { downloadBlob } from './services/fileUtils';
+import { DEFAULT_PROPS, Preset, applyPresetTheme, listPresets, loadCurrentPreset, readPresetFromHash, saveCurrentProps } from './services/presets';
+import { PlaylistTrack, isAudioFile } from './services/playlist';
+import { QualitySettings, loadQualitySettings, saveQualitySettings } from './services/quality';
+import { RemoteSettings, loadRemoteSettings, saveRemoteSettings } from './services/RemoteConnection';
+import { useRemoteControl } from './hooks/useRemoteControl';
+import { FlashAction, HotkeyAction, Keymap, applyFlashes, applyHotkeyAction, formatKeyCombo, getHotkeyAction, getPresetSlot, getSensitivity, loadKeymap, saveKeymap } from './services/hotkeys';
+import { getTheme, listThemes } from './services/themes';
+import { useHotkeys } from './hooks/useHotkeys';
+import { PerformanceRecorder, RecordingOptions, RecordingStatus } from './services/PerformanceRecorder';
+import { FrameSink, OfflineRenderOptions, createPngSequenceSink, createWebMSink, offlineRenderFilename, renderOffline } from './services/offlineRenderer';
 import { ControlsPanel } from './components/ControlsPanel';
+import { HotkeyCheatSheet } from './components/HotkeyCheatSheet';
+import { DebugHud } from './components/DebugHud';
+import { NotificationList } from './components/NotificationList';
 import { MicIcon, UploadIcon, FullscreenEnterIcon, FullscreenExitIcon } from './components/IconComponents';
 
+// Contexts often start suspended and resume a moment later; only a lasting suspension is worth a notice
+const SUSPENDED_NOTICE_DELAY_MS = 1000;
+
+const isLiveSource = (source: AudioSource) =>
+  source === AudioSource.Microphone || source === AudioSource.InputDevice || source === AudioSource.SystemAudio || source === AudioSource.Stream;
+
 const App: React.FC = () => {
   const canvasRef = useRef<HTMLCanvasElement>(null);
-  const audioRef = useRef<HTMLAudioElement>(null);
+  const deckARef = useRef<HTMLAudioElement>(null);
+  const deckBRef = useRef<HTMLAudioElement>(null);
+  const deckRefs = useRef<[React.RefObject<HTMLAudioElement>, React.RefObject<HTMLAudioElement>]>([deckARef, deckBRef]).current;
   const audioProcessorRef = useRef<AudioProcessor | null>(null);
+  // What the visuals analyse: the processor, a test signal or a recorded feature track
+  const featureSourceRef = useRef<AudioFeatureSource | null>(null);
+  const syntheticSourceRef = useRef<SyntheticFeatureSource | null>(null);
+  const featureRecorderRef = useRef<FeatureRecorder | null>(null);
+  // Connects the last live source again, for the retry action when it fails or is lost
+  const liveRetryRef = useRef<(() => void) | null>(null);
 
   const [isInitialized, setIsInitialized] = useState(false);
   const [audioSource, setAudioSource] = useState<AudioSource>(AudioSource.None);
+  const [audioState, setAudioState] = useState<AudioState>('idle');
+  const { notifications, notify, dismiss } = useNotifications();
   const [isFullscreen, setIsFullscreen] = useState(false);
+  const [currentFile, setCurrentFile] = useState<File | null>(null);
+  const [inputDevices, setInputDevices] = useState<AudioInputDevice[]>([]);
+  const [inputDeviceId, setInputDeviceId] = useState<string | null>(null);
+  const [isDraggingFiles, setIsDraggingFiles] = useState(false);
+  const [renderProgress, setRenderProgress] = useState<number | null>(null);
+  const renderAbortRef = useRef<AbortController | null>(null);
+  const [recordingStatus, setRecordingStatus] = useState<RecordingStatus>({ state: 'inactive', durationMs: 0, bytes: 0 });
+  const recorderRef = useRef<PerformanceRecorder | null>(null);
+  const recorderFrameUnsubscribeRef = useRef<(() => void) | null>(null);
+  const [quality, setQuality] = useState<QualitySettings>(loadQualitySettings);
+  const [qualityStats, setQualityStats] = useState<QualityStats | null>(null);
+  const [syntheticSettings, setSyntheticSettings] = useState<SyntheticSignalSettings>(DEFAULT_SYNTHETIC_SETTINGS);
+  const [recordedFeatureFrames, setRecordedFeatureFrames] = useState<number | null>(null);
+  const [remoteSettings, setRemoteSettings] = useState<RemoteSettings>(loadRemoteSettings);
+  const [keymap, setKeymap] = useState<Keymap>(loadKeymap);
+  const [isPerformanceMode, setIsPerformanceMode] = useState(false);
+  const [isCheatSheetOpen, setIsCheatSheetOpen] = useState(false);
+  const [isDebugHudOpen, setIsDebugHudOpen] = useState(false);
+  const [heldFlashes, setHeldFlashes] = useState<FlashAction[]>([]);
+  const [hotkeyMessage, setHotkeyMessage] = useState<string | null>(null);
+  const [particleImageName, setParticleImageName] = useState<string | null>(null);
   
   // --- STATE DEFINITIONS FOR CONTROLS ---
-  const [props, setProps] = useState<NeogenesisProps>({
-    isAudioReactive: true,
-    theme: Theme.Nebula,
-    particleSize: 1.0,
-    bassSensitivity: 1.0,
-    trebleSensitivity: 1.0,
-    noiseStrength: 0.1,
-    rotationSpeed: 0.2,
-    fieldOfView: 75,
-    bloomStrength: 0.5,
-    recursionDepth: 2,
-    showFractal: true,
-    fractalWireframe: false,
-    particleDistributionRadius: 10,
-    fractalLayerSpacing: 0.7,
-    fractalMetalness: 0.1,
-    fractalRoughness: 0.5,
-    fractalWaveAmplitude: 0.25,
-    fractalWaveSmoothing: 0.1,
-    cinematicCamera: false,
+  // A shared link wins over the last session, which wins over the defaults
+  const [props, setProps] = useState<NeogenesisProps>(() => {
+    const preset = readPresetFromHash() ?? loadCurrentPreset();
+    if (!preset) return DEFAULT_PROPS;
+    applyPresetTheme(preset);
+    return preset.props;
   });
 
   const updateProps = <K extends keyof NeogenesisProps>(key: K, value: NeogenesisProps[K]) => {
     setProps(prev => ({ ...prev, [key]: value }));
   };
+
+  const loadPreset = (preset: Preset) => {
+    applyPresetTheme(preset);
+    setProps(preset.props);
+  };
+
+  // Persist settings so they survive a reload (debounced: sliders fire on every step)
+  useEffect(() => {
+    const timeout = window.setTimeout(() => saveCurrentProps(props), 500);
+    return () => window.clearTimeout(timeout);
+  }, [props]);
+
+  useEffect(() => {
+    saveQualitySettings(quality);
+  }, [quality]);
+
+  useEffect(() => {
+    saveRemoteSettings(remoteSettings);
+  }, [remoteSettings]);
+
+  useEffect(() => {
+    saveKeymap(keymap);
+  }, [keymap]);
+
+  // Load presets from share links opened while the app is already running
+  useEffect(() => {
+    const handleHashChange = () => {
+      const preset = readPresetFromHash();
+      if (preset) loadPreset(preset);
+    };
+    window.addEventListener('hashchange', handleHashChange);
+    return () => window.removeEventListener('hashchange', handleHashChange);
+  }, []);
   
-  // Initialize AudioProcessor once
+  const showAudioError = useCallback((error: AudioError, retry?: () => void) => {
+    notify({ key: 'audio', message: error.message, action: retry && { label: 'Retry', run: retry } });
+  }, [notify]);
+
+  // Initialize AudioProcessor and the performance recorder once
   useEffect(() => {
     audioProcessorRef.current = new AudioProcessor();
+    audioProcessorRef.current.on('statechange', ({ state }) => {
+      setAudioState(state);
+      // A live input that failed or was lost is no longer the source
+      if (state === 'idle' || state === 'error') setAudioSource(prev => (isLiveSource(prev) ? AudioSource.None : prev));
+    });
+    audioProcessorRef.current.on('error', error => showAudioError(error, liveRetryRef.current ?? undefined));
+    // The processor may switch devices on its own when hardware is plugged in or removed
+    audioProcessorRef.current.on('inputchange', ({ devices, deviceId }) => {
+      setInputDevices(devices);
+      setInputDeviceId(deviceId);
+      setAudioSource(prev => (prev === AudioSource.Microphone || prev === AudioSource.InputDevice
+        ? (deviceId ? AudioSource.InputDevice : AudioSource.Microphone)
+        : prev));
+    });
+    recorderRef.current = new PerformanceRecorder(status => {
+      setRecordingStatus(status);
+      if (status.state === 'inactive') {
+        recorderFrameUnsubscribeRef.current?.();
+        recorderFrameUnsubscribeRef.current = null;
+      }
+    });
+    return () => {
+      audioProcessorRef.current?.dispose();
+      audioProcessorRef.current = null;
+    };
+  }, [showAudioError]);
+
+  // While the browser holds the context suspended, offer a way to resume it
+  useEffect(() => {
+    if (audioState !== 'suspended') {
+      dismiss('audio-suspended');
+      return;
+    }
+    const timeout = window.setTimeout(() => notify({
+      key: 'audio-suspended',
+      message: 'The browser paused audio. Click anywhere to resume it.',
+      action: { label: 'Resume', run: () => audioProcessorRef.current?.resume().catch(showAudioError) },
+    }), SUSPENDED_NOTICE_DELAY_MS);
+    return () => window.clearTimeout(timeout);
+  }, [audioState, notify, dismiss, showAudioError]);
+
+  // --- Feature Sources & Feature Recording ---
+  const stopFeatureRecording = useCallback(() => {
+    const recorder = featureRecorderRef.current;
+    if (!recorder) return;
+    featureRecorderRef.current = null;
+    setRecordedFeatureFrames(null);
+    if (featureSourceRef.current === recorder) featureSourceRef.current = recorder.getSource();
+    if (recorder.frameCount === 0) return;
+    const timestamp = new Date().toISOString().replace(/[:.]/g, '-');
+    downloadBlob(new Blob([serializeFeatureTrack(recorder.toTrack())], { type: 'application/json' }), `neogenesis-features-${timestamp}.json`);
   }, []);
 
-  const handleMicConnect = useCallback(async () => {
-    if (audioProcessorRef.current) {
-      await audioProcessorRef.current.connectMicrophone();
-      setAudioSource(AudioSource.Microphone);
+  // A recording can't span two sources (their clocks differ), so switching saves it first
+  const setFeatureSource = useCallback((source: AudioFeatureSource | null) => {
+    const recorder = featureRecorderRef.current;
+    if (recorder && recorder.getSource() === source) return;
+    stopFeatureRecording();
+    featureSourceRef.current = source;
+  }, [stopFeatureRecording]);
+
+  const handleToggleFeatureRecording = () => {
+    if (featureRecorderRef.current) {
+      stopFeatureRecording();
+    } else if (featureSourceRef.current) {
+      featureRecorderRef.current = new FeatureRecorder(featureSourceRef.current);
+      featureSourceRef.current = featureRecorderRef.current;
+      setRecordedFeatureFrames(0);
+    }
+  };
+
+  const isRecordingFeatures = recordedFeatureFrames !== null;
+  useEffect(() => {
+    if (!isRecordingFeatures) return;
+    const interval = window.setInterval(() => setRecordedFeatureFrames(featureRecorderRef.current?.frameCount ?? null), 250);
+    return () => window.clearInterval(interval);
+  }, [isRecordingFeatures]);
+
+  const handleTrackStarted = useCallback((track: PlaylistTrack) => {
+    setFeatureSource(audioProcessorRef.current);
+    setCurrentFile(track.file);
+    setAudioSource(AudioSource.File);
+    setIsInitialized(true);
+    dismiss('audio');
+  }, [setFeatureSource, dismiss]);
+
+  const handlePlaybackError = useCallback((error: AudioError, track: PlaylistTrack, retry: () => void) => {
+    // Trying a file that can't be decoded again won't help
+    notify({
+      key: 'audio',
+      message: `${track.title}: ${error.message}`,
+      action: error.reason === 'decodeFailure' ? undefined : { label: 'Retry', run: retry },
+    });
+  }, [notify]);
+
+  const playlist = usePlaylist(audioProcessorRef, deckRefs, handleTrackStarted, handlePlaybackError);
+
+  // The splash screen stays up until a source actually connects
+  const connectLiveSource = async (connect: (processor: AudioProcessor) => Promise<void>, source: AudioSource) => {
+    const processor = audioProcessorRef.current;
+    if (!processor) return;
+    const retry = () => { connectLiveSource(connect, source); };
+    try {
+      await connect(processor);
+      liveRetryRef.current = retry;
+      dismiss('audio');
+      setFeatureSource(processor);
+      playlist.pauseAll();
+      setAudioSource(source);
       setIsInitialized(true);
+    } catch (error) {
+      console.error("Could not connect audio input:", error);
+      showAudioError(toCaptureError(error), retry);
     }
-  }, []);
+  };
 
-  const handleFileChange = (event: React.ChangeEvent<HTMLInputElement>) => {
-    const file = event.target.files?.[0];
-    if (file && audioRef.current && audioProcessorRef.current) {
-      const url = URL.createObjectURL(file);
-      audioRef.current.src = url;
-      audioRef.current.load();
-      audioRef.current.play().then(() => {
-        audioProcessorRef.current?.connectFile(audioRef.current!);
-        setAudioSource(AudioSource.File);
-        setIsInitialized(true);
-      }).catch(error => console.error("Audio playback failed:", error));
+  const handleMicConnect = () =>
+    connectLiveSource(processor => processor.connectMicrophone(), AudioSource.Microphone);
+
+  const handleDeviceConnect = (deviceId: string | null) =>
+    connectLiveSource(processor => processor.connectInputDevice(deviceId), deviceId ? AudioSource.InputDevice : AudioSource.Microphone);
+
+  const handleSystemAudioConnect = () =>
+    connectLiveSource(processor => processor.connectSystemAudio(), AudioSource.SystemAudio);
+
+  const handleStreamConnect = (url: string) =>
+    connectLiveSource(processor => processor.connectStreamUrl(url), AudioSource.Stream);
+
+  const handleSyntheticSettingsChange = (settings: SyntheticSignalSettings) => {
+    setSyntheticSettings(settings);
+    syntheticSourceRef.current?.setSettings(settings);
+  };
+
+  const handleSyntheticStart = () => {
+    syntheticSourceRef.current = new SyntheticFeatureSource(syntheticSettings);
+    setFeatureSource(syntheticSourceRef.current);
+    playlist.pauseAll();
+    // Release the microphone rather than keep capturing what nothing analyses
+    audioProcessorRef.current?.disconnect();
+    setAudioSource(AudioSource.Synthetic);
+    setIsInitialized(true);
+  };
+
+  const handleFeatureTrackLoad = async (file: File) => {
+    try {
+      const track = parseFeatureTrack(await file.text());
+      setFeatureSource(new FeatureTrackPlayer(track));
+      playlist.pauseAll();
+      audioProcessorRef.current?.disconnect();
+      setAudioSource(AudioSource.FeatureTrack);
+      setIsInitialized(true);
+    } catch (error) {
+      console.error("Could not load feature track:", error);
+      notify({ key: 'feature-track', message: error instanceof Error ? error.message : 'Could not load the feature track.' });
     }
   };
 
+  const handleFileChange = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from<File>(event.target.files ?? []);
+    event.target.value = '';
+    playlist.addFiles(files.filter(isAudioFile), true);
+  };
+
+  // --- Drag and drop audio files onto the canvas ---
+  const handleDragOver = (event: React.DragEvent) => {
+    if (!event.dataTransfer.types.includes('Files')) return;
+    event.preventDefault();
+    setIsDraggingFiles(true);
+  };
+
+  const handleDrop = (event: React.DragEvent) => {
+    if (!event.dataTransfer.types.includes('Files')) return;
+    event.preventDefault();
+    setIsDraggingFiles(false);
+    // Dropping while a live input plays queues the files without taking over
+    playlist.addFiles(Array.from<File>(event.dataTransfer.files).filter(isAudioFile), !isLiveSource(audioSource));
+  };
+
   const toggleFullscreen = () => {
     if (!document.fullscreenElement) {
       document.documentElement.requestFullscreen().catch(err => {
-        alert(`Error attempting to enable full-screen mode: ${err.message} (${err.name})`);
+        notify({ key: 'fullscreen', message: `Error attempting to enable full-screen mode: ${err.message} (${err.name})` });
       });
     } else {
       document.exitFullscreen();
@@ -87,33 +321,228 @@ const App: React.FC = () => {
   }, []);
 
 
-  useNeogenesis(canvasRef, props, audioProcessorRef);
+  // Held flash keys change what's rendered without touching the saved (or broadcast) props
+  const visualProps = useMemo(() => applyFlashes(props, heldFlashes), [props, heldFlashes]);
+  const sceneHandleRef = useNeogenesis(canvasRef, visualProps, featureSourceRef, quality, setQualityStats);
+  const remoteStatus = useRemoteControl(
+    remoteSettings,
+    props,
+    setProps,
+    () => sceneHandleRef.current?.tap() ?? 0,
+    () => sceneHandleRef.current?.getTapTempo() ?? 0,
+  );
+
+  // The image stays on this machine: it's too large for presets and share links
+  const handleParticleImageLoad = async (file: File) => {
+    const mask = await loadImageMask(file);
+    sceneHandleRef.current?.setParticleImage(mask);
+    setParticleImageName(file.name);
+  };
+
+  // --- Performance Mode & Hotkeys ---
+  useEffect(() => {
+    if (!hotkeyMessage) return;
+    const timeout = window.setTimeout(() => setHotkeyMessage(null), 1500);
+    return () => window.clearTimeout(timeout);
+  }, [hotkeyMessage]);
+
+  const handleHotkeyPress = (action: HotkeyAction) => {
+    const definition = getHotkeyAction(action);
+    if (definition.momentary) {
+      setHeldFlashes(prev => (prev.includes(action as FlashAction) ? prev : [...prev, action as FlashAction]));
+      return;
+    }
+    const presetSlot = getPresetSlot(action);
+    if (presetSlot >= 0) {
+      const preset = listPresets()[presetSlot];
+      if (preset) loadPreset(preset);
+      setHotkeyMessage(preset ? preset.name : `No preset in slot ${presetSlot + 1}`);
+      return;
+    }
+    switch (action) {
+      case 'togglePerformanceMode':
+        setIsPerformanceMode(prev => !prev);
+        setHotkeyMessage(isPerformanceMode ? null : `Performance mode · ${formatKeyCombo(keymap.togglePerformanceMode)} to exit · ${formatKeyCombo(keymap.toggleCheatSheet)} for shortcuts`);
+        return;
+      case 'toggleCheatSheet':
+        setIsCheatSheetOpen(prev => !prev);
+        return;
+      case 'toggleDebugHud':
+        setIsDebugHudOpen(prev => !prev);
+        return;
+      case 'tapTempo': {
+        const bpm = sceneHandleRef.current?.tap() ?? 0;
+        setHotkeyMessage(bpm > 0 ? `${bpm.toFixed(1)} BPM` : 'Tap…');
+        return;
+      }
+      case 'clearTapTempo':
+        sceneHandleRef.current?.clearTapTempo();
+        setHotkeyMessage('Following the detected beat');
+        return;
+    }
+    const next = applyHotkeyAction(props, action, listThemes().map(theme => theme.id));
+    if (!next) return;
+    setProps(prev => applyHotkeyAction(prev, action, listThemes().map(theme => theme.id)) ?? prev);
+    switch (action) {
+      case 'nextTheme':
+      case 'previousTheme':
+        setHotkeyMessage(getTheme(next.theme).name);
+        break;
+      case 'bloomUp':
+      case 'bloomDown':
+        setHotkeyMessage(`Bloom ${next.bloomStrength.toFixed(1)}`);
+        break;
+      case 'sensitivityUp':
+      case 'sensitivityDown':
+        setHotkeyMessage(`Sensitivity ${getSensitivity(next).toFixed(1)}×`);
+        break;
+      default: {
+        const enabled = action === 'togglePlanet' ? next.showFractal : action === 'toggleWireframe' ? next.fractalWireframe : next.cinematicCamera;
+        setHotkeyMessage(`${definition.label} ${enabled ? 'on' : 'off'}`);
+      }
+    }
+  };
+
+  const handleHotkeyRelease = (action: HotkeyAction) => {
+    setHeldFlashes(prev => prev.filter(flash => flash !== action));
+  };
+
+  useHotkeys(keymap, handleHotkeyPress, handleHotkeyRelease);
+
+  const handleOfflineRender = async (options: OfflineRenderOptions) => {
+    const target = sceneHandleRef.current;
+    if (!currentFile || !target || renderAbortRef.current) return;
+    let sink: FrameSink;
+    try {
+      // The folder picker needs the click's user activation, so it goes first
+      sink = options.format === 'png' ? await createPngSequenceSink() : createWebMSink(options, offlineRenderFilename(currentFile));
+    } catch (error) {
+      // Closing the folder picker is the user's own cancel
+      if (error instanceof DOMException && error.name === 'AbortError') return;
+      console.error("Could not start offline render:", error);
+      notify({ key: 'offline-render', message: `Could not start the export: ${error instanceof Error ? error.message : String(error)}` });
+      return;
+    }
+
+    playlist.pauseAll();
+    const abort = new AbortController();
+    renderAbortRef.current = abort;
+    setRenderProgress(0);
+    try {
+      await renderOffline(currentFile, target, sink, options, (frame, total) => setRenderProgress(frame / total), abort.signal);
+    } catch (error) {
+      if (!abort.signal.aborted) {
+        console.error("Offline render failed:", error);
+        notify({ key: 'offline-render', message: `Export failed: ${error instanceof Error ? error.message : String(error)}` });
+      }
+    } finally {
+      renderAbortRef.current = null;
+      setRenderProgress(null);
+    }
+  };
+
+  const handleCancelOfflineRender = () => {
+    renderAbortRef.current?.abort();
+  };
+
+  const handleStartRecording = (options: RecordingOptions) => {
+    const scene = sceneHandleRef.current;
+    const recorder = recorderRef.current;
+    if (!scene || !recorder) return;
+    const audioStream = audioProcessorRef.current?.getRecordingStream() ?? null;
+    const timestamp = new Date().toISOString().replace(/[:.]/g, '-');
+    recorder.start(scene.canvas, audioStream, options, `neogenesis-${timestamp}.webm`);
+    recorderFrameUnsubscribeRef.current = scene.onFrameRendered(() => recorder.captureFrame(scene.canvas));
+  };
 
   return (
-    <div className="w-screen h-screen bg-black text-gray-200 font-sans">
-      <ControlsPanel 
-        props={props}
-        updateProps={updateProps}
-        onMicConnect={handleMicConnect}
-        onFileChange={handleFileChange}
-        audioSource={audioSource}
-      />
-      <button 
-        onClick={toggleFullscreen}
-        className="absolute top-4 right-4 z-20 p-2 bg-black bg-opacity-40 rounded-full text-white hover:bg-opacity-60 transition-colors"
-        aria-label={isFullscreen ? 'Exit full screen' : 'Enter full screen'}
-      >
-        {isFullscreen ? <FullscreenExitIcon /> : <FullscreenEnterIcon />}
-      </button>
+    <div
+      className={`w-screen h-screen bg-black text-gray-200 font-sans ${isPerformanceMode ? 'cursor-none' : ''}`}
+      onDragOver={handleDragOver}
+      onDragLeave={(e) => { if (e.currentTarget === e.target) setIsDraggingFiles(false); }}
+      onDrop={handleDrop}
+    >
+      <div className={isPerformanceMode ? 'hidden' : 'contents'}>
+        <ControlsPanel 
+          props={props}
+          updateProps={updateProps}
+          onLoadPreset={loadPreset}
+          onMicConnect={handleMicConnect}
+          onFileChange={handleFileChange}
+          audioSource={audioSource}
+          playlist={playlist}
+          inputDevices={inputDevices}
+          inputDeviceId={inputDeviceId}
+          onDeviceConnect={handleDeviceConnect}
+          onSystemAudioConnect={handleSystemAudioConnect}
+          onStreamConnect={handleStreamConnect}
+          particleImageName={particleImageName}
+          onParticleImageLoad={handleParticleImageLoad}
+          onCaptureCameraView={() => sceneHandleRef.current?.getCameraView() ?? null}
+          onPreviewCameraKeyframe={keyframe => sceneHandleRef.current?.setCameraView(keyframe.position, keyframe.target)}
+          onReleaseCamera={() => sceneHandleRef.current?.releaseCamera()}
+          syntheticSettings={syntheticSettings}
+          onSyntheticSettingsChange={handleSyntheticSettingsChange}
+          onSyntheticStart={handleSyntheticStart}
+          onFeatureTrackLoad={handleFeatureTrackLoad}
+          recordedFeatureFrames={recordedFeatureFrames}
+          onToggleFeatureRecording={handleToggleFeatureRecording}
+          quality={quality}
+          qualityStats={qualityStats}
+          onQualityChange={setQuality}
+          remoteSettings={remoteSettings}
+          remoteStatus={remoteStatus}
+          onRemoteSettingsChange={setRemoteSettings}
+          canOfflineRender={currentFile !== null}
+          offlineRenderProgress={renderProgress}
+          onOfflineRender={handleOfflineRender}
+          onCancelOfflineRender={handleCancelOfflineRender}
+          recordingStatus={recordingStatus}
+          onStartRecording={handleStartRecording}
+          onPauseRecording={() => recorderRef.current?.pause()}
+          onResumeRecording={() => recorderRef.current?.resume()}
+          onStopRecording={() => recorderRef.current?.stop()}
+          onEnterPerformanceMode={() => handleHotkeyPress('togglePerformanceMode')}
+          onShowHotkeys={() => setIsCheatSheetOpen(true)}
+          isDebugHudOpen={isDebugHudOpen}
+          onDebugHudChange={setIsDebugHudOpen}
+        />
+        <button 
+          onClick={toggleFullscreen}
+          className="absolute top-4 right-4 z-20 p-2 bg-black bg-opacity-40 rounded-full text-white hover:bg-opacity-60 transition-colors"
+          aria-label={isFullscreen ? 'Exit full screen' : 'Enter full screen'}
+        >
+          {isFullscreen ? <FullscreenExitIcon /> : <FullscreenEnterIcon />}
+        </button>
+      </div>
 
       <canvas ref={canvasRef} className="absolute top-0 left-0 w-full h-full" />
-      <audio 
-        ref={audioRef} 
-        loop 
-        controls 
-        crossOrigin="anonymous" 
-        className={`absolute bottom-4 left-1/2 -translate-x-1/2 z-20 w-11/12 max-w-md transition-opacity duration-500 ${audioSource === AudioSource.File ? 'opacity-100' : 'opacity-0 pointer-events-none'}`}
-      />
+      {deckRefs.map((deckRef, i) => (
+        <audio
+          key={i}
+          ref={deckRef}
+          controls
+          crossOrigin="anonymous"
+          className={`absolute bottom-4 left-1/2 -translate-x-1/2 z-20 w-11/12 max-w-md transition-opacity duration-500 ${audioSource === AudioSource.File && playlist.activeDeck === i && !isPerformanceMode ? 'opacity-100' : 'opacity-0 pointer-events-none'}`}
+        />
+      ))}
+      {hotkeyMessage && (
+        <div className="absolute bottom-20 left-1/2 -translate-x-1/2 z-30 px-4 py-2 rounded-lg bg-black bg-opacity-60 text-white text-sm font-medium pointer-events-none whitespace-nowrap">
+          {hotkeyMessage}
+        </div>
+      )}
+      <NotificationList notifications={notifications} onDismiss={dismiss} />
+      {isDebugHudOpen && (
+        <DebugHud engineRef={sceneHandleRef} onClose={() => setIsDebugHudOpen(false)} />
+      )}
+      {isCheatSheetOpen && (
+        <HotkeyCheatSheet keymap={keymap} onChange={setKeymap} onClose={() => setIsCheatSheetOpen(false)} />
+      )}
+      {isDraggingFiles && (
+        <div className="absolute inset-4 z-30 border-4 border-dashed border-purple-500 rounded-xl flex items-center justify-center pointer-events-none bg-black bg-opacity-40">
+          <p className="text-2xl font-bold text-white">Drop audio files to add them to the playlist</p>
+        </div>
+      )}
       
       {!isInitialized && (
         <div className="absolute inset-0 bg-black bg-opacity-80 flex flex-col justify-center items-center z-20 backdrop-blur-sm">
@@ -125,13 +554,13 @@ const App: React.FC = () => {
             </h1>
             <p className="text-gray-300 mb-8 text-lg">An Interactive Audio-Reactive Visualizer</p>
             <div className="flex flex-col sm:flex-row gap-4 justify-center">
-              <button onClick={handleMicConnect} className="flex items-center justify-center gap-2 bg-purple-600 hover:bg-purple-700 text-white font-bold py-3 px-6 rounded-lg transition-transform transform hover:scale-105 shadow-lg">
-                <MicIcon /> Use Microphone
+              <button onClick={handleMicConnect} disabled={audioState === 'requesting'} className="flex items-center justify-center gap-2 bg-purple-600 hover:bg-purple-700 disabled:opacity-60 disabled:cursor-wait text-white font-bold py-3 px-6 rounded-lg transition-transform transform hover:scale-105 shadow-lg">
+                <MicIcon /> {audioState === 'requesting' ? 'Waiting for Permission…' : 'Use Microphone'}
               </button>
               <label htmlFor="audio-upload" className="flex items-center justify-center gap-2 bg-pink-500 hover:bg-pink-600 text-white font-bold py-3 px-6 rounded-lg transition-transform transform hover:scale-105 shadow-lg cursor-pointer">
                 <UploadIcon /> Upload Audio
               </label>
-              <input id="audio-upload" type="file" accept="audio/*" onChange={handleFileChange} className="hidden" />
+              <input id="audio-upload" type="file" accept="audio/*" multiple onChange={handleFileChange} className="hidden" />
             </div>
           </div>
         </div>
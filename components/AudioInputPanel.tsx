@@ -0,0 +1,67 @@
+import React, { useState } from 'react';
+import { AudioInputDevice, AudioSource } from '../types';
+
+interface AudioInputPanelProps {
+  audioSource: AudioSource;
+  devices: AudioInputDevice[];
+  deviceId: string | null;
+  onDeviceConnect: (deviceId: string | null) => void;
+  onSystemAudioConnect: () => void;
+  onStreamConnect: (url: string) => void;
+}
+
+const inputClass = 'w-full bg-gray-700 text-white rounded-md p-2 text-sm border border-gray-600 focus:outline-none focus:ring-2 focus:ring-purple-500';
+const buttonClass = 'text-xs font-bold py-2 px-2 rounded-md disabled:text-gray-500 disabled:cursor-not-allowed';
+
+const isSystemAudioSupported = () => typeof navigator !== 'undefined' && !!navigator.mediaDevices?.getDisplayMedia;
+
+export const AudioInputPanel: React.FC<AudioInputPanelProps> = ({ audioSource, devices, deviceId, onDeviceConnect, onSystemAudioConnect, onStreamConnect }) => {
+    const [streamUrl, setStreamUrl] = useState('');
+    const isLiveInput = audioSource === AudioSource.Microphone || audioSource === AudioSource.InputDevice;
+
+    const handleStreamSubmit = (event: React.FormEvent) => {
+        event.preventDefault();
+        if (streamUrl.trim()) onStreamConnect(streamUrl.trim());
+    };
+
+    return (
+        <div className="mb-4">
+            <div className="mb-2">
+                <label htmlFor="input-device-select" className="block text-sm font-medium text-gray-300 mb-1">Input Device</label>
+                <select
+                    id="input-device-select"
+                    value={isLiveInput ? deviceId ?? '' : ''}
+                    onChange={(e) => onDeviceConnect(e.target.value || null)}
+                    className={inputClass}
+                >
+                    <option value="">Default input</option>
+                    {devices.map((device, i) => (
+                        <option key={device.deviceId} value={device.deviceId}>{device.label || `Input ${i + 1}`}</option>
+                    ))}
+                </select>
+            </div>
+
+            <button
+                onClick={onSystemAudioConnect}
+                disabled={!isSystemAudioSupported()}
+                className={`${buttonClass} w-full mb-2 ${audioSource === AudioSource.SystemAudio ? 'bg-purple-600' : 'bg-gray-700 hover:bg-gray-600'}`}
+            >
+                Tab / System Audio
+            </button>
+
+            <form onSubmit={handleStreamSubmit} className="flex gap-2">
+                <input
+                    type="url"
+                    value={streamUrl}
+                    onChange={(e) => setStreamUrl(e.target.value)}
+                    placeholder="https://… stream URL"
+                    className={inputClass}
+                    aria-label="Stream URL"
+                />
+                <button type="submit" disabled={!streamUrl.trim()} className={`${buttonClass} ${audioSource === AudioSource.Stream ? 'bg-purple-600' : 'bg-gray-700 hover:bg-gray-600'}`}>
+                    Connect
+                </button>
+            </form>
+        </div>
+    );
+};
@@ -0,0 +1,75 @@
+import React, { useState } from 'react';
+import { BandRole, BandScale, FrequencyBand } from '../types';
+import { DEFAULT_BANDS, createBandPreset } from '../services/frequencyBands';
+import { ControlSlider } from './ControlPrimitives';
+
+interface BandEditorProps {
+  bands: FrequencyBand[];
+  onChange: (bands: FrequencyBand[]) => void;
+}
+
+const ROLES: BandRole[] = ['bass', 'mids', 'treble', 'none'];
+
+const inputClass = 'w-full bg-gray-700 text-white rounded-md px-2 py-1 text-xs border border-gray-600 focus:outline-none focus:ring-2 focus:ring-purple-500';
+
+export const BandEditor: React.FC<BandEditorProps> = ({ bands, onChange }) => {
+    const [scale, setScale] = useState<BandScale | 'default'>('default');
+    const [count, setCount] = useState(6);
+
+    const updateBand = (index: number, patch: Partial<FrequencyBand>) => {
+        onChange(bands.map((band, i) => (i === index ? { ...band, ...patch } : band)));
+    };
+
+    const removeBand = (index: number) => {
+        onChange(bands.filter((_, i) => i !== index));
+    };
+
+    const addBand = () => {
+        const last = bands[bands.length - 1];
+        const minHz = last ? last.maxHz : 20;
+        const maxHz = Math.min(20000, minHz * 2);
+        onChange([...bands, { id: `custom-${Date.now()}`, label: 'Custom', minHz, maxHz, gain: 1.0, role: 'none' }]);
+    };
+
+    const applyPreset = () => {
+        onChange(scale === 'default' ? DEFAULT_BANDS : createBandPreset(scale, count));
+    };
+
+    return (
+        <div>
+            <div className="flex gap-2 mb-3">
+                <select value={scale} onChange={(e) => setScale(e.target.value as BandScale | 'default')} className={inputClass} aria-label="Band preset">
+                    <option value="default">Bass / Mids / Treble</option>
+                    <option value="log">Logarithmic</option>
+                    <option value="mel">Mel</option>
+                    <option value="octave">Octave</option>
+                </select>
+                {(scale === 'log' || scale === 'mel') && (
+                    <input type="number" min={2} max={16} value={count} onChange={(e) => setCount(Math.max(2, Math.min(16, parseInt(e.target.value, 10) || 2)))} className={`${inputClass} w-14`} aria-label="Band count" />
+                )}
+                <button onClick={applyPreset} className="text-xs font-bold py-1 px-3 rounded-md bg-gray-700 hover:bg-gray-600">Apply</button>
+            </div>
+
+            {bands.map((band, i) => (
+                <div key={band.id} className="mb-3 p-2 rounded-md bg-gray-800 bg-opacity-60">
+                    <div className="flex gap-2 mb-2">
+                        <input value={band.label} onChange={(e) => updateBand(i, { label: e.target.value })} className={inputClass} aria-label="Band label" />
+                        <select value={band.role} onChange={(e) => updateBand(i, { role: e.target.value as BandRole })} className={`${inputClass} w-24`} aria-label="Band role">
+                            {ROLES.map(role => (<option key={role} value={role}>{role}</option>))}
+                        </select>
+                        <button onClick={() => removeBand(i)} className="text-xs px-2 rounded-md bg-gray-700 hover:bg-red-600" aria-label={`Remove ${band.label}`}>✕</button>
+                    </div>
+                    <div className="flex items-center gap-2 mb-2 text-xs text-gray-400">
+                        <input type="number" min={1} max={22050} value={band.minHz} onChange={(e) => updateBand(i, { minHz: parseFloat(e.target.value) || 0 })} className={inputClass} aria-label="Minimum frequency (Hz)" />
+                        <span>–</span>
+                        <input type="number" min={1} max={22050} value={band.maxHz} onChange={(e) => updateBand(i, { maxHz: parseFloat(e.target.value) || 0 })} className={inputClass} aria-label="Maximum frequency (Hz)" />
+                        <span>Hz</span>
+                    </div>
+                    <ControlSlider label="Gain" value={band.gain} min={0} max={3.0} step={0.1} onChange={val => updateBand(i, { gain: val })} />
+                </div>
+            ))}
+
+            <button onClick={addBand} className="w-full text-xs font-bold py-2 rounded-md bg-gray-700 hover:bg-gray-600">+ Add Band</button>
+        </div>
+    );
+};
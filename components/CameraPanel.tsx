@@ -0,0 +1,96 @@
+import React from 'react';
+import { CameraEasing, CameraKeyframe, CameraView, NeogenesisProps } from '../types';
+import { PROP_CONTROLS } from '../services/controlDefinitions';
+import { CAMERA_EASINGS, CAMERA_KEYFRAME_DURATION, MAX_CAMERA_KEYFRAMES, getPathDuration } from '../services/cameraPrograms';
+import { PropControl } from './PropControl';
+
+interface CameraPanelProps {
+  props: NeogenesisProps;
+  updateProps: <K extends keyof NeogenesisProps>(key: K, value: NeogenesisProps[K]) => void;
+  onCaptureView: () => CameraView | null;
+  onPreviewKeyframe: (keyframe: CameraKeyframe) => void;
+  // Hands the camera straight back to the program, skipping the idle timeout
+  onReleaseCamera: () => void;
+}
+
+const inputClass = 'w-full bg-gray-700 text-white rounded-md px-2 py-1 text-xs border border-gray-600 focus:outline-none focus:ring-2 focus:ring-purple-500';
+const buttonClass = 'text-xs px-2 py-1 rounded-md bg-gray-700 hover:bg-gray-600 disabled:opacity-30 disabled:hover:bg-gray-700';
+
+const round = (value: number) => Math.round(value * 1000) / 1000;
+
+export const CameraPanel: React.FC<CameraPanelProps> = ({ props, updateProps, onCaptureView, onPreviewKeyframe, onReleaseCamera }) => {
+    const path = props.cameraPath;
+
+    const setPath = (next: CameraKeyframe[]) => updateProps('cameraPath', next);
+
+    const updateKeyframe = (index: number, patch: Partial<CameraKeyframe>) => {
+        setPath(path.map((keyframe, i) => (i === index ? { ...keyframe, ...patch } : keyframe)));
+    };
+
+    const moveKeyframe = (index: number, offset: -1 | 1) => {
+        const next = [...path];
+        [next[index], next[index + offset]] = [next[index + offset], next[index]];
+        setPath(next);
+    };
+
+    // The new keyframe takes the timing of the last one, so a path can be laid down view by view
+    const captureKeyframe = () => {
+        const view = onCaptureView();
+        if (!view) return;
+        const previous = path[path.length - 1];
+        setPath([...path, {
+            position: view.position.map(round) as CameraKeyframe['position'],
+            target: view.target.map(round) as CameraKeyframe['target'],
+            fov: round(view.fov),
+            duration: previous?.duration ?? CAMERA_KEYFRAME_DURATION.default,
+            easing: previous?.easing ?? 'easeInOut',
+        }]);
+    };
+
+    const playPath = () => {
+        updateProps('cameraProgram', 'path');
+        if (!props.cinematicCamera) updateProps('cinematicCamera', true);
+        onReleaseCamera();
+    };
+
+    return (
+        <div>
+            <PropControl control={PROP_CONTROLS.cinematicCamera} props={props} updateProps={updateProps} />
+            <PropControl control={PROP_CONTROLS.cameraProgram} props={props} updateProps={updateProps} />
+            <PropControl control={PROP_CONTROLS.cameraCuts} props={props} updateProps={updateProps} />
+            {props.cameraCuts && (
+                <PropControl control={PROP_CONTROLS.cameraCutBeats} props={props} updateProps={updateProps} />
+            )}
+            <PropControl control={PROP_CONTROLS.cameraIdleTimeout} props={props} updateProps={updateProps} />
+
+            <div className="mb-3 p-2 rounded-md bg-gray-800 bg-opacity-60">
+                <div className="flex justify-between items-center mb-2">
+                    <span className="text-sm font-medium text-gray-300">Keyframe Path</span>
+                    <span className="text-xs font-mono text-gray-400">{path.length > 1 ? `${getPathDuration(path, props.cameraPathLoop).toFixed(1)} s` : ''}</span>
+                </div>
+                {path.length === 0 && (
+                    <p className="mb-2 text-xs text-gray-400">Drag the view into place and capture it. Two or more keyframes make a path.</p>
+                )}
+                {path.map((keyframe, i) => (
+                    <div key={i} className="flex gap-1 mb-2 items-center">
+                        <button onClick={() => onPreviewKeyframe(keyframe)} className={`${buttonClass} font-mono`} title="Jump to this view">{i + 1}</button>
+                        <input type="number" min={CAMERA_KEYFRAME_DURATION.min} max={CAMERA_KEYFRAME_DURATION.max} step={0.5} value={keyframe.duration}
+                            onChange={(e) => updateKeyframe(i, { duration: Math.min(CAMERA_KEYFRAME_DURATION.max, Math.max(CAMERA_KEYFRAME_DURATION.min, parseFloat(e.target.value) || CAMERA_KEYFRAME_DURATION.min)) })}
+                            className={inputClass} aria-label={`Seconds to the keyframe after ${i + 1}`} title="Seconds to the next keyframe" />
+                        <select value={keyframe.easing} onChange={(e) => updateKeyframe(i, { easing: e.target.value as CameraEasing })} className={inputClass} aria-label={`Easing after keyframe ${i + 1}`}>
+                            {CAMERA_EASINGS.map(easing => (<option key={easing.value} value={easing.value}>{easing.label}</option>))}
+                        </select>
+                        <button onClick={() => moveKeyframe(i, -1)} disabled={i === 0} className={buttonClass} aria-label={`Move keyframe ${i + 1} up`}>↑</button>
+                        <button onClick={() => moveKeyframe(i, 1)} disabled={i === path.length - 1} className={buttonClass} aria-label={`Move keyframe ${i + 1} down`}>↓</button>
+                        <button onClick={() => setPath(path.filter((_, j) => j !== i))} className="text-xs px-2 py-1 rounded-md bg-gray-700 hover:bg-red-600" aria-label={`Remove keyframe ${i + 1}`}>✕</button>
+                    </div>
+                ))}
+                <PropControl control={PROP_CONTROLS.cameraPathLoop} props={props} updateProps={updateProps} />
+                <div className="grid grid-cols-2 gap-2">
+                    <button onClick={captureKeyframe} disabled={path.length >= MAX_CAMERA_KEYFRAMES} className="text-xs font-bold py-2 rounded-md bg-gray-700 hover:bg-gray-600 disabled:opacity-50">+ Capture View</button>
+                    <button onClick={playPath} disabled={path.length < 2} className="text-xs font-bold py-2 rounded-md bg-purple-600 hover:bg-purple-700 disabled:opacity-50 disabled:hover:bg-purple-600">Play Path</button>
+                </div>
+            </div>
+        </div>
+    );
+};
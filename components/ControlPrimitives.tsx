@@ -0,0 +1,34 @@
+import React from 'react';
+
+export const ControlSlider: React.FC<{ label: string; value: number; min: number; max: number; step: number; onChange: (val: number) => void; precision?: number }> = ({ label, value, min, max, step, onChange, precision = 2 }) => (
+    <div className="mb-3">
+        <label className="block text-sm font-medium text-gray-300 mb-1">{label}</label>
+        <div className="flex items-center gap-2">
+            <input
+                type="range"
+                min={min}
+                max={max}
+                step={step}
+                value={value}
+                onChange={(e) => onChange(parseFloat(e.target.value))}
+                className="w-full h-2 bg-gray-600 rounded-lg appearance-none cursor-pointer"
+            />
+            <span className="text-xs font-mono bg-gray-700 text-white rounded px-2 py-1 w-14 text-center">{value.toFixed(precision)}</span>
+        </div>
+    </div>
+);
+
+export const ToggleSwitch: React.FC<{ label: string; checked: boolean; onChange: (val: boolean) => void; }> = ({ label, checked, onChange }) => (
+    <div className="flex justify-between items-center mb-3">
+        <label htmlFor={`${label}-toggle`} className="text-sm font-medium text-gray-300">{label}</label>
+        <button
+            id={`${label}-toggle`}
+            role="switch"
+            aria-checked={checked}
+            onClick={() => onChange(!checked)}
+            className={`relative inline-flex items-center h-6 rounded-full w-11 transition-colors ${checked ? 'bg-green-500' : 'bg-gray-600'}`}
+        >
+            <span className={`inline-block w-4 h-4 transform bg-white rounded-full transition-transform ${checked ? 'translate-x-6' : 'translate-x-1'}`} />
+        </button>
+    </div>
+);
@@ -1,50 +1,84 @@
 import React, { useState } from 'react';
-import { NeogenesisProps, AudioSource, Theme } from '../types';
+import { NeogenesisProps, AudioSource, AudioInputDevice, CameraKeyframe, CameraView } from '../types';
 import { UploadIcon, MicIcon, ChevronDownIcon, ChevronUpIcon } from './IconComponents';
+import { BandEditor } from './BandEditor';
+import { PresetPanel } from './PresetPanel';
+import { Preset } from '../services/presets';
+import { ModulationPanel } from './ModulationPanel';
+import { PostEffectsPanel } from './PostEffectsPanel';
+import { CameraPanel } from './CameraPanel';
+import { ThemeEditor } from './ThemeEditor';
+import { useThemes } from '../hooks/useThemes';
+import { ExportPanel } from './ExportPanel';
+import { OfflineRenderOptions } from '../services/offlineRenderer';
+import { RecordingPanel } from './RecordingPanel';
+import { RecordingOptions, RecordingStatus } from '../services/PerformanceRecorder';
+import { PlaylistPanel } from './PlaylistPanel';
+import { AudioInputPanel } from './AudioInputPanel';
+import { PROP_CONTROLS } from '../services/controlDefinitions';
+import { PropControl } from './PropControl';
+import { ToggleSwitch } from './ControlPrimitives';
+import { FractalGeneratorPanel } from './FractalGeneratorPanel';
+import { FractalLayersPanel } from './FractalLayersPanel';
+import { ParticleShapePanel } from './ParticleShapePanel';
+import { QualityPanel } from './QualityPanel';
+import { QualitySettings } from '../services/quality';
+import { QualityStats } from '../hooks/useNeogenesis';
+import { PlaylistControls } from '../hooks/usePlaylist';
+import { TestSignalPanel } from './TestSignalPanel';
+import { SyntheticSignalSettings } from '../services/SyntheticFeatureSource';
+import { RemotePanel } from './RemotePanel';
+import { RemoteSettings } from '../services/RemoteConnection';
+import { RemoteControlStatus } from '../hooks/useRemoteControl';
 
 interface ControlsPanelProps {
   props: NeogenesisProps;
   updateProps: <K extends keyof NeogenesisProps>(key: K, value: NeogenesisProps[K]) => void;
+  onLoadPreset: (preset: Preset) => void;
   onMicConnect: () => void;
   onFileChange: (event: React.ChangeEvent<HTMLInputElement>) => void;
   audioSource: AudioSource;
+  playlist: PlaylistControls;
+  inputDevices: AudioInputDevice[];
+  inputDeviceId: string | null;
+  onDeviceConnect: (deviceId: string | null) => void;
+  onSystemAudioConnect: () => void;
+  onStreamConnect: (url: string) => void;
+  particleImageName: string | null;
+  onParticleImageLoad: (file: File) => Promise<void>;
+  onCaptureCameraView: () => CameraView | null;
+  onPreviewCameraKeyframe: (keyframe: CameraKeyframe) => void;
+  onReleaseCamera: () => void;
+  syntheticSettings: SyntheticSignalSettings;
+  onSyntheticSettingsChange: (settings: SyntheticSignalSettings) => void;
+  onSyntheticStart: () => void;
+  onFeatureTrackLoad: (file: File) => void;
+  recordedFeatureFrames: number | null;
+  onToggleFeatureRecording: () => void;
+  quality: QualitySettings;
+  qualityStats: QualityStats | null;
+  onQualityChange: (settings: QualitySettings) => void;
+  remoteSettings: RemoteSettings;
+  remoteStatus: RemoteControlStatus;
+  onRemoteSettingsChange: (settings: RemoteSettings) => void;
+  canOfflineRender: boolean;
+  offlineRenderProgress: number | null;
+  onOfflineRender: (options: OfflineRenderOptions) => void;
+  onCancelOfflineRender: () => void;
+  recordingStatus: RecordingStatus;
+  onStartRecording: (options: RecordingOptions) => void;
+  onPauseRecording: () => void;
+  onResumeRecording: () => void;
+  onStopRecording: () => void;
+  onEnterPerformanceMode: () => void;
+  onShowHotkeys: () => void;
+  isDebugHudOpen: boolean;
+  onDebugHudChange: (open: boolean) => void;
 }
 
-const ControlSlider: React.FC<{ label: string; value: number; min: number; max: number; step: number; onChange: (val: number) => void; precision?: number }> = ({ label, value, min, max, step, onChange, precision = 2 }) => (
-    <div className="mb-3">
-        <label className="block text-sm font-medium text-gray-300 mb-1">{label}</label>
-        <div className="flex items-center gap-2">
-            <input
-                type="range"
-                min={min}
-                max={max}
-                step={step}
-                value={value}
-                onChange={(e) => onChange(parseFloat(e.target.value))}
-                className="w-full h-2 bg-gray-600 rounded-lg appearance-none cursor-pointer"
-            />
-            <span className="text-xs font-mono bg-gray-700 text-white rounded px-2 py-1 w-14 text-center">{value.toFixed(precision)}</span>
-        </div>
-    </div>
-);
-
-const ToggleSwitch: React.FC<{ label: string; checked: boolean; onChange: (val: boolean) => void; }> = ({ label, checked, onChange }) => (
-    <div className="flex justify-between items-center mb-3">
-        <label htmlFor={`${label}-toggle`} className="text-sm font-medium text-gray-300">{label}</label>
-        <button
-            id={`${label}-toggle`}
-            role="switch"
-            aria-checked={checked}
-            onClick={() => onChange(!checked)}
-            className={`relative inline-flex items-center h-6 rounded-full w-11 transition-colors ${checked ? 'bg-green-500' : 'bg-gray-600'}`}
-        >
-            <span className={`inline-block w-4 h-4 transform bg-white rounded-full transition-transform ${checked ? 'translate-x-6' : 'translate-x-1'}`} />
-        </button>
-    </div>
-);
-
-export const ControlsPanel: React.FC<ControlsPanelProps> = ({ props, updateProps, onMicConnect, onFileChange, audioSource }) => {
+export const ControlsPanel: React.FC<ControlsPanelProps> = ({ props, updateProps, onLoadPreset, onMicConnect, onFileChange, audioSource, playlist, inputDevices, inputDeviceId, onDeviceConnect, onSystemAudioConnect, onStreamConnect, particleImageName, onParticleImageLoad, onCaptureCameraView, onPreviewCameraKeyframe, onReleaseCamera, syntheticSettings, onSyntheticSettingsChange, onSyntheticStart, onFeatureTrackLoad, recordedFeatureFrames, onToggleFeatureRecording, quality, qualityStats, onQualityChange, remoteSettings, remoteStatus, onRemoteSettingsChange, canOfflineRender, offlineRenderProgress, onOfflineRender, onCancelOfflineRender, recordingStatus, onStartRecording, onPauseRecording, onResumeRecording, onStopRecording, onEnterPerformanceMode, onShowHotkeys, isDebugHudOpen, onDebugHudChange }) => {
     const [isOpen, setIsOpen] = useState(true);
+    const themes = useThemes();
 
     return (
         <div className="absolute top-4 left-4 z-10 bg-black bg-opacity-50 backdrop-blur-md rounded-lg shadow-2xl text-white max-w-xs w-full transition-all duration-300">
@@ -62,54 +96,163 @@ export const ControlsPanel: React.FC<ControlsPanelProps> = ({ props, updateProps
                 <div className="p-4 border-t border-gray-700">
                     {/* --- Audio Source --- */}
                     <div className="grid grid-cols-2 gap-2 mb-4">
-                        <button onClick={onMicConnect} className={`flex items-center justify-center gap-2 text-sm font-bold py-2 px-3 rounded-md transition-colors ${audioSource === AudioSource.Microphone ? 'bg-purple-600' : 'bg-gray-700 hover:bg-gray-600'}`}>
+                        <button onClick={onMicConnect} className={`flex items-center justify-center gap-2 text-sm font-bold py-2 px-3 rounded-md transition-colors ${audioSource === AudioSource.Microphone || audioSource === AudioSource.InputDevice ? 'bg-purple-600' : 'bg-gray-700 hover:bg-gray-600'}`}>
                             <MicIcon className="w-4 h-4" /> Mic
                         </button>
                         <label htmlFor="audio-upload-panel" className={`flex items-center justify-center gap-2 text-sm font-bold py-2 px-3 rounded-md transition-colors cursor-pointer ${audioSource === AudioSource.File ? 'bg-pink-500' : 'bg-gray-700 hover:bg-gray-600'}`}>
                             <UploadIcon className="w-4 h-4" /> File
                         </label>
-                        <input id="audio-upload-panel" type="file" accept="audio/*" onChange={onFileChange} className="hidden" />
+                        <input id="audio-upload-panel" type="file" accept="audio/*" multiple onChange={onFileChange} className="hidden" />
                     </div>
+                    <AudioInputPanel
+                        audioSource={audioSource}
+                        devices={inputDevices}
+                        deviceId={inputDeviceId}
+                        onDeviceConnect={onDeviceConnect}
+                        onSystemAudioConnect={onSystemAudioConnect}
+                        onStreamConnect={onStreamConnect}
+                    />
+
+                    {/* --- Playlist --- */}
+                    <h3 className="text-xs font-bold uppercase text-gray-400 mb-2">Playlist</h3>
+                    <PlaylistPanel playlist={playlist} />
+
+                    {/* --- Test Signals --- */}
+                    <h3 className="text-xs font-bold uppercase text-gray-400 mt-4 mb-2">Test Signals</h3>
+                    <TestSignalPanel
+                        audioSource={audioSource}
+                        settings={syntheticSettings}
+                        onSettingsChange={onSyntheticSettingsChange}
+                        onStart={onSyntheticStart}
+                        onFeatureTrackLoad={onFeatureTrackLoad}
+                        recordedFrames={recordedFeatureFrames}
+                        onToggleRecording={onToggleFeatureRecording}
+                    />
+
+                    {/* --- Presets --- */}
+                    <h3 className="text-xs font-bold uppercase text-gray-400 mt-4 mb-2">Presets</h3>
+                    <PresetPanel props={props} onLoad={onLoadPreset} />
 
                     {/* --- General Settings --- */}
-                    <h3 className="text-xs font-bold uppercase text-gray-400 mb-2">General</h3>
-                    <ToggleSwitch label="Audio Reactive" checked={props.isAudioReactive} onChange={val => updateProps('isAudioReactive', val)} />
+                    <h3 className="text-xs font-bold uppercase text-gray-400 mt-4 mb-2">General</h3>
+                    <PropControl control={PROP_CONTROLS.isAudioReactive} props={props} updateProps={updateProps} />
                     <div className="mb-3">
                         <label htmlFor="theme-select" className="block text-sm font-medium text-gray-300 mb-1">Theme</label>
-                        <select id="theme-select" value={props.theme} onChange={(e) => updateProps('theme', e.target.value as Theme)} className="w-full bg-gray-700 text-white rounded-md p-2 text-sm border border-gray-600 focus:outline-none focus:ring-2 focus:ring-purple-500">
-                            {Object.values(Theme).map(theme => (<option key={theme} value={theme}>{theme}</option>))}
+                        <select id="theme-select" value={props.theme} onChange={(e) => updateProps('theme', e.target.value)} className="w-full bg-gray-700 text-white rounded-md p-2 text-sm border border-gray-600 focus:outline-none focus:ring-2 focus:ring-purple-500">
+                            {themes.map(theme => (<option key={theme.id} value={theme.id}>{theme.name}</option>))}
                         </select>
                     </div>
 
+                    {/* --- Theme Editor --- */}
+                    <h3 className="text-xs font-bold uppercase text-gray-400 mt-4 mb-2">Theme Editor</h3>
+                    <ThemeEditor props={props} updateProps={updateProps} />
+
                     {/* --- Planet Controls --- */}
                     <h3 className="text-xs font-bold uppercase text-gray-400 mt-4 mb-2">Planet Controls</h3>
-                    <ToggleSwitch label="Show Planet" checked={props.showFractal} onChange={val => updateProps('showFractal', val)} />
-                    <ToggleSwitch label="Planet Wireframe" checked={props.fractalWireframe} onChange={val => updateProps('fractalWireframe', val)} />
-                    <div className={`transition-all duration-300 ease-in-out overflow-hidden ${props.fractalWireframe ? 'max-h-40 opacity-100' : 'max-h-0 opacity-0'}`}>
+                    <PropControl control={PROP_CONTROLS.showFractal} props={props} updateProps={updateProps} />
+                    <PropControl control={PROP_CONTROLS.fractalWireframe} props={props} updateProps={updateProps} />
+                    <div className={`transition-all duration-300 ease-in-out overflow-hidden ${props.fractalWireframe ? 'max-h-60 opacity-100' : 'max-h-0 opacity-0'}`}>
                         <div className="pt-2">
-                           <ControlSlider label="Wave Amplitude" value={props.fractalWaveAmplitude} min={0} max={1.0} step={0.05} onChange={val => updateProps('fractalWaveAmplitude', val)} />
-                           <ControlSlider label="Wave Smoothing" value={props.fractalWaveSmoothing} min={0.01} max={0.5} step={0.01} onChange={val => updateProps('fractalWaveSmoothing', val)} />
+                           <PropControl control={PROP_CONTROLS.fractalWaveAmplitude} props={props} updateProps={updateProps} />
+                           <PropControl control={PROP_CONTROLS.fractalWaveSmoothing} props={props} updateProps={updateProps} />
+                           <PropControl control={PROP_CONTROLS.fractalWaveMapping} props={props} updateProps={updateProps} />
                         </div>
                     </div>
-                    <ControlSlider label="Fractal Detail" value={props.recursionDepth} min={0} max={6} step={1} onChange={val => updateProps('recursionDepth', val)} precision={0} />
-                    <ControlSlider label="Layer Spacing" value={props.fractalLayerSpacing} min={0.3} max={1.0} step={0.05} onChange={val => updateProps('fractalLayerSpacing', val)} />
-                    <ControlSlider label="Metalness" value={props.fractalMetalness} min={0} max={1.0} step={0.05} onChange={val => updateProps('fractalMetalness', val)} />
-                    <ControlSlider label="Roughness" value={props.fractalRoughness} min={0} max={1.0} step={0.05} onChange={val => updateProps('fractalRoughness', val)} />
+                    <FractalGeneratorPanel props={props} updateProps={updateProps} />
+                    <PropControl control={PROP_CONTROLS.fractalLayerSpacing} props={props} updateProps={updateProps} />
+                    <PropControl control={PROP_CONTROLS.fractalMetalness} props={props} updateProps={updateProps} />
+                    <PropControl control={PROP_CONTROLS.fractalRoughness} props={props} updateProps={updateProps} />
+
+                    {/* --- Planet Layers --- */}
+                    <h3 className="text-xs font-bold uppercase text-gray-400 mt-4 mb-2">Planet Layers</h3>
+                    <FractalLayersPanel props={props} updateProps={updateProps} />
+
+                    {/* --- Oscilloscope --- */}
+                    <h3 className="text-xs font-bold uppercase text-gray-400 mt-4 mb-2">Oscilloscope</h3>
+                    <PropControl control={PROP_CONTROLS.showOscilloscope} props={props} updateProps={updateProps} />
+                    {props.showOscilloscope && (
+                        <>
+                            <PropControl control={PROP_CONTROLS.oscilloscopeMode} props={props} updateProps={updateProps} />
+                            <PropControl control={PROP_CONTROLS.oscilloscopeThickness} props={props} updateProps={updateProps} />
+                            <PropControl control={PROP_CONTROLS.oscilloscopeRadius} props={props} updateProps={updateProps} />
+                            <PropControl control={PROP_CONTROLS.oscilloscopeColor} props={props} updateProps={updateProps} />
+                        </>
+                    )}
 
                     {/* --- Galaxy Controls --- */}
                     <h3 className="text-xs font-bold uppercase text-gray-400 mt-4 mb-2">Galaxy Controls</h3>
-                    <ControlSlider label="Galaxy Radius" value={props.particleDistributionRadius} min={5} max={50} step={1} onChange={val => updateProps('particleDistributionRadius', val)} precision={0} />
-                    <ControlSlider label="Particle Size" value={props.particleSize} min={0.1} max={3.0} step={0.1} onChange={val => updateProps('particleSize', val)} />
-                    <ControlSlider label="Noise Strength" value={props.noiseStrength} min={0} max={1.0} step={0.05} onChange={val => updateProps('noiseStrength', val)} />
+                    <ParticleShapePanel props={props} updateProps={updateProps} imageName={particleImageName} onImageLoad={onParticleImageLoad} />
+                    <PropControl control={PROP_CONTROLS.particleDistributionRadius} props={props} updateProps={updateProps} />
+                    <PropControl control={PROP_CONTROLS.particleSize} props={props} updateProps={updateProps} />
+                    <PropControl control={PROP_CONTROLS.particleMotion} props={props} updateProps={updateProps} />
+                    {props.particleMotion === 'simulated' ? (
+                        <>
+                            <PropControl control={PROP_CONTROLS.particleTrailLength} props={props} updateProps={updateProps} />
+                            <PropControl control={PROP_CONTROLS.particleDamping} props={props} updateProps={updateProps} />
+                            <PropControl control={PROP_CONTROLS.particleTurbulence} props={props} updateProps={updateProps} />
+                            {qualityStats && !qualityStats.particleSimulation && (
+                                <p className="mb-3 text-xs text-gray-400">Running the static shader: the Low tier and GPUs without float render targets can't simulate.</p>
+                            )}
+                        </>
+                    ) : (
+                        <PropControl control={PROP_CONTROLS.noiseStrength} props={props} updateProps={updateProps} />
+                    )}
 
                     {/* --- Scene & Audio --- */}
                     <h3 className="text-xs font-bold uppercase text-gray-400 mt-4 mb-2">Scene & Audio</h3>
-                    <ToggleSwitch label="Cinematic Camera" checked={props.cinematicCamera} onChange={val => updateProps('cinematicCamera', val)} />
-                    <ControlSlider label="Rotation Speed" value={props.rotationSpeed} min={0} max={2.0} step={0.1} onChange={val => updateProps('rotationSpeed', val)} />
-                    <ControlSlider label="Field of View" value={props.fieldOfView} min={30} max={120} step={1} onChange={val => updateProps('fieldOfView', val)} precision={0} />
-                    <ControlSlider label="Bloom Strength" value={props.bloomStrength} min={0} max={3.0} step={0.1} onChange={val => updateProps('bloomStrength', val)} />
-                    <ControlSlider label="Bass Sensitivity" value={props.bassSensitivity} min={0.1} max={3.0} step={0.1} onChange={val => updateProps('bassSensitivity', val)} />
-                    <ControlSlider label="Treble Sensitivity" value={props.trebleSensitivity} min={0.1} max={3.0} step={0.1} onChange={val => updateProps('trebleSensitivity', val)} />
+                    <PropControl control={PROP_CONTROLS.rotationSpeed} props={props} updateProps={updateProps} />
+                    <PropControl control={PROP_CONTROLS.fieldOfView} props={props} updateProps={updateProps} />
+                    <PropControl control={PROP_CONTROLS.bloomStrength} props={props} updateProps={updateProps} />
+                    <PropControl control={PROP_CONTROLS.beatReactive} props={props} updateProps={updateProps} />
+                    <PropControl control={PROP_CONTROLS.beatIntensity} props={props} updateProps={updateProps} />
+
+                    {/* --- Camera --- */}
+                    <h3 className="text-xs font-bold uppercase text-gray-400 mt-4 mb-2">Camera</h3>
+                    <CameraPanel props={props} updateProps={updateProps} onCaptureView={onCaptureCameraView} onPreviewKeyframe={onPreviewCameraKeyframe} onReleaseCamera={onReleaseCamera} />
+
+                    {/* --- Post-Processing --- */}
+                    <h3 className="text-xs font-bold uppercase text-gray-400 mt-4 mb-2">Post-Processing</h3>
+                    <PropControl control={PROP_CONTROLS.bloomRadius} props={props} updateProps={updateProps} />
+                    <PropControl control={PROP_CONTROLS.bloomThreshold} props={props} updateProps={updateProps} />
+                    <PropControl control={PROP_CONTROLS.toneMapping} props={props} updateProps={updateProps} />
+                    {props.toneMapping !== 'none' && (
+                        <PropControl control={PROP_CONTROLS.toneMappingExposure} props={props} updateProps={updateProps} />
+                    )}
+                    <PostEffectsPanel effects={props.postEffects} bands={props.bands} onChange={effects => updateProps('postEffects', effects)} />
+
+                    {/* --- Frequency Bands --- */}
+                    <h3 className="text-xs font-bold uppercase text-gray-400 mt-4 mb-2">Frequency Bands</h3>
+                    <PropControl control={PROP_CONTROLS.bandAttack} props={props} updateProps={updateProps} />
+                    <PropControl control={PROP_CONTROLS.bandRelease} props={props} updateProps={updateProps} />
+                    <BandEditor bands={props.bands} onChange={bands => updateProps('bands', bands)} />
+
+                    {/* --- Modulation Matrix --- */}
+                    <h3 className="text-xs font-bold uppercase text-gray-400 mt-4 mb-2">Modulation</h3>
+                    <ModulationPanel routes={props.modulationRoutes} bands={props.bands} onChange={routes => updateProps('modulationRoutes', routes)} />
+
+                    {/* --- Performance --- */}
+                    <h3 className="text-xs font-bold uppercase text-gray-400 mt-4 mb-2">Performance</h3>
+                    <QualityPanel settings={quality} stats={qualityStats} onChange={onQualityChange} />
+                    <ToggleSwitch label="Analysis Debug Overlay" checked={isDebugHudOpen} onChange={onDebugHudChange} />
+
+                    {/* --- Live Performance --- */}
+                    <h3 className="text-xs font-bold uppercase text-gray-400 mt-4 mb-2">Live Performance</h3>
+                    <div className="grid grid-cols-2 gap-2 mb-3">
+                        <button onClick={onEnterPerformanceMode} className="text-sm font-bold py-2 px-3 rounded-md bg-purple-600 hover:bg-purple-700">Perform</button>
+                        <button onClick={onShowHotkeys} className="text-sm font-bold py-2 px-3 rounded-md bg-gray-700 hover:bg-gray-600">Shortcuts</button>
+                    </div>
+
+                    {/* --- Remote Control --- */}
+                    <h3 className="text-xs font-bold uppercase text-gray-400 mt-4 mb-2">Remote Control</h3>
+                    <RemotePanel settings={remoteSettings} status={remoteStatus} onChange={onRemoteSettingsChange} />
+
+                    {/* --- Live Recording --- */}
+                    <h3 className="text-xs font-bold uppercase text-gray-400 mt-4 mb-2">Live Recording</h3>
+                    <RecordingPanel status={recordingStatus} onStart={onStartRecording} onPause={onPauseRecording} onResume={onResumeRecording} onStop={onStopRecording} />
+
+                    {/* --- Offline Export --- */}
+                    <h3 className="text-xs font-bold uppercase text-gray-400 mt-4 mb-2">Offline Export</h3>
+                    <ExportPanel canRender={canOfflineRender} progress={offlineRenderProgress} onRender={onOfflineRender} onCancel={onCancelOfflineRender} />
                 </div>
             </div>
         </div>
@@ -0,0 +1,38 @@
+import React, { useEffect, useRef } from 'react';
+import { NeogenesisEngine } from '../services/NeogenesisEngine';
+import { DEBUG_HUD_SIZE, DebugHudRenderer } from '../services/debugHud';
+
+interface DebugHudProps {
+  engineRef: React.RefObject<NeogenesisEngine | null>;
+  onClose: () => void;
+}
+
+/**
+ * Analysis debug overlay. It runs its own animation frame loop on a 2D canvas,
+ * outside the engine's frame, and reads the engine's last-frame snapshot
+ * without causing React renders.
+ */
+export const DebugHud: React.FC<DebugHudProps> = ({ engineRef, onClose }) => {
+    const canvasRef = useRef<HTMLCanvasElement>(null);
+
+    useEffect(() => {
+        if (!canvasRef.current) return;
+        const hud = new DebugHudRenderer(canvasRef.current, window.devicePixelRatio || 1);
+        let handle = 0;
+        const draw = () => {
+            handle = requestAnimationFrame(draw);
+            const engine = engineRef.current;
+            if (!engine) return;
+            hud.draw({ analysis: engine.getAnalysisSnapshot(), frame: engine.getFrameStats(), render: engine.getRenderStats() });
+        };
+        handle = requestAnimationFrame(draw);
+        return () => cancelAnimationFrame(handle);
+    }, [engineRef]);
+
+    return (
+        <div className="absolute bottom-4 right-4 z-20 rounded-lg overflow-hidden shadow-2xl">
+            <canvas ref={canvasRef} style={{ width: DEBUG_HUD_SIZE.width, height: DEBUG_HUD_SIZE.height }} className="block" />
+            <button onClick={onClose} className="absolute top-1 right-1 text-xs px-2 py-1 rounded-md bg-gray-700 bg-opacity-60 hover:bg-gray-600" aria-label="Close debug overlay">✕</button>
+        </div>
+    );
+};
@@ -0,0 +1,82 @@
+import React, { useState } from 'react';
+import { OfflineRenderFormat, OfflineRenderOptions, isPngSequenceSupported, isWebMEncodingSupported } from '../services/offlineRenderer';
+
+interface ExportPanelProps {
+  canRender: boolean;
+  // Fraction of frames written (0-1), or null when no render is running
+  progress: number | null;
+  onRender: (options: OfflineRenderOptions) => void;
+  onCancel: () => void;
+}
+
+const RESOLUTIONS: { label: string; width: number; height: number }[] = [
+  { label: '1280 × 720', width: 1280, height: 720 },
+  { label: '1920 × 1080', width: 1920, height: 1080 },
+  { label: '2560 × 1440', width: 2560, height: 1440 },
+  { label: '3840 × 2160', width: 3840, height: 2160 },
+  { label: '1080 × 1080', width: 1080, height: 1080 },
+  { label: '1080 × 1920', width: 1080, height: 1920 },
+];
+
+const FRAME_RATES = [24, 30, 60];
+
+const BITRATES_MBPS = [4, 8, 16, 32];
+
+const selectClass = 'w-full bg-gray-700 text-white rounded-md p-2 text-sm border border-gray-600 focus:outline-none focus:ring-2 focus:ring-purple-500';
+
+export const ExportPanel: React.FC<ExportPanelProps> = ({ canRender, progress, onRender, onCancel }) => {
+    const [resolutionIndex, setResolutionIndex] = useState(1);
+    const [fps, setFps] = useState(30);
+    const [format, setFormat] = useState<OfflineRenderFormat>(isWebMEncodingSupported() ? 'webm' : 'png');
+    const [bitrateMbps, setBitrateMbps] = useState(8);
+
+    const isRendering = progress !== null;
+    const formatSupported = format === 'webm' ? isWebMEncodingSupported() : isPngSequenceSupported();
+
+    const handleRender = () => {
+        const { width, height } = RESOLUTIONS[resolutionIndex];
+        onRender({ width, height, fps, format, bitrate: bitrateMbps * 1e6 });
+    };
+
+    return (
+        <div>
+            <div className="grid grid-cols-2 gap-2 mb-3">
+                <select value={resolutionIndex} onChange={(e) => setResolutionIndex(parseInt(e.target.value, 10))} disabled={isRendering} className={selectClass} aria-label="Export resolution">
+                    {RESOLUTIONS.map((res, i) => (<option key={res.label} value={i}>{res.label}</option>))}
+                </select>
+                <select value={fps} onChange={(e) => setFps(parseInt(e.target.value, 10))} disabled={isRendering} className={selectClass} aria-label="Export frame rate">
+                    {FRAME_RATES.map(rate => (<option key={rate} value={rate}>{rate} fps</option>))}
+                </select>
+                <select value={format} onChange={(e) => setFormat(e.target.value as OfflineRenderFormat)} disabled={isRendering} className={selectClass} aria-label="Export format">
+                    <option value="webm">WebM (VP8)</option>
+                    <option value="png">PNG sequence</option>
+                </select>
+                <select value={bitrateMbps} onChange={(e) => setBitrateMbps(parseInt(e.target.value, 10))} disabled={isRendering || format !== 'webm'} className={selectClass} aria-label="Export bitrate">
+                    {BITRATES_MBPS.map(rate => (<option key={rate} value={rate}>{rate} Mbps</option>))}
+                </select>
+            </div>
+
+            {!formatSupported && (
+                <p className="text-xs text-yellow-400 mb-2">This browser can't write {format === 'webm' ? 'WebM video' : 'PNG sequences to a folder'}.</p>
+            )}
+            {format === 'webm' && (
+                <p className="text-xs text-gray-400 mb-2">Video only — add the original audio track in your editor.</p>
+            )}
+
+            {isRendering ? (
+                <div>
+                    <div className="w-full h-2 bg-gray-600 rounded-lg overflow-hidden mb-2">
+                        <div className="h-full bg-purple-500" style={{ width: `${Math.round(progress! * 100)}%` }} />
+                    </div>
+                    <button onClick={onCancel} className="w-full text-sm font-bold py-2 rounded-md bg-gray-700 hover:bg-red-600">
+                        Cancel ({Math.round(progress! * 100)}%)
+                    </button>
+                </div>
+            ) : (
+                <button onClick={handleRender} disabled={!canRender || !formatSupported} className="w-full text-sm font-bold py-2 rounded-md bg-purple-600 hover:bg-purple-700 disabled:bg-gray-700 disabled:text-gray-400 disabled:cursor-not-allowed">
+                    {canRender ? 'Render Audio File' : 'Load an audio file to render'}
+                </button>
+            )}
+        </div>
+    );
+};
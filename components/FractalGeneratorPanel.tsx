@@ -0,0 +1,54 @@
+import React from 'react';
+import { NeogenesisProps } from '../types';
+import { getFractalGenerator, listFractalGenerators, resolveFractalOptions } from '../services/fractalGenerator';
+import { ControlSlider, ToggleSwitch } from './ControlPrimitives';
+
+interface FractalGeneratorPanelProps {
+  props: NeogenesisProps;
+  updateProps: <K extends keyof NeogenesisProps>(key: K, value: NeogenesisProps[K]) => void;
+}
+
+const inputClass = 'w-full bg-gray-700 text-white rounded-md p-2 text-sm border border-gray-600 focus:outline-none focus:ring-2 focus:ring-purple-500';
+
+export const FractalGeneratorPanel: React.FC<FractalGeneratorPanelProps> = ({ props, updateProps }) => {
+    const generator = getFractalGenerator(props.fractalGenerator);
+    const options = resolveFractalOptions(generator, props.fractalOptions[generator.id]);
+
+    const updateOption = (key: string, value: number | string | boolean) => {
+        updateProps('fractalOptions', { ...props.fractalOptions, [generator.id]: { ...options, [key]: value } });
+    };
+
+    return (
+        <div>
+            <div className="mb-3">
+                <label htmlFor="fractal-generator-select" className="block text-sm font-medium text-gray-300 mb-1">Generator</label>
+                <select id="fractal-generator-select" value={generator.id} onChange={(e) => updateProps('fractalGenerator', e.target.value)} className={inputClass}>
+                    {listFractalGenerators().map(entry => (<option key={entry.id} value={entry.id}>{entry.label}</option>))}
+                </select>
+            </div>
+
+            {generator.options.map(option => {
+                switch (option.type) {
+                    case 'number':
+                        return (
+                            <ControlSlider key={option.key} label={option.label} value={options[option.key] as number} min={option.min} max={option.max} step={option.step}
+                                onChange={val => updateOption(option.key, val)} precision={Number.isInteger(option.step) ? 0 : 2} />
+                        );
+                    case 'boolean':
+                        return <ToggleSwitch key={option.key} label={option.label} checked={options[option.key] as boolean} onChange={val => updateOption(option.key, val)} />;
+                    case 'enum':
+                        return (
+                            <div key={option.key} className="mb-3">
+                                <label htmlFor={`fractal-option-${option.key}`} className="block text-sm font-medium text-gray-300 mb-1">{option.label}</label>
+                                <select id={`fractal-option-${option.key}`} value={options[option.key] as string} onChange={(e) => updateOption(option.key, e.target.value)} className={inputClass}>
+                                    {option.values.map(entry => (<option key={entry.value} value={entry.value}>{entry.label}</option>))}
+                                </select>
+                            </div>
+                        );
+                }
+            })}
+
+            <ControlSlider label="Fractal Detail" value={Math.min(props.recursionDepth, generator.maxDepth)} min={0} max={generator.maxDepth} step={1} onChange={val => updateProps('recursionDepth', val)} precision={0} />
+        </div>
+    );
+};
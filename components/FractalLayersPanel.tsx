@@ -0,0 +1,86 @@
+import React from 'react';
+import { FractalLayer, NeogenesisProps, ThemeColorSlot, Vec3Tuple } from '../types';
+import { FRACTAL_LAYER_SPEED_RANGE, MAX_FRACTAL_LAYERS, createFractalLayer } from '../services/fractalLayers';
+import { THEME_COLOR_OPTIONS } from '../services/themes';
+import { ControlSlider, ToggleSwitch } from './ControlPrimitives';
+
+interface FractalLayersPanelProps {
+  props: NeogenesisProps;
+  updateProps: <K extends keyof NeogenesisProps>(key: K, value: NeogenesisProps[K]) => void;
+}
+
+const inputClass = 'w-full bg-gray-700 text-white rounded-md px-2 py-1 text-xs border border-gray-600 focus:outline-none focus:ring-2 focus:ring-purple-500';
+const buttonClass = 'text-xs px-2 py-1 rounded-md bg-gray-700 hover:bg-gray-600 disabled:opacity-30 disabled:hover:bg-gray-700';
+
+const AXES = ['X', 'Y', 'Z'];
+
+export const FractalLayersPanel: React.FC<FractalLayersPanelProps> = ({ props, updateProps }) => {
+    const layers = props.fractalLayers;
+
+    const setLayers = (next: FractalLayer[]) => updateProps('fractalLayers', next);
+
+    const updateLayer = (index: number, patch: Partial<FractalLayer>) => {
+        setLayers(layers.map((layer, i) => (i === index ? { ...layer, ...patch } : layer)));
+    };
+
+    const moveLayer = (index: number, offset: -1 | 1) => {
+        const next = [...layers];
+        [next[index], next[index + offset]] = [next[index + offset], next[index]];
+        setLayers(next);
+    };
+
+    const updateAxis = (index: number, component: number, value: number) => {
+        const axis = [...layers[index].rotationAxis] as Vec3Tuple;
+        axis[component] = value;
+        updateLayer(index, { rotationAxis: axis });
+    };
+
+    return (
+        <div>
+            <p className="mb-2 text-xs text-gray-400">Layer 1 is the outer shell; each layer after it is scaled down by Layer Spacing.</p>
+            {props.fractalWireframe && (
+                <p className="mb-2 text-xs text-gray-400">Planet Wireframe is on, so every layer draws as wireframe.</p>
+            )}
+            {layers.map((layer, i) => (
+                <div key={layer.id} className="mb-3 p-2 rounded-md bg-gray-800 bg-opacity-60">
+                    <div className="flex justify-between items-center mb-2">
+                        <span className="text-sm font-medium text-gray-300">Layer {i + 1}</span>
+                        <div className="flex gap-1">
+                            <button onClick={() => moveLayer(i, -1)} disabled={i === 0} className={buttonClass} aria-label={`Move layer ${i + 1} out`}>↑</button>
+                            <button onClick={() => moveLayer(i, 1)} disabled={i === layers.length - 1} className={buttonClass} aria-label={`Move layer ${i + 1} in`}>↓</button>
+                            <button onClick={() => setLayers(layers.filter((_, j) => j !== i))} disabled={layers.length <= 1} className="text-xs px-2 py-1 rounded-md bg-gray-700 hover:bg-red-600 disabled:opacity-30 disabled:hover:bg-gray-700" aria-label={`Remove layer ${i + 1}`}>✕</button>
+                        </div>
+                    </div>
+                    <ToggleSwitch label="Wireframe" checked={layer.wireframe} onChange={val => updateLayer(i, { wireframe: val })} />
+                    <ControlSlider label="Opacity" value={layer.opacity} min={0} max={1} step={0.05} onChange={val => updateLayer(i, { opacity: val })} />
+                    <ToggleSwitch label="Own Material" checked={layer.material !== null} onChange={val => updateLayer(i, { material: val ? { metalness: props.fractalMetalness, roughness: props.fractalRoughness } : null })} />
+                    {layer.material && (
+                        <>
+                            <ControlSlider label="Metalness" value={layer.material.metalness} min={0} max={1} step={0.05} onChange={val => updateLayer(i, { material: { ...layer.material!, metalness: val } })} />
+                            <ControlSlider label="Roughness" value={layer.material.roughness} min={0} max={1} step={0.05} onChange={val => updateLayer(i, { material: { ...layer.material!, roughness: val } })} />
+                        </>
+                    )}
+                    <div className="grid grid-cols-2 gap-2 mb-2">
+                        <select value={layer.emissive} onChange={(e) => updateLayer(i, { emissive: e.target.value as ThemeColorSlot })} className={inputClass} aria-label={`Glow color of layer ${i + 1}`}>
+                            {THEME_COLOR_OPTIONS.map(option => (<option key={option.value} value={option.value}>{option.label}</option>))}
+                        </select>
+                        <select value={layer.bandId} onChange={(e) => updateLayer(i, { bandId: e.target.value })} className={inputClass} aria-label={`Band driving layer ${i + 1}`}>
+                            <option value="">Bass (default)</option>
+                            {props.bands.map(band => (<option key={band.id} value={band.id}>{band.label}</option>))}
+                        </select>
+                    </div>
+                    <ControlSlider label="Spin Speed" value={layer.rotationSpeed} min={FRACTAL_LAYER_SPEED_RANGE.min} max={FRACTAL_LAYER_SPEED_RANGE.max} step={0.1} onChange={val => updateLayer(i, { rotationSpeed: val })} />
+                    <div className="flex gap-1 items-center">
+                        <span className="text-xs text-gray-400 mr-1">Axis</span>
+                        {AXES.map((label, c) => (
+                            <input key={label} type="number" step={0.1} value={layer.rotationAxis[c]}
+                                onChange={(e) => updateAxis(i, c, parseFloat(e.target.value) || 0)}
+                                className={inputClass} aria-label={`${label} of the spin axis of layer ${i + 1}`} title={label} />
+                        ))}
+                    </div>
+                </div>
+            ))}
+            <button onClick={() => setLayers([...layers, createFractalLayer(layers.length, `layer-${Date.now()}`)])} disabled={layers.length >= MAX_FRACTAL_LAYERS} className="w-full mb-3 text-xs font-bold py-2 rounded-md bg-gray-700 hover:bg-gray-600 disabled:opacity-50">+ Add Layer</button>
+        </div>
+    );
+};
@@ -0,0 +1,73 @@
+import React, { useEffect, useState } from 'react';
+import { DEFAULT_KEYMAP, HOTKEY_ACTIONS, HOTKEY_GROUPS, HotkeyAction, Keymap, formatKeyCombo, keyComboFromEvent, rebindHotkey } from '../services/hotkeys';
+
+interface HotkeyCheatSheetProps {
+  keymap: Keymap;
+  onChange: (keymap: Keymap) => void;
+  onClose: () => void;
+}
+
+const buttonClass = 'text-xs font-bold py-2 px-3 rounded-md bg-gray-700 hover:bg-gray-600';
+
+export const HotkeyCheatSheet: React.FC<HotkeyCheatSheetProps> = ({ keymap, onChange, onClose }) => {
+    const [rebinding, setRebinding] = useState<HotkeyAction | null>(null);
+
+    // Captures the next key before the hotkey listener sees it
+    useEffect(() => {
+        const handleKeyDown = (event: KeyboardEvent) => {
+            if (!rebinding) {
+                if (event.code === 'Escape') onClose();
+                return;
+            }
+            event.preventDefault();
+            event.stopImmediatePropagation();
+            if (event.code === 'Escape') {
+                setRebinding(null);
+            } else if (event.code === 'Delete') {
+                onChange(rebindHotkey(keymap, rebinding, null));
+                setRebinding(null);
+            } else {
+                const combo = keyComboFromEvent(event);
+                if (!combo) return;
+                onChange(rebindHotkey(keymap, rebinding, combo));
+                setRebinding(null);
+            }
+        };
+        window.addEventListener('keydown', handleKeyDown, true);
+        return () => window.removeEventListener('keydown', handleKeyDown, true);
+    }, [rebinding, keymap, onChange, onClose]);
+
+    return (
+        <div className="absolute inset-0 z-40 flex items-center justify-center bg-black bg-opacity-70 backdrop-blur-sm p-4" onClick={onClose}>
+            <div className="bg-gray-900 bg-opacity-95 rounded-lg shadow-2xl text-white w-full max-w-3xl max-h-full overflow-y-auto p-5" onClick={(e) => e.stopPropagation()}>
+                <div className="flex justify-between items-center mb-4">
+                    <h2 className="text-lg font-bold">Keyboard Shortcuts</h2>
+                    <button onClick={onClose} className={buttonClass}>Close</button>
+                </div>
+                <div className="grid grid-cols-1 sm:grid-cols-2 md:grid-cols-3 gap-x-6">
+                    {HOTKEY_GROUPS.map(group => (
+                        <div key={group} className="mb-3">
+                            <h3 className="text-xs font-bold uppercase text-gray-400 mb-2">{group}</h3>
+                            {HOTKEY_ACTIONS.filter(action => action.group === group).map(action => (
+                                <div key={action.id} className="flex justify-between items-center gap-2 mb-1 text-sm">
+                                    <span className="text-gray-300">{action.label}</span>
+                                    <button
+                                        onClick={() => setRebinding(rebinding === action.id ? null : action.id)}
+                                        className={`min-w-[3rem] font-mono text-xs rounded px-2 py-1 border ${rebinding === action.id ? 'border-purple-500 bg-purple-900 text-purple-200 animate-pulse' : 'border-gray-600 bg-gray-800 hover:bg-gray-700'}`}
+                                        title="Click, then press the new key"
+                                    >
+                                        {rebinding === action.id ? 'Press a key…' : formatKeyCombo(keymap[action.id])}
+                                    </button>
+                                </div>
+                            ))}
+                        </div>
+                    ))}
+                </div>
+                <div className="flex justify-between items-center mt-2 pt-3 border-t border-gray-700">
+                    <p className="text-xs text-gray-400">Click a key to rebind it. Esc cancels, Delete unbinds. Flash keys only last while held.</p>
+                    <button onClick={() => onChange(DEFAULT_KEYMAP)} className={buttonClass}>Reset to Defaults</button>
+                </div>
+            </div>
+        </div>
+    );
+};
@@ -0,0 +1,89 @@
+import React from 'react';
+import { FrequencyBand, LfoShape, ModulationCurve, ModulationRoute, ModulationSourceKind, ModulationTarget } from '../types';
+import { LFO_SHAPES, MODULATION_CURVES, MODULATION_SOURCES, MODULATION_TARGETS } from '../services/modulation';
+import { getPropRange } from '../services/presets';
+import { ControlSlider, ToggleSwitch } from './ControlPrimitives';
+
+interface ModulationPanelProps {
+  routes: ModulationRoute[];
+  bands: FrequencyBand[];
+  onChange: (routes: ModulationRoute[]) => void;
+}
+
+const inputClass = 'w-full bg-gray-700 text-white rounded-md px-2 py-1 text-xs border border-gray-600 focus:outline-none focus:ring-2 focus:ring-purple-500';
+
+export const ModulationPanel: React.FC<ModulationPanelProps> = ({ routes, bands, onChange }) => {
+    const updateRoute = (index: number, patch: Partial<ModulationRoute>) => {
+        onChange(routes.map((route, i) => (i === index ? { ...route, ...patch } : route)));
+    };
+
+    // Changing the target resets the output range to the target's own slider range
+    const changeTarget = (index: number, target: ModulationTarget) => {
+        updateRoute(index, { target, ...getPropRange(target) });
+    };
+
+    const addRoute = () => {
+        const target: ModulationTarget = 'bloomStrength';
+        onChange([...routes, {
+            id: `route-${Date.now()}`,
+            enabled: true,
+            source: 'band',
+            bandId: bands[0]?.id ?? '',
+            lfoShape: 'sine',
+            lfoRate: 0.25,
+            target,
+            depth: 0.5,
+            ...getPropRange(target),
+            curve: 'linear',
+            smoothing: 0.1,
+        }]);
+    };
+
+    return (
+        <div>
+            {routes.map((route, i) => (
+                <div key={route.id} className="mb-3 p-2 rounded-md bg-gray-800 bg-opacity-60">
+                    <div className="flex gap-2 mb-2 items-center">
+                        <select value={route.source} onChange={(e) => updateRoute(i, { source: e.target.value as ModulationSourceKind })} className={inputClass} aria-label="Modulation source">
+                            {MODULATION_SOURCES.map(source => (<option key={source.kind} value={source.kind}>{source.label}</option>))}
+                        </select>
+                        <span className="text-gray-400 text-xs">→</span>
+                        <select value={route.target} onChange={(e) => changeTarget(i, e.target.value as ModulationTarget)} className={inputClass} aria-label="Modulation target">
+                            {MODULATION_TARGETS.map(target => (<option key={target.key} value={target.key}>{target.label}</option>))}
+                        </select>
+                        <button onClick={() => onChange(routes.filter((_, j) => j !== i))} className="text-xs px-2 py-1 rounded-md bg-gray-700 hover:bg-red-600" aria-label="Remove route">✕</button>
+                    </div>
+
+                    {route.source === 'band' && (
+                        <select value={route.bandId} onChange={(e) => updateRoute(i, { bandId: e.target.value })} className={`${inputClass} mb-2`} aria-label="Source band">
+                            {bands.map(band => (<option key={band.id} value={band.id}>{band.label}</option>))}
+                        </select>
+                    )}
+                    {route.source === 'lfo' && (
+                        <div className="flex gap-2 mb-2 items-center">
+                            <select value={route.lfoShape} onChange={(e) => updateRoute(i, { lfoShape: e.target.value as LfoShape })} className={inputClass} aria-label="LFO shape">
+                                {LFO_SHAPES.map(shape => (<option key={shape} value={shape}>{shape}</option>))}
+                            </select>
+                            <input type="number" min={0.01} max={20} step={0.01} value={route.lfoRate} onChange={(e) => updateRoute(i, { lfoRate: parseFloat(e.target.value) || 0 })} className={inputClass} aria-label="LFO rate (Hz)" />
+                            <span className="text-xs text-gray-400">Hz</span>
+                        </div>
+                    )}
+
+                    <ToggleSwitch label={`Route ${i + 1} Enabled`} checked={route.enabled} onChange={val => updateRoute(i, { enabled: val })} />
+                    <ControlSlider label="Depth" value={route.depth} min={-1} max={1} step={0.05} onChange={val => updateRoute(i, { depth: val })} />
+                    <ControlSlider label="Smoothing (s)" value={route.smoothing} min={0} max={1} step={0.01} onChange={val => updateRoute(i, { smoothing: val })} />
+                    <div className="flex gap-2 items-center text-xs text-gray-400">
+                        <input type="number" value={route.min} step={0.01} onChange={(e) => updateRoute(i, { min: parseFloat(e.target.value) || 0 })} className={inputClass} aria-label="Range minimum" />
+                        <span>–</span>
+                        <input type="number" value={route.max} step={0.01} onChange={(e) => updateRoute(i, { max: parseFloat(e.target.value) || 0 })} className={inputClass} aria-label="Range maximum" />
+                        <select value={route.curve} onChange={(e) => updateRoute(i, { curve: e.target.value as ModulationCurve })} className={inputClass} aria-label="Curve">
+                            {MODULATION_CURVES.map(curve => (<option key={curve} value={curve}>{curve}</option>))}
+                        </select>
+                    </div>
+                </div>
+            ))}
+
+            <button onClick={addRoute} className="w-full text-xs font-bold py-2 rounded-md bg-gray-700 hover:bg-gray-600">+ Add Route</button>
+        </div>
+    );
+};
@@ -0,0 +1,33 @@
+import React from 'react';
+import { AppNotification } from '../hooks/useNotifications';
+
+interface NotificationListProps {
+  notifications: AppNotification[];
+  onDismiss: (key: string) => void;
+}
+
+const buttonClass = 'text-xs font-bold py-1 px-3 rounded-md';
+
+// Above the splash screen, so a failed first connection shows up where the user clicked
+export const NotificationList: React.FC<NotificationListProps> = ({ notifications, onDismiss }) => {
+    if (notifications.length === 0) return null;
+
+    return (
+        <div className="absolute top-4 left-1/2 -translate-x-1/2 z-40 w-11/12 max-w-md flex flex-col gap-2" role="status" aria-live="polite">
+            {notifications.map(notification => (
+                <div key={notification.key} className="flex items-start gap-3 p-3 rounded-lg bg-gray-900 bg-opacity-95 border border-gray-700 shadow-2xl text-white text-sm">
+                    <p className="flex-1">{notification.message}</p>
+                    {notification.action && (
+                        <button
+                            onClick={() => { onDismiss(notification.key); notification.action!.run(); }}
+                            className={`${buttonClass} bg-purple-600 hover:bg-purple-700 whitespace-nowrap`}
+                        >
+                            {notification.action.label}
+                        </button>
+                    )}
+                    <button onClick={() => onDismiss(notification.key)} className={`${buttonClass} bg-gray-700 hover:bg-gray-600`} aria-label="Dismiss notification">✕</button>
+                </div>
+            ))}
+        </div>
+    );
+};
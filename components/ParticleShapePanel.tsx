@@ -0,0 +1,63 @@
+import React, { useState } from 'react';
+import { NeogenesisProps } from '../types';
+import { PROP_CONTROLS } from '../services/controlDefinitions';
+import { PARTICLE_TEXT_MAX_LENGTH } from '../services/presets';
+import { PropControl } from './PropControl';
+
+interface ParticleShapePanelProps {
+  props: NeogenesisProps;
+  updateProps: <K extends keyof NeogenesisProps>(key: K, value: NeogenesisProps[K]) => void;
+  imageName: string | null;
+  onImageLoad: (file: File) => Promise<void>;
+}
+
+const inputClass = 'w-full bg-gray-700 text-white rounded-md p-2 text-sm border border-gray-600 focus:outline-none focus:ring-2 focus:ring-purple-500';
+
+export const ParticleShapePanel: React.FC<ParticleShapePanelProps> = ({ props, updateProps, imageName, onImageLoad }) => {
+    const [imageError, setImageError] = useState<string | null>(null);
+
+    const handleImageChange = async (event: React.ChangeEvent<HTMLInputElement>) => {
+        const file = event.target.files?.[0];
+        event.target.value = '';
+        if (!file) return;
+        try {
+            await onImageLoad(file);
+            setImageError(null);
+        } catch (err) {
+            setImageError((err as Error).message);
+        }
+    };
+
+    return (
+        <div>
+            <PropControl control={PROP_CONTROLS.particleDistribution} props={props} updateProps={updateProps} />
+            {props.particleDistribution === 'spiral' && (
+                <>
+                    <PropControl control={PROP_CONTROLS.particleSpiralArms} props={props} updateProps={updateProps} />
+                    <PropControl control={PROP_CONTROLS.particleSpiralTwist} props={props} updateProps={updateProps} />
+                </>
+            )}
+            {props.particleDistribution === 'text' && (
+                <div className="mb-3">
+                    <label htmlFor="particle-text" className="block text-sm font-medium text-gray-300 mb-1">Text</label>
+                    <input id="particle-text" type="text" value={props.particleText} maxLength={PARTICLE_TEXT_MAX_LENGTH}
+                        onChange={(e) => updateProps('particleText', e.target.value)} className={inputClass} />
+                </div>
+            )}
+            {props.particleDistribution === 'image' && (
+                <div className="mb-3">
+                    <label htmlFor="particle-image-upload" className="block w-full text-center text-xs font-bold py-2 px-2 rounded-md bg-gray-700 hover:bg-gray-600 cursor-pointer">
+                        {imageName ? 'Replace Image' : 'Load Image'}
+                    </label>
+                    <input id="particle-image-upload" type="file" accept="image/*" onChange={handleImageChange} className="hidden" />
+                    <p className={`mt-1 text-xs ${imageError ? 'text-red-400' : 'text-gray-400'}`}>
+                        {imageError ?? (imageName ? `Sampling ${imageName}. Images aren't saved with presets.` : 'Bright areas attract the most particles. Until an image is loaded the galaxy stays a sphere.')}
+                    </p>
+                </div>
+            )}
+            {props.particleDistribution === 'fractal' && !props.showFractal && (
+                <p className="mb-3 text-xs text-gray-400">Samples the planet's surface even while the planet is hidden.</p>
+            )}
+        </div>
+    );
+};
@@ -0,0 +1,77 @@
+import React, { useRef, useState } from 'react';
+import { PlaylistControls } from '../hooks/usePlaylist';
+import { RepeatMode, formatTrackTime } from '../services/playlist';
+import { ControlSlider, ToggleSwitch } from './ControlPrimitives';
+
+interface PlaylistPanelProps {
+  playlist: PlaylistControls;
+}
+
+const buttonClass = 'text-xs font-bold py-2 px-2 rounded-md bg-gray-700 hover:bg-gray-600 disabled:text-gray-500 disabled:cursor-not-allowed';
+
+const REPEAT_LABELS: Record<RepeatMode, string> = { off: 'Repeat: Off', all: 'Repeat: All', one: 'Repeat: One' };
+const NEXT_REPEAT: Record<RepeatMode, RepeatMode> = { off: 'all', all: 'one', one: 'off' };
+
+export const PlaylistPanel: React.FC<PlaylistPanelProps> = ({ playlist }) => {
+    const { tracks, currentTrack, isPlaying } = playlist;
+    const addInputRef = useRef<HTMLInputElement>(null);
+    const [dragIndex, setDragIndex] = useState<number | null>(null);
+
+    const handleAdd = (event: React.ChangeEvent<HTMLInputElement>) => {
+        const files = Array.from<File>(event.target.files ?? []);
+        event.target.value = '';
+        playlist.addFiles(files);
+    };
+
+    const handleDrop = (index: number) => {
+        if (dragIndex !== null && dragIndex !== index) playlist.moveTrack(dragIndex, index);
+        setDragIndex(null);
+    };
+
+    return (
+        <div>
+            {currentTrack && (
+                <div className="mb-2 text-xs">
+                    <p className="text-white font-semibold truncate">{currentTrack.title}</p>
+                    {currentTrack.artist && <p className="text-gray-400 truncate">{currentTrack.artist}</p>}
+                </div>
+            )}
+
+            <div className="grid grid-cols-3 gap-2 mb-2">
+                <button onClick={playlist.previous} disabled={tracks.length === 0} className={buttonClass} aria-label="Previous track">⏮</button>
+                <button onClick={playlist.togglePlay} disabled={tracks.length === 0} className={buttonClass} aria-label={isPlaying ? 'Pause' : 'Play'}>{isPlaying ? '⏸' : '▶'}</button>
+                <button onClick={playlist.next} disabled={tracks.length === 0} className={buttonClass} aria-label="Next track">⏭</button>
+            </div>
+
+            <ul className="mb-2 max-h-48 overflow-y-auto rounded-md bg-gray-800 bg-opacity-60">
+                {tracks.length === 0 && <li className="text-xs text-gray-400 p-2">Drop audio files here or add them below.</li>}
+                {tracks.map((track, i) => (
+                    <li
+                        key={track.id}
+                        draggable
+                        onDragStart={() => setDragIndex(i)}
+                        onDragOver={(e) => e.preventDefault()}
+                        onDrop={() => handleDrop(i)}
+                        onDragEnd={() => setDragIndex(null)}
+                        className={`flex items-center gap-2 px-2 py-1 text-xs cursor-pointer ${track.id === currentTrack?.id ? 'bg-purple-600 bg-opacity-40 text-white' : 'text-gray-300 hover:bg-gray-700'} ${dragIndex === i ? 'opacity-50' : ''}`}
+                        onClick={() => playlist.playTrackById(track.id)}
+                    >
+                        <span className="flex-1 truncate" title={track.artist ? `${track.artist} – ${track.title}` : track.title}>
+                            {track.title}{track.artist && <span className="text-gray-400"> · {track.artist}</span>}
+                        </span>
+                        <span className="text-gray-400 tabular-nums">{formatTrackTime(track.duration)}</span>
+                        <button onClick={(e) => { e.stopPropagation(); playlist.removeTrack(track.id); }} className="px-1 rounded hover:bg-red-600" aria-label={`Remove ${track.title}`}>✕</button>
+                    </li>
+                ))}
+            </ul>
+
+            <div className="grid grid-cols-2 gap-2 mb-3">
+                <button onClick={() => addInputRef.current?.click()} className={buttonClass}>+ Add Files</button>
+                <button onClick={() => playlist.setRepeat(NEXT_REPEAT[playlist.repeat])} className={buttonClass}>{REPEAT_LABELS[playlist.repeat]}</button>
+                <input ref={addInputRef} type="file" accept="audio/*" multiple onChange={handleAdd} className="hidden" />
+            </div>
+            <ToggleSwitch label="Shuffle" checked={playlist.shuffle} onChange={playlist.setShuffle} />
+            <ControlSlider label="Crossfade (s)" value={playlist.crossfade} min={0} max={12} step={0.5} onChange={playlist.setCrossfade} precision={1} />
+        </div>
+    );
+};
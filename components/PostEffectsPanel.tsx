@@ -0,0 +1,59 @@
+import React from 'react';
+import { FrequencyBand, PostEffect } from '../types';
+import { getPostEffectLabel, normalizePostEffects } from '../services/postEffects';
+import { ControlSlider, ToggleSwitch } from './ControlPrimitives';
+
+interface PostEffectsPanelProps {
+  effects: PostEffect[];
+  bands: FrequencyBand[];
+  onChange: (effects: PostEffect[]) => void;
+}
+
+const inputClass = 'w-full bg-gray-700 text-white rounded-md px-2 py-1 text-xs border border-gray-600 focus:outline-none focus:ring-2 focus:ring-purple-500';
+const moveButtonClass = 'text-xs px-2 py-1 rounded-md bg-gray-700 hover:bg-gray-600 disabled:opacity-30 disabled:hover:bg-gray-700';
+
+export const PostEffectsPanel: React.FC<PostEffectsPanelProps> = ({ effects, bands, onChange }) => {
+    // Always edit the whole stack, so effects missing from older presets show up in their place
+    const stack = normalizePostEffects(effects);
+
+    const updateEffect = (index: number, patch: Partial<PostEffect>) => {
+        onChange(stack.map((effect, i) => (i === index ? { ...effect, ...patch } : effect)));
+    };
+
+    const moveEffect = (index: number, offset: -1 | 1) => {
+        const next = [...stack];
+        [next[index], next[index + offset]] = [next[index + offset], next[index]];
+        onChange(next);
+    };
+
+    return (
+        <div>
+            <p className="mb-2 text-xs text-gray-400">Applied top to bottom after bloom and tone mapping.</p>
+            {stack.map((effect, i) => (
+                <div key={effect.kind} className="mb-3 p-2 rounded-md bg-gray-800 bg-opacity-60">
+                    <div className="flex gap-2 items-center">
+                        <div className="flex-grow">
+                            <ToggleSwitch label={getPostEffectLabel(effect.kind)} checked={effect.enabled} onChange={val => updateEffect(i, { enabled: val })} />
+                        </div>
+                        <div className="flex gap-1 mb-3">
+                            <button onClick={() => moveEffect(i, -1)} disabled={i === 0} className={moveButtonClass} aria-label={`Move ${getPostEffectLabel(effect.kind)} up`}>↑</button>
+                            <button onClick={() => moveEffect(i, 1)} disabled={i === stack.length - 1} className={moveButtonClass} aria-label={`Move ${getPostEffectLabel(effect.kind)} down`}>↓</button>
+                        </div>
+                    </div>
+                    {effect.enabled && (
+                        <>
+                            <ControlSlider label="Intensity" value={effect.intensity} min={0} max={1} step={0.05} onChange={val => updateEffect(i, { intensity: val })} />
+                            <select value={effect.bandId} onChange={(e) => updateEffect(i, { bandId: e.target.value })} className={`${inputClass} mb-2`} aria-label="Pulse with band">
+                                <option value="">No audio pulse</option>
+                                {bands.map(band => (<option key={band.id} value={band.id}>Pulse with {band.label}</option>))}
+                            </select>
+                            {effect.bandId && (
+                                <ControlSlider label="Pulse Amount" value={effect.audioAmount} min={0} max={1} step={0.05} onChange={val => updateEffect(i, { audioAmount: val })} />
+                            )}
+                        </>
+                    )}
+                </div>
+            ))}
+        </div>
+    );
+};
@@ -0,0 +1,115 @@
+import React, { useRef, useState } from 'react';
+import { NeogenesisProps } from '../types';
+import { FACTORY_PRESETS, Preset, createShareUrl, loadUserPresets, parsePreset, saveUserPresets, serializePreset } from '../services/presets';
+import { downloadBlob } from '../services/fileUtils';
+
+interface PresetPanelProps {
+  props: NeogenesisProps;
+  onLoad: (preset: Preset) => void;
+}
+
+const inputClass = 'w-full bg-gray-700 text-white rounded-md p-2 text-sm border border-gray-600 focus:outline-none focus:ring-2 focus:ring-purple-500';
+const buttonClass = 'text-xs font-bold py-2 px-2 rounded-md bg-gray-700 hover:bg-gray-600 disabled:text-gray-500 disabled:cursor-not-allowed';
+
+export const PresetPanel: React.FC<PresetPanelProps> = ({ props, onLoad }) => {
+    const [userPresets, setUserPresets] = useState<Preset[]>(loadUserPresets);
+    const [selected, setSelected] = useState(FACTORY_PRESETS[0].name);
+    const [newName, setNewName] = useState('');
+    const [message, setMessage] = useState<{ text: string; isError: boolean } | null>(null);
+    const importInputRef = useRef<HTMLInputElement>(null);
+
+    const allPresets = [...FACTORY_PRESETS, ...userPresets];
+    const selectedPreset = allPresets.find(preset => preset.name === selected) ?? null;
+
+    const updateUserPresets = (presets: Preset[]) => {
+        setUserPresets(presets);
+        try {
+            saveUserPresets(presets);
+        } catch (err) {
+            setMessage({ text: 'Could not save presets to this browser.', isError: true });
+        }
+    };
+
+    const handleSave = () => {
+        const name = newName.trim();
+        if (!name) return;
+        if (FACTORY_PRESETS.some(preset => preset.name === name)) {
+            setMessage({ text: `"${name}" is a built-in preset name.`, isError: true });
+            return;
+        }
+        const preset: Preset = { name, props };
+        updateUserPresets([...userPresets.filter(p => p.name !== name), preset]);
+        setSelected(name);
+        setNewName('');
+        setMessage({ text: `Saved "${name}".`, isError: false });
+    };
+
+    const handleDelete = () => {
+        if (!selectedPreset || selectedPreset.builtIn) return;
+        updateUserPresets(userPresets.filter(p => p.name !== selectedPreset.name));
+        setSelected(FACTORY_PRESETS[0].name);
+    };
+
+    const handleExport = () => {
+        const preset = selectedPreset ?? { name: 'Current', props };
+        downloadBlob(new Blob([serializePreset(preset)], { type: 'application/json' }), `${preset.name}.neogenesis.json`);
+    };
+
+    const handleImport = async (event: React.ChangeEvent<HTMLInputElement>) => {
+        const file = event.target.files?.[0];
+        event.target.value = '';
+        if (!file) return;
+        try {
+            const preset = parsePreset(await file.text());
+            updateUserPresets([...userPresets.filter(p => p.name !== preset.name), preset]);
+            setSelected(preset.name);
+            onLoad(preset);
+            setMessage({ text: `Imported "${preset.name}".`, isError: false });
+        } catch (err) {
+            setMessage({ text: err instanceof Error ? err.message : 'Could not import preset.', isError: true });
+        }
+    };
+
+    const handleShare = async () => {
+        const url = createShareUrl({ name: selectedPreset?.name ?? 'Shared', props });
+        try {
+            await navigator.clipboard.writeText(url);
+            setMessage({ text: 'Share link copied to clipboard.', isError: false });
+        } catch {
+            window.history.replaceState(null, '', url);
+            setMessage({ text: 'Share link placed in the address bar.', isError: false });
+        }
+    };
+
+    return (
+        <div>
+            <div className="flex gap-2 mb-2">
+                <select value={selected} onChange={(e) => setSelected(e.target.value)} className={inputClass} aria-label="Preset">
+                    <optgroup label="Factory">
+                        {FACTORY_PRESETS.map(preset => (<option key={preset.name} value={preset.name}>{preset.name}</option>))}
+                    </optgroup>
+                    {userPresets.length > 0 && (
+                        <optgroup label="My Presets">
+                            {userPresets.map(preset => (<option key={preset.name} value={preset.name}>{preset.name}</option>))}
+                        </optgroup>
+                    )}
+                </select>
+                <button onClick={() => selectedPreset && onLoad(selectedPreset)} className={`${buttonClass} px-3 bg-purple-600 hover:bg-purple-700`}>Load</button>
+            </div>
+            <div className="flex gap-2 mb-2">
+                <input value={newName} onChange={(e) => setNewName(e.target.value)} onKeyDown={(e) => e.key === 'Enter' && handleSave()} placeholder="New preset name" className={inputClass} aria-label="New preset name" />
+                <button onClick={handleSave} disabled={!newName.trim()} className={`${buttonClass} px-3`}>Save</button>
+            </div>
+            <div className="grid grid-cols-4 gap-2 mb-2">
+                <button onClick={handleDelete} disabled={!selectedPreset || selectedPreset.builtIn} className={buttonClass}>Delete</button>
+                <button onClick={handleExport} className={buttonClass}>Export</button>
+                <button onClick={() => importInputRef.current?.click()} className={buttonClass}>Import</button>
+                <button onClick={handleShare} className={buttonClass}>Share</button>
+                <input ref={importInputRef} type="file" accept="application/json,.json" onChange={handleImport} className="hidden" />
+            </div>
+            {message && (
+                <p className={`text-xs mb-2 ${message.isError ? 'text-red-400' : 'text-gray-400'}`}>{message.text}</p>
+            )}
+        </div>
+    );
+};
@@ -0,0 +1,33 @@
+import React from 'react';
+import { NeogenesisProps } from '../types';
+import { ControlDefinition } from '../services/controlDefinitions';
+import { ControlSlider, ToggleSwitch } from './ControlPrimitives';
+
+interface PropControlProps {
+  control: ControlDefinition;
+  props: NeogenesisProps;
+  updateProps: <K extends keyof NeogenesisProps>(key: K, value: NeogenesisProps[K]) => void;
+}
+
+const inputClass = 'w-full bg-gray-700 text-white rounded-md p-2 text-sm border border-gray-600 focus:outline-none focus:ring-2 focus:ring-purple-500';
+
+export const PropControl: React.FC<PropControlProps> = ({ control, props, updateProps }) => {
+    switch (control.type) {
+        case 'slider':
+            return (
+                <ControlSlider label={control.label} value={props[control.key]} min={control.min} max={control.max} step={control.step}
+                    onChange={val => updateProps(control.key, val)} precision={control.precision} />
+            );
+        case 'toggle':
+            return <ToggleSwitch label={control.label} checked={props[control.key]} onChange={val => updateProps(control.key, val)} />;
+        case 'select':
+            return (
+                <div className="mb-3">
+                    <label htmlFor={`${control.key}-select`} className="block text-sm font-medium text-gray-300 mb-1">{control.label}</label>
+                    <select id={`${control.key}-select`} value={props[control.key]} onChange={(e) => updateProps(control.key, e.target.value)} className={inputClass}>
+                        {control.options.map(option => (<option key={option.value} value={option.value}>{option.label}</option>))}
+                    </select>
+                </div>
+            );
+    }
+};
@@ -0,0 +1,43 @@
+import React from 'react';
+import { QualityStats } from '../hooks/useNeogenesis';
+import { PARTICLE_COUNT_RANGE, QUALITY_TIERS, QualitySettings, QualityTierId, getQualityTier } from '../services/quality';
+import { ControlSlider, ToggleSwitch } from './ControlPrimitives';
+
+interface QualityPanelProps {
+  settings: QualitySettings;
+  stats: QualityStats | null;
+  onChange: (settings: QualitySettings) => void;
+}
+
+const inputClass = 'w-full bg-gray-700 text-white rounded-md p-2 text-sm border border-gray-600 focus:outline-none focus:ring-2 focus:ring-purple-500';
+
+export const QualityPanel: React.FC<QualityPanelProps> = ({ settings, stats, onChange }) => {
+    const update = (patch: Partial<QualitySettings>) => onChange({ ...settings, ...patch });
+    const activeTier = getQualityTier(stats?.tier ?? settings.tier);
+
+    return (
+        <div>
+            {stats && (
+                <div className="mb-3 p-2 rounded-md bg-gray-800 bg-opacity-60 text-xs font-mono text-gray-300 grid grid-cols-2 gap-1">
+                    <span>Tier: <span className={stats.tier === settings.tier ? 'text-white' : 'text-yellow-400'}>{activeTier.label}</span></span>
+                    <span>{stats.fps.toFixed(0)} fps</span>
+                    <span>Frame: {stats.frameMs.toFixed(1)} ms</span>
+                    <span>CPU: {stats.workMs.toFixed(1)} ms</span>
+                    <span>Particles: {stats.particleCount.toLocaleString()}</span>
+                    <span>Motion: {stats.particleSimulation ? 'Simulated' : 'Static'}</span>
+                </div>
+            )}
+            <div className="mb-3">
+                <label htmlFor="quality-tier-select" className="block text-sm font-medium text-gray-300 mb-1">{settings.auto ? 'Maximum Quality' : 'Quality'}</label>
+                <select id="quality-tier-select" value={settings.tier} onChange={(e) => update({ tier: e.target.value as QualityTierId })} className={inputClass}>
+                    {QUALITY_TIERS.map(tier => (<option key={tier.id} value={tier.id}>{tier.label}</option>))}
+                </select>
+            </div>
+            <ToggleSwitch label="Auto Quality" checked={settings.auto} onChange={val => update({ auto: val })} />
+            <ToggleSwitch label="Custom Particle Count" checked={settings.particleCount !== null} onChange={val => update({ particleCount: val ? activeTier.particleCount : null })} />
+            {settings.particleCount !== null && (
+                <ControlSlider label="Particles" value={settings.particleCount} min={PARTICLE_COUNT_RANGE.min} max={PARTICLE_COUNT_RANGE.max} step={PARTICLE_COUNT_RANGE.step} onChange={val => update({ particleCount: val })} precision={0} />
+            )}
+        </div>
+    );
+};
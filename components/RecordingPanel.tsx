@@ -0,0 +1,83 @@
+import React, { useState } from 'react';
+import { RecordingOptions, RecordingStatus, isRecordingSupported } from '../services/PerformanceRecorder';
+
+interface RecordingPanelProps {
+  status: RecordingStatus;
+  onStart: (options: RecordingOptions) => void;
+  onPause: () => void;
+  onResume: () => void;
+  onStop: () => void;
+}
+
+const RESOLUTIONS: { label: string; width: number | null; height: number | null }[] = [
+  { label: 'Canvas size', width: null, height: null },
+  { label: '1280 × 720', width: 1280, height: 720 },
+  { label: '1920 × 1080', width: 1920, height: 1080 },
+  { label: '3840 × 2160', width: 3840, height: 2160 },
+];
+
+const BITRATES_MBPS = [2.5, 5, 8, 16];
+
+const selectClass = 'w-full bg-gray-700 text-white rounded-md p-2 text-sm border border-gray-600 focus:outline-none focus:ring-2 focus:ring-purple-500';
+
+const formatDuration = (ms: number) => {
+  const totalSeconds = Math.floor(ms / 1000);
+  const minutes = Math.floor(totalSeconds / 60);
+  const seconds = totalSeconds % 60;
+  return `${String(minutes).padStart(2, '0')}:${String(seconds).padStart(2, '0')}`;
+};
+
+const formatSize = (bytes: number) => `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+
+export const RecordingPanel: React.FC<RecordingPanelProps> = ({ status, onStart, onPause, onResume, onStop }) => {
+    const [resolutionIndex, setResolutionIndex] = useState(0);
+    const [bitrateMbps, setBitrateMbps] = useState(8);
+
+    if (!isRecordingSupported()) {
+        return <p className="text-xs text-yellow-400 mb-2">This browser doesn't support MediaRecorder.</p>;
+    }
+
+    const isActive = status.state !== 'inactive';
+
+    const handleStart = () => {
+        const { width, height } = RESOLUTIONS[resolutionIndex];
+        onStart({ width, height, videoBitsPerSecond: bitrateMbps * 1e6, frameRate: 60 });
+    };
+
+    return (
+        <div>
+            <div className="grid grid-cols-2 gap-2 mb-3">
+                <select value={resolutionIndex} onChange={(e) => setResolutionIndex(parseInt(e.target.value, 10))} disabled={isActive} className={selectClass} aria-label="Recording resolution">
+                    {RESOLUTIONS.map((res, i) => (<option key={res.label} value={i}>{res.label}</option>))}
+                </select>
+                <select value={bitrateMbps} onChange={(e) => setBitrateMbps(parseFloat(e.target.value))} disabled={isActive} className={selectClass} aria-label="Recording bitrate">
+                    {BITRATES_MBPS.map(rate => (<option key={rate} value={rate}>{rate} Mbps</option>))}
+                </select>
+            </div>
+
+            <div className="flex items-center gap-2">
+                {!isActive ? (
+                    <button onClick={handleStart} className="flex-1 flex items-center justify-center gap-2 text-sm font-bold py-2 rounded-md bg-red-600 hover:bg-red-700">
+                        <span className="inline-block w-3 h-3 rounded-full bg-white" /> Record
+                    </button>
+                ) : (
+                    <>
+                        <button onClick={status.state === 'paused' ? onResume : onPause} className="flex-1 text-sm font-bold py-2 rounded-md bg-gray-700 hover:bg-gray-600">
+                            {status.state === 'paused' ? 'Resume' : 'Pause'}
+                        </button>
+                        <button onClick={onStop} className="flex-1 text-sm font-bold py-2 rounded-md bg-red-600 hover:bg-red-700">Stop</button>
+                    </>
+                )}
+            </div>
+
+            {isActive && (
+                <div className="flex justify-between mt-2 text-xs font-mono text-gray-300">
+                    <span className={status.state === 'recording' ? 'text-red-400' : 'text-gray-400'}>
+                        {status.state === 'recording' ? '● REC' : '❚❚ PAUSED'} {formatDuration(status.durationMs)}
+                    </span>
+                    <span>{formatSize(status.bytes)}</span>
+                </div>
+            )}
+        </div>
+    );
+};
@@ -0,0 +1,143 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { NeogenesisProps } from '../types';
+import { CONTROL_SECTIONS } from '../services/controlDefinitions';
+import { RemoteConnection, RemoteConnectionStatus, getDefaultRelayUrl } from '../services/RemoteConnection';
+import { RemoteCommand, RemoteStateMessage, parseRemoteInbound } from '../services/remoteProtocol';
+import { PropControl } from './PropControl';
+
+// A slider keeps the value under the finger for this long, instead of jumping back to an older echo
+const LOCAL_EDIT_HOLD_MS = 500;
+const ERROR_DISPLAY_MS = 4000;
+
+const inputClass = 'w-full bg-gray-700 text-white rounded-md p-2 text-sm border border-gray-600 focus:outline-none focus:ring-2 focus:ring-purple-500';
+const chipClass = 'px-3 py-2 rounded-md text-sm font-medium transition-colors';
+
+/**
+ * Phone-sized remote for a visualizer connected to the same relay. The relay
+ * address comes from `?relay=ws://…`, defaulting to port 8787 on the host that
+ * served this page.
+ */
+export const RemoteApp: React.FC = () => {
+    const [url, setUrl] = useState(() => new URLSearchParams(window.location.search).get('relay') ?? getDefaultRelayUrl());
+    const [draftUrl, setDraftUrl] = useState(url);
+    const [connection, setConnection] = useState<RemoteConnectionStatus>('disconnected');
+    const [hosts, setHosts] = useState(0);
+    const [state, setState] = useState<RemoteStateMessage | null>(null);
+    const [error, setError] = useState<string | null>(null);
+    const connectionRef = useRef<RemoteConnection | null>(null);
+    const localEditsRef = useRef(new Map<keyof NeogenesisProps, { value: unknown; time: number }>());
+
+    useEffect(() => {
+        const remote = new RemoteConnection(
+            url,
+            'remote',
+            data => {
+                const message = parseRemoteInbound(data);
+                if (!message) return;
+                switch (message.type) {
+                    case 'state': {
+                        const now = performance.now();
+                        const props = { ...message.props } as Record<string, unknown>;
+                        localEditsRef.current.forEach((edit, key) => {
+                            if (now - edit.time < LOCAL_EDIT_HOLD_MS) props[key] = edit.value;
+                            else localEditsRef.current.delete(key);
+                        });
+                        setState({ ...message, props: props as unknown as NeogenesisProps });
+                        return;
+                    }
+                    case 'error':
+                        setError(message.message);
+                        return;
+                    case 'peers':
+                        setHosts(message.hosts);
+                        return;
+                }
+            },
+            status => {
+                setConnection(status);
+                if (status === 'connected') remote.send({ type: 'query' });
+            },
+        );
+        connectionRef.current = remote;
+        return () => {
+            remote.close();
+            connectionRef.current = null;
+        };
+    }, [url]);
+
+    useEffect(() => {
+        if (!error) return;
+        const timeout = window.setTimeout(() => setError(null), ERROR_DISPLAY_MS);
+        return () => window.clearTimeout(timeout);
+    }, [error]);
+
+    const sendCommand = (command: RemoteCommand) => {
+        if (!connectionRef.current?.send(command)) setError('Not connected to the relay');
+    };
+
+    const updateProps = <K extends keyof NeogenesisProps>(key: K, value: NeogenesisProps[K]) => {
+        localEditsRef.current.set(key, { value, time: performance.now() });
+        setState(prev => (prev ? { ...prev, props: { ...prev.props, [key]: value } } : prev));
+        sendCommand({ type: 'set', key, value });
+    };
+
+    const isLive = connection === 'connected' && hosts > 0;
+    const statusText = connection !== 'connected' ? (connection === 'connecting' ? 'Connecting…' : 'Disconnected')
+        : hosts === 0 ? 'Waiting for the visualizer…' : 'Live';
+
+    return (
+        <div className="min-h-screen bg-gray-900 text-gray-200 font-sans p-4 pb-12 max-w-lg mx-auto">
+            <header className="flex items-center justify-between mb-4">
+                <h1 className="text-xl font-extrabold tracking-wider bg-clip-text text-transparent bg-gradient-to-r from-purple-400 via-pink-500 to-red-500">NEOGENESIS REMOTE</h1>
+                <span className={`text-xs font-medium ${isLive ? 'text-green-400' : 'text-yellow-400'}`}>{statusText}</span>
+            </header>
+
+            <div className="flex gap-2 mb-4">
+                <input type="text" value={draftUrl} onChange={(e) => setDraftUrl(e.target.value)} className={inputClass} spellCheck={false} aria-label="Relay address" />
+                <button onClick={() => setUrl(draftUrl.trim())} disabled={!draftUrl.trim() || draftUrl.trim() === url} className="bg-gray-700 hover:bg-gray-600 disabled:opacity-50 text-white text-sm rounded-md px-3">Connect</button>
+            </div>
+
+            {error && <p className="mb-4 p-2 rounded-md bg-red-900 bg-opacity-60 text-sm text-red-200">{error}</p>}
+
+            <button
+                onClick={() => sendCommand({ type: 'tap' })}
+                disabled={!isLive}
+                className="w-full py-8 mb-4 rounded-xl bg-purple-600 active:bg-purple-800 disabled:opacity-50 text-white text-2xl font-extrabold tracking-widest select-none"
+            >
+                TAP{state && state.tempo > 0 && <span className="block text-sm font-medium tracking-normal mt-1">{state.tempo.toFixed(1)} BPM</span>}
+            </button>
+
+            {state && (
+                <>
+                    <h3 className="text-xs font-bold uppercase text-gray-400 mt-4 mb-2">Themes</h3>
+                    <div className="flex flex-wrap gap-2">
+                        {state.themes.map(theme => (
+                            <button key={theme.id} onClick={() => sendCommand({ type: 'theme', id: theme.id })}
+                                className={`${chipClass} ${state.props.theme === theme.id ? 'bg-purple-600 text-white' : 'bg-gray-700 hover:bg-gray-600 text-gray-200'}`}>
+                                {theme.name}
+                            </button>
+                        ))}
+                    </div>
+
+                    <h3 className="text-xs font-bold uppercase text-gray-400 mt-4 mb-2">Presets</h3>
+                    <div className="flex flex-wrap gap-2">
+                        {state.presets.map(name => (
+                            <button key={name} onClick={() => sendCommand({ type: 'loadPreset', name })} className={`${chipClass} bg-gray-700 hover:bg-gray-600 text-gray-200`}>
+                                {name}
+                            </button>
+                        ))}
+                    </div>
+
+                    {CONTROL_SECTIONS.map(section => (
+                        <section key={section.title}>
+                            <h3 className="text-xs font-bold uppercase text-gray-400 mt-4 mb-2">{section.title}</h3>
+                            {section.controls.map(control => (
+                                <PropControl key={control.key} control={control} props={state.props} updateProps={updateProps} />
+                            ))}
+                        </section>
+                    ))}
+                </>
+            )}
+        </div>
+    );
+};
@@ -0,0 +1,50 @@
+import React, { useEffect, useState } from 'react';
+import { RemoteSettings } from '../services/RemoteConnection';
+import { RemoteControlStatus } from '../hooks/useRemoteControl';
+import { ToggleSwitch } from './ControlPrimitives';
+
+interface RemotePanelProps {
+  settings: RemoteSettings;
+  status: RemoteControlStatus;
+  onChange: (settings: RemoteSettings) => void;
+}
+
+const inputClass = 'w-full bg-gray-700 text-white rounded-md p-2 text-sm border border-gray-600 focus:outline-none focus:ring-2 focus:ring-purple-500';
+
+const STATUS_LABELS = {
+  disconnected: { text: 'Off', className: 'text-gray-400' },
+  connecting: { text: 'Connecting to relay…', className: 'text-yellow-400' },
+  connected: { text: 'Connected', className: 'text-green-400' },
+};
+
+export const RemotePanel: React.FC<RemotePanelProps> = ({ settings, status, onChange }) => {
+    // Edited locally and applied on blur, so typing doesn't reconnect on every key
+    const [url, setUrl] = useState(settings.url);
+    useEffect(() => setUrl(settings.url), [settings.url]);
+
+    const statusLabel = STATUS_LABELS[status.connection];
+    const remotePageUrl = new URL('remote.html', window.location.href).href;
+
+    return (
+        <div>
+            <div className="mb-3">
+                <label htmlFor="remote-url" className="block text-sm font-medium text-gray-300 mb-1">Relay Address</label>
+                <input
+                    id="remote-url"
+                    type="text"
+                    value={url}
+                    onChange={(e) => setUrl(e.target.value)}
+                    onBlur={() => url.trim() && url !== settings.url && onChange({ ...settings, url: url.trim() })}
+                    className={inputClass}
+                    spellCheck={false}
+                />
+            </div>
+            <ToggleSwitch label="Accept Remotes" checked={settings.enabled} onChange={val => onChange({ ...settings, enabled: val })} />
+            <div className="mb-3 p-2 rounded-md bg-gray-800 bg-opacity-60 text-xs text-gray-300">
+                <p>Status: <span className={statusLabel.className}>{statusLabel.text}</span>
+                    {status.connection === 'connected' && ` · ${status.remotes} remote${status.remotes === 1 ? '' : 's'}`}</p>
+                <p className="mt-1">Start the relay with <code className="font-mono">npm run relay</code>, then open <a href={remotePageUrl} target="_blank" rel="noreferrer" className="text-purple-400 underline break-all">{remotePageUrl}</a> on the other device.</p>
+            </div>
+        </div>
+    );
+};
@@ -0,0 +1,65 @@
+import React from 'react';
+import { AudioSource } from '../types';
+import { SYNTHETIC_BPM_RANGE, SyntheticSignalSettings } from '../services/SyntheticFeatureSource';
+import { ControlSlider, ToggleSwitch } from './ControlPrimitives';
+
+interface TestSignalPanelProps {
+  audioSource: AudioSource;
+  settings: SyntheticSignalSettings;
+  onSettingsChange: (settings: SyntheticSignalSettings) => void;
+  onStart: () => void;
+  onFeatureTrackLoad: (file: File) => void;
+  // Frames captured so far, or null when not recording
+  recordedFrames: number | null;
+  onToggleRecording: () => void;
+}
+
+const buttonClass = 'text-xs font-bold py-2 px-2 rounded-md disabled:text-gray-500 disabled:cursor-not-allowed';
+
+export const TestSignalPanel: React.FC<TestSignalPanelProps> = ({ audioSource, settings, onSettingsChange, onStart, onFeatureTrackLoad, recordedFrames, onToggleRecording }) => {
+    const update = (patch: Partial<SyntheticSignalSettings>) => onSettingsChange({ ...settings, ...patch });
+    const isRecording = recordedFrames !== null;
+
+    const handleTrackFile = (event: React.ChangeEvent<HTMLInputElement>) => {
+        const file = event.target.files?.[0];
+        event.target.value = '';
+        if (file) onFeatureTrackLoad(file);
+    };
+
+    return (
+        <div>
+            <ToggleSwitch label="Sine Sweep" checked={settings.sweep} onChange={val => update({ sweep: val })} />
+            {settings.sweep && (
+                <ControlSlider label="Sweep Length (s)" value={settings.sweepSeconds} min={1} max={30} step={1} onChange={val => update({ sweepSeconds: val })} precision={0} />
+            )}
+            <ToggleSwitch label="Pink Noise" checked={settings.pinkNoise} onChange={val => update({ pinkNoise: val })} />
+            <ToggleSwitch label="Click Track" checked={settings.clickTrack} onChange={val => update({ clickTrack: val })} />
+            {settings.clickTrack && (
+                <ControlSlider label="BPM" value={settings.bpm} min={SYNTHETIC_BPM_RANGE.min} max={SYNTHETIC_BPM_RANGE.max} step={1} onChange={val => update({ bpm: val })} precision={0} />
+            )}
+            <button
+                onClick={onStart}
+                className={`${buttonClass} w-full mb-2 ${audioSource === AudioSource.Synthetic ? 'bg-purple-600' : 'bg-gray-700 hover:bg-gray-600'}`}
+            >
+                Play Test Signal
+            </button>
+
+            <div className="grid grid-cols-2 gap-2">
+                <label
+                    htmlFor="feature-track-upload"
+                    className={`${buttonClass} text-center cursor-pointer ${audioSource === AudioSource.FeatureTrack ? 'bg-purple-600' : 'bg-gray-700 hover:bg-gray-600'}`}
+                >
+                    Load Features
+                </label>
+                <input id="feature-track-upload" type="file" accept="application/json,.json" onChange={handleTrackFile} className="hidden" />
+                <button
+                    onClick={onToggleRecording}
+                    disabled={!isRecording && audioSource === AudioSource.None}
+                    className={`${buttonClass} ${isRecording ? 'bg-red-600 hover:bg-red-700' : 'bg-gray-700 hover:bg-gray-600'}`}
+                >
+                    {isRecording ? `Save (${recordedFrames} frames)` : 'Record Features'}
+                </button>
+            </div>
+        </div>
+    );
+};
@@ -0,0 +1,116 @@
+import React, { useRef, useState } from 'react';
+import { NeogenesisProps, ThemeCycleMode, ThemeDefinition } from '../types';
+import { THEME_COLOR_SLOTS, duplicateTheme, getTheme, hasTheme, parseTheme, registerTheme, serializeTheme, unregisterTheme } from '../services/themes';
+import { downloadBlob } from '../services/fileUtils';
+import { useThemes } from '../hooks/useThemes';
+import { ControlSlider } from './ControlPrimitives';
+
+interface ThemeEditorProps {
+  props: NeogenesisProps;
+  updateProps: <K extends keyof NeogenesisProps>(key: K, value: NeogenesisProps[K]) => void;
+}
+
+const inputClass = 'w-full bg-gray-700 text-white rounded-md p-2 text-sm border border-gray-600 focus:outline-none focus:ring-2 focus:ring-purple-500';
+const buttonClass = 'text-xs font-bold py-2 px-2 rounded-md bg-gray-700 hover:bg-gray-600 disabled:text-gray-500 disabled:cursor-not-allowed';
+
+export const ThemeEditor: React.FC<ThemeEditorProps> = ({ props, updateProps }) => {
+    const themes = useThemes();
+    const [error, setError] = useState<string | null>(null);
+    const importInputRef = useRef<HTMLInputElement>(null);
+    const theme = getTheme(props.theme);
+
+    const updateTheme = (patch: Partial<ThemeDefinition>) => {
+        registerTheme({ ...theme, ...patch });
+    };
+
+    const handleDuplicate = () => {
+        const copy = duplicateTheme(theme);
+        registerTheme(copy);
+        updateProps('theme', copy.id);
+    };
+
+    const handleDelete = () => {
+        if (theme.builtIn) return;
+        unregisterTheme(theme.id);
+        updateProps('theme', themes[0].id);
+        updateProps('themeCycleList', props.themeCycleList.filter(id => id !== theme.id));
+    };
+
+    const handleImport = async (event: React.ChangeEvent<HTMLInputElement>) => {
+        const file = event.target.files?.[0];
+        event.target.value = '';
+        if (!file) return;
+        try {
+            let imported = parseTheme(await file.text());
+            // Never let an import shadow a built-in theme
+            if (hasTheme(imported.id) && getTheme(imported.id).builtIn) {
+                imported = duplicateTheme(imported, imported.name);
+            }
+            registerTheme(imported);
+            updateProps('theme', imported.id);
+            setError(null);
+        } catch (err) {
+            setError(err instanceof Error ? err.message : 'Could not import theme.');
+        }
+    };
+
+    const toggleCycleTheme = (id: string, included: boolean) => {
+        const list = included ? [...props.themeCycleList, id] : props.themeCycleList.filter(entry => entry !== id);
+        updateProps('themeCycleList', list);
+    };
+
+    return (
+        <div>
+            {theme.builtIn ? (
+                <p className="text-xs text-gray-400 mb-2">Built-in themes are read-only. Duplicate one to edit its colors.</p>
+            ) : (
+                <>
+                    <input value={theme.name} onChange={(e) => updateTheme({ name: e.target.value })} className={`${inputClass} mb-2`} aria-label="Theme name" />
+                    <div className="grid grid-cols-3 gap-2 mb-2">
+                        {THEME_COLOR_SLOTS.map(slot => (
+                            <label key={slot.key} className="flex flex-col items-center text-xs text-gray-300 gap-1">
+                                <input type="color" value={theme[slot.key]} onChange={(e) => updateTheme({ [slot.key]: e.target.value })} className="w-10 h-8 bg-transparent border-0 cursor-pointer" />
+                                {slot.label}
+                            </label>
+                        ))}
+                    </div>
+                </>
+            )}
+
+            <div className="grid grid-cols-4 gap-2 mb-2">
+                <button onClick={handleDuplicate} className={buttonClass}>Duplicate</button>
+                <button onClick={handleDelete} disabled={theme.builtIn} className={buttonClass}>Delete</button>
+                <button onClick={() => downloadBlob(new Blob([serializeTheme(theme)], { type: 'application/json' }), `${theme.name}.theme.json`)} className={buttonClass}>Export</button>
+                <button onClick={() => importInputRef.current?.click()} className={buttonClass}>Import</button>
+                <input ref={importInputRef} type="file" accept="application/json,.json" onChange={handleImport} className="hidden" />
+            </div>
+            {error && <p className="text-xs text-red-400 mb-2">{error}</p>}
+
+            {/* --- Auto-Cycle --- */}
+            <div className="mb-3 mt-3">
+                <label htmlFor="theme-cycle-mode" className="block text-sm font-medium text-gray-300 mb-1">Auto-Cycle</label>
+                <select id="theme-cycle-mode" value={props.themeCycleMode} onChange={(e) => updateProps('themeCycleMode', e.target.value as ThemeCycleMode)} className={inputClass}>
+                    <option value="off">Off</option>
+                    <option value="timer">On a timer</option>
+                    <option value="beat">On detected beats</option>
+                </select>
+            </div>
+            {props.themeCycleMode === 'timer' && (
+                <ControlSlider label="Seconds per Theme" value={props.themeCycleInterval} min={1} max={120} step={1} onChange={val => updateProps('themeCycleInterval', val)} precision={0} />
+            )}
+            {props.themeCycleMode === 'beat' && (
+                <ControlSlider label="Beats per Theme" value={props.themeCycleBeats} min={1} max={64} step={1} onChange={val => updateProps('themeCycleBeats', val)} precision={0} />
+            )}
+            {props.themeCycleMode !== 'off' && (
+                <div className="grid grid-cols-2 gap-1 mb-3">
+                    {themes.map(entry => (
+                        <label key={entry.id} className="flex items-center gap-2 text-xs text-gray-300">
+                            <input type="checkbox" checked={props.themeCycleList.includes(entry.id)} onChange={(e) => toggleCycleTheme(entry.id, e.target.checked)} />
+                            {entry.name}
+                        </label>
+                    ))}
+                </div>
+            )}
+        </div>
+    );
+};
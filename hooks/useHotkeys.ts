@@ -0,0 +1,69 @@
+import { useEffect, useRef } from 'react';
+import { HotkeyAction, Keymap, findHotkeyAction, getHotkeyAction, keyComboFromEvent } from '../services/hotkeys';
+
+// Typing in a field must not trigger shortcuts
+const isEditableTarget = (target: EventTarget | null): boolean => {
+  const element = target as HTMLElement | null;
+  if (!element || !element.tagName) return false;
+  if (element.isContentEditable) return true;
+  const tag = element.tagName;
+  if (tag === 'TEXTAREA' || tag === 'SELECT') return true;
+  if (tag !== 'INPUT') return false;
+  // Sliders and checkboxes don't take text, so the keys stay free for shortcuts
+  const type = (element as HTMLInputElement).type;
+  return type !== 'range' && type !== 'checkbox' && type !== 'button';
+};
+
+/**
+ * Calls `onPress` for keys bound in `keymap` and `onRelease` when the key of a
+ * momentary action comes back up (or the window loses focus while it's held).
+ */
+export const useHotkeys = (
+  keymap: Keymap,
+  onPress: (action: HotkeyAction) => void,
+  onRelease: (action: HotkeyAction) => void,
+  enabled: boolean = true,
+) => {
+  const handlersRef = useRef({ onPress, onRelease });
+  handlersRef.current = { onPress, onRelease };
+
+  useEffect(() => {
+    if (!enabled) return;
+    // Held momentary actions by physical key, so releasing Shift first still ends the flash
+    const held = new Map<string, HotkeyAction>();
+
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (isEditableTarget(event.target)) return;
+      const combo = keyComboFromEvent(event);
+      const action = combo ? findHotkeyAction(keymap, combo) : null;
+      if (!action) return;
+      event.preventDefault();
+      const definition = getHotkeyAction(action);
+      if (event.repeat && !definition.repeats) return;
+      if (definition.momentary) held.set(event.code, action);
+      handlersRef.current.onPress(action);
+    };
+
+    const handleKeyUp = (event: KeyboardEvent) => {
+      const action = held.get(event.code);
+      if (!action) return;
+      held.delete(event.code);
+      handlersRef.current.onRelease(action);
+    };
+
+    const releaseAll = () => {
+      held.forEach(action => handlersRef.current.onRelease(action));
+      held.clear();
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    window.addEventListener('keyup', handleKeyUp);
+    window.addEventListener('blur', releaseAll);
+    return () => {
+      window.removeEventListener('keydown', handleKeyDown);
+      window.removeEventListener('keyup', handleKeyUp);
+      window.removeEventListener('blur', releaseAll);
+      releaseAll();
+    };
+  }, [keymap, enabled]);
+};
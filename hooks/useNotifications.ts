@@ -0,0 +1,29 @@
+import { useCallback, useState } from 'react';
+
+export interface AppNotification {
+  // A notification replaces any earlier one with the same key
+  key: string;
+  message: string;
+  action?: { label: string; run: () => void };
+}
+
+export interface NotificationControls {
+  notifications: AppNotification[];
+  notify: (notification: AppNotification) => void;
+  dismiss: (key: string) => void;
+}
+
+/** In-app notifications, newest last. They stay until dismissed or their action runs. */
+export const useNotifications = (): NotificationControls => {
+  const [notifications, setNotifications] = useState<AppNotification[]>([]);
+
+  const notify = useCallback((notification: AppNotification) => {
+    setNotifications(prev => [...prev.filter(entry => entry.key !== notification.key), notification]);
+  }, []);
+
+  const dismiss = useCallback((key: string) => {
+    setNotifications(prev => (prev.some(entry => entry.key === key) ? prev.filter(entry => entry.key !== key) : prev));
+  }, []);
+
+  return { notifications, notify, dismiss };
+};
@@ -0,0 +1,294 @@
+import React, { useCallback, useEffect, useRef, useState } from 'react';
+import { AudioProcessor } from '../services/AudioProcessor';
+import { AudioError, toPlaybackError } from '../services/audioErrors';
+import { PlaylistTrack, RepeatMode, createShuffleOrder, createTrack, getAdjacentTrackId, readDuration, readId3Tags, releaseTrack } from '../services/playlist';
+
+// Restart the current track instead of going back when it has played longer than this
+const PREVIOUS_RESTART_SECONDS = 3;
+
+export interface PlaylistControls {
+  tracks: PlaylistTrack[];
+  currentTrack: PlaylistTrack | null;
+  activeDeck: number;
+  isPlaying: boolean;
+  shuffle: boolean;
+  repeat: RepeatMode;
+  crossfade: number;
+  addFiles: (files: File[], playFirst?: boolean) => void;
+  removeTrack: (id: string) => void;
+  moveTrack: (fromIndex: number, toIndex: number) => void;
+  playTrackById: (id: string) => void;
+  togglePlay: () => void;
+  next: () => void;
+  previous: () => void;
+  pauseAll: () => void;
+  setShuffle: (shuffle: boolean) => void;
+  setRepeat: (repeat: RepeatMode) => void;
+  setCrossfade: (seconds: number) => void;
+}
+
+/**
+ * Playlist and queue for file playback. Two audio elements act as decks so the
+ * next track can be crossfaded in through AudioProcessor's gain stage.
+ * Tracks that can't be played are reported through `onPlaybackError`, with a
+ * function that tries the track again.
+ */
+export const usePlaylist = (
+  audioProcessorRef: React.RefObject<AudioProcessor | null>,
+  deckRefs: [React.RefObject<HTMLAudioElement>, React.RefObject<HTMLAudioElement>],
+  onTrackStarted: (track: PlaylistTrack) => void,
+  onPlaybackError: (error: AudioError, track: PlaylistTrack, retry: () => void) => void,
+): PlaylistControls => {
+  const [tracks, setTracks] = useState<PlaylistTrack[]>([]);
+  const [currentId, setCurrentId] = useState<string | null>(null);
+  const [activeDeck, setActiveDeck] = useState(0);
+  const [isPlaying, setIsPlaying] = useState(false);
+  const [shuffle, setShuffleState] = useState(false);
+  const [repeat, setRepeat] = useState<RepeatMode>('all');
+  const [crossfade, setCrossfade] = useState(0);
+
+  const shuffleOrderRef = useRef<string[]>([]);
+  const fadeTimerRef = useRef<{ timer: number; deck: HTMLAudioElement } | null>(null);
+  const advancingRef = useRef(false);
+  // The deck whose play() is pending; playTrack reports its failures, not the deck's error event
+  const startingDeckRef = useRef<HTMLAudioElement | null>(null);
+
+  // Deck event handlers run outside React, so they read the latest state from here
+  const stateRef = useRef({ tracks, currentId, activeDeck, isPlaying, shuffle, repeat, crossfade, onTrackStarted, onPlaybackError });
+  stateRef.current = { tracks, currentId, activeDeck, isPlaying, shuffle, repeat, crossfade, onTrackStarted, onPlaybackError };
+
+  const getOrder = () => {
+    const { tracks, shuffle } = stateRef.current;
+    if (!shuffle) return tracks.map(track => track.id);
+    // Keep the shuffle order in sync with additions and removals
+    const ids = new Set(tracks.map(track => track.id));
+    const order = shuffleOrderRef.current.filter(id => ids.has(id));
+    tracks.forEach(track => { if (!order.includes(track.id)) order.push(track.id); });
+    shuffleOrderRef.current = order;
+    return order;
+  };
+
+  const finishPendingFade = () => {
+    if (!fadeTimerRef.current) return;
+    window.clearTimeout(fadeTimerRef.current.timer);
+    fadeTimerRef.current.deck.pause();
+    fadeTimerRef.current = null;
+  };
+
+  const playTrack = useCallback(async (track: PlaylistTrack, fade: boolean) => {
+    const processor = audioProcessorRef.current;
+    const { activeDeck, isPlaying, crossfade } = stateRef.current;
+    finishPendingFade();
+    const useCrossfade = fade && crossfade > 0 && isPlaying;
+    const deckIndex = useCrossfade ? 1 - activeDeck : activeDeck;
+    const incoming = deckRefs[deckIndex].current;
+    const outgoing = deckRefs[activeDeck].current;
+    if (!incoming || !processor) return;
+
+    advancingRef.current = false;
+    incoming.src = track.url;
+    incoming.load();
+    startingDeckRef.current = incoming;
+    try {
+      await incoming.play();
+    } catch (error) {
+      // Another track was picked before this one started
+      if (error instanceof Error && error.name === 'AbortError') return;
+      console.error("Audio playback failed:", error);
+      stateRef.current.onPlaybackError(toPlaybackError(incoming.error ?? error), track, () => playTrack(track, false));
+      return;
+    } finally {
+      if (startingDeckRef.current === incoming) startingDeckRef.current = null;
+    }
+
+    if (useCrossfade && outgoing) {
+      processor.crossfadeTo(incoming, crossfade);
+      fadeTimerRef.current = { deck: outgoing, timer: window.setTimeout(() => { outgoing.pause(); fadeTimerRef.current = null; }, crossfade * 1000) };
+    } else {
+      deckRefs[1 - deckIndex].current?.pause();
+      processor.connectFile(incoming);
+    }
+    setActiveDeck(deckIndex);
+    setCurrentId(track.id);
+    setIsPlaying(true);
+    stateRef.current.onTrackStarted(track);
+  }, [audioProcessorRef, deckRefs]);
+
+  const advance = useCallback((direction: 1 | -1, isAutoAdvance: boolean) => {
+    const { tracks, currentId, repeat } = stateRef.current;
+    const nextId = getAdjacentTrackId(getOrder(), currentId, direction, repeat, isAutoAdvance);
+    const track = tracks.find(entry => entry.id === nextId);
+    if (!track) {
+      setIsPlaying(false);
+      return;
+    }
+    playTrack(track, true);
+  }, [playTrack]);
+
+  const next = useCallback(() => advance(1, false), [advance]);
+
+  const previous = useCallback(() => {
+    const deck = deckRefs[stateRef.current.activeDeck].current;
+    if (deck && deck.currentTime > PREVIOUS_RESTART_SECONDS) {
+      deck.currentTime = 0;
+      return;
+    }
+    advance(-1, false);
+  }, [advance, deckRefs]);
+
+  const addFiles = useCallback((files: File[], playFirst: boolean = false) => {
+    if (files.length === 0) return;
+    const added = files.map(createTrack);
+    setTracks(prev => [...prev, ...added]);
+
+    // Fill in title, artist and duration as they become available
+    added.forEach(async track => {
+      const [tags, duration] = await Promise.all([readId3Tags(track.file).catch(() => ({ title: null, artist: null })), readDuration(track.url)]);
+      setTracks(prev => prev.map(entry => (entry.id === track.id
+        ? { ...entry, title: tags.title ?? entry.title, artist: tags.artist, duration }
+        : entry)));
+    });
+
+    if (playFirst || !stateRef.current.isPlaying) {
+      playTrack(added[0], false);
+    }
+  }, [playTrack]);
+
+  const removeTrack = useCallback((id: string) => {
+    const { tracks, currentId, isPlaying } = stateRef.current;
+    const track = tracks.find(entry => entry.id === id);
+    if (!track) return;
+    if (id === currentId) {
+      const nextId = tracks.length > 1 ? getAdjacentTrackId(getOrder(), id, 1, 'all', false) : null;
+      const nextTrack = tracks.find(entry => entry.id === nextId);
+      if (nextTrack && isPlaying) {
+        playTrack(nextTrack, false);
+      } else {
+        deckRefs.forEach(deck => { deck.current?.pause(); deck.current?.removeAttribute('src'); });
+        setCurrentId(null);
+        setIsPlaying(false);
+      }
+    }
+    releaseTrack(track);
+    setTracks(prev => prev.filter(entry => entry.id !== id));
+  }, [playTrack, deckRefs]);
+
+  const moveTrack = useCallback((fromIndex: number, toIndex: number) => {
+    setTracks(prev => {
+      if (fromIndex < 0 || fromIndex >= prev.length || toIndex < 0 || toIndex >= prev.length) return prev;
+      const reordered = [...prev];
+      const [moved] = reordered.splice(fromIndex, 1);
+      reordered.splice(toIndex, 0, moved);
+      return reordered;
+    });
+  }, []);
+
+  const playTrackById = useCallback((id: string) => {
+    const track = stateRef.current.tracks.find(entry => entry.id === id);
+    if (track) playTrack(track, false);
+  }, [playTrack]);
+
+  const togglePlay = useCallback(() => {
+    const { currentId, tracks, activeDeck, onPlaybackError } = stateRef.current;
+    if (currentId === null) {
+      const firstId = getOrder()[0];
+      const first = tracks.find(track => track.id === firstId);
+      if (first) playTrack(first, false);
+      return;
+    }
+    const deck = deckRefs[activeDeck].current;
+    if (!deck) return;
+    if (deck.paused) {
+      audioProcessorRef.current?.connectFile(deck);
+      deck.play().catch(error => {
+        console.error("Audio playback failed:", error);
+        const track = tracks.find(entry => entry.id === currentId);
+        if (track) onPlaybackError(toPlaybackError(error), track, () => playTrack(track, false));
+      });
+    } else {
+      deck.pause();
+    }
+  }, [playTrack, deckRefs, audioProcessorRef]);
+
+  const pauseAll = useCallback(() => {
+    finishPendingFade();
+    deckRefs.forEach(deck => deck.current?.pause());
+  }, [deckRefs]);
+
+  const setShuffle = useCallback((value: boolean) => {
+    if (value) {
+      const { tracks, currentId } = stateRef.current;
+      shuffleOrderRef.current = createShuffleOrder(tracks.map(track => track.id), currentId);
+    }
+    setShuffleState(value);
+  }, []);
+
+  // --- Deck events: auto-advance, crossfade start and play state ---
+  useEffect(() => {
+    const cleanups = deckRefs.map((deckRef, index) => {
+      const deck = deckRef.current;
+      if (!deck) return () => {};
+      const isActive = () => stateRef.current.activeDeck === index;
+      const onEnded = () => {
+        if (isActive() && !advancingRef.current) advance(1, true);
+      };
+      const onTimeUpdate = () => {
+        const { crossfade } = stateRef.current;
+        if (!isActive() || crossfade <= 0 || advancingRef.current || !isFinite(deck.duration)) return;
+        if (deck.duration - deck.currentTime <= crossfade) {
+          advancingRef.current = true;
+          advance(1, true);
+        }
+      };
+      const onPlay = () => { if (isActive()) setIsPlaying(true); };
+      const onPause = () => { if (isActive() && !advancingRef.current) setIsPlaying(false); };
+      // Decode errors part way through a track; failures to start are handled by playTrack
+      const onError = () => {
+        const { tracks, currentId, onPlaybackError } = stateRef.current;
+        const track = tracks.find(entry => entry.id === currentId);
+        if (!isActive() || deck === startingDeckRef.current || !deck.error || !track) return;
+        console.error("Audio playback failed:", deck.error);
+        onPlaybackError(toPlaybackError(deck.error), track, () => playTrack(track, false));
+      };
+      deck.addEventListener('ended', onEnded);
+      deck.addEventListener('timeupdate', onTimeUpdate);
+      deck.addEventListener('play', onPlay);
+      deck.addEventListener('pause', onPause);
+      deck.addEventListener('error', onError);
+      return () => {
+        deck.removeEventListener('ended', onEnded);
+        deck.removeEventListener('timeupdate', onTimeUpdate);
+        deck.removeEventListener('play', onPlay);
+        deck.removeEventListener('pause', onPause);
+        deck.removeEventListener('error', onError);
+      };
+    });
+    return () => cleanups.forEach(cleanup => cleanup());
+  }, [deckRefs, advance, playTrack]);
+
+  // Release every object URL when the player goes away
+  useEffect(() => () => {
+    stateRef.current.tracks.forEach(releaseTrack);
+  }, []);
+
+  return {
+    tracks,
+    currentTrack: tracks.find(track => track.id === currentId) ?? null,
+    activeDeck,
+    isPlaying,
+    shuffle,
+    repeat,
+    crossfade,
+    addFiles,
+    removeTrack,
+    moveTrack,
+    playTrackById,
+    togglePlay,
+    next,
+    previous,
+    pauseAll,
+    setShuffle,
+    setRepeat,
+    setCrossfade,
+  };
+};
@@ -0,0 +1,128 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { NeogenesisProps } from '../types';
+import { applyPresetTheme, isPropKey, listPresets, validatePropValue } from '../services/presets';
+import { hasTheme, listThemes } from '../services/themes';
+import { RemoteConnection, RemoteConnectionStatus, RemoteSettings } from '../services/RemoteConnection';
+import { HostInboundMessage, REMOTE_PROTOCOL_VERSION, RemoteStateMessage, parseHostInbound } from '../services/remoteProtocol';
+import { useThemes } from './useThemes';
+
+// Sliders dragged on a remote fire many changes a second; the echo doesn't need to keep up
+const STATE_BROADCAST_DELAY = 100;
+
+export interface RemoteControlStatus {
+  connection: RemoteConnectionStatus;
+  remotes: number;
+}
+
+/**
+ * Connects the visualizer to the relay as the host while `settings.enabled`,
+ * applies the commands remotes send and broadcasts the resulting state back so
+ * every remote shows the same values.
+ */
+export const useRemoteControl = (
+  settings: RemoteSettings,
+  props: NeogenesisProps,
+  setProps: React.Dispatch<React.SetStateAction<NeogenesisProps>>,
+  onTap: () => number,
+  getTempo: () => number,
+): RemoteControlStatus => {
+  const [status, setStatus] = useState<RemoteControlStatus>({ connection: 'disconnected', remotes: 0 });
+  const connectionRef = useRef<RemoteConnection | null>(null);
+  const themes = useThemes();
+
+  // The message handler lives as long as the connection, so it reads everything through refs
+  const latestRef = useRef({ props, onTap, getTempo });
+  latestRef.current = { props, onTap, getTempo };
+
+  const buildState = (): RemoteStateMessage => ({
+    type: 'state',
+    version: REMOTE_PROTOCOL_VERSION,
+    props: latestRef.current.props,
+    presets: listPresets().map(preset => preset.name),
+    themes: listThemes().map(theme => ({ id: theme.id, name: theme.name })),
+    tempo: latestRef.current.getTempo(),
+  });
+  const buildStateRef = useRef(buildState);
+  buildStateRef.current = buildState;
+
+  useEffect(() => {
+    if (!settings.enabled) return;
+
+    const reply = (message: HostInboundMessage, payload: object) => {
+      connectionRef.current?.send({ ...payload, clientId: message.clientId });
+    };
+
+    const handleCommand = (message: HostInboundMessage) => {
+      switch (message.type) {
+        case 'set': {
+          if (!isPropKey(message.key)) {
+            reply(message, { type: 'error', message: `Unknown setting: ${message.key}` });
+            return;
+          }
+          try {
+            const value = validatePropValue(message.key, message.value);
+            setProps(prev => ({ ...prev, [message.key]: value }));
+          } catch (error) {
+            reply(message, { type: 'error', message: (error as Error).message });
+          }
+          return;
+        }
+        case 'loadPreset': {
+          const preset = listPresets().find(p => p.name === message.name);
+          if (preset) {
+            applyPresetTheme(preset);
+            setProps(preset.props);
+          } else {
+            reply(message, { type: 'error', message: `Unknown preset: ${message.name}` });
+          }
+          return;
+        }
+        case 'theme':
+          if (hasTheme(message.id)) {
+            setProps(prev => ({ ...prev, theme: message.id }));
+          } else {
+            reply(message, { type: 'error', message: `Unknown theme: ${message.id}` });
+          }
+          return;
+        case 'tap':
+          latestRef.current.onTap();
+          // Props don't change on a tap, so the new tempo is sent here
+          connectionRef.current?.send(buildStateRef.current());
+          return;
+        case 'query':
+          reply(message, buildStateRef.current());
+          return;
+        case 'peers':
+          setStatus(prev => ({ ...prev, remotes: message.remotes }));
+          return;
+      }
+    };
+
+    const connection = new RemoteConnection(
+      settings.url,
+      'host',
+      data => {
+        const message = parseHostInbound(data);
+        if (message) handleCommand(message);
+      },
+      connectionStatus => {
+        setStatus(prev => ({ connection: connectionStatus, remotes: connectionStatus === 'connected' ? prev.remotes : 0 }));
+        if (connectionStatus === 'connected') connection.send(buildStateRef.current());
+      },
+    );
+    connectionRef.current = connection;
+
+    return () => {
+      connection.close();
+      connectionRef.current = null;
+    };
+  }, [settings.enabled, settings.url, setProps]);
+
+  // Broadcast every change, whether it came from a remote, the panel or a preset
+  useEffect(() => {
+    const timeout = window.setTimeout(() => connectionRef.current?.send(buildStateRef.current()), STATE_BROADCAST_DELAY);
+    return () => window.clearTimeout(timeout);
+  }, [props, themes]);
+
+  return status;
+};
@@ -0,0 +1,6 @@
+import { useSyncExternalStore } from 'react';
+import { ThemeDefinition } from '../types';
+import { listThemes, subscribeToThemes } from '../services/themes';
+
+// Re-renders the caller whenever a theme is registered, edited or removed
+export const useThemes = (): ThemeDefinition[] => useSyncExternalStore(subscribeToThemes, listThemes);
@@ -0,0 +1,291 @@
+// Local relay for the remote control protocol (see services/remoteProtocol.ts).
+//
+//   npm run relay                 listens on port 8787
+//   RELAY_PORT=9000 npm run relay
+//   RELAY_ORIGINS=https://vj.example npm run relay
+//
+// The visualizer connects with ?role=host, phones and scripts with ?role=remote.
+// Only one host is accepted at a time. Browser connections must come from the
+// app's own pages: by default port 3000 on localhost or one of this machine's
+// addresses, or exactly the comma-separated origins in RELAY_ORIGINS. Scripts
+// send no Origin header and are let through.
+// Commands from remotes are forwarded to the host tagged with a clientId; host
+// messages go to the remote named by their clientId, or to every remote. The
+// last state the host sent is kept so a remote that joins late is in sync at once.
+//
+// Plain Node, no dependencies: just enough of RFC 6455 for JSON text messages.
+
+import { createServer } from 'node:http';
+import { createHash } from 'node:crypto';
+import { networkInterfaces } from 'node:os';
+
+const PORT = Number(process.env.RELAY_PORT) || 8787;
+// The Vite dev server's port (vite.config.ts)
+const APP_PORT = 3000;
+const WEBSOCKET_GUID = '258EAFA5-E914-47DA-95CA-C5AB0DC85B11';
+const MAX_MESSAGE_BYTES = 1024 * 1024;
+const HEARTBEAT_MS = 30000;
+
+const OPCODE = { continuation: 0x0, text: 0x1, binary: 0x2, close: 0x8, ping: 0x9, pong: 0xa };
+
+const clients = new Map();
+let nextClientId = 1;
+let lastState = null;
+
+const defaultOrigins = () => {
+  const hosts = ['localhost', '127.0.0.1', '[::1]'];
+  Object.values(networkInterfaces()).flat().forEach(address => {
+    if (address) hosts.push(address.family === 'IPv6' ? `[${address.address}]` : address.address);
+  });
+  return hosts.map(host => `http://${host}:${APP_PORT}`);
+};
+
+const ALLOWED_ORIGINS = new Set(process.env.RELAY_ORIGINS
+  ? process.env.RELAY_ORIGINS.split(',').map(origin => origin.trim()).filter(Boolean)
+  : defaultOrigins());
+
+// --- Framing ---
+
+const encodeFrame = (opcode, payload) => {
+  const length = payload.length;
+  let header;
+  if (length < 126) {
+    header = Buffer.from([0x80 | opcode, length]);
+  } else if (length < 65536) {
+    header = Buffer.alloc(4);
+    header[0] = 0x80 | opcode;
+    header[1] = 126;
+    header.writeUInt16BE(length, 2);
+  } else {
+    header = Buffer.alloc(10);
+    header[0] = 0x80 | opcode;
+    header[1] = 127;
+    header.writeBigUInt64BE(BigInt(length), 2);
+  }
+  return Buffer.concat([header, payload]);
+};
+
+// Reads one frame from the front of `buffer`; null until the whole frame has arrived
+const decodeFrame = (buffer) => {
+  if (buffer.length < 2) return null;
+  const fin = (buffer[0] & 0x80) !== 0;
+  const opcode = buffer[0] & 0x0f;
+  const masked = (buffer[1] & 0x80) !== 0;
+  let length = buffer[1] & 0x7f;
+  let offset = 2;
+  if (length === 126) {
+    if (buffer.length < 4) return null;
+    length = buffer.readUInt16BE(2);
+    offset = 4;
+  } else if (length === 127) {
+    if (buffer.length < 10) return null;
+    const longLength = buffer.readBigUInt64BE(2);
+    if (longLength > BigInt(MAX_MESSAGE_BYTES)) return { tooLarge: true };
+    length = Number(longLength);
+    offset = 10;
+  }
+  if (length > MAX_MESSAGE_BYTES) return { tooLarge: true };
+  const maskOffset = offset;
+  if (masked) offset += 4;
+  if (buffer.length < offset + length) return null;
+
+  const payload = Buffer.from(buffer.subarray(offset, offset + length));
+  if (masked) {
+    for (let i = 0; i < payload.length; i++) payload[i] ^= buffer[maskOffset + (i % 4)];
+  }
+  return { fin, opcode, masked, payload, size: offset + length };
+};
+
+// --- Clients ---
+
+const send = (client, message) => {
+  if (client.closed) return;
+  client.socket.write(encodeFrame(OPCODE.text, Buffer.from(JSON.stringify(message))));
+};
+
+const closeClient = (client, code = 1000) => {
+  if (client.closed) return;
+  const payload = Buffer.alloc(2);
+  payload.writeUInt16BE(code, 0);
+  client.socket.write(encodeFrame(OPCODE.close, payload));
+  client.socket.end();
+  dropClient(client);
+};
+
+const dropClient = (client) => {
+  if (client.closed) return;
+  client.closed = true;
+  clients.delete(client.id);
+  console.log(`${client.role} ${client.id} left`);
+  // A state from a visualizer that's gone would show remotes settings nothing applies
+  if (client.role === 'host' && byRole('host').length === 0) lastState = null;
+  broadcastPeers();
+};
+
+const byRole = (role) => [...clients.values()].filter(client => client.role === role);
+
+const broadcastPeers = () => {
+  const message = { type: 'peers', hosts: byRole('host').length, remotes: byRole('remote').length };
+  clients.forEach(client => send(client, message));
+};
+
+// --- Routing ---
+
+const handleMessage = (client, text) => {
+  let message;
+  try {
+    message = JSON.parse(text);
+  } catch {
+    return;
+  }
+  if (typeof message !== 'object' || message === null || Array.isArray(message)) return;
+
+  if (client.role === 'remote') {
+    const hosts = byRole('host');
+    if (hosts.length === 0) {
+      send(client, { type: 'error', message: 'No visualizer is connected to the relay' });
+      return;
+    }
+    const routed = { ...message, clientId: String(client.id) };
+    hosts.forEach(host => send(host, routed));
+    return;
+  }
+
+  const { clientId, ...payload } = message;
+  if (payload.type === 'state') lastState = payload;
+  if (clientId !== undefined) {
+    const target = clients.get(Number(clientId));
+    if (target?.role === 'remote') send(target, payload);
+  } else {
+    byRole('remote').forEach(remote => send(remote, payload));
+  }
+};
+
+const attach = (socket, role) => {
+  const client = { id: nextClientId++, role, socket, buffer: Buffer.alloc(0), fragments: [], fragmentBytes: 0, alive: true, closed: false };
+  clients.set(client.id, client);
+  console.log(`${role} ${client.id} joined`);
+
+  socket.on('data', chunk => {
+    client.buffer = Buffer.concat([client.buffer, chunk]);
+    while (!client.closed) {
+      const frame = decodeFrame(client.buffer);
+      if (!frame) break;
+      if (frame.tooLarge) {
+        closeClient(client, 1009);
+        return;
+      }
+      client.buffer = client.buffer.subarray(frame.size);
+      // Clients must mask what they send
+      if (!frame.masked) {
+        closeClient(client, 1002);
+        return;
+      }
+      switch (frame.opcode) {
+        case OPCODE.text:
+        case OPCODE.binary:
+        case OPCODE.continuation: {
+          if (frame.opcode !== OPCODE.continuation) {
+            client.fragments = [];
+            client.fragmentBytes = 0;
+            client.fragmentOpcode = frame.opcode;
+          }
+          client.fragments.push(frame.payload);
+          client.fragmentBytes += frame.payload.length;
+          if (client.fragmentBytes > MAX_MESSAGE_BYTES) {
+            closeClient(client, 1009);
+            return;
+          }
+          if (frame.fin) {
+            const data = Buffer.concat(client.fragments);
+            client.fragments = [];
+            client.fragmentBytes = 0;
+            if (client.fragmentOpcode === OPCODE.text) handleMessage(client, data.toString('utf8'));
+          }
+          break;
+        }
+        case OPCODE.ping:
+          socket.write(encodeFrame(OPCODE.pong, frame.payload));
+          break;
+        case OPCODE.pong:
+          client.alive = true;
+          break;
+        case OPCODE.close:
+          closeClient(client);
+          return;
+        default:
+          closeClient(client, 1002);
+          return;
+      }
+    }
+  });
+  // Upgraded sockets are half-open: a peer that goes away without a close frame only sends 'end'
+  socket.on('end', () => {
+    socket.end();
+    dropClient(client);
+  });
+  socket.on('close', () => dropClient(client));
+  socket.on('error', () => dropClient(client));
+
+  broadcastPeers();
+  if (role === 'remote' && lastState) send(client, lastState);
+};
+
+// --- Server ---
+
+const server = createServer((request, response) => {
+  response.writeHead(200, { 'Content-Type': 'text/plain' });
+  response.end('Neogenesis remote relay. Connect with a WebSocket: ?role=host or ?role=remote\n');
+});
+
+server.on('upgrade', (request, socket) => {
+  const key = request.headers['sec-websocket-key'];
+  const role = new URL(request.url ?? '/', 'http://relay').searchParams.get('role');
+  const origin = request.headers.origin;
+  if (request.headers.upgrade?.toLowerCase() !== 'websocket' || !key || (role !== 'host' && role !== 'remote')) {
+    socket.end('HTTP/1.1 400 Bad Request\r\n\r\n');
+    return;
+  }
+  // Any page open in a browser on the network could otherwise drive the show
+  if (origin !== undefined && !ALLOWED_ORIGINS.has(origin)) {
+    console.log(`Refused a ${role} from ${origin}`);
+    socket.end('HTTP/1.1 403 Forbidden\r\n\r\n');
+    return;
+  }
+  // A second host could feed the remotes a state that isn't the show's
+  if (role === 'host' && byRole('host').length > 0) {
+    console.log('Refused a second host');
+    socket.end('HTTP/1.1 409 Conflict\r\n\r\n');
+    return;
+  }
+  const accept = createHash('sha1').update(key + WEBSOCKET_GUID).digest('base64');
+  socket.write([
+    'HTTP/1.1 101 Switching Protocols',
+    'Upgrade: websocket',
+    'Connection: Upgrade',
+    `Sec-WebSocket-Accept: ${accept}`,
+    '\r\n',
+  ].join('\r\n'));
+  socket.setNoDelay(true);
+  attach(socket, role);
+});
+
+// Drops connections that stopped answering pings (a phone that went to sleep)
+const heartbeat = setInterval(() => {
+  clients.forEach(client => {
+    if (!client.alive) {
+      client.socket.destroy();
+      dropClient(client);
+      return;
+    }
+    client.alive = false;
+    client.socket.write(encodeFrame(OPCODE.ping, Buffer.alloc(0)));
+  });
+}, HEARTBEAT_MS);
+
+server.on('close', () => clearInterval(heartbeat));
+
+server.listen(PORT, () => {
+  console.log(`Neogenesis relay listening on ws://0.0.0.0:${PORT}`);
+  console.log(`Accepting browsers from ${[...ALLOWED_ORIGINS].join(', ')}`);
+});
@@ -1,11 +1,62 @@
 
-export class AudioProcessor {
+import { AudioErrorCause, AudioFeatureSource, AudioFeatures, AudioInputChange, AudioInputDevice, AudioState, AudioStateChange, BeatEvent, FrequencyBand, OnsetEvent } from '../types';
+import { AudioError, toCaptureError, toStreamError } from './audioErrors';
+import { OnsetDetector, createEmptyFeatures } from './OnsetDetector';
+import { BandAnalyzer, DEFAULT_BANDS } from './frequencyBands';
+
+export interface AudioProcessorEventMap {
+  onset: OnsetEvent;
+  beat: BeatEvent;
+  features: AudioFeatures;
+  inputchange: AudioInputChange;
+  statechange: AudioStateChange;
+  // Failures that happen on their own, such as a device being unplugged; failed connect calls throw instead
+  error: AudioError;
+}
+
+interface FileDeck {
+  source: MediaElementAudioSourceNode;
+  gain: GainNode;
+}
+
+type AudioProcessorListener<K extends keyof AudioProcessorEventMap> = (event: AudioProcessorEventMap[K]) => void;
+
+export class AudioProcessor implements AudioFeatureSource {
   private audioContext: AudioContext;
   private analyser: AnalyserNode;
+  // Live input (device, tab capture or stream URL); files go through fileDecks instead
   private source: AudioNode | null = null;
+  private liveStream: MediaStream | null = null;
+  // Set while an input device is the source; deviceId null means the default input
+  private liveInput: { deviceId: string | null } | null = null;
+  private knownDeviceIds = new Set<string>();
+  private deviceChange: Promise<void> | null = null;
+  private streamElement: HTMLAudioElement | null = null;
+  private streamElementSource: MediaElementAudioSourceNode | null = null;
+  private fileDecks = new Map<HTMLMediaElement, FileDeck>();
+  private activeDeck: FileDeck | null = null;
   public frequencyData: Uint8Array;
+  private timeDomainData: Uint8Array;
+  private floatTimeDomainData: Float32Array;
+  private floatFrequencyData: Float32Array;
+  // Per-channel analysers behind a splitter, read only for the stereo waveform
+  private channelAnalysers: [AnalyserNode, AnalyserNode];
+  private stereoTimeDomainData: [Float32Array, Float32Array];
   private gainNode: GainNode;
+  private recordingDestination: MediaStreamAudioDestinationNode | null = null;
   public isInitialized: boolean = false;
+  private onsetDetector = new OnsetDetector();
+  private bandAnalyzer = new BandAnalyzer();
+  private features: AudioFeatures;
+  private state: AudioState = 'idle';
+  private listeners: { [K in keyof AudioProcessorEventMap]: Set<AudioProcessorListener<K>> } = {
+    onset: new Set(),
+    beat: new Set(),
+    features: new Set(),
+    inputchange: new Set(),
+    statechange: new Set(),
+    error: new Set(),
+  };
 
   constructor(fftSize: number = 512) {
     this.audioContext = new (window.AudioContext || (window as any).webkitAudioContext)();
@@ -13,48 +64,381 @@ export class AudioProcessor {
     this.analyser.fftSize = fftSize;
     this.analyser.smoothingTimeConstant = 0.8;
     this.frequencyData = new Uint8Array(this.analyser.frequencyBinCount);
+    this.timeDomainData = new Uint8Array(this.analyser.fftSize);
+    this.floatTimeDomainData = new Float32Array(this.analyser.fftSize);
+    this.floatFrequencyData = new Float32Array(this.analyser.frequencyBinCount);
     this.gainNode = this.audioContext.createGain();
     this.gainNode.connect(this.analyser);
+
+    // 'speakers' copies a mono source to both channels, so it draws a diagonal instead of a flat line
+    const splitter = this.audioContext.createChannelSplitter(2);
+    splitter.channelInterpretation = 'speakers';
+    this.gainNode.connect(splitter);
+    this.channelAnalysers = [this.audioContext.createAnalyser(), this.audioContext.createAnalyser()];
+    this.channelAnalysers.forEach((analyser, channel) => {
+      analyser.fftSize = fftSize;
+      splitter.connect(analyser, channel);
+    });
+    this.stereoTimeDomainData = [new Float32Array(fftSize), new Float32Array(fftSize)];
+    this.features = createEmptyFeatures(0);
+    this.bandAnalyzer.setBands(DEFAULT_BANDS);
+    navigator.mediaDevices?.addEventListener('devicechange', this.handleDeviceChange);
+    // Browsers suspend the context on their own (autoplay policy, backgrounded tabs, phone calls on iOS)
+    this.audioContext.addEventListener('statechange', this.handleContextStateChange);
+    document.addEventListener('visibilitychange', this.handleVisibilityChange);
+    this.refreshInputDevices();
+  }
+
+  /** Stops every source, removes the global listeners and closes the AudioContext. */
+  public dispose() {
+    navigator.mediaDevices?.removeEventListener('devicechange', this.handleDeviceChange);
+    this.audioContext.removeEventListener('statechange', this.handleContextStateChange);
+    document.removeEventListener('visibilitychange', this.handleVisibilityChange);
+    window.removeEventListener('pointerdown', this.resumeContext, true);
+    window.removeEventListener('keydown', this.resumeContext, true);
+    this.disconnectStreamSource();
+    this.streamElement?.pause();
+    this.streamElement?.removeAttribute('src');
+    Object.values(this.listeners).forEach(listeners => listeners.clear());
+    this.audioContext.close().catch(err => console.error('Could not close audio:', err));
+  }
+
+  /**
+   * Subscribes a listener to analysis events.
+   * @returns A function that removes the subscription.
+   */
+  public on<K extends keyof AudioProcessorEventMap>(type: K, listener: AudioProcessorListener<K>): () => void {
+    this.listeners[type].add(listener);
+    return () => this.off(type, listener);
+  }
+
+  public off<K extends keyof AudioProcessorEventMap>(type: K, listener: AudioProcessorListener<K>) {
+    this.listeners[type].delete(listener);
+  }
+
+  private emit<K extends keyof AudioProcessorEventMap>(type: K, event: AudioProcessorEventMap[K]) {
+    this.listeners[type].forEach(listener => listener(event));
+  }
+
+  private emitError(error: AudioError) {
+    console.error('Audio source failed:', error);
+    this.emit('error', error);
   }
 
-  private resumeContext() {
-    if (this.audioContext.state === 'suspended') {
-      this.audioContext.resume();
+  public getState(): AudioState {
+    return this.state;
+  }
+
+  private setState(state: AudioState, cause: AudioErrorCause | null = null) {
+    if (state === this.state && !cause) return;
+    this.state = state;
+    this.emit('statechange', { state, cause });
+  }
+
+  private hasSource(): boolean {
+    return this.source !== null || this.activeDeck !== null;
+  }
+
+  // Derives the state from what is connected and whether the context runs. While a
+  // source waits on a suspended context, it keeps trying to resume: right away, and
+  // again on the next click or key press, which autoplay policy requires.
+  private updateState(cause: AudioErrorCause | null = null) {
+    const connected = this.hasSource();
+    const running = this.audioContext.state === 'running';
+    if (connected && !running) {
+      this.resumeContext();
+      window.addEventListener('pointerdown', this.resumeContext, true);
+      window.addEventListener('keydown', this.resumeContext, true);
+    } else {
+      window.removeEventListener('pointerdown', this.resumeContext, true);
+      window.removeEventListener('keydown', this.resumeContext, true);
     }
+    this.setState(connected ? (running ? 'active' : 'suspended') : cause ? 'error' : 'idle', cause);
+  }
+
+  private handleContextStateChange = () => this.updateState();
+
+  private handleVisibilityChange = () => {
+    if (!document.hidden) this.updateState();
+  };
+
+  // 'interrupted' is Safari's state while another app holds the audio session
+  private resumeContext = () => {
+    const state = this.audioContext.state as string;
+    if (state === 'suspended' || state === 'interrupted') {
+      this.audioContext.resume().catch(err => console.error('Could not resume audio:', err));
+    }
+  };
+
+  /** Resumes a suspended context; call it from a user gesture. */
+  public async resume() {
+    try {
+      await this.audioContext.resume();
+    } catch (err) {
+      throw new AudioError('autoplayBlocked', undefined, { cause: err });
+    }
+  }
+
+  // Reports 'requesting' while `connect` runs, then whatever state it leaves behind
+  private async request(connect: () => Promise<void>, toError: (error: unknown) => AudioError) {
+    this.setState('requesting');
+    try {
+      await connect();
+      this.updateState();
+    } catch (err) {
+      const error = toError(err);
+      this.updateState(error.reason);
+      throw error;
+    }
+  }
+
+  // A media element can only ever get one MediaElementSource, so each deck is created once and kept
+  private getFileDeck(audioElement: HTMLMediaElement): FileDeck {
+    let deck = this.fileDecks.get(audioElement);
+    if (!deck) {
+      const source = this.audioContext.createMediaElementSource(audioElement);
+      const gain = this.audioContext.createGain();
+      gain.gain.value = 0;
+      source.connect(gain);
+      gain.connect(this.gainNode);
+      deck = { source, gain };
+      this.fileDecks.set(audioElement, deck);
+    }
+    return deck;
+  }
+
+  private disconnectStreamSource() {
+    if (this.source) {
+      this.source.disconnect();
+      if (this.source === this.streamElementSource) this.streamElement?.pause();
+      this.source = null;
+    }
+    this.liveStream?.getTracks().forEach(track => track.stop());
+    this.liveStream = null;
+    this.liveInput = null;
+  }
+
+  private silenceFileDecks() {
+    const now = this.audioContext.currentTime;
+    this.fileDecks.forEach(deck => {
+      deck.gain.gain.cancelScheduledValues(now);
+      deck.gain.gain.setValueAtTime(0, now);
+    });
+    this.activeDeck = null;
+  }
+
+  // Live captures are analysed but never played back, to avoid feedback
+  private attachLiveStream(stream: MediaStream) {
+    this.disconnectStreamSource();
+    this.silenceFileDecks();
+    try {
+      this.analyser.disconnect(this.audioContext.destination);
+    } catch {
+      // Not connected yet
+    }
+    this.source = this.audioContext.createMediaStreamSource(stream);
+    this.source.connect(this.gainNode);
+    this.liveStream = stream;
+    // Tracks end when their device is unplugged, access is revoked or the user stops sharing
+    stream.getAudioTracks().forEach(track => track.addEventListener('ended', () => {
+      if (this.liveStream === stream) this.handleLiveStreamEnded();
+    }));
+    this.onsetDetector.reset();
+    this.bandAnalyzer.reset();
+    this.isInitialized = true;
   }
 
   public connectFile(audioElement: HTMLAudioElement) {
     this.resumeContext();
-    if (this.source) {
-        // Only disconnect if it's not the same element source
-        if (!(this.source instanceof MediaElementAudioSourceNode) || this.source.mediaElement !== audioElement) {
-            this.source.disconnect();
-            this.source = this.audioContext.createMediaElementSource(audioElement);
-            this.source.connect(this.gainNode);
-        }
-    } else {
-        this.source = this.audioContext.createMediaElementSource(audioElement);
-        this.source.connect(this.gainNode);
+    this.disconnectStreamSource();
+    const deck = this.getFileDeck(audioElement);
+    if (this.activeDeck !== deck) {
+      this.onsetDetector.reset();
+      this.bandAnalyzer.reset();
     }
+    const now = this.audioContext.currentTime;
+    this.fileDecks.forEach(other => {
+      other.gain.gain.cancelScheduledValues(now);
+      other.gain.gain.setValueAtTime(other === deck ? 1 : 0, now);
+    });
+    this.activeDeck = deck;
     this.analyser.connect(this.audioContext.destination);
     this.isInitialized = true;
+    this.updateState();
   }
 
-  public async connectMicrophone() {
+  /**
+   * Fades the current file deck out and `audioElement` in over `seconds`, through
+   * the per-deck gain stage. The caller starts playback on the incoming element
+   * and stops the outgoing one once the fade is done.
+   */
+  public crossfadeTo(audioElement: HTMLAudioElement, seconds: number) {
+    if (!this.activeDeck || seconds <= 0 || this.source) {
+      this.connectFile(audioElement);
+      return;
+    }
     this.resumeContext();
-    try {
-      const stream = await navigator.mediaDevices.getUserMedia({ audio: true, video: false });
-      if (this.source) {
-        this.source.disconnect();
+    const incoming = this.getFileDeck(audioElement);
+    const now = this.audioContext.currentTime;
+    this.fileDecks.forEach(deck => {
+      const gain = deck.gain.gain;
+      gain.cancelScheduledValues(now);
+      gain.setValueAtTime(gain.value, now);
+      gain.linearRampToValueAtTime(deck === incoming ? 1 : 0, now + seconds);
+    });
+    this.activeDeck = incoming;
+    this.isInitialized = true;
+    this.updateState();
+  }
+
+  /**
+   * Stops every source: live tracks are ended, so the browser's recording
+   * indicator goes away, and file decks are silenced until connectFile().
+   */
+  public disconnect() {
+    this.disconnectStreamSource();
+    this.silenceFileDecks();
+    this.isInitialized = false;
+    this.updateState();
+  }
+
+  /** Captures the default input. Throws an AudioError when access is denied or there is no input. */
+  public connectMicrophone() {
+    return this.connectInputDevice(null);
+  }
+
+  private async openInputDevice(deviceId: string | null) {
+    this.resumeContext();
+    const stream = await navigator.mediaDevices.getUserMedia({
+      audio: deviceId ? { deviceId: { exact: deviceId } } : true,
+      video: false,
+    });
+    this.attachLiveStream(stream);
+    this.liveInput = { deviceId };
+  }
+
+  /** Captures a specific input device, or the default one when `deviceId` is null. */
+  public connectInputDevice(deviceId: string | null) {
+    return this.request(async () => {
+      await this.openInputDevice(deviceId);
+      // Device labels only become available once permission has been granted
+      await this.refreshInputDevices();
+    }, toCaptureError);
+  }
+
+  /** Captures tab or system audio through the screen-share picker. */
+  public connectSystemAudio() {
+    return this.request(async () => {
+      this.resumeContext();
+      const stream = await navigator.mediaDevices.getDisplayMedia({ video: true, audio: true });
+      // Browsers only offer audio alongside a video share; the video isn't needed
+      stream.getVideoTracks().forEach(track => track.stop());
+      if (stream.getAudioTracks().length === 0) {
+        throw new AudioError('noDevice', 'No audio was shared. Enable "Share audio" in the browser dialog.');
       }
-      this.source = this.audioContext.createMediaStreamSource(stream);
-      this.source.connect(this.gainNode);
-      // Do not connect analyser to destination to avoid feedback
-      this.isInitialized = true;
+      this.attachLiveStream(new MediaStream(stream.getAudioTracks()));
+      await this.refreshInputDevices();
+    }, toCaptureError);
+  }
+
+  /**
+   * Plays and analyses an HTTP audio stream. The server has to send CORS headers,
+   * otherwise the browser hands the analyser silence.
+   */
+  public connectStreamUrl(url: string) {
+    return this.request(() => this.openStreamUrl(url), toStreamError);
+  }
+
+  private async openStreamUrl(url: string) {
+    this.resumeContext();
+    if (!this.streamElement || !this.streamElementSource) {
+      this.streamElement = new Audio();
+      this.streamElement.crossOrigin = 'anonymous';
+      this.streamElementSource = this.audioContext.createMediaElementSource(this.streamElement);
+    }
+    const element = this.streamElement;
+    element.src = url;
+    try {
+      await element.play();
     } catch (err) {
-      console.error('Error accessing microphone:', err);
-      alert('Microphone access was denied. Please allow microphone access in your browser settings.');
+      // The element's own error says more than play()'s rejection
+      throw toStreamError(element.error ?? err);
+    }
+
+    if (this.source !== this.streamElementSource) {
+      this.disconnectStreamSource();
+      this.source = this.streamElementSource;
+      this.source.connect(this.gainNode);
+    }
+    this.silenceFileDecks();
+    this.analyser.connect(this.audioContext.destination);
+    this.onsetDetector.reset();
+    this.bandAnalyzer.reset();
+    this.isInitialized = true;
+    await this.refreshInputDevices();
+  }
+
+  /** Audio input devices, without the browser's 'default'/'communications' aliases. */
+  public async listInputDevices(): Promise<AudioInputDevice[]> {
+    if (!navigator.mediaDevices?.enumerateDevices) return [];
+    const devices = await navigator.mediaDevices.enumerateDevices();
+    return devices
+      .filter(device => device.kind === 'audioinput' && device.deviceId && device.deviceId !== 'default' && device.deviceId !== 'communications')
+      .map(device => ({ deviceId: device.deviceId, label: device.label }));
+  }
+
+  private async refreshInputDevices() {
+    const devices = await this.listInputDevices();
+    this.knownDeviceIds = new Set(devices.map(device => device.deviceId));
+    this.emit('inputchange', { devices, deviceId: this.liveInput?.deviceId ?? null });
+  }
+
+  // An ended device falls back as on 'devicechange'; a shared tab or screen has nothing to fall back to
+  private handleLiveStreamEnded() {
+    if (this.liveInput) {
+      this.handleDeviceChange();
+      return;
     }
+    this.disconnectStreamSource();
+    this.updateState('deviceLost');
+    this.emitError(new AudioError('deviceLost', 'The shared audio ended.'));
+  }
+
+  // 'devicechange' and a track ending often arrive together; they share one pass
+  private handleDeviceChange = (): Promise<void> => {
+    if (!this.deviceChange) {
+      this.deviceChange = this.followDeviceChange().finally(() => { this.deviceChange = null; });
+    }
+    return this.deviceChange;
+  };
+
+  // Follows hardware changes while an input device is the source: a newly plugged-in
+  // device takes over, and losing the current device falls back to the default input.
+  // With nothing to fall back to, the input is dropped and reported as lost.
+  private async followDeviceChange() {
+    const devices = await this.listInputDevices();
+    const added = devices.filter(device => !this.knownDeviceIds.has(device.deviceId));
+    const input = this.liveInput;
+    if (input) {
+      const tracksEnded = this.liveStream?.getAudioTracks().every(track => track.readyState === 'ended') ?? false;
+      const currentLost = tracksEnded || (input.deviceId !== null && !devices.some(device => device.deviceId === input.deviceId));
+      try {
+        if (added.length > 0) {
+          await this.openInputDevice(added[added.length - 1].deviceId);
+        } else if (currentLost) {
+          await this.openInputDevice(null);
+        }
+      } catch (err) {
+        if (currentLost) {
+          this.disconnectStreamSource();
+          this.updateState('deviceLost');
+          this.emitError(new AudioError('deviceLost', undefined, { cause: err }));
+        } else {
+          console.error('Could not switch audio input:', err);
+        }
+      }
+    }
+    await this.refreshInputDevices();
   }
 
   public updateFrequencyData(): Uint8Array {
@@ -66,7 +450,114 @@ export class AudioProcessor {
     return this.frequencyData;
   }
 
+  /**
+   * Updates the frequency data and runs onset detection for this frame.
+   * Call once per frame; emits the 'onset', 'beat' and 'features' events.
+   */
+  public analyze(): AudioFeatures {
+    this.updateFrequencyData();
+    let rms = 0;
+    if (this.isInitialized) {
+      this.analyser.getByteTimeDomainData(this.timeDomainData);
+      let sum = 0;
+      for (let i = 0; i < this.timeDomainData.length; i++) {
+        const sample = (this.timeDomainData[i] - 128) / 128;
+        sum += sample * sample;
+      }
+      rms = Math.sqrt(sum / this.timeDomainData.length);
+    }
+
+    const time = this.audioContext.currentTime;
+    this.bandAnalyzer.process(this.frequencyData, this.audioContext.sampleRate, time);
+    const { features, onsets, beat } = this.onsetDetector.process(this.frequencyData, this.audioContext.sampleRate, rms, time);
+    this.features = features;
+    onsets.forEach(onset => this.emit('onset', onset));
+    if (beat) this.emit('beat', beat);
+    this.emit('features', features);
+    return features;
+  }
+
+  /** The current waveform, fftSize samples from -1 to 1 (silence until a source is connected). */
+  public getFloatTimeDomainData(): Float32Array {
+    if (this.isInitialized) {
+      this.analyser.getFloatTimeDomainData(this.floatTimeDomainData);
+    } else {
+      this.floatTimeDomainData.fill(0);
+    }
+    return this.floatTimeDomainData;
+  }
+
+  /** The current spectrum in dB, one value per bin, floored at the analyser's minDecibels. */
+  public getFloatFrequencyData(): Float32Array {
+    if (this.isInitialized) {
+      this.analyser.getFloatFrequencyData(this.floatFrequencyData);
+      // Silent bins come back as -Infinity
+      for (let i = 0; i < this.floatFrequencyData.length; i++) {
+        this.floatFrequencyData[i] = Math.max(this.floatFrequencyData[i], this.analyser.minDecibels);
+      }
+    } else {
+      this.floatFrequencyData.fill(this.analyser.minDecibels);
+    }
+    return this.floatFrequencyData;
+  }
+
+  /** Left and right waveforms, as getFloatTimeDomainData() but per channel. */
+  public getStereoTimeDomainData(): [Float32Array, Float32Array] {
+    this.channelAnalysers.forEach((analyser, channel) => {
+      if (this.isInitialized) {
+        analyser.getFloatTimeDomainData(this.stereoTimeDomainData[channel]);
+      } else {
+        this.stereoTimeDomainData[channel].fill(0);
+      }
+    });
+    return this.stereoTimeDomainData;
+  }
+
+  public getFeatures(): AudioFeatures {
+    return this.features;
+  }
+
   public getFrequencyBinCount(): number {
     return this.analyser.frequencyBinCount;
   }
+
+  /**
+   * Audio tapped from the gain stage, before analysis, so a recording of it stays
+   * in sync with the visuals. Works for both file and microphone sources.
+   */
+  public getRecordingStream(): MediaStream {
+    if (!this.recordingDestination) {
+      this.recordingDestination = this.audioContext.createMediaStreamDestination();
+      this.gainNode.connect(this.recordingDestination);
+    }
+    return this.recordingDestination.stream;
+  }
+
+  public getSampleRate(): number {
+    return this.audioContext.sampleRate;
+  }
+
+  /** Replaces the analysed bands. Envelope state is kept for bands whose id is unchanged. */
+  public setBands(bands: FrequencyBand[]) {
+    this.bandAnalyzer.setBands(bands);
+  }
+
+  public getBands(): FrequencyBand[] {
+    return this.bandAnalyzer.getBands();
+  }
+
+  /** Attack and release time constants of the band envelopes, in seconds. */
+  public setBandEnvelope(attack: number, release: number) {
+    this.bandAnalyzer.attack = attack;
+    this.bandAnalyzer.release = release;
+  }
+
+  /** Normalized (0-1) band energies, in the same order as getBands(). Updated by analyze(). */
+  public getBandEnergies(): Float32Array {
+    return this.bandAnalyzer.getEnergies();
+  }
+
+  public getBandEnergy(id: string): number {
+    return this.bandAnalyzer.getEnergy(id);
+  }
 }
@@ -0,0 +1,249 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import * as THREE from 'three';
+import { NeogenesisEngine, NeogenesisEngineOptions, RenderPipeline, CameraControls } from './NeogenesisEngine';
+import { DEFAULT_PROPS } from './presets';
+import { createFractalLayer } from './fractalLayers';
+import { getQualityTier } from './quality';
+
+// A frame loop the test advances by hand, counting outstanding requests
+const createFrameQueue = () => {
+  const pending = new Map<number, () => void>();
+  let nextHandle = 1;
+  return {
+    pending,
+    requestFrame: vi.fn((callback: () => void) => {
+      const handle = nextHandle++;
+      pending.set(handle, callback);
+      return handle;
+    }),
+    cancelFrame: vi.fn((handle: number) => { pending.delete(handle); }),
+    runFrame() {
+      const callbacks = [...pending.values()];
+      pending.clear();
+      callbacks.forEach(callback => callback());
+    },
+  };
+};
+
+const createStubPipeline = (): RenderPipeline & { scene: THREE.Scene | null } => ({
+  scene: null,
+  domElement: {} as HTMLElement,
+  bloom: { strength: 0, radius: 0, threshold: 0, bloomTintColors: [new THREE.Vector3()] },
+  setSize: vi.fn(),
+  render: vi.fn(),
+  dispose: vi.fn(),
+});
+
+const createStubControls = (): CameraControls & { listeners: Set<string> } => {
+  const listeners = new Set<string>();
+  return {
+    listeners,
+    target: new THREE.Vector3(),
+    update: vi.fn(),
+    addEventListener: vi.fn((type: string) => { listeners.add(type); }),
+    removeEventListener: vi.fn((type: string) => { listeners.delete(type); }),
+    dispose: vi.fn(),
+  };
+};
+
+const createHeadlessEngine = (options: NeogenesisEngineOptions = {}) => {
+  const pipeline = createStubPipeline();
+  const controls = createStubControls();
+  const frames = createFrameQueue();
+  const texture = new THREE.Texture();
+  let time = 0;
+  const engine = new NeogenesisEngine(DEFAULT_PROPS, {
+    createPipeline: (_canvas, scene) => { pipeline.scene = scene; return pipeline; },
+    createControls: () => controls,
+    loadTexture: () => texture,
+    getViewport: () => ({ width: 800, height: 600, devicePixelRatio: 1 }),
+    requestFrame: frames.requestFrame,
+    cancelFrame: frames.cancelFrame,
+    now: () => (time += 16),
+    ...options,
+  });
+  return { engine, pipeline, controls, frames, texture };
+};
+
+const canvas = {} as HTMLCanvasElement;
+
+const findParticles = (scene: THREE.Scene): THREE.Points => {
+  let found: THREE.Points | null = null;
+  scene.traverse((object: THREE.Object3D) => {
+    if (!found && object instanceof THREE.Points) found = object;
+  });
+  if (!found) throw new Error('No particles in the scene');
+  return found;
+};
+
+describe('NeogenesisEngine', () => {
+  let engine: NeogenesisEngine | null = null;
+
+  afterEach(() => {
+    engine?.dispose();
+    engine = null;
+  });
+
+  it('mounts on a stub pipeline and renders a step', () => {
+    const headless = createHeadlessEngine();
+    engine = headless.engine;
+    engine.mount(canvas);
+
+    expect(engine.isMounted).toBe(true);
+    expect(headless.pipeline.scene).toBeInstanceOf(THREE.Scene);
+    expect(headless.controls.listeners).toEqual(new Set(['start', 'end']));
+
+    engine.step(1 / 60);
+    expect(headless.pipeline.render).toHaveBeenCalledTimes(1);
+    expect(headless.controls.update).toHaveBeenCalledTimes(1);
+  });
+
+  it('applies props from setProps on the next frame', () => {
+    const headless = createHeadlessEngine();
+    engine = headless.engine;
+    engine.mount(canvas);
+
+    const countMeshes = () => {
+      let count = 0;
+      headless.pipeline.scene!.traverse((object: THREE.Object3D) => { if (object instanceof THREE.Mesh) count++; });
+      return count;
+    };
+    const meshesBefore = countMeshes();
+
+    engine.setProps({ particleSize: 2.5, fractalLayers: [createFractalLayer(0)] });
+    expect(engine.getProps().particleSize).toBe(2.5);
+    expect(engine.getProps().noiseStrength).toBe(DEFAULT_PROPS.noiseStrength);
+
+    engine.step(1 / 60);
+    const particles = findParticles(headless.pipeline.scene!);
+    expect((particles.material as THREE.ShaderMaterial).uniforms.uParticleSize.value).toBe(2.5);
+    // One mesh per fractal layer
+    expect(countMeshes()).toBe(meshesBefore - (DEFAULT_PROPS.fractalLayers.length - 1));
+  });
+
+  it('keeps each fractal layer on its own mesh when another layer is removed or moved', () => {
+    const headless = createHeadlessEngine();
+    engine = headless.engine;
+    engine.mount(canvas);
+    engine.step(1 / 60);
+
+    const layerMeshes = () => {
+      const meshes: THREE.Mesh[] = [];
+      headless.pipeline.scene!.traverse((object: THREE.Object3D) => {
+        if (object instanceof THREE.Mesh && object.material instanceof THREE.MeshStandardMaterial) meshes.push(object);
+      });
+      return meshes;
+    };
+    const [outer, middle, inner] = layerMeshes();
+    const [outerLayer, middleLayer, innerLayer] = DEFAULT_PROPS.fractalLayers;
+    let middleDisposed = false;
+    middle.material.addEventListener('dispose', () => { middleDisposed = true; });
+
+    engine.setProps({ fractalLayers: [outerLayer, innerLayer] });
+    engine.step(1 / 60);
+    expect(layerMeshes()).toEqual([outer, inner]);
+    expect(middleDisposed).toBe(true);
+
+    engine.setProps({ fractalLayers: [innerLayer, outerLayer, middleLayer] });
+    engine.step(1 / 60);
+    const [first, second, third] = layerMeshes();
+    expect(first).toBe(inner);
+    expect(second).toBe(outer);
+    expect(third).not.toBe(middle);
+  });
+
+  it('turns the planet by time, not by frame count', () => {
+    const turnAfterOneSecond = (fps: number) => {
+      const headless = createHeadlessEngine();
+      headless.engine.mount(canvas);
+      for (let i = 0; i < fps; i++) headless.engine.step(1 / fps);
+      let quaternion: THREE.Quaternion | null = null;
+      headless.pipeline.scene!.traverse((object: THREE.Object3D) => {
+        if (!quaternion && object instanceof THREE.Mesh && object.material instanceof THREE.MeshStandardMaterial) quaternion = object.quaternion.clone();
+      });
+      headless.engine.dispose();
+      return quaternion!;
+    };
+    const live = turnAfterOneSecond(60);
+    const exported = turnAfterOneSecond(24);
+    expect(live.angleTo(new THREE.Quaternion())).toBeGreaterThan(0);
+    expect(exported.angleTo(live)).toBeCloseTo(0, 6);
+  });
+
+  it('keeps exactly one frame requested while running', () => {
+    const headless = createHeadlessEngine();
+    engine = headless.engine;
+
+    engine.start();
+    expect(headless.frames.requestFrame).not.toHaveBeenCalled();
+
+    engine.mount(canvas);
+    engine.start();
+    engine.start();
+    expect(engine.isRunning).toBe(true);
+    expect(headless.frames.pending.size).toBe(1);
+
+    for (let i = 0; i < 5; i++) headless.frames.runFrame();
+    expect(headless.frames.pending.size).toBe(1);
+    expect(headless.pipeline.render).toHaveBeenCalledTimes(5);
+
+    engine.stop();
+    expect(engine.isRunning).toBe(false);
+    expect(headless.frames.pending.size).toBe(0);
+    expect(headless.frames.cancelFrame).toHaveBeenCalledTimes(1);
+  });
+
+  it('pins exports to the chosen tier and gives the live view its tier back', async () => {
+    // Every frame takes 100ms, so the governor steps the live view down from High
+    const headless = createHeadlessEngine({ quality: { tier: 'high', auto: true, particleCount: null } });
+    engine = headless.engine;
+    engine.mount(canvas);
+    engine.start();
+    for (let i = 0; i < 100; i++) headless.frames.runFrame();
+    const liveTier = engine.getActiveTier();
+    expect(liveTier.id).not.toBe('high');
+    const particles = findParticles(headless.pipeline.scene!);
+    expect(particles.geometry.getAttribute('position').count).toBe(liveTier.particleCount);
+
+    await engine.beginOffline(640, 360);
+    expect(engine.getActiveTier().id).toBe('high');
+    expect(particles.geometry.getAttribute('position').count).toBe(getQualityTier('high').particleCount);
+    expect(headless.pipeline.setSize).toHaveBeenLastCalledWith(640, 360, 1, 1, false);
+
+    engine.endOffline();
+    expect(engine.getActiveTier()).toBe(liveTier);
+    expect(particles.geometry.getAttribute('position').count).toBe(liveTier.particleCount);
+  });
+
+  it('cancels the pending frame and releases the scene on dispose', () => {
+    const headless = createHeadlessEngine();
+    engine = headless.engine;
+    engine.mount(canvas);
+    engine.start();
+    headless.frames.runFrame();
+
+    const disposed = new Set<THREE.EventDispatcher>();
+    const resources = new Set<THREE.EventDispatcher>([headless.texture]);
+    headless.pipeline.scene!.traverse((object: THREE.Object3D) => {
+      const { geometry, material } = object as THREE.Mesh;
+      if (geometry) resources.add(geometry);
+      if (material) (Array.isArray(material) ? material : [material]).forEach(entry => resources.add(entry));
+    });
+    resources.forEach(resource => resource.addEventListener('dispose', () => disposed.add(resource)));
+
+    engine.dispose();
+
+    expect(engine.isMounted).toBe(false);
+    expect(engine.isRunning).toBe(false);
+    expect(headless.frames.pending.size).toBe(0);
+    expect(headless.pipeline.dispose).toHaveBeenCalledTimes(1);
+    expect(headless.controls.dispose).toHaveBeenCalledTimes(1);
+    expect(headless.controls.listeners.size).toBe(0);
+    expect([...resources].filter(resource => !disposed.has(resource))).toEqual([]);
+
+    // A disposed engine stays down
+    engine.start();
+    expect(headless.frames.pending.size).toBe(0);
+    expect(() => engine!.mount(canvas)).toThrow('disposed');
+  });
+});
@@ -0,0 +1,1266 @@
+import * as THREE from 'three';
+import { OrbitControls } from 'three/addons/controls/OrbitControls.js';
+import { EffectComposer } from 'three/addons/postprocessing/EffectComposer.js';
+import { RenderPass } from 'three/addons/postprocessing/RenderPass.js';
+import { UnrealBloomPass } from 'three/addons/postprocessing/UnrealBloomPass.js';
+import { AudioFeatureSource, AudioFeatures, CameraView, FractalLayer, FrequencyBand, NeogenesisProps, ThemeDefinition, Vec3Tuple } from '../types';
+import { createFractalGeometry } from './fractalGenerator';
+import { FractalBuildCancelledError, FractalBuilder } from './fractalBuilder';
+import { FractalWaveField } from './fractalWave';
+import { getBandLevel, getRoleLevel } from './frequencyBands';
+import { ModulationMatrix } from './modulation';
+import { createEmptyFeatures } from './OnsetDetector';
+import { TapTempo } from './tapTempo';
+import { getTheme, hasTheme } from './themes';
+import { PARTICLE_SEED, createSeededRandom } from './random';
+import { OfflineRenderTarget } from './offlineRenderer';
+import { PointMask, createParticlePositions, rasterizeText } from './particleDistributions';
+import { PostEffectChain } from './postEffectChain';
+import { CameraDirector } from './cameraDirector';
+import { Oscilloscope } from './oscilloscope';
+import { ParticleSimulation, SIMPLEX_NOISE_GLSL, createSimulationReferences } from './particleSimulation';
+import { DEFAULT_QUALITY_SETTINGS, FrameStats, QualityGovernor, QualitySettings, QualityTier, QualityTierId, getPixelRatio, getQualityTier, stepQualityTier } from './quality';
+
+interface ThemeColors {
+  color1: THREE.Color;
+  color2: THREE.Color;
+  color3: THREE.Color;
+  emissive: THREE.Color;
+  background: THREE.Color;
+  bloomTint: THREE.Vector3;
+}
+
+// THREE versions of each theme's colors, built once per definition object.
+// Treat them as read-only: the scene lerps its own copies toward them.
+const themeColorCache = new WeakMap<ThemeDefinition, ThemeColors>();
+const getThemeColors = (id: string): ThemeColors => {
+  const theme = getTheme(id);
+  let colors = themeColorCache.get(theme);
+  if (!colors) {
+    const tint = new THREE.Color(theme.bloomTint);
+    colors = {
+      color1: new THREE.Color(theme.color1),
+      color2: new THREE.Color(theme.color2),
+      color3: new THREE.Color(theme.color3),
+      emissive: new THREE.Color(theme.emissive),
+      background: new THREE.Color(theme.background),
+      bloomTint: new THREE.Vector3(tint.r, tint.g, tint.b),
+    };
+    themeColorCache.set(theme, colors);
+  }
+  return colors;
+};
+
+// Radians a layer turns per second at rotation speed 1 (the original per-frame step about its tilted axis, at 60 fps)
+const LAYER_TURN_PER_SECOND = Math.hypot(0.0005, 0.0003) * 60;
+
+// The fraction of the gap to close in `dt` seconds for an ease that closes `rate` of it every frame at 60 fps,
+// so the live view and an export at any frame rate fade alike
+const easeFactor = (rate: number, dt: number) => 1 - Math.pow(1 - rate, dt * 60);
+
+// Seconds for the old fractal to shrink away and for a newly generated one to grow in
+const FRACTAL_SWAP_OUT = 0.15;
+const FRACTAL_SWAP_IN = 0.35;
+
+// How often the live loop reports frame stats, in ms
+const STATS_INTERVAL = 500;
+
+// Seconds for the galaxy to flow from one shape (or radius) to the next
+const PARTICLE_MORPH_DURATION = 1.5;
+
+// Longest simulation step, so a stalled frame doesn't fling the particles away
+const MAX_SIMULATION_STEP = 1 / 20;
+// Seconds of velocity a full-length trail spans
+const TRAIL_SECONDS = 0.4;
+
+const POINT_TEXTURE_URL = 'https://raw.githubusercontent.com/mrdoob/three.js/master/examples/textures/sprites/spark1.png';
+
+// The galaxy flows from previousPosition to initialPosition as uMorph goes from 0 to 1.
+// `reference` is each particle's texel in the simulation textures.
+const createParticleGeometry = (positions: Float32Array, previousPositions: Float32Array): THREE.BufferGeometry => {
+  const geometry = new THREE.BufferGeometry();
+  geometry.setAttribute('position', new THREE.BufferAttribute(positions, 3));
+  geometry.setAttribute('initialPosition', new THREE.BufferAttribute(positions, 3));
+  geometry.setAttribute('previousPosition', new THREE.BufferAttribute(previousPositions, 3));
+  geometry.setAttribute('reference', new THREE.BufferAttribute(createSimulationReferences(positions.length / 3), 2));
+  return geometry;
+};
+
+// One segment per particle, from where it is back along its velocity; both ends are placed in the vertex shader
+const createTrailGeometry = (count: number): THREE.BufferGeometry => {
+  const particleReferences = createSimulationReferences(count);
+  const references = new Float32Array(count * 4);
+  const tails = new Float32Array(count * 2);
+  for (let i = 0; i < count; i++) {
+    references.set(particleReferences.subarray(i * 2, i * 2 + 2), i * 4);
+    references.set(particleReferences.subarray(i * 2, i * 2 + 2), i * 4 + 2);
+    tails[i * 2 + 1] = 1;
+  }
+  const geometry = new THREE.BufferGeometry();
+  geometry.setAttribute('position', new THREE.BufferAttribute(new Float32Array(count * 6), 3));
+  geometry.setAttribute('reference', new THREE.BufferAttribute(references, 2));
+  geometry.setAttribute('tail', new THREE.BufferAttribute(tails, 1));
+  return geometry;
+};
+
+// Per-particle color mix, size and random attributes (seeded like the positions)
+const setParticleAttributes = (geometry: THREE.BufferGeometry, count: number, theme: ThemeColors) => {
+  const colors = new Float32Array(count * 3);
+  const sizes = new Float32Array(count);
+  const randoms = new Float32Array(count);
+  const attributeRandom = createSeededRandom(PARTICLE_SEED + 1);
+  for (let i = 0; i < count; i++) {
+    const color = attributeRandom() > 0.5 ? theme.color1 : theme.color2;
+    colors[i * 3] = color.r; colors[i * 3 + 1] = color.g; colors[i * 3 + 2] = color.b;
+    sizes[i] = attributeRandom() * 1.5 + 0.5;
+    randoms[i] = attributeRandom();
+  }
+  geometry.setAttribute('color', new THREE.BufferAttribute(colors, 3));
+  geometry.setAttribute('size', new THREE.BufferAttribute(sizes, 1));
+  geometry.setAttribute('random', new THREE.BufferAttribute(randoms, 1));
+};
+
+const PARTICLE_VERTEX_SHADER = `
+    attribute float size; attribute float random; attribute vec3 initialPosition; attribute vec3 previousPosition; attribute vec2 reference;
+    uniform sampler2D uPositions; uniform float uSimulated;
+    uniform float uMorph; uniform float uTime; uniform float uBass; uniform float uMids; uniform float uTreble; uniform float uBeat; uniform float uNoiseStrength; uniform float uParticleSize;
+    varying vec3 vColor;
+    ${SIMPLEX_NOISE_GLSL}
+    void main() {
+        vColor = color; vec3 pos;
+        if (uSimulated > 0.5) {
+            pos = texture2D(uPositions, reference).xyz;
+        } else {
+            pos = mix(previousPosition, initialPosition, uMorph);
+            float noise = snoise(pos * 0.1 + uTime * 0.05) * uNoiseStrength * (1.0 + uMids);
+            float displacement = (uTreble * 2.0 + uBeat * 1.5 + noise) * (1.0 + random);
+            pos += normalize(pos) * displacement;
+        }
+        vec4 modelPosition = modelMatrix * vec4(pos, 1.0);
+        vec4 viewPosition = viewMatrix * modelPosition;
+        vec4 projectionPosition = projectionMatrix * viewPosition;
+        gl_Position = projectionPosition;
+        gl_PointSize = size * uParticleSize * (1.0 + uTreble) * (300.0 / -viewPosition.z);
+    }`;
+
+const PARTICLE_FRAGMENT_SHADER = `
+    uniform sampler2D pointTexture; uniform vec3 uColor1; uniform vec3 uColor2; uniform vec3 uColor3; uniform float uBass; uniform float uBeat;
+    varying vec3 vColor;
+    void main() {
+        float dist = length(gl_PointCoord - vec2(0.5));
+        vec3 finalColor = mix(uColor1, uColor2, vColor.r);
+        finalColor = mix(finalColor, uColor3, clamp(uBass + uBeat, 0.0, 1.0));
+        gl_FragColor = vec4(finalColor, 1.0) * texture2D(pointTexture, gl_PointCoord);
+        if (dist > 0.5) { discard; }
+    }`;
+
+// Trails fade from the particle's color2 glow at the head to nothing at the tail
+const TRAIL_VERTEX_SHADER = `
+    attribute vec2 reference; attribute float tail;
+    uniform sampler2D uPositions; uniform sampler2D uVelocities; uniform float uTrailSeconds;
+    varying float vFade;
+    void main() {
+        vec3 pos = texture2D(uPositions, reference).xyz;
+        pos -= texture2D(uVelocities, reference).xyz * uTrailSeconds * tail;
+        vFade = 1.0 - tail;
+        gl_Position = projectionMatrix * modelViewMatrix * vec4(pos, 1.0);
+    }`;
+
+const TRAIL_FRAGMENT_SHADER = `
+    uniform vec3 uColor; uniform float uOpacity;
+    varying float vFade;
+    void main() {
+        gl_FragColor = vec4(uColor * vFade * uOpacity, 1.0);
+    }`;
+
+// Handle to the running scene, for the exporters and recorders that drive or capture it
+export interface NeogenesisSceneHandle extends OfflineRenderTarget {
+  // Called right after each frame is drawn, while the drawing buffer is still valid
+  onFrameRendered(listener: () => void): () => void;
+}
+
+export interface QualityStats extends FrameStats {
+  tier: QualityTierId;
+  particleCount: number;
+  // Whether the particles are running the GPU simulation rather than the static shader
+  particleSimulation: boolean;
+}
+
+/** Renderer counters for the last frame, summed over every pass including the particle simulation. */
+export interface RenderStats {
+  drawCalls: number;
+  triangles: number;
+  points: number;
+  lines: number;
+  geometries: number;
+  textures: number;
+  programs: number;
+}
+
+/** What the scene reacted to on the last frame, for the debug overlay. */
+export interface AnalysisSnapshot {
+  // Spectrum and band energies the frame read; null while it renders without audio
+  frequencyData: Uint8Array | null;
+  bandEnergies: Float32Array | null;
+  bands: FrequencyBand[];
+  sampleRate: number;
+  // Smoothed role levels, as passed to the shaders
+  bass: number;
+  mids: number;
+  treble: number;
+  beatPulse: number;
+  // Time between the last two frames of the live loop, in ms
+  frameMs: number;
+}
+
+/** The renderer and post-processing chain the engine draws through. */
+export interface RenderPipeline {
+  // Element the camera controls listen on
+  readonly domElement: HTMLElement;
+  readonly bloom: { strength: number; radius: number; threshold: number; bloomTintColors: THREE.Vector3[] };
+  // The WebGL renderer, for GPU work outside the pipeline (the particle simulation). Headless pipelines leave it out.
+  readonly renderer?: THREE.WebGLRenderer;
+  // Tone mapping and the effect stack after bloom; without it the props' effects are ignored
+  readonly effects?: PostEffectChain;
+  setSize(width: number, height: number, pixelRatio: number, bloomScale: number, updateStyle: boolean): void;
+  render(): void;
+  dispose(): void;
+}
+
+export interface CameraControls {
+  // Point the camera orbits and looks at
+  readonly target: THREE.Vector3;
+  update(): void;
+  addEventListener(type: 'start' | 'end', listener: () => void): void;
+  removeEventListener(type: 'start' | 'end', listener: () => void): void;
+  dispose(): void;
+}
+
+export interface Viewport {
+  width: number;
+  height: number;
+  devicePixelRatio: number;
+}
+
+export interface NeogenesisEngineOptions {
+  quality?: QualitySettings;
+  // Audio for the live loop; frames render without audio while it returns null
+  audioSource?: () => AudioFeatureSource | null;
+  onQualityStats?: (stats: QualityStats) => void;
+  // The browser pieces, replaceable so the engine can run headless (e.g. in Node with a stub renderer)
+  createPipeline?: (canvas: HTMLCanvasElement, scene: THREE.Scene, camera: THREE.PerspectiveCamera) => RenderPipeline;
+  createControls?: (camera: THREE.PerspectiveCamera, domElement: HTMLElement) => CameraControls;
+  loadTexture?: (url: string) => THREE.Texture;
+  getViewport?: () => Viewport;
+  requestFrame?: (callback: () => void) => number;
+  cancelFrame?: (handle: number) => void;
+  now?: () => number;
+}
+
+const createWebGLPipeline = (canvas: HTMLCanvasElement, scene: THREE.Scene, camera: THREE.PerspectiveCamera): RenderPipeline => {
+  const renderer = new THREE.WebGLRenderer({ canvas, antialias: true, powerPreference: 'high-performance' });
+  // The engine resets the counters once per frame, so they add up every pass instead of showing the last one
+  renderer.info.autoReset = false;
+  const bloomPass = new UnrealBloomPass(new THREE.Vector2(canvas.width, canvas.height), 1.5, 0.4, 0.85);
+  const composer = new EffectComposer(renderer);
+  composer.addPass(new RenderPass(scene, camera));
+  composer.addPass(bloomPass);
+  const effects = new PostEffectChain(renderer, composer);
+  return {
+    domElement: renderer.domElement,
+    bloom: bloomPass,
+    renderer,
+    effects,
+    // The bloom pass renders at a fraction of the canvas; composer.setSize resets it, so it is rescaled after
+    setSize: (width, height, pixelRatio, bloomScale, updateStyle) => {
+      renderer.setPixelRatio(pixelRatio);
+      renderer.setSize(width, height, updateStyle);
+      composer.setPixelRatio(pixelRatio);
+      composer.setSize(width, height);
+      bloomPass.setSize(Math.max(1, Math.round(width * pixelRatio * bloomScale)), Math.max(1, Math.round(height * pixelRatio * bloomScale)));
+    },
+    render: () => composer.render(),
+    dispose: () => {
+      composer.passes.forEach((pass: { dispose(): void }) => pass.dispose());
+      composer.dispose();
+      renderer.dispose();
+    },
+  };
+};
+
+const createOrbitControls = (camera: THREE.PerspectiveCamera, domElement: HTMLElement): CameraControls => {
+  const controls = new OrbitControls(camera, domElement);
+  controls.enableDamping = true;
+  controls.dampingFactor = 0.05;
+  controls.minDistance = 2;
+  controls.maxDistance = 100;
+  return controls;
+};
+
+const getWindowViewport = (): Viewport => ({
+  width: window.innerWidth,
+  height: window.innerHeight,
+  devicePixelRatio: window.devicePixelRatio || 1,
+});
+
+// One shell of the planet; every layer draws the same geometry
+interface FractalLayerMesh {
+  // FractalLayer.id of the layer this mesh draws
+  id: string;
+  mesh: THREE.Mesh;
+  material: THREE.MeshStandardMaterial;
+  // Lets the shared wave displacement move this layer only while it is wireframe
+  waveGain: { value: number };
+}
+
+// Scratch axis for turning the fractal layers
+const layerAxis = new THREE.Vector3();
+
+// Everything that exists only while the engine is mounted on a canvas
+interface MountedScene {
+  canvas: HTMLCanvasElement;
+  scene: THREE.Scene;
+  camera: THREE.PerspectiveCamera;
+  pipeline: RenderPipeline;
+  controls: CameraControls;
+  fractalGroup: THREE.Group;
+  fractalGeometry: THREE.BufferGeometry;
+  fractalLayers: FractalLayerMesh[];
+  waveField: FractalWaveField;
+  particles: THREE.Points;
+  particleMaterial: THREE.ShaderMaterial;
+  // Child of the particles, drawn only while the simulation runs
+  trails: THREE.LineSegments;
+  trailMaterial: THREE.ShaderMaterial;
+  pointTexture: THREE.Texture;
+  oscilloscope: Oscilloscope;
+  backgroundColor: THREE.Color;
+}
+
+/**
+ * The visualizer scene: fractal planet, particle galaxy, oscilloscope, camera, bloom and
+ * post effects, with no dependency on React. Mount it on a canvas, feed it props and either
+ * start() its own animation loop or drive it frame by frame with step().
+ * dispose() releases every GPU resource, listener and pending frame.
+ */
+export class NeogenesisEngine implements NeogenesisSceneHandle {
+  private props: NeogenesisProps;
+  private view: MountedScene | null = null;
+  private disposed = false;
+
+  private audioSource: () => AudioFeatureSource | null;
+  private onQualityStats?: (stats: QualityStats) => void;
+  private createPipeline: NonNullable<NeogenesisEngineOptions['createPipeline']>;
+  private createControls: NonNullable<NeogenesisEngineOptions['createControls']>;
+  private loadTexture: (url: string) => THREE.Texture;
+  private getViewport: () => Viewport;
+  private requestFrame: (callback: () => void) => number;
+  private cancelFrame: (handle: number) => void;
+  private now: () => number;
+
+  // --- Quality: the governor moves the active tier between Low and the chosen tier ---
+  private quality: QualitySettings;
+  private activeTier: QualityTier;
+  // The live view's tier while an export has the chosen tier pinned
+  private liveTier: QualityTier | null = null;
+  private governor = new QualityGovernor();
+
+  // --- Animation state ---
+  private elapsedTime = 0;
+  private beatPulse = 0;
+  private themeCycle = { index: 0, lastChange: 0, beats: 0 };
+  private modulationMatrix = new ModulationMatrix();
+  private tapTempo = new TapTempo();
+  private fractalSwap = { phase: 'idle' as 'idle' | 'out' | 'in', start: 0 };
+  private cameraDirector = new CameraDirector();
+  private isOffline = false;
+  private savedCameraPosition = new THREE.Vector3();
+  private savedCameraQuaternion = new THREE.Quaternion();
+  private savedCameraTarget = new THREE.Vector3();
+  private frameListeners = new Set<() => void>();
+  private analysisSnapshot: AnalysisSnapshot = {
+    frequencyData: null, bandEnergies: null, bands: [], sampleRate: 0,
+    bass: 0, mids: 0, treble: 0, beatPulse: 0, frameMs: 0,
+  };
+
+  // --- Live loop ---
+  private frameHandle: number | null = null;
+  private lastFrameTime = 0;
+  private lastStatsTime = 0;
+
+  // --- Geometry builds ---
+  private fractalBuilder: FractalBuilder | null = null;
+  // Last fractal requested from the builder; a build that finishes after a newer request is dropped
+  private fractalRequest: { generator: string; depth: number; options: NeogenesisProps['fractalOptions'][string] | undefined } | null = null;
+  // Freshly built geometry waiting for the render loop to swap it in
+  private pendingFractalGeometry: THREE.BufferGeometry | null = null;
+  // Settles when the last requested fractal has been built (or dropped)
+  private fractalBuild: Promise<void> = Promise.resolve();
+  // Everything the galaxy's shape was last built from; any change rebuilds it
+  private particleBuild: {
+    count: number;
+    radius: number;
+    distribution: NeogenesisProps['particleDistribution'];
+    spiralArms: number;
+    spiralTwist: number;
+    textMask: PointMask | null;
+    imageMask: PointMask | null;
+    surface: THREE.BufferGeometry | null;
+  } | null = null;
+  private particleMorphStart = -Infinity;
+  private textMask: { text: string; mask: PointMask | null } | null = null;
+  private imageMask: PointMask | null = null;
+
+  // --- Particle simulation: null while the motion is static, the tier rules it out or the GPU can't run it ---
+  private simulation: ParticleSimulation | null = null;
+  private simulationUnsupported = false;
+  // Particle geometry the simulation last took its home positions from
+  private simulationHome: THREE.BufferGeometry | null = null;
+  private lastSimulationTime = 0;
+
+  constructor(props: NeogenesisProps, options: NeogenesisEngineOptions = {}) {
+    this.props = props;
+    this.quality = options.quality ?? DEFAULT_QUALITY_SETTINGS;
+    this.activeTier = getQualityTier(this.quality.tier);
+    this.audioSource = options.audioSource ?? (() => null);
+    this.onQualityStats = options.onQualityStats;
+    this.createPipeline = options.createPipeline ?? createWebGLPipeline;
+    this.createControls = options.createControls ?? createOrbitControls;
+    this.loadTexture = options.loadTexture ?? (url => new THREE.TextureLoader().load(url));
+    this.getViewport = options.getViewport ?? getWindowViewport;
+    this.requestFrame = options.requestFrame ?? (callback => requestAnimationFrame(callback));
+    this.cancelFrame = options.cancelFrame ?? (handle => cancelAnimationFrame(handle));
+    this.now = options.now ?? (() => performance.now());
+  }
+
+  public get canvas(): HTMLCanvasElement {
+    if (!this.view) throw new Error('NeogenesisEngine is not mounted');
+    return this.view.canvas;
+  }
+
+  public get isMounted(): boolean {
+    return this.view !== null;
+  }
+
+  public get isRunning(): boolean {
+    return this.frameHandle !== null;
+  }
+
+  public getProps(): NeogenesisProps {
+    return this.props;
+  }
+
+  public getActiveTier(): QualityTier {
+    return this.activeTier;
+  }
+
+  /** Builds the scene on `canvas`. The engine renders nothing until it is mounted. */
+  public mount(canvas: HTMLCanvasElement) {
+    if (this.disposed) throw new Error('NeogenesisEngine has been disposed');
+    if (this.view) throw new Error('NeogenesisEngine is already mounted');
+    const props = this.props;
+    const viewport = this.getViewport();
+
+    // --- Core Scene Setup ---
+    const scene = new THREE.Scene();
+    const camera = new THREE.PerspectiveCamera(props.fieldOfView, viewport.width / viewport.height, 0.1, 1000);
+    camera.position.z = 20;
+
+    const pipeline = this.createPipeline(canvas, scene, camera);
+
+    // --- Cinematic Camera Interaction Listeners ---
+    const controls = this.createControls(camera, pipeline.domElement);
+    controls.addEventListener('start', this.handleInteractionStart);
+    controls.addEventListener('end', this.handleInteractionEnd);
+
+    // --- 1. Fractal Planet Setup (one mesh per layer, added by syncFractalLayers) ---
+    const theme = getThemeColors(props.theme);
+    // Wireframe waves are displaced in the vertex shader from a spectrum texture
+    const waveField = new FractalWaveField();
+    // Starts empty: the geometry is generated in a worker and swapped in when ready
+    const fractalGeometry = new THREE.BufferGeometry();
+    const fractalGroup = new THREE.Group();
+    scene.add(fractalGroup);
+    const backgroundColor = theme.background.clone();
+    scene.background = backgroundColor;
+
+    // --- 2. Particle Galaxy Setup ---
+    // Also starts empty; syncGeometry() fills it in for the current particle count
+    const pointTexture = this.loadTexture(POINT_TEXTURE_URL);
+    const particleMaterial = new THREE.ShaderMaterial({
+      uniforms: {
+        pointTexture: { value: pointTexture },
+        uPositions: { value: null }, uSimulated: { value: 0.0 },
+        uMorph: { value: 1.0 }, uTime: { value: 0.0 }, uBass: { value: 0.0 }, uMids: { value: 0.0 }, uTreble: { value: 0.0 }, uBeat: { value: 0.0 },
+        uNoiseStrength: { value: props.noiseStrength }, uParticleSize: { value: props.particleSize },
+        uColor1: { value: theme.color1.clone() }, uColor2: { value: theme.color2.clone() }, uColor3: { value: theme.color3.clone() },
+      },
+      vertexShader: PARTICLE_VERTEX_SHADER,
+      fragmentShader: PARTICLE_FRAGMENT_SHADER,
+      blending: THREE.AdditiveBlending, depthWrite: false, transparent: true, vertexColors: true,
+    });
+    const particles = new THREE.Points(new THREE.BufferGeometry(), particleMaterial);
+    scene.add(particles);
+
+    const trailMaterial = new THREE.ShaderMaterial({
+      uniforms: {
+        uPositions: { value: null }, uVelocities: { value: null }, uTrailSeconds: { value: 0.0 },
+        uColor: { value: theme.color2.clone() }, uOpacity: { value: 0.5 },
+      },
+      vertexShader: TRAIL_VERTEX_SHADER,
+      fragmentShader: TRAIL_FRAGMENT_SHADER,
+      blending: THREE.AdditiveBlending, depthWrite: false, transparent: true,
+    });
+    const trails = new THREE.LineSegments(new THREE.BufferGeometry(), trailMaterial);
+    // The vertices are placed on the GPU, so the bounding sphere of the placeholder positions means nothing
+    trails.frustumCulled = false;
+    trails.visible = false;
+    particles.add(trails);
+
+    // --- 3. Oscilloscope Setup ---
+    const oscilloscope = new Oscilloscope(theme[props.oscilloscopeColor]);
+    oscilloscope.object.visible = false;
+    scene.add(oscilloscope.object);
+
+    this.view = {
+      canvas, scene, camera, pipeline, controls, fractalGroup, fractalGeometry, fractalLayers: [], waveField,
+      particles, particleMaterial, trails, trailMaterial, pointTexture, oscilloscope, backgroundColor,
+    };
+    this.syncFractalLayers(this.view, props.fractalLayers);
+    this.applyQuality();
+    this.syncGeometry();
+  }
+
+  /**
+   * Merges `partial` into the current props. Changes that need new geometry
+   * (fractal generator, detail or options, galaxy radius) start a rebuild;
+   * everything else is picked up on the next frame.
+   */
+  public setProps(partial: Partial<NeogenesisProps>) {
+    this.props = { ...this.props, ...partial };
+    this.syncGeometry();
+  }
+
+  public setQuality(settings: QualitySettings) {
+    const previous = this.quality;
+    this.quality = settings;
+    if (settings.tier !== previous.tier || settings.auto !== previous.auto) {
+      // Picking a tier (or toggling auto) by hand restarts the governor from that tier
+      this.governor.reset(this.now());
+      this.setActiveTier(getQualityTier(settings.tier));
+    } else {
+      this.syncGeometry();
+    }
+  }
+
+  /** Starts the requestAnimationFrame loop, which steps with the live audio source. */
+  public start() {
+    if (!this.view || this.frameHandle !== null) return;
+    this.lastFrameTime = this.now();
+    this.governor.reset(this.lastFrameTime);
+    this.frameHandle = this.requestFrame(this.animate);
+  }
+
+  public stop() {
+    if (this.frameHandle === null) return;
+    this.cancelFrame(this.frameHandle);
+    this.frameHandle = null;
+  }
+
+  /**
+   * Advances the scene by `dt` seconds and renders one frame. `features` is
+   * the analysis source for this frame, or null to render without audio.
+   */
+  public step(dt: number, features: AudioFeatureSource | null = null) {
+    const view = this.view;
+    if (!view) return;
+    this.elapsedTime += dt;
+    view.pipeline.renderer?.info.reset();
+    this.stepScene(this.elapsedTime, dt, features);
+    view.controls.update();
+    view.pipeline.render();
+    this.frameListeners.forEach(listener => listener());
+  }
+
+  /** Fits the camera and render size to the viewport (the window, unless getViewport was given). */
+  public resize() {
+    const view = this.view;
+    if (!view || this.isOffline) return;
+    const viewport = this.getViewport();
+    view.camera.aspect = viewport.width / viewport.height;
+    view.camera.updateProjectionMatrix();
+    this.applyQuality();
+  }
+
+  /**
+   * Tap tempo for the live view: taps about a beat apart replace the detected
+   * tempo and beat until clearTapTempo(). Exports ignore it.
+   * @returns The tapped BPM, or 0 after the first tap of a run.
+   */
+  public tap(): number {
+    return this.tapTempo.tap(this.elapsedTime);
+  }
+
+  public getTapTempo(): number {
+    return this.tapTempo.getBpm();
+  }
+
+  public clearTapTempo() {
+    this.tapTempo.clear();
+  }
+
+  /** The current view, for capturing camera path keyframes. */
+  public getCameraView(): CameraView | null {
+    const view = this.view;
+    if (!view) return null;
+    return {
+      position: view.camera.position.toArray() as Vec3Tuple,
+      target: view.controls.target.toArray() as Vec3Tuple,
+      fov: view.camera.fov,
+    };
+  }
+
+  /** Moves the camera to a view as if the user had put it there, so the program waits out its idle timeout. */
+  public setCameraView(position: Vec3Tuple, target: Vec3Tuple) {
+    const view = this.view;
+    if (!view) return;
+    view.camera.position.fromArray(position);
+    view.controls.target.fromArray(target);
+    view.camera.lookAt(view.controls.target);
+    this.cameraDirector.endInteraction(this.elapsedTime);
+  }
+
+  /** Gives the camera back to the cinematic program now rather than after the idle timeout. */
+  public releaseCamera() {
+    this.cameraDirector.release();
+  }
+
+  /** Image the 'image' particle distribution samples. Null falls back to the sphere. */
+  public setParticleImage(mask: PointMask | null) {
+    this.imageMask = mask;
+    if (this.view) this.syncParticles(this.view.particles);
+  }
+
+  /** The last frame's analysis. The arrays are the source's live buffers: read them, don't keep them. */
+  public getAnalysisSnapshot(): AnalysisSnapshot {
+    return this.analysisSnapshot;
+  }
+
+  public getFrameStats(): FrameStats {
+    return this.governor.getStats();
+  }
+
+  /** Renderer counters for the last frame, or null for a pipeline without a WebGL renderer. */
+  public getRenderStats(): RenderStats | null {
+    const info = this.view?.pipeline.renderer?.info;
+    if (!info) return null;
+    return {
+      drawCalls: info.render.calls,
+      triangles: info.render.triangles,
+      points: info.render.points,
+      lines: info.render.lines,
+      geometries: info.memory.geometries,
+      textures: info.memory.textures,
+      programs: info.programs?.length ?? 0,
+    };
+  }
+
+  public onFrameRendered(listener: () => void): () => void {
+    this.frameListeners.add(listener);
+    return () => { this.frameListeners.delete(listener); };
+  }
+
+  // --- Offline Rendering: fixed-clock stepping driven by the export loop ---
+  /**
+   * Hands the scene to the export loop. Exports render at the tier the user
+   * picked, whatever the governor has the live view on, so this resolves once
+   * the particles and fractal have been rebuilt for it.
+   */
+  public async beginOffline(width: number, height: number) {
+    const view = this.view;
+    if (!view) throw new Error('NeogenesisEngine is not mounted');
+    this.isOffline = true;
+    this.savedCameraPosition.copy(view.camera.position);
+    this.savedCameraQuaternion.copy(view.camera.quaternion);
+    this.savedCameraTarget.copy(view.controls.target);
+    this.liveTier = this.activeTier;
+    this.activeTier = getQualityTier(this.quality.tier);
+    this.syncGeometry();
+    await this.fractalBuild;
+    if (this.view !== view) return;
+    // Swaps in the rebuilt fractal at once instead of through the shrink-and-grow
+    this.resetAnimationState();
+    view.pipeline.setSize(width, height, 1, 1, false);
+    view.camera.aspect = width / height;
+    view.camera.updateProjectionMatrix();
+  }
+
+  public renderFrame(time: number, source: AudioFeatureSource) {
+    const view = this.view;
+    if (!view) return;
+    // An export starts at time 0, so its first frame doesn't count back from the live view's clock
+    const dt = Math.max(0, time - this.elapsedTime);
+    this.elapsedTime = time;
+    view.pipeline.renderer?.info.reset();
+    this.stepScene(time, dt, source);
+    view.pipeline.render();
+  }
+
+  public endOffline() {
+    const view = this.view;
+    if (!view) return;
+    view.camera.position.copy(this.savedCameraPosition);
+    view.camera.quaternion.copy(this.savedCameraQuaternion);
+    view.controls.target.copy(this.savedCameraTarget);
+    this.isOffline = false;
+    if (this.liveTier) {
+      this.activeTier = this.liveTier;
+      this.liveTier = null;
+      this.syncGeometry();
+    }
+    this.resize();
+    this.lastFrameTime = this.now();
+    this.governor.reset(this.lastFrameTime);
+  }
+
+  /** Stops the loop and releases the scene. The engine can't be mounted again afterwards. */
+  public dispose() {
+    this.stop();
+    this.disposed = true;
+    this.frameListeners.clear();
+    this.fractalBuilder?.dispose();
+    this.fractalBuilder = null;
+    this.fractalRequest = null;
+    this.pendingFractalGeometry?.dispose();
+    this.pendingFractalGeometry = null;
+    this.particleBuild = null;
+    this.simulation?.dispose();
+    this.simulation = null;
+    this.simulationHome = null;
+
+    const view = this.view;
+    if (!view) return;
+    this.view = null;
+    view.controls.removeEventListener('start', this.handleInteractionStart);
+    view.controls.removeEventListener('end', this.handleInteractionEnd);
+    view.controls.dispose();
+    view.particles.geometry.dispose();
+    view.particleMaterial.dispose();
+    view.trails.geometry.dispose();
+    view.trailMaterial.dispose();
+    view.pointTexture.dispose();
+    view.oscilloscope.dispose();
+    // The geometry is shared by the layers, so it is disposed once
+    view.fractalGeometry.dispose();
+    view.fractalLayers.forEach(layer => layer.material.dispose());
+    view.waveField.dispose();
+    view.pipeline.dispose();
+  }
+
+  private handleInteractionStart = () => { this.cameraDirector.beginInteraction(); };
+  private handleInteractionEnd = () => { this.cameraDirector.endInteraction(this.elapsedTime); };
+
+  // --- Main Animation Loop ---
+  private animate = () => {
+    this.frameHandle = this.requestFrame(this.animate);
+    // The offline renderer owns the scene while it is exporting
+    if (this.isOffline) return;
+    const frameStart = this.now();
+    const frameMs = frameStart - this.lastFrameTime;
+    this.lastFrameTime = frameStart;
+    this.analysisSnapshot.frameMs = frameMs;
+
+    this.step(frameMs / 1000, this.audioSource());
+
+    // --- Quality Governor ---
+    const direction = this.governor.sample(frameMs, this.now() - frameStart, frameStart);
+    if (this.quality.auto && direction !== 0) {
+      this.setActiveTier(getQualityTier(stepQualityTier(this.activeTier.id, direction, this.quality.tier)));
+    }
+    if (this.onQualityStats && frameStart - this.lastStatsTime > STATS_INTERVAL) {
+      this.lastStatsTime = frameStart;
+      this.onQualityStats({ ...this.governor.getStats(), tier: this.activeTier.id, particleCount: this.getParticleCount(), particleSimulation: this.simulation !== null });
+    }
+  };
+
+  // --- Render Size & Quality ---
+  private getParticleCount(): number {
+    return this.quality.particleCount ?? this.activeTier.particleCount;
+  }
+
+  private setActiveTier(tier: QualityTier) {
+    // An export keeps its pinned tier; the live view picks this one up when it ends
+    if (this.liveTier) {
+      this.liveTier = tier;
+      return;
+    }
+    if (tier === this.activeTier) return;
+    this.activeTier = tier;
+    // Report the new tier on the next frame rather than at the next interval
+    this.lastStatsTime = 0;
+    this.applyQuality();
+    this.syncGeometry();
+  }
+
+  private applyQuality() {
+    if (!this.view || this.isOffline) return;
+    const viewport = this.getViewport();
+    this.view.pipeline.setSize(viewport.width, viewport.height, getPixelRatio(this.activeTier, viewport.devicePixelRatio), this.activeTier.bloomScale, true);
+  }
+
+  // --- Geometry: rebuilds only what the current props and tier make stale ---
+  private syncGeometry() {
+    if (!this.view) return;
+    this.syncParticles(this.view.particles);
+    this.syncSimulation();
+    this.syncFractal();
+  }
+
+  // Rebuilds the galaxy when its shape or the particle count changes, without touching the rest of the scene.
+  // With the same count, the particles flow to their new places from wherever they are now.
+  private syncParticles(particles: THREE.Points) {
+    const p = this.props;
+    const count = this.getParticleCount();
+    const distribution = p.particleDistribution;
+    const isSpiral = distribution === 'spiral';
+    const fractalGeometry = this.view?.fractalGeometry;
+    const build = {
+      count,
+      radius: p.particleDistributionRadius,
+      distribution,
+      spiralArms: isSpiral ? p.particleSpiralArms : 0,
+      spiralTwist: isSpiral ? p.particleSpiralTwist : 0,
+      textMask: distribution === 'text' ? this.getTextMask(p.particleText) : null,
+      imageMask: distribution === 'image' ? this.imageMask : null,
+      surface: distribution === 'fractal' && fractalGeometry?.attributes.position ? fractalGeometry : null,
+    };
+    const last = this.particleBuild;
+    if (last && (Object.keys(build) as (keyof typeof build)[]).every(key => last[key] === build[key])) return;
+    this.particleBuild = build;
+
+    const positions = createParticlePositions(count, distribution, {
+      radius: build.radius,
+      spiralArms: build.spiralArms,
+      spiralTwist: build.spiralTwist,
+      textMask: build.textMask,
+      imageMask: build.imageMask,
+      surface: build.surface && { positions: build.surface.attributes.position.array, indices: build.surface.index?.array ?? null },
+    }, PARTICLE_SEED);
+
+    const oldGeo = particles.geometry;
+    let previousPositions = positions;
+    if (last?.count === count && !this.isOffline) {
+      const from = oldGeo.getAttribute('previousPosition').array as Float32Array;
+      const to = oldGeo.getAttribute('initialPosition').array as Float32Array;
+      const morph = this.getParticleMorph(this.elapsedTime);
+      previousPositions = new Float32Array(count * 3);
+      for (let i = 0; i < previousPositions.length; i++) {
+        previousPositions[i] = from[i] + (to[i] - from[i]) * morph;
+      }
+      this.particleMorphStart = this.elapsedTime;
+    }
+
+    const newParticleGeo = createParticleGeometry(positions, previousPositions);
+    // Keep the per-particle attributes when the count is unchanged, so colors don't reshuffle
+    if (oldGeo.getAttribute('random')?.count === count) {
+      newParticleGeo.setAttribute('color', oldGeo.getAttribute('color'));
+      newParticleGeo.setAttribute('size', oldGeo.getAttribute('size'));
+      newParticleGeo.setAttribute('random', oldGeo.getAttribute('random'));
+    } else {
+      setParticleAttributes(newParticleGeo, count, getThemeColors(p.theme));
+    }
+    oldGeo.dispose();
+    particles.geometry = newParticleGeo;
+    this.syncSimulation();
+  }
+
+  // Starts or stops the simulation to match the motion prop and tier, and hands it the galaxy's current shape
+  private syncSimulation() {
+    const view = this.view;
+    if (!view) return;
+    const count = this.getParticleCount();
+    const renderer = view.pipeline.renderer;
+    const wanted = this.props.particleMotion === 'simulated' && this.activeTier.particleSimulation && !this.simulationUnsupported;
+    if (this.simulation && (!wanted || this.simulation.count !== count)) {
+      this.simulation.dispose();
+      this.simulation = null;
+    }
+    if (wanted && renderer && !this.simulation) {
+      this.simulation = ParticleSimulation.create(renderer, count);
+      // Not worth retrying: the GPU won't gain float render targets later
+      this.simulationUnsupported = this.simulation === null;
+      this.simulationHome = null;
+    }
+
+    const simulation = this.simulation;
+    view.particleMaterial.uniforms.uSimulated.value = simulation ? 1.0 : 0.0;
+    if (!simulation) {
+      view.trails.visible = false;
+      return;
+    }
+    const geometry = view.particles.geometry;
+    if (this.simulationHome !== geometry && geometry.getAttribute('initialPosition')?.count === count) {
+      const isNew = this.simulationHome === null;
+      simulation.setHome(geometry.getAttribute('previousPosition').array as Float32Array, geometry.getAttribute('initialPosition').array as Float32Array);
+      if (isNew) simulation.reset();
+      this.simulationHome = geometry;
+    }
+    if (view.trails.geometry.getAttribute('tail')?.count !== count * 2) {
+      view.trails.geometry.dispose();
+      view.trails.geometry = createTrailGeometry(count);
+    }
+  }
+
+  // Rasterizing text is slow enough to do only when the text changes
+  private getTextMask(text: string): PointMask | null {
+    if (this.textMask?.text !== text) {
+      this.textMask = { text, mask: rasterizeText(text) };
+    }
+    return this.textMask.mask;
+  }
+
+  // 0 at the start of a shape change, easing to 1 when the particles arrive
+  private getParticleMorph(elapsedTime: number): number {
+    const t = (elapsedTime - this.particleMorphStart) / PARTICLE_MORPH_DURATION;
+    if (t >= 1 || t < 0) return 1;
+    return t * t * (3 - 2 * t);
+  }
+
+  // Fractals are built in a worker; a newer request cancels the build in flight
+  private syncFractal() {
+    const generator = this.props.fractalGenerator;
+    const depth = Math.min(this.props.recursionDepth, this.activeTier.fractalDepthCap);
+    const options = this.props.fractalOptions[generator];
+    const last = this.fractalRequest;
+    if (last && last.generator === generator && last.depth === depth && last.options === options) return;
+
+    const request = { generator, depth, options };
+    this.fractalRequest = request;
+    const builder = this.fractalBuilder ?? (this.fractalBuilder = new FractalBuilder());
+    this.fractalBuild = builder.build(generator, depth, options)
+      .then(data => {
+        if (this.fractalRequest !== request) return;
+        this.pendingFractalGeometry?.dispose();
+        this.pendingFractalGeometry = createFractalGeometry(data);
+      })
+      .catch(error => {
+        if (!(error instanceof FractalBuildCancelledError)) console.error("Fractal generation failed:", error);
+      });
+  }
+
+  // --- Fractal Layers: one mesh per layer id, so a layer keeps its spin when others are removed or reordered ---
+  private syncFractalLayers(view: MountedScene, layers: FractalLayer[]) {
+    const current = view.fractalLayers;
+    if (current.length === layers.length && current.every((entry, i) => entry.id === layers[i].id)) return;
+    const stale = new Map(current.map(entry => [entry.id, entry]));
+    view.fractalLayers = layers.map(layer => {
+      const kept = stale.get(layer.id);
+      if (kept) {
+        stale.delete(layer.id);
+        return kept;
+      }
+      const material = new THREE.MeshStandardMaterial({
+        color: 0xffffff,
+        emissive: getThemeColors(this.props.theme)[layer.emissive],
+        emissiveIntensity: 1.0,
+      });
+      const waveGain = view.waveField.applyTo(material);
+      return { id: layer.id, mesh: new THREE.Mesh(view.fractalGeometry, material), material, waveGain };
+    });
+    stale.forEach(removed => {
+      view.fractalGroup.remove(removed.mesh);
+      removed.material.dispose();
+    });
+    // Re-adding moves a kept mesh to its new place, so the group's children follow the list
+    view.fractalLayers.forEach(({ mesh }) => view.fractalGroup.add(mesh));
+  }
+
+  // --- Fractal Geometry Swap: shrink the old mesh away, then grow the new one in ---
+  private applyPendingFractalGeometry() {
+    const incoming = this.pendingFractalGeometry;
+    const view = this.view;
+    if (!incoming || !view) return;
+    this.pendingFractalGeometry = null;
+    const oldGeo = view.fractalGeometry;
+    view.fractalGeometry = incoming;
+    view.fractalLayers.forEach(layer => { layer.mesh.geometry = incoming; });
+    oldGeo.dispose();
+    if (this.props.particleDistribution === 'fractal') this.syncParticles(view.particles);
+  }
+
+  private stepFractalSwap(elapsedTime: number): number {
+    const swap = this.fractalSwap;
+    if (this.pendingFractalGeometry && swap.phase !== 'out') {
+      if (this.view?.fractalGeometry.attributes.position) {
+        swap.phase = 'out';
+      } else {
+        // Nothing on screen yet, so there is nothing to shrink
+        this.applyPendingFractalGeometry();
+        swap.phase = 'in';
+      }
+      swap.start = elapsedTime;
+    }
+    if (swap.phase === 'out') {
+      const t = (elapsedTime - swap.start) / FRACTAL_SWAP_OUT;
+      if (t < 1) return 1 - t * t * t;
+      this.applyPendingFractalGeometry();
+      swap.phase = 'in';
+      swap.start = elapsedTime;
+    }
+    if (swap.phase === 'in') {
+      const t = (elapsedTime - swap.start) / FRACTAL_SWAP_IN;
+      if (t < 1) return 1 - Math.pow(1 - t, 3);
+      swap.phase = 'idle';
+    }
+    return 1;
+  }
+
+  // --- Theme Auto-Cycle: steps through themeCycleList on a timer or every N beats ---
+  private resolveActiveTheme(p: NeogenesisProps, elapsedTime: number, features: AudioFeatures | null): string {
+    const cycle = this.themeCycle;
+    const list = p.themeCycleList.filter(hasTheme);
+    if (p.themeCycleMode === 'off' || list.length === 0) {
+      cycle.lastChange = elapsedTime;
+      cycle.beats = 0;
+      return p.theme;
+    }
+    let advance = false;
+    if (p.themeCycleMode === 'timer') {
+      advance = elapsedTime - cycle.lastChange >= p.themeCycleInterval;
+    } else if (features?.beat) {
+      cycle.beats++;
+      advance = cycle.beats >= p.themeCycleBeats;
+    }
+    if (advance) {
+      cycle.index = (cycle.index + 1) % list.length;
+      cycle.lastChange = elapsedTime;
+      cycle.beats = 0;
+    }
+    return list[cycle.index % list.length];
+  }
+
+  // --- Scene Step: advances every animated element to `elapsedTime`, `dt` seconds after the last step ---
+  private stepScene(elapsedTime: number, dt: number, audio: AudioFeatureSource | null) {
+    const view = this.view;
+    if (!view) return;
+    const baseProps = this.props;
+    // Colors, glow and lens ease toward their targets at the same pace whatever the frame rate
+    const ease = easeFactor(0.1, dt);
+
+    // --- Audio Data Processing ---
+    let freqData: Uint8Array | null = null;
+    let features: AudioFeatures | null = null;
+    let energies: Float32Array | null = null;
+    let waveform: Float32Array | null = null;
+    let stereoWaveform: [Float32Array, Float32Array] | null = null;
+    let smoothedBass = 0, smoothedMids = 0, smoothedTreble = 0;
+    if (audio && baseProps.isAudioReactive) {
+      if (audio.getBands() !== baseProps.bands) {
+        audio.setBands(baseProps.bands);
+      }
+      audio.setBandEnvelope(baseProps.bandAttack, baseProps.bandRelease);
+      features = audio.analyze();
+      freqData = audio.frequencyData;
+      if (baseProps.showOscilloscope) {
+        waveform = audio.getFloatTimeDomainData?.() ?? null;
+        stereoWaveform = baseProps.oscilloscopeMode === 'lissajous' ? audio.getStereoTimeDomainData?.() ?? null : null;
+      }
+
+      // Band energies are already smoothed by the attack/release envelope
+      energies = audio.getBandEnergies();
+      smoothedBass = getRoleLevel(baseProps.bands, energies, 'bass');
+      smoothedMids = getRoleLevel(baseProps.bands, energies, 'mids');
+      smoothedTreble = getRoleLevel(baseProps.bands, energies, 'treble');
+    }
+    if (!this.isOffline && baseProps.isAudioReactive && this.tapTempo.getBpm() > 0) {
+      features = this.tapTempo.apply(features ?? createEmptyFeatures(elapsedTime), elapsedTime);
+    }
+
+    // --- Modulation Matrix: everything below renders with the modulated props ---
+    const currentProps = this.modulationMatrix.apply(baseProps, { time: elapsedTime, features, bands: baseProps.bands, bandEnergies: energies });
+
+    // --- Beat Pulse: jumps on detected kicks/beats and decays between them ---
+    if (features && currentProps.beatReactive && (features.kick || features.beat)) {
+      this.beatPulse = Math.max(this.beatPulse, currentProps.beatIntensity * (features.kick ? Math.max(0.5, features.kickStrength) : 1.0));
+    }
+    this.beatPulse = THREE.MathUtils.lerp(this.beatPulse, 0, easeFactor(0.15, dt));
+    const beatPulse = this.beatPulse;
+    const snapshot = this.analysisSnapshot;
+    snapshot.frequencyData = freqData;
+    snapshot.bandEnergies = energies;
+    snapshot.bands = baseProps.bands;
+    snapshot.sampleRate = audio?.getSampleRate() ?? 0;
+    snapshot.bass = smoothedBass;
+    snapshot.mids = smoothedMids;
+    snapshot.treble = smoothedTreble;
+    snapshot.beatPulse = beatPulse;
+    const bassDrive = smoothedBass + beatPulse;
+    const activeTheme = getThemeColors(this.resolveActiveTheme(currentProps, elapsedTime, features));
+
+    // --- 1. Update Fractal Planet ---
+    const fractalGroup = view.fractalGroup;
+    fractalGroup.visible = currentProps.showFractal;
+    const layers = currentProps.fractalLayers;
+    this.syncFractalLayers(view, layers);
+    const isWireframe = (layer: FractalLayer) => layer.wireframe || currentProps.fractalWireframe;
+
+    if (layers.some(isWireframe)) {
+      // --- Spectrum wave displacement (GPU), shared by every wireframe layer ---
+      view.waveField.update(freqData, currentProps.fractalWaveAmplitude * (1.0 + bassDrive), easeFactor(currentProps.fractalWaveSmoothing, dt), currentProps.fractalWaveMapping);
+    } else {
+      view.waveField.reset();
+    }
+
+    const spacing = currentProps.fractalLayerSpacing;
+    const swapScale = this.stepFractalSwap(elapsedTime);
+
+    view.fractalLayers.forEach(({ mesh, material, waveGain }, i) => {
+      const layer = layers[i];
+      const wireframe = isWireframe(layer);
+      // Each layer glows and pulses with its own band (the bass by default), on top of the beat pulse
+      const level = layer.bandId ? (energies ? getBandLevel(baseProps.bands, energies, layer.bandId) : 0) : smoothedBass;
+      const drive = level + beatPulse;
+
+      material.wireframe = wireframe;
+      material.metalness = layer.material?.metalness ?? currentProps.fractalMetalness;
+      material.roughness = layer.material?.roughness ?? currentProps.fractalRoughness;
+      material.opacity = layer.opacity;
+      const transparent = layer.opacity < 1;
+      if (material.transparent !== transparent) {
+        material.transparent = transparent;
+        material.depthWrite = !transparent;
+        material.needsUpdate = true;
+      }
+      material.emissiveIntensity = THREE.MathUtils.lerp(material.emissiveIntensity, 1.0 + drive * 4.0, ease);
+      material.emissive.lerp(activeTheme[layer.emissive], ease);
+      waveGain.value = wireframe ? 1 : 0;
+
+      if (layerAxis.fromArray(layer.rotationAxis).lengthSq() > 0) {
+        mesh.rotateOnAxis(layerAxis.normalize(), LAYER_TURN_PER_SECOND * dt * currentProps.rotationSpeed * layer.rotationSpeed);
+      }
+
+      // Solid layers pulse in scale; wireframe ones keep still and let the waves move them
+      const scale = Math.pow(spacing, i) * swapScale * (wireframe ? 1.0 : 1.0 + drive * 0.1);
+      mesh.scale.set(scale, scale, scale);
+    });
+
+    // --- 2. Update Particle Galaxy ---
+    view.particles.rotation.y = elapsedTime * currentProps.rotationSpeed * 0.05;
+    const uniforms = view.particleMaterial.uniforms;
+    uniforms.uMorph.value = this.getParticleMorph(elapsedTime);
+    uniforms.uTime.value = elapsedTime;
+    uniforms.uBass.value = smoothedBass;
+    uniforms.uMids.value = smoothedMids;
+    uniforms.uTreble.value = smoothedTreble;
+    uniforms.uBeat.value = beatPulse;
+    uniforms.uNoiseStrength.value = currentProps.noiseStrength;
+    uniforms.uParticleSize.value = currentProps.particleSize;
+
+    uniforms.uColor1.value.lerp(activeTheme.color1, ease);
+    uniforms.uColor2.value.lerp(activeTheme.color2, ease);
+    uniforms.uColor3.value.lerp(activeTheme.color3, ease);
+
+    // --- Particle Simulation: bass hits fire a shockwave and an attractor ---
+    const simulation = this.simulation;
+    if (simulation) {
+      const delta = THREE.MathUtils.clamp(elapsedTime - this.lastSimulationTime, 0, MAX_SIMULATION_STEP);
+      this.lastSimulationTime = elapsedTime;
+      if (features?.kick && currentProps.beatReactive) {
+        simulation.kick(currentProps.beatIntensity * Math.max(0.5, features.kickStrength), currentProps.particleDistributionRadius);
+      }
+      simulation.step({
+        delta,
+        time: elapsedTime,
+        morph: uniforms.uMorph.value,
+        radius: currentProps.particleDistributionRadius,
+        damping: currentProps.particleDamping,
+        turbulence: currentProps.particleTurbulence,
+        mids: smoothedMids,
+      });
+      uniforms.uPositions.value = simulation.positionTexture;
+
+      const trailUniforms = view.trailMaterial.uniforms;
+      trailUniforms.uPositions.value = simulation.positionTexture;
+      trailUniforms.uVelocities.value = simulation.velocityTexture;
+      trailUniforms.uTrailSeconds.value = currentProps.particleTrailLength * TRAIL_SECONDS;
+      trailUniforms.uColor.value.copy(uniforms.uColor2.value);
+      view.trails.visible = currentProps.particleTrailLength > 0;
+    }
+
+    // --- 3. Update Oscilloscope ---
+    const oscilloscope = view.oscilloscope;
+    oscilloscope.object.visible = currentProps.showOscilloscope;
+    oscilloscope.color.lerp(activeTheme[currentProps.oscilloscopeColor], ease);
+    if (currentProps.showOscilloscope) {
+      oscilloscope.update({
+        mode: currentProps.oscilloscopeMode,
+        radius: currentProps.oscilloscopeRadius,
+        thickness: currentProps.oscilloscopeThickness,
+        time: elapsedTime,
+        waveform,
+        stereo: stereoWaveform,
+      });
+    }
+
+    // --- Update Camera and Post-processing ---
+    const camera = view.camera;
+    const pose = this.cameraDirector.update(currentProps, elapsedTime, !!features?.beat, camera.position, view.controls.target);
+    if (pose) {
+      camera.position.copy(pose.position);
+      view.controls.target.copy(pose.target);
+      camera.lookAt(pose.target);
+    }
+
+    camera.fov = THREE.MathUtils.lerp(camera.fov, pose ? pose.fov : currentProps.fieldOfView, ease);
+    camera.updateProjectionMatrix();
+    const bloom = view.pipeline.bloom;
+    bloom.strength = currentProps.bloomStrength;
+    bloom.radius = currentProps.bloomRadius;
+    bloom.threshold = currentProps.bloomThreshold;
+    view.pipeline.effects?.update(currentProps.postEffects, {
+      time: elapsedTime,
+      bands: baseProps.bands,
+      energies,
+      toneMapping: currentProps.toneMapping,
+      exposure: currentProps.toneMappingExposure,
+    });
+    view.backgroundColor.lerp(activeTheme.background, ease);
+    view.pipeline.bloom.bloomTintColors.forEach(tint => tint.lerp(activeTheme.bloomTint, ease));
+  }
+
+  // Puts every piece of accumulated animation state back to a known start,
+  // so two exports of the same song produce the same frames.
+  private resetAnimationState() {
+    const view = this.view;
+    if (!view) return;
+    const currentProps = this.props;
+    const currentTheme = getThemeColors(currentProps.theme);
+    this.themeCycle.index = 0;
+    this.themeCycle.lastChange = 0;
+    this.themeCycle.beats = 0;
+    this.beatPulse = 0;
+    this.modulationMatrix.reset();
+    this.applyPendingFractalGeometry();
+    this.fractalSwap.phase = 'idle';
+    this.syncFractalLayers(view, currentProps.fractalLayers);
+    view.fractalLayers.forEach(({ mesh, material }, i) => {
+      mesh.rotation.set(0, 0, 0);
+      material.emissive.copy(currentTheme[currentProps.fractalLayers[i].emissive]);
+      material.emissiveIntensity = 1.0;
+    });
+    view.waveField.reset();
+    this.particleMorphStart = -Infinity;
+    this.simulation?.reset();
+    this.lastSimulationTime = 0;
+    const uniforms = view.particleMaterial.uniforms;
+    uniforms.uColor1.value.copy(currentTheme.color1);
+    uniforms.uColor2.value.copy(currentTheme.color2);
+    uniforms.uColor3.value.copy(currentTheme.color3);
+    view.oscilloscope.reset(currentTheme[currentProps.oscilloscopeColor]);
+    view.backgroundColor.copy(currentTheme.background);
+    view.pipeline.bloom.bloomTintColors.forEach(tint => tint.copy(currentTheme.bloomTint));
+    view.pipeline.effects?.reset();
+    view.camera.fov = currentProps.fieldOfView;
+    this.cameraDirector.reset();
+  }
+}
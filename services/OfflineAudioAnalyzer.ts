@@ -0,0 +1,96 @@
+import { AudioFeatureSource, AudioFeatures, FrequencyBand } from '../types';
+import { OnsetDetector } from './OnsetDetector';
+import { BandAnalyzer, DEFAULT_BANDS } from './frequencyBands';
+import { ByteSpectrumAnalyzer } from './fft';
+
+const DECODE_SAMPLE_RATE = 44100;
+
+/**
+ * Audio analysis over a decoded buffer instead of a live AnalyserNode.
+ * The caller moves the read head with setTime() and then calls analyze(), so the
+ * result depends only on the audio and the frame times, never on wall-clock timing.
+ */
+export class OfflineAudioAnalyzer implements AudioFeatureSource {
+  private samples: Float32Array;
+  private sampleRate: number;
+  private spectrum: ByteSpectrumAnalyzer;
+  private waveform: Float32Array;
+  private time = 0;
+  private onsetDetector = new OnsetDetector();
+  private bandAnalyzer = new BandAnalyzer();
+
+  constructor(buffer: AudioBuffer, fftSize: number = 512) {
+    this.sampleRate = buffer.sampleRate;
+    this.samples = new Float32Array(buffer.length);
+    // Mix down to mono, as the live graph does through the analyser
+    for (let c = 0; c < buffer.numberOfChannels; c++) {
+      const channel = buffer.getChannelData(c);
+      for (let i = 0; i < channel.length; i++) {
+        this.samples[i] += channel[i] / buffer.numberOfChannels;
+      }
+    }
+    this.spectrum = new ByteSpectrumAnalyzer(fftSize);
+    this.waveform = new Float32Array(this.spectrum.fftSize);
+    this.bandAnalyzer.setBands(DEFAULT_BANDS);
+  }
+
+  public static async fromFile(file: Blob, fftSize?: number): Promise<OfflineAudioAnalyzer> {
+    const data = await file.arrayBuffer();
+    const context = new OfflineAudioContext(1, 1, DECODE_SAMPLE_RATE);
+    const buffer = await context.decodeAudioData(data);
+    return new OfflineAudioAnalyzer(buffer, fftSize);
+  }
+
+  public get frequencyData(): Uint8Array {
+    return this.spectrum.frequencyData;
+  }
+
+  public get duration(): number {
+    return this.samples.length / this.sampleRate;
+  }
+
+  public setTime(time: number) {
+    this.time = time;
+  }
+
+  public analyze(): AudioFeatures {
+    const start = Math.floor(this.time * this.sampleRate) - this.spectrum.fftSize;
+    const rms = this.spectrum.process(i => {
+      const index = start + i;
+      return index >= 0 && index < this.samples.length ? this.samples[index] : 0;
+    });
+    this.bandAnalyzer.process(this.frequencyData, this.sampleRate, this.time);
+    return this.onsetDetector.process(this.frequencyData, this.sampleRate, rms, this.time).features;
+  }
+
+  /** The mono samples the last analyze() looked at. */
+  public getFloatTimeDomainData(): Float32Array {
+    const start = Math.floor(this.time * this.sampleRate) - this.waveform.length;
+    for (let i = 0; i < this.waveform.length; i++) {
+      const index = start + i;
+      this.waveform[i] = index >= 0 && index < this.samples.length ? this.samples[index] : 0;
+    }
+    return this.waveform;
+  }
+
+  public getSampleRate(): number {
+    return this.sampleRate;
+  }
+
+  public getBands(): FrequencyBand[] {
+    return this.bandAnalyzer.getBands();
+  }
+
+  public setBands(bands: FrequencyBand[]) {
+    this.bandAnalyzer.setBands(bands);
+  }
+
+  public setBandEnvelope(attack: number, release: number) {
+    this.bandAnalyzer.attack = attack;
+    this.bandAnalyzer.release = release;
+  }
+
+  public getBandEnergies(): Float32Array {
+    return this.bandAnalyzer.getEnergies();
+  }
+}
@@ -0,0 +1,237 @@
+import { AudioFeatures, BeatEvent, OnsetBand, OnsetEvent } from '../types';
+
+interface BandState {
+  minHz: number;
+  maxHz: number;
+  // Minimum time between two onsets in the same band (seconds)
+  refractory: number;
+  previous: Float32Array | null;
+  fluxHistory: number[];
+  lastOnset: number;
+}
+
+const BAND_RANGES: Record<OnsetBand, { minHz: number; maxHz: number; refractory: number }> = {
+  kick: { minHz: 30, maxHz: 150, refractory: 0.25 },
+  snare: { minHz: 150, maxHz: 2500, refractory: 0.15 },
+  hihat: { minHz: 5000, maxHz: 16000, refractory: 0.08 },
+};
+
+// ~1 s of history at 60 fps for the adaptive threshold
+const FLUX_HISTORY_LENGTH = 60;
+const THRESHOLD_MULTIPLIER = 1.5;
+const THRESHOLD_OFFSET = 0.01;
+
+const MIN_BPM = 70;
+const MAX_BPM = 180;
+const MAX_INTERVALS = 32;
+
+export const createEmptyFeatures = (time: number): AudioFeatures => ({
+  time,
+  rms: 0,
+  spectralFlux: 0,
+  onset: false,
+  kick: false,
+  snare: false,
+  hihat: false,
+  kickStrength: 0,
+  snareStrength: 0,
+  hihatStrength: 0,
+  bpm: 0,
+  beatPhase: 0,
+  beat: false,
+});
+
+/**
+ * Spectral-flux onset detector.
+ * Fed one magnitude spectrum per frame, it reports per-band onsets together with
+ * a running BPM estimate and beat phase. It has no Web Audio dependency, so it
+ * can also be driven with offline data.
+ */
+export class OnsetDetector {
+  private bands: Record<OnsetBand, BandState>;
+  private previousSpectrum: Float32Array | null = null;
+  private fullFluxHistory: number[] = [];
+  private lastFullOnset = -Infinity;
+  private onsetTimes: number[] = [];
+  private bpm = 0;
+  private beatPeriod = 0;
+  private lastBeatTime = -Infinity;
+  private nextBeatTime = Infinity;
+
+  constructor() {
+    this.bands = {} as Record<OnsetBand, BandState>;
+    (Object.keys(BAND_RANGES) as OnsetBand[]).forEach(band => {
+      this.bands[band] = { ...BAND_RANGES[band], previous: null, fluxHistory: [], lastOnset: -Infinity };
+    });
+  }
+
+  public reset() {
+    this.previousSpectrum = null;
+    this.fullFluxHistory = [];
+    this.lastFullOnset = -Infinity;
+    this.onsetTimes = [];
+    this.bpm = 0;
+    this.beatPeriod = 0;
+    this.lastBeatTime = -Infinity;
+    this.nextBeatTime = Infinity;
+    Object.values(this.bands).forEach(state => {
+      state.previous = null;
+      state.fluxHistory = [];
+      state.lastOnset = -Infinity;
+    });
+  }
+
+  /**
+   * Processes one analysis frame.
+   * @param spectrum Per-bin magnitudes (0-255), as returned by getByteFrequencyData.
+   * @param sampleRate Sample rate of the audio context.
+   * @param rms RMS level of the frame (0-1).
+   * @param time Frame timestamp in seconds.
+   */
+  public process(spectrum: Uint8Array, sampleRate: number, rms: number, time: number): { features: AudioFeatures; onsets: OnsetEvent[]; beat: BeatEvent | null } {
+    const binCount = spectrum.length;
+    const hzPerBin = sampleRate / (binCount * 2);
+    const current = new Float32Array(binCount);
+    for (let i = 0; i < binCount; i++) {
+      current[i] = spectrum[i] / 255;
+    }
+
+    // --- Full-spectrum flux ---
+    const fullFlux = this.positiveFlux(current, this.previousSpectrum, 0, binCount);
+    this.previousSpectrum = current;
+    const onset = this.isPeak(fullFlux, this.fullFluxHistory) && time - this.lastFullOnset > 0.1;
+    if (onset) this.lastFullOnset = time;
+
+    // --- Per-band flux ---
+    const onsets: OnsetEvent[] = [];
+    const strengths = { kick: 0, snare: 0, hihat: 0 } as Record<OnsetBand, number>;
+    (Object.keys(this.bands) as OnsetBand[]).forEach(band => {
+      const state = this.bands[band];
+      const start = Math.max(0, Math.floor(state.minHz / hzPerBin));
+      const end = Math.min(binCount, Math.ceil(state.maxHz / hzPerBin));
+      if (end <= start) return;
+      const flux = this.positiveFlux(current, state.previous, start, end);
+      state.previous = current;
+      const threshold = this.threshold(state.fluxHistory);
+      const fired = this.isPeak(flux, state.fluxHistory) && time - state.lastOnset > state.refractory;
+      if (fired) {
+        state.lastOnset = time;
+        const strength = threshold > 0 ? Math.min(1, (flux - threshold) / threshold) : 1;
+        strengths[band] = strength;
+        onsets.push({ band, time, strength });
+      }
+    });
+
+    // --- Tempo and phase ---
+    const beat = this.updateTempo(time, strengths.kick > 0 || (onset && strengths.snare === 0 && strengths.hihat === 0));
+
+    const features: AudioFeatures = {
+      time,
+      rms,
+      spectralFlux: fullFlux,
+      onset,
+      kick: strengths.kick > 0,
+      snare: strengths.snare > 0,
+      hihat: strengths.hihat > 0,
+      kickStrength: strengths.kick,
+      snareStrength: strengths.snare,
+      hihatStrength: strengths.hihat,
+      bpm: this.bpm,
+      beatPhase: this.beatPhase(time),
+      beat: beat !== null,
+    };
+    return { features, onsets, beat };
+  }
+
+  private positiveFlux(current: Float32Array, previous: Float32Array | null, start: number, end: number): number {
+    if (!previous) return 0;
+    let flux = 0;
+    for (let i = start; i < end; i++) {
+      const diff = current[i] - previous[i];
+      if (diff > 0) flux += diff;
+    }
+    return flux / (end - start);
+  }
+
+  private threshold(history: number[]): number {
+    if (history.length === 0) return Infinity;
+    const mean = history.reduce((s, v) => s + v, 0) / history.length;
+    return mean * THRESHOLD_MULTIPLIER + THRESHOLD_OFFSET;
+  }
+
+  // Compares the flux against the adaptive threshold, then appends it to the history
+  private isPeak(flux: number, history: number[]): boolean {
+    const isPeak = history.length >= FLUX_HISTORY_LENGTH / 4 && flux > this.threshold(history);
+    history.push(flux);
+    if (history.length > FLUX_HISTORY_LENGTH) history.shift();
+    return isPeak;
+  }
+
+  private updateTempo(time: number, isBeatCandidate: boolean): BeatEvent | null {
+    if (isBeatCandidate) {
+      this.onsetTimes.push(time);
+      if (this.onsetTimes.length > MAX_INTERVALS + 1) this.onsetTimes.shift();
+      this.estimateTempo();
+
+      // Re-anchor the beat grid when an onset lands close to an expected beat
+      if (this.beatPeriod > 0) {
+        if (Math.abs(time - this.nextBeatTime) < this.beatPeriod * 0.2) {
+          this.nextBeatTime = time;
+        } else if (time - this.lastBeatTime < this.beatPeriod * 0.2) {
+          // The onset arrived slightly late: shift the grid without emitting another beat
+          const drift = time - this.lastBeatTime;
+          this.lastBeatTime += drift;
+          this.nextBeatTime += drift;
+        }
+      }
+    }
+
+    if (this.beatPeriod <= 0) return null;
+    if (!isFinite(this.nextBeatTime)) {
+      this.nextBeatTime = time;
+    }
+    if (time >= this.nextBeatTime) {
+      this.lastBeatTime = this.nextBeatTime;
+      while (this.nextBeatTime <= time) {
+        this.nextBeatTime += this.beatPeriod;
+      }
+      return { time: this.lastBeatTime, bpm: this.bpm };
+    }
+    return null;
+  }
+
+  // Histogram of inter-onset intervals folded into [MIN_BPM, MAX_BPM]
+  private estimateTempo() {
+    if (this.onsetTimes.length < 4) return;
+    const histogram = new Map<number, number>();
+    for (let i = 1; i < this.onsetTimes.length; i++) {
+      for (let j = i - 1; j >= Math.max(0, i - 4); j--) {
+        let bpm = 60 / (this.onsetTimes[i] - this.onsetTimes[j]);
+        if (!isFinite(bpm) || bpm <= 0) continue;
+        while (bpm < MIN_BPM) bpm *= 2;
+        while (bpm > MAX_BPM) bpm /= 2;
+        const key = Math.round(bpm);
+        // Intervals between consecutive onsets weigh more than longer jumps
+        histogram.set(key, (histogram.get(key) ?? 0) + 1 / (i - j));
+      }
+    }
+    let bestBpm = 0;
+    let bestScore = 0;
+    histogram.forEach((score, bpm) => {
+      const neighbourhood = score + 0.5 * ((histogram.get(bpm - 1) ?? 0) + (histogram.get(bpm + 1) ?? 0));
+      if (neighbourhood > bestScore) {
+        bestScore = neighbourhood;
+        bestBpm = bpm;
+      }
+    });
+    if (bestBpm === 0) return;
+    this.bpm = this.bpm === 0 ? bestBpm : this.bpm + (bestBpm - this.bpm) * 0.2;
+    this.beatPeriod = 60 / this.bpm;
+  }
+
+  private beatPhase(time: number): number {
+    if (this.beatPeriod <= 0 || !isFinite(this.lastBeatTime)) return 0;
+    const phase = (time - this.lastBeatTime) / this.beatPeriod;
+    return phase - Math.floor(phase);
+  }
+}
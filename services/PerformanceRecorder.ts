@@ -0,0 +1,135 @@
+import { downloadBlob } from './fileUtils';
+
+export type RecordingState = 'inactive' | 'recording' | 'paused';
+
+export interface RecordingStatus {
+  state: RecordingState;
+  durationMs: number;
+  bytes: number;
+}
+
+export interface RecordingOptions {
+  videoBitsPerSecond: number;
+  // Output size; null records at the canvas' own drawing-buffer size
+  width: number | null;
+  height: number | null;
+  frameRate: number;
+}
+
+const MIME_TYPES = ['video/webm;codecs=vp9,opus', 'video/webm;codecs=vp8,opus', 'video/webm'];
+
+const STATUS_INTERVAL_MS = 250;
+
+export const isRecordingSupported = () => 'MediaRecorder' in window;
+
+const pickMimeType = () => MIME_TYPES.find(type => MediaRecorder.isTypeSupported(type)) ?? '';
+
+/**
+ * Records the composer canvas plus an audio stream to WebM with MediaRecorder.
+ * Frames are copied into an intermediate 2D canvas at the chosen resolution; call
+ * captureFrame() right after each render so the WebGL drawing buffer is still valid.
+ */
+export class PerformanceRecorder {
+  private recorder: MediaRecorder | null = null;
+  private chunks: Blob[] = [];
+  private bytes = 0;
+  private activeSince = 0;
+  private accumulatedMs = 0;
+  private statusTimer: number | null = null;
+  private captureCanvas: HTMLCanvasElement | null = null;
+  private captureContext: CanvasRenderingContext2D | null = null;
+  private filename = '';
+
+  constructor(private onStatus: (status: RecordingStatus) => void) {}
+
+  public get state(): RecordingState {
+    return this.recorder ? (this.recorder.state as RecordingState) : 'inactive';
+  }
+
+  public start(source: HTMLCanvasElement, audio: MediaStream | null, options: RecordingOptions, filename: string) {
+    if (this.recorder) return;
+    const width = options.width ?? source.width;
+    const height = options.height ?? source.height;
+    this.captureCanvas = document.createElement('canvas');
+    this.captureCanvas.width = width;
+    this.captureCanvas.height = height;
+    this.captureContext = this.captureCanvas.getContext('2d');
+
+    const stream = this.captureCanvas.captureStream(options.frameRate);
+    audio?.getAudioTracks().forEach(track => stream.addTrack(track));
+
+    this.chunks = [];
+    this.bytes = 0;
+    this.accumulatedMs = 0;
+    this.filename = filename;
+    this.recorder = new MediaRecorder(stream, { mimeType: pickMimeType(), videoBitsPerSecond: options.videoBitsPerSecond });
+    this.recorder.ondataavailable = (event) => {
+      if (event.data.size === 0) return;
+      this.chunks.push(event.data);
+      this.bytes += event.data.size;
+    };
+    this.recorder.onstop = () => this.finish(stream);
+    // Chunks every second keep the size indicator current
+    this.recorder.start(1000);
+    this.activeSince = performance.now();
+    this.statusTimer = window.setInterval(() => this.emitStatus(), STATUS_INTERVAL_MS);
+    this.emitStatus();
+  }
+
+  public pause() {
+    if (this.recorder?.state !== 'recording') return;
+    this.recorder.pause();
+    this.accumulatedMs += performance.now() - this.activeSince;
+    this.emitStatus();
+  }
+
+  public resume() {
+    if (this.recorder?.state !== 'paused') return;
+    this.recorder.resume();
+    this.activeSince = performance.now();
+    this.emitStatus();
+  }
+
+  public stop() {
+    if (!this.recorder || this.recorder.state === 'inactive') return;
+    if (this.recorder.state === 'recording') {
+      this.accumulatedMs += performance.now() - this.activeSince;
+    }
+    this.recorder.stop();
+  }
+
+  /** Copies the freshly rendered frame into the recording, scaled to cover the output size. */
+  public captureFrame(source: HTMLCanvasElement) {
+    if (!this.captureCanvas || !this.captureContext || this.recorder?.state !== 'recording') return;
+    const { width, height } = this.captureCanvas;
+    const scale = Math.max(width / source.width, height / source.height);
+    const drawWidth = source.width * scale;
+    const drawHeight = source.height * scale;
+    this.captureContext.drawImage(source, (width - drawWidth) / 2, (height - drawHeight) / 2, drawWidth, drawHeight);
+  }
+
+  private get durationMs(): number {
+    const running = this.recorder?.state === 'recording' ? performance.now() - this.activeSince : 0;
+    return this.accumulatedMs + running;
+  }
+
+  private emitStatus() {
+    this.onStatus({ state: this.state, durationMs: this.durationMs, bytes: this.bytes });
+  }
+
+  private finish(stream: MediaStream) {
+    if (this.statusTimer !== null) {
+      window.clearInterval(this.statusTimer);
+      this.statusTimer = null;
+    }
+    // Only stop the canvas track: the audio tracks belong to the AudioProcessor graph
+    stream.getVideoTracks().forEach(track => track.stop());
+    const blob = new Blob(this.chunks, { type: this.recorder?.mimeType || 'video/webm' });
+    this.recorder = null;
+    this.captureCanvas = null;
+    this.captureContext = null;
+    this.chunks = [];
+    if (blob.size > 0) downloadBlob(blob, this.filename);
+    this.onStatus({ state: 'inactive', durationMs: this.accumulatedMs, bytes: this.bytes });
+  }
+}
@@ -0,0 +1,117 @@
+import { RemoteRole } from './remoteProtocol';
+
+export type RemoteConnectionStatus = 'disconnected' | 'connecting' | 'connected';
+
+export const DEFAULT_RELAY_PORT = 8787;
+
+// Reconnect delays, doubling from the first to the last
+const MIN_RETRY_MS = 1000;
+const MAX_RETRY_MS = 10000;
+
+export const getDefaultRelayUrl = (): string => {
+  const host = typeof window !== 'undefined' && window.location.hostname ? window.location.hostname : 'localhost';
+  return `ws://${host}:${DEFAULT_RELAY_PORT}`;
+};
+
+/**
+ * A WebSocket to the relay that keeps itself open: it reconnects with backoff
+ * until close() is called. Messages sent while disconnected are dropped, since
+ * a stale command is worse than a missed one.
+ */
+export class RemoteConnection {
+  private socket: WebSocket | null = null;
+  private retryMs = MIN_RETRY_MS;
+  private retryTimer: number | null = null;
+  private closed = false;
+
+  constructor(
+    private url: string,
+    private role: RemoteRole,
+    private onMessage: (data: string) => void,
+    private onStatus: (status: RemoteConnectionStatus) => void,
+  ) {
+    this.open();
+  }
+
+  public send(message: object): boolean {
+    if (this.socket?.readyState !== WebSocket.OPEN) return false;
+    this.socket.send(JSON.stringify(message));
+    return true;
+  }
+
+  public close() {
+    this.closed = true;
+    if (this.retryTimer !== null) window.clearTimeout(this.retryTimer);
+    this.retryTimer = null;
+    this.socket?.close();
+    this.socket = null;
+    this.onStatus('disconnected');
+  }
+
+  private open() {
+    let socket: WebSocket;
+    try {
+      const url = new URL(this.url);
+      url.searchParams.set('role', this.role);
+      socket = new WebSocket(url);
+    } catch (error) {
+      console.error('Invalid relay URL:', error);
+      this.onStatus('disconnected');
+      return;
+    }
+    this.socket = socket;
+    this.onStatus('connecting');
+
+    socket.onopen = () => {
+      this.retryMs = MIN_RETRY_MS;
+      this.onStatus('connected');
+    };
+    socket.onmessage = event => {
+      if (typeof event.data === 'string') this.onMessage(event.data);
+    };
+    socket.onclose = () => {
+      if (this.socket !== socket || this.closed) return;
+      this.socket = null;
+      this.onStatus('connecting');
+      this.retryTimer = window.setTimeout(() => {
+        this.retryTimer = null;
+        this.open();
+      }, this.retryMs);
+      this.retryMs = Math.min(MAX_RETRY_MS, this.retryMs * 2);
+    };
+  }
+}
+
+// --- Settings ---
+
+// Per-machine, like the quality settings: the relay address depends on the network
+export interface RemoteSettings {
+  enabled: boolean;
+  url: string;
+}
+
+const REMOTE_SETTINGS_KEY = 'neogenesis.remote';
+
+export const loadRemoteSettings = (): RemoteSettings => {
+  const defaults: RemoteSettings = { enabled: false, url: getDefaultRelayUrl() };
+  try {
+    const stored = localStorage.getItem(REMOTE_SETTINGS_KEY);
+    if (!stored) return defaults;
+    const data = JSON.parse(stored) as Partial<RemoteSettings>;
+    return {
+      enabled: typeof data.enabled === 'boolean' ? data.enabled : defaults.enabled,
+      url: typeof data.url === 'string' && data.url ? data.url : defaults.url,
+    };
+  } catch (err) {
+    console.error('Could not read remote settings:', err);
+    return defaults;
+  }
+};
+
+export const saveRemoteSettings = (settings: RemoteSettings) => {
+  try {
+    localStorage.setItem(REMOTE_SETTINGS_KEY, JSON.stringify(settings));
+  } catch (err) {
+    console.error('Could not save remote settings:', err);
+  }
+};
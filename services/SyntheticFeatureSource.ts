@@ -0,0 +1,196 @@
+import { AudioFeatureSource, AudioFeatures, FrequencyBand } from '../types';
+import { OnsetDetector } from './OnsetDetector';
+import { BandAnalyzer, DEFAULT_BANDS } from './frequencyBands';
+import { ByteSpectrumAnalyzer } from './fft';
+import { createSeededRandom } from './random';
+
+export interface SyntheticSignalSettings {
+  // Exponential sine sweep, restarting every sweepSeconds
+  sweep: boolean;
+  sweepMinHz: number;
+  sweepMaxHz: number;
+  sweepSeconds: number;
+  pinkNoise: boolean;
+  // Kick-like thump on every beat, with a higher tick on the downbeat of each bar
+  clickTrack: boolean;
+  bpm: number;
+}
+
+export const DEFAULT_SYNTHETIC_SETTINGS: SyntheticSignalSettings = {
+  sweep: true,
+  sweepMinHz: 40,
+  sweepMaxHz: 12000,
+  sweepSeconds: 8,
+  pinkNoise: false,
+  clickTrack: true,
+  bpm: 120,
+};
+
+export const SYNTHETIC_BPM_RANGE = { min: 40, max: 240 };
+
+const SAMPLE_RATE = 44100;
+const NOISE_SEED = 0x70696e6b;
+const SWEEP_LEVEL = 0.3;
+const NOISE_LEVEL = 0.15;
+const CLICK_LEVEL = 0.9;
+const BEATS_PER_BAR = 4;
+
+export interface SyntheticFeatureSourceOptions {
+  fftSize?: number;
+  // Clock in seconds for live use; setTime() overrides it
+  now?: () => number;
+}
+
+/**
+ * Test signals for the visuals, no microphone or file needed. Samples are
+ * generated on the fly and analysed exactly like the live input (same FFT,
+ * onset detector and band analyzer), so the scene reacts to them the way it
+ * would to real audio. Driven with setTime(), the output is reproducible.
+ */
+export class SyntheticFeatureSource implements AudioFeatureSource {
+  private settings: SyntheticSignalSettings;
+  private spectrum: ByteSpectrumAnalyzer;
+  private onsetDetector = new OnsetDetector();
+  private bandAnalyzer = new BandAnalyzer();
+  private now: () => number;
+  private startTime: number;
+  private manualTime: number | null = null;
+  // Ring of the last fftSize samples; nextSample is the index (from t = 0) generated next
+  private ring: Float32Array;
+  private nextSample = 0;
+  private waveform: Float32Array;
+  private random = createSeededRandom(NOISE_SEED);
+  private pink = new Float32Array(7);
+
+  constructor(settings: SyntheticSignalSettings = DEFAULT_SYNTHETIC_SETTINGS, options: SyntheticFeatureSourceOptions = {}) {
+    this.settings = settings;
+    this.spectrum = new ByteSpectrumAnalyzer(options.fftSize ?? 512);
+    this.ring = new Float32Array(this.spectrum.fftSize);
+    this.waveform = new Float32Array(this.spectrum.fftSize);
+    this.now = options.now ?? (() => performance.now() / 1000);
+    this.startTime = this.now();
+    this.bandAnalyzer.setBands(DEFAULT_BANDS);
+  }
+
+  public get frequencyData(): Uint8Array {
+    return this.spectrum.frequencyData;
+  }
+
+  public getSettings(): SyntheticSignalSettings {
+    return this.settings;
+  }
+
+  public setSettings(settings: SyntheticSignalSettings) {
+    this.settings = settings;
+  }
+
+  /** Pins the signal to `time` seconds instead of the clock, e.g. for a fixed-step render. */
+  public setTime(time: number) {
+    this.manualTime = time;
+  }
+
+  public analyze(): AudioFeatures {
+    const time = this.manualTime ?? this.now() - this.startTime;
+    this.generateUntil(Math.floor(time * SAMPLE_RATE));
+    const size = this.ring.length;
+    const offset = this.nextSample % size;
+    const rms = this.spectrum.process(i => this.ring[(offset + i) % size]);
+    this.bandAnalyzer.process(this.frequencyData, SAMPLE_RATE, time);
+    return this.onsetDetector.process(this.frequencyData, SAMPLE_RATE, rms, time).features;
+  }
+
+  /** The generated samples the last analyze() looked at, oldest first. */
+  public getFloatTimeDomainData(): Float32Array {
+    const size = this.ring.length;
+    const offset = this.nextSample % size;
+    for (let i = 0; i < size; i++) {
+      this.waveform[i] = this.ring[(offset + i) % size];
+    }
+    return this.waveform;
+  }
+
+  public getSampleRate(): number {
+    return SAMPLE_RATE;
+  }
+
+  public getBands(): FrequencyBand[] {
+    return this.bandAnalyzer.getBands();
+  }
+
+  public setBands(bands: FrequencyBand[]) {
+    this.bandAnalyzer.setBands(bands);
+  }
+
+  public setBandEnvelope(attack: number, release: number) {
+    this.bandAnalyzer.attack = attack;
+    this.bandAnalyzer.release = release;
+  }
+
+  public getBandEnergies(): Float32Array {
+    return this.bandAnalyzer.getEnergies();
+  }
+
+  // Fills the ring up to sample `end`. Only the last window matters, so long jumps skip ahead,
+  // and going back in time restarts the analysis as if the signal had just begun.
+  private generateUntil(end: number) {
+    const size = this.ring.length;
+    if (end < this.nextSample) {
+      this.onsetDetector.reset();
+      this.bandAnalyzer.reset();
+      this.spectrum.reset();
+      this.random = createSeededRandom(NOISE_SEED);
+      this.pink.fill(0);
+      this.nextSample = Math.max(0, end - size);
+    } else if (end - this.nextSample > size) {
+      this.nextSample = end - size;
+    }
+    for (; this.nextSample < end; this.nextSample++) {
+      this.ring[this.nextSample % size] = this.sampleAt(this.nextSample);
+    }
+  }
+
+  private sampleAt(index: number): number {
+    const { sweep, sweepMinHz, sweepMaxHz, sweepSeconds, pinkNoise, clickTrack, bpm } = this.settings;
+    const t = index / SAMPLE_RATE;
+    let value = 0;
+
+    if (sweep && sweepSeconds > 0 && sweepMaxHz > sweepMinHz && sweepMinHz > 0) {
+      // Phase of an exponential sweep: the frequency rises by the same ratio every second
+      const rate = Math.log(sweepMaxHz / sweepMinHz) / sweepSeconds;
+      const local = t % sweepSeconds;
+      value += SWEEP_LEVEL * Math.sin((2 * Math.PI * sweepMinHz * (Math.exp(rate * local) - 1)) / rate);
+    }
+
+    if (pinkNoise) {
+      value += NOISE_LEVEL * this.nextPinkSample();
+    }
+
+    if (clickTrack && bpm > 0) {
+      const beatLength = 60 / bpm;
+      const beat = Math.floor(t / beatLength);
+      const dt = t - beat * beatLength;
+      // Pitch-dropping sine for the thump, so the onset detector hears a kick
+      const thump = Math.exp(-dt * 25) * Math.sin(2 * Math.PI * (50 * dt + (100 / 30) * (1 - Math.exp(-dt * 30))));
+      const tickHz = beat % BEATS_PER_BAR === 0 ? 2000 : 1200;
+      const tick = Math.exp(-dt * 300) * Math.sin(2 * Math.PI * tickHz * dt);
+      value += CLICK_LEVEL * (thump + 0.4 * tick);
+    }
+
+    return value;
+  }
+
+  // Paul Kellet's pink noise filter over seeded white noise
+  private nextPinkSample(): number {
+    const white = this.random() * 2 - 1;
+    const b = this.pink;
+    b[0] = 0.99886 * b[0] + white * 0.0555179;
+    b[1] = 0.99332 * b[1] + white * 0.0750759;
+    b[2] = 0.969 * b[2] + white * 0.153852;
+    b[3] = 0.8665 * b[3] + white * 0.3104856;
+    b[4] = 0.55 * b[4] + white * 0.5329522;
+    b[5] = -0.7616 * b[5] - white * 0.016898;
+    const pink = b[0] + b[1] + b[2] + b[3] + b[4] + b[5] + b[6] + white * 0.5362;
+    b[6] = white * 0.115926;
+    return pink * 0.11;
+  }
+}
@@ -0,0 +1,66 @@
+import { AudioErrorCause } from '../types';
+
+export const AUDIO_ERROR_MESSAGES: Record<AudioErrorCause, string> = {
+  permissionDenied: 'Access to the audio input was denied. Allow it in the browser\'s site settings, then retry.',
+  noDevice: 'No usable audio input was found. Check that one is connected and not in use by another app.',
+  deviceLost: 'The audio input was disconnected.',
+  autoplayBlocked: 'The browser blocked audio playback until you interact with the page.',
+  decodeFailure: 'This audio could not be played. The file may be damaged or in an unsupported format.',
+  unavailable: 'The audio could not be loaded. Check the address and your connection, then retry.',
+};
+
+/** A failed audio source, with the cause the UI needs to offer the right way out. */
+export class AudioError extends Error {
+  constructor(public readonly reason: AudioErrorCause, message: string = AUDIO_ERROR_MESSAGES[reason], options?: ErrorOptions) {
+    super(message, options);
+    this.name = 'AudioError';
+  }
+}
+
+// getUserMedia and getDisplayMedia reject with these DOMException names
+const CAPTURE_CAUSES: Record<string, AudioErrorCause> = {
+  NotAllowedError: 'permissionDenied',
+  SecurityError: 'permissionDenied',
+  NotFoundError: 'noDevice',
+  OverconstrainedError: 'noDevice',
+  NotReadableError: 'noDevice',
+  AbortError: 'deviceLost',
+};
+
+/** Classifies a failure to open an input device or screen capture. */
+export const toCaptureError = (error: unknown): AudioError => {
+  if (error instanceof AudioError) return error;
+  const name = error instanceof Error ? error.name : '';
+  return new AudioError(CAPTURE_CAUSES[name] ?? 'noDevice', undefined, { cause: error });
+};
+
+const isMediaError = (error: unknown): error is MediaError =>
+  typeof MediaError !== 'undefined' && error instanceof MediaError;
+
+/**
+ * Classifies a failure of a local file's media element: a rejected play() or
+ * the element's MediaError. NotAllowedError means autoplay policy and a network
+ * error can be retried; anything else means the audio itself can't be decoded.
+ */
+export const toPlaybackError = (error: unknown): AudioError => {
+  if (error instanceof AudioError) return error;
+  if (isMediaError(error)) {
+    return new AudioError(error.code === MediaError.MEDIA_ERR_NETWORK ? 'unavailable' : 'decodeFailure', undefined, { cause: error });
+  }
+  const name = error instanceof Error ? error.name : '';
+  return new AudioError(name === 'NotAllowedError' ? 'autoplayBlocked' : 'decodeFailure', undefined, { cause: error });
+};
+
+/**
+ * As toPlaybackError, for an element playing a URL. Browsers report an address
+ * that doesn't answer, or answers without CORS headers, the same way as an
+ * unsupported format, so only an explicit decode error counts as one.
+ */
+export const toStreamError = (error: unknown): AudioError => {
+  if (error instanceof AudioError) return error;
+  if (isMediaError(error)) {
+    return new AudioError(error.code === MediaError.MEDIA_ERR_DECODE ? 'decodeFailure' : 'unavailable', undefined, { cause: error });
+  }
+  const name = error instanceof Error ? error.name : '';
+  return new AudioError(name === 'NotAllowedError' ? 'autoplayBlocked' : 'unavailable', undefined, { cause: error });
+};
@@ -0,0 +1,163 @@
+import * as THREE from 'three';
+import { CameraProgram, NeogenesisProps } from '../types';
+import { FRACTAL_RADIUS } from './fractalGenerator';
+import { getNextCameraProgram, sampleCameraPath } from './cameraPrograms';
+
+export interface CameraPose {
+  position: THREE.Vector3;
+  target: THREE.Vector3;
+  fov: number;
+}
+
+// Seconds to glide from wherever the user left the camera back onto the program
+const HANDBACK_BLEND = 1.5;
+
+// Distance the dolly zoom keeps the planet framed from at the prop's field of view
+const DOLLY_BASE_DISTANCE = 18;
+const DOLLY_FOV_RANGE = { min: 20, max: 110 };
+
+const fromSpherical = (out: THREE.Vector3, theta: number, phi: number, radius: number) =>
+  out.set(Math.cos(phi) * Math.cos(theta), Math.sin(phi), Math.cos(phi) * Math.sin(theta)).multiplyScalar(radius);
+
+/**
+ * Poses the camera for `program` at `time` seconds. `programTime` is the time
+ * since the program was cut to, which the keyframe path starts from.
+ */
+const evaluateProgram = (program: CameraProgram, props: NeogenesisProps, time: number, programTime: number, out: CameraPose) => {
+  out.target.set(0, 0, 0);
+  out.fov = props.fieldOfView;
+  switch (program) {
+    case 'orbit': {
+      const t = time * 0.1;
+      const distance = 18 + Math.sin(t * 0.5) * 6;
+      out.position.set(Math.cos(t) * distance, 4 + Math.sin(t * 0.7) * 4, Math.sin(t) * distance);
+      return;
+    }
+    case 'flyThrough': {
+      // A wavy ring through the galaxy, looking a little way ahead along it
+      const ring = Math.max(props.particleDistributionRadius * 0.8, FRACTAL_RADIUS * 2.5);
+      const height = props.particleDistributionRadius * 0.3;
+      const at = (s: number, v: THREE.Vector3) => v.set(Math.cos(s) * ring, Math.sin(s * 3) * height, Math.sin(s) * ring);
+      const s = time * 0.08;
+      at(s, out.position);
+      at(s + 0.2, out.target);
+      return;
+    }
+    case 'surfaceSkim': {
+      // Low over the planet, aimed at the surface ahead
+      const theta = time * 0.15;
+      const phi = Math.sin(time * 0.07) * 0.35;
+      fromSpherical(out.position, theta, phi, FRACTAL_RADIUS * 1.5);
+      fromSpherical(out.target, theta + 0.6, phi * 0.5, FRACTAL_RADIUS);
+      return;
+    }
+    case 'dollyZoom': {
+      // The lens widens as the camera closes in, so the planet keeps its size while the galaxy stretches
+      const fov = THREE.MathUtils.clamp(props.fieldOfView * (1 + Math.sin(time * 0.5) * 0.45), DOLLY_FOV_RANGE.min, DOLLY_FOV_RANGE.max);
+      const halfAngle = (degrees: number) => Math.tan(THREE.MathUtils.degToRad(degrees) / 2);
+      const distance = DOLLY_BASE_DISTANCE * halfAngle(props.fieldOfView) / halfAngle(fov);
+      fromSpherical(out.position, time * 0.05, 0.2, distance);
+      out.fov = fov;
+      return;
+    }
+    case 'path': {
+      const sample = sampleCameraPath(props.cameraPath, programTime, props.cameraPathLoop);
+      if (!sample) return;
+      out.position.fromArray(sample.position);
+      out.target.fromArray(sample.target);
+      out.fov = sample.fov;
+      return;
+    }
+  }
+};
+
+/**
+ * Decides who holds the camera each frame. While the cinematic camera is on,
+ * the selected program drives it, cutting to the next program every few beats
+ * if cuts are on. A manual interaction takes over until the camera has been
+ * left alone for the idle timeout, then the program glides back in.
+ */
+export class CameraDirector {
+  private program: CameraProgram | null = null;
+  // The props' program last frame; changing it restarts from that program
+  private selected: CameraProgram | null = null;
+  private programStart = 0;
+  private beats = 0;
+  private interacting = false;
+  private lastInteraction = -Infinity;
+  private active = false;
+  private blendStart = -Infinity;
+  private blendFrom = { position: new THREE.Vector3(), target: new THREE.Vector3() };
+  private pose: CameraPose = { position: new THREE.Vector3(), target: new THREE.Vector3(), fov: 75 };
+
+  public beginInteraction() {
+    this.interacting = true;
+  }
+
+  public endInteraction(time: number) {
+    this.interacting = false;
+    this.lastInteraction = time;
+  }
+
+  // Ends any manual hold at once, so the program takes the camera back on the next frame
+  public release() {
+    this.interacting = false;
+    this.lastInteraction = -Infinity;
+  }
+
+  public reset() {
+    this.program = null;
+    this.selected = null;
+    this.programStart = 0;
+    this.beats = 0;
+    this.interacting = false;
+    this.lastInteraction = -Infinity;
+    // Start already in control, so a fresh run cuts straight to the program instead of gliding from the old view
+    this.active = true;
+    this.blendStart = -Infinity;
+  }
+
+  /**
+   * The pose for this frame, or null while the camera belongs to the user.
+   * `position` and `target` are where the camera is now, for the glide back.
+   */
+  public update(props: NeogenesisProps, time: number, beat: boolean, position: THREE.Vector3, target: THREE.Vector3): CameraPose | null {
+    const idle = !this.interacting && time - this.lastInteraction >= props.cameraIdleTimeout;
+    if (!props.cinematicCamera || !idle) {
+      this.active = false;
+      return null;
+    }
+
+    if (this.program === null || props.cameraProgram !== this.selected) {
+      this.selected = props.cameraProgram;
+      this.cutTo(props.cameraProgram, time);
+    } else if (props.cameraCuts && beat && ++this.beats >= props.cameraCutBeats) {
+      this.cutTo(getNextCameraProgram(this.program!, props.cameraPath), time);
+    }
+    // The orbit stands in for a path with no keyframes yet
+    const program = this.program === 'path' && props.cameraPath.length === 0 ? 'orbit' : this.program!;
+
+    if (!this.active) {
+      this.active = true;
+      this.blendStart = time;
+      this.blendFrom.position.copy(position);
+      this.blendFrom.target.copy(target);
+    }
+
+    const pose = this.pose;
+    evaluateProgram(program, props, time, time - this.programStart, pose);
+    const t = (time - this.blendStart) / HANDBACK_BLEND;
+    if (t < 1) {
+      const eased = t * t * (3 - 2 * t);
+      pose.position.lerpVectors(this.blendFrom.position, pose.position, eased);
+      pose.target.lerpVectors(this.blendFrom.target, pose.target, eased);
+    }
+    return pose;
+  }
+
+  private cutTo(program: CameraProgram, time: number) {
+    this.program = program;
+    this.programStart = time;
+    this.beats = 0;
+  }
+}
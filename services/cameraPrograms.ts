@@ -0,0 +1,106 @@
+import { CameraEasing, CameraKeyframe, CameraProgram, Vec3Tuple } from '../types';
+
+export const CAMERA_PROGRAMS: { value: CameraProgram; label: string }[] = [
+  { value: 'orbit', label: 'Slow Orbit' },
+  { value: 'flyThrough', label: 'Fly-Through' },
+  { value: 'surfaceSkim', label: 'Surface Skim' },
+  { value: 'dollyZoom', label: 'Dolly Zoom' },
+  { value: 'path', label: 'Keyframe Path' },
+];
+
+export const CAMERA_EASINGS: { value: CameraEasing; label: string }[] = [
+  { value: 'linear', label: 'Linear' },
+  { value: 'easeIn', label: 'Ease In' },
+  { value: 'easeOut', label: 'Ease Out' },
+  { value: 'easeInOut', label: 'Ease In-Out' },
+];
+
+export const CAMERA_KEYFRAME_DURATION = { min: 0.5, max: 60, default: 4 };
+export const MAX_CAMERA_KEYFRAMES = 32;
+
+const isVec3 = (value: unknown): value is Vec3Tuple =>
+  Array.isArray(value) && value.length === 3 && value.every(n => typeof n === 'number' && isFinite(n));
+
+export const isCameraKeyframe = (value: unknown): value is CameraKeyframe => {
+  const keyframe = value as CameraKeyframe;
+  return typeof keyframe === 'object' && keyframe !== null
+    && isVec3(keyframe.position) && isVec3(keyframe.target)
+    && typeof keyframe.fov === 'number' && keyframe.fov >= 1 && keyframe.fov <= 179
+    && typeof keyframe.duration === 'number' && keyframe.duration >= CAMERA_KEYFRAME_DURATION.min && keyframe.duration <= CAMERA_KEYFRAME_DURATION.max
+    && CAMERA_EASINGS.some(easing => easing.value === keyframe.easing);
+};
+
+export const isCameraPath = (value: unknown): value is CameraKeyframe[] =>
+  Array.isArray(value) && value.length <= MAX_CAMERA_KEYFRAMES && value.every(isCameraKeyframe);
+
+// A path needs two keyframes to go anywhere
+export const isPlayablePath = (path: CameraKeyframe[]): boolean => path.length >= 2;
+
+export const applyEasing = (easing: CameraEasing, t: number): number => {
+  switch (easing) {
+    case 'easeIn': return t * t * t;
+    case 'easeOut': return 1 - Math.pow(1 - t, 3);
+    case 'easeInOut': return t < 0.5 ? 4 * t * t * t : 1 - Math.pow(-2 * t + 2, 3) / 2;
+    default: return t;
+  }
+};
+
+/** Seconds to play the path once: the sum of the segment durations (the last keyframe's only counts when looping). */
+export const getPathDuration = (path: CameraKeyframe[], loop: boolean): number =>
+  path.slice(0, loop ? path.length : path.length - 1).reduce((sum, keyframe) => sum + keyframe.duration, 0);
+
+// Uniform Catmull-Rom through p1 and p2, so the path curves smoothly through every keyframe
+const catmullRom = (p0: Vec3Tuple, p1: Vec3Tuple, p2: Vec3Tuple, p3: Vec3Tuple, t: number): Vec3Tuple => {
+  const t2 = t * t;
+  const t3 = t2 * t;
+  return [0, 1, 2].map(i => 0.5 * (
+    2 * p1[i]
+    + (p2[i] - p0[i]) * t
+    + (2 * p0[i] - 5 * p1[i] + 4 * p2[i] - p3[i]) * t2
+    + (3 * p1[i] - p0[i] - 3 * p2[i] + p3[i]) * t3
+  )) as Vec3Tuple;
+};
+
+export interface CameraPathSample {
+  position: Vec3Tuple;
+  target: Vec3Tuple;
+  fov: number;
+}
+
+/**
+ * The camera `time` seconds into the path. Each segment eases with the easing
+ * of the keyframe it leaves. Without `loop` the camera stops on the last keyframe.
+ * @returns null for a path with no keyframes.
+ */
+export const sampleCameraPath = (path: CameraKeyframe[], time: number, loop: boolean): CameraPathSample | null => {
+  if (path.length === 0) return null;
+  const last = path[path.length - 1];
+  const duration = getPathDuration(path, loop);
+  if (path.length === 1 || duration <= 0) return { position: [...path[0].position], target: [...path[0].target], fov: path[0].fov };
+  if (!loop && time >= duration) return { position: [...last.position], target: [...last.target], fov: last.fov };
+
+  let local = loop ? ((time % duration) + duration) % duration : Math.max(0, time);
+  let index = 0;
+  while (local > path[index].duration && index < path.length - 1) {
+    local -= path[index].duration;
+    index++;
+  }
+  const count = path.length;
+  // Past the ends of an open path, the end keyframes stand in for their missing neighbours
+  const at = (i: number) => (loop ? path[(i + count) % count] : path[Math.min(count - 1, Math.max(0, i))]);
+  const from = at(index);
+  const to = at(index + 1);
+  const t = applyEasing(from.easing, Math.min(1, local / from.duration));
+  return {
+    position: catmullRom(at(index - 1).position, from.position, to.position, at(index + 2).position, t),
+    target: catmullRom(at(index - 1).target, from.target, to.target, at(index + 2).target, t),
+    fov: from.fov + (to.fov - from.fov) * t,
+  };
+};
+
+/** The program a beat-synced cut moves to after `current`; the path joins the rotation once it can play. */
+export const getNextCameraProgram = (current: CameraProgram, path: CameraKeyframe[]): CameraProgram => {
+  const programs = CAMERA_PROGRAMS.map(program => program.value).filter(program => program !== 'path' || isPlayablePath(path));
+  const index = programs.indexOf(current);
+  return programs[(index + 1) % programs.length];
+};
@@ -0,0 +1,146 @@
+import { FractalWaveMapping, NeogenesisProps, OscilloscopeMode, ParticleDistribution, ParticleMotion } from '../types';
+import { TONE_MAPPING_MODES } from './postEffects';
+import { CAMERA_PROGRAMS } from './cameraPrograms';
+import { THEME_COLOR_OPTIONS } from './themes';
+
+type KeysOfType<T, V> = { [K in keyof T]: T[K] extends V ? K : never }[keyof T];
+
+export type NumericPropKey = KeysOfType<NeogenesisProps, number>;
+export type BooleanPropKey = KeysOfType<NeogenesisProps, boolean>;
+export type StringPropKey = KeysOfType<NeogenesisProps, string>;
+
+export interface ControlOption {
+  value: string;
+  label: string;
+}
+
+// A control bound to one prop. ControlsPanel and the remote page both render these,
+// so a slider's range and step are the same wherever it appears.
+export type ControlDefinition =
+  | { type: 'slider'; key: NumericPropKey; label: string; min: number; max: number; step: number; precision?: number }
+  | { type: 'toggle'; key: BooleanPropKey; label: string }
+  | { type: 'select'; key: StringPropKey; label: string; options: ControlOption[] };
+
+export const FRACTAL_WAVE_MAPPINGS: { value: FractalWaveMapping; label: string }[] = [
+  { value: 'latitude', label: 'Latitude (bass at the north pole)' },
+  { value: 'longitude', label: 'Longitude (bass at the meridian)' },
+  { value: 'geodesic', label: 'Geodesic (rings around 12 poles)' },
+];
+
+export const PARTICLE_DISTRIBUTIONS: { value: ParticleDistribution; label: string }[] = [
+  { value: 'sphere', label: 'Sphere' },
+  { value: 'spiral', label: 'Spiral Galaxy' },
+  { value: 'disc', label: 'Accretion Disc' },
+  { value: 'torus', label: 'Torus' },
+  { value: 'helix', label: 'Double Helix' },
+  { value: 'fractal', label: 'Fractal Surface' },
+  { value: 'text', label: 'Text' },
+  { value: 'image', label: 'Image' },
+];
+
+export const PARTICLE_MOTIONS: { value: ParticleMotion; label: string }[] = [
+  { value: 'static', label: 'Static (cheap)' },
+  { value: 'simulated', label: 'Simulated (GPU)' },
+];
+
+export const OSCILLOSCOPE_MODES: { value: OscilloscopeMode; label: string }[] = [
+  { value: 'ring', label: 'Waveform Ring' },
+  { value: 'lissajous', label: 'Lissajous (Stereo X/Y)' },
+];
+
+export const PROP_CONTROLS = {
+  isAudioReactive: { type: 'toggle', key: 'isAudioReactive', label: 'Audio Reactive' },
+  showFractal: { type: 'toggle', key: 'showFractal', label: 'Show Planet' },
+  fractalWireframe: { type: 'toggle', key: 'fractalWireframe', label: 'Planet Wireframe' },
+  fractalWaveAmplitude: { type: 'slider', key: 'fractalWaveAmplitude', label: 'Wave Amplitude', min: 0, max: 1.0, step: 0.05 },
+  fractalWaveSmoothing: { type: 'slider', key: 'fractalWaveSmoothing', label: 'Wave Smoothing', min: 0.01, max: 0.5, step: 0.01 },
+  fractalWaveMapping: { type: 'select', key: 'fractalWaveMapping', label: 'Wave Mapping', options: FRACTAL_WAVE_MAPPINGS },
+  fractalLayerSpacing: { type: 'slider', key: 'fractalLayerSpacing', label: 'Layer Spacing', min: 0.3, max: 1.0, step: 0.05 },
+  fractalMetalness: { type: 'slider', key: 'fractalMetalness', label: 'Metalness', min: 0, max: 1.0, step: 0.05 },
+  fractalRoughness: { type: 'slider', key: 'fractalRoughness', label: 'Roughness', min: 0, max: 1.0, step: 0.05 },
+  showOscilloscope: { type: 'toggle', key: 'showOscilloscope', label: 'Show Oscilloscope' },
+  oscilloscopeMode: { type: 'select', key: 'oscilloscopeMode', label: 'Scope Mode', options: OSCILLOSCOPE_MODES },
+  oscilloscopeThickness: { type: 'slider', key: 'oscilloscopeThickness', label: 'Line Thickness', min: 0.02, max: 0.5, step: 0.01 },
+  oscilloscopeRadius: { type: 'slider', key: 'oscilloscopeRadius', label: 'Orbit Radius', min: 5, max: 30, step: 0.5, precision: 1 },
+  oscilloscopeColor: { type: 'select', key: 'oscilloscopeColor', label: 'Scope Color', options: THEME_COLOR_OPTIONS },
+  particleDistributionRadius: { type: 'slider', key: 'particleDistributionRadius', label: 'Galaxy Radius', min: 5, max: 50, step: 1, precision: 0 },
+  particleDistribution: { type: 'select', key: 'particleDistribution', label: 'Shape', options: PARTICLE_DISTRIBUTIONS },
+  particleSpiralArms: { type: 'slider', key: 'particleSpiralArms', label: 'Spiral Arms', min: 1, max: 8, step: 1, precision: 0 },
+  particleSpiralTwist: { type: 'slider', key: 'particleSpiralTwist', label: 'Spiral Twist', min: 0, max: 3.0, step: 0.1 },
+  particleMotion: { type: 'select', key: 'particleMotion', label: 'Motion', options: PARTICLE_MOTIONS },
+  particleTrailLength: { type: 'slider', key: 'particleTrailLength', label: 'Trail Length', min: 0, max: 1.0, step: 0.05 },
+  particleDamping: { type: 'slider', key: 'particleDamping', label: 'Damping', min: 0, max: 1.0, step: 0.05 },
+  particleTurbulence: { type: 'slider', key: 'particleTurbulence', label: 'Turbulence', min: 0, max: 2.0, step: 0.05 },
+  particleSize: { type: 'slider', key: 'particleSize', label: 'Particle Size', min: 0.1, max: 3.0, step: 0.1 },
+  noiseStrength: { type: 'slider', key: 'noiseStrength', label: 'Noise Strength', min: 0, max: 1.0, step: 0.05 },
+  cinematicCamera: { type: 'toggle', key: 'cinematicCamera', label: 'Cinematic Camera' },
+  cameraProgram: { type: 'select', key: 'cameraProgram', label: 'Camera Program', options: CAMERA_PROGRAMS },
+  cameraCuts: { type: 'toggle', key: 'cameraCuts', label: 'Cut on Beats' },
+  cameraCutBeats: { type: 'slider', key: 'cameraCutBeats', label: 'Beats per Cut', min: 1, max: 64, step: 1, precision: 0 },
+  cameraIdleTimeout: { type: 'slider', key: 'cameraIdleTimeout', label: 'Hand Back After (s)', min: 0, max: 30, step: 0.5, precision: 1 },
+  cameraPathLoop: { type: 'toggle', key: 'cameraPathLoop', label: 'Loop Path' },
+  rotationSpeed: { type: 'slider', key: 'rotationSpeed', label: 'Rotation Speed', min: 0, max: 2.0, step: 0.1 },
+  fieldOfView: { type: 'slider', key: 'fieldOfView', label: 'Field of View', min: 30, max: 120, step: 1, precision: 0 },
+  bloomStrength: { type: 'slider', key: 'bloomStrength', label: 'Bloom Strength', min: 0, max: 3.0, step: 0.1 },
+  bloomRadius: { type: 'slider', key: 'bloomRadius', label: 'Bloom Radius', min: 0, max: 1.0, step: 0.05 },
+  bloomThreshold: { type: 'slider', key: 'bloomThreshold', label: 'Bloom Threshold', min: 0, max: 1.0, step: 0.05 },
+  toneMapping: { type: 'select', key: 'toneMapping', label: 'Tone Mapping', options: TONE_MAPPING_MODES },
+  toneMappingExposure: { type: 'slider', key: 'toneMappingExposure', label: 'Exposure', min: 0.1, max: 3.0, step: 0.05 },
+  beatReactive: { type: 'toggle', key: 'beatReactive', label: 'Beat Sync' },
+  beatIntensity: { type: 'slider', key: 'beatIntensity', label: 'Beat Intensity', min: 0, max: 2.0, step: 0.1 },
+  bandAttack: { type: 'slider', key: 'bandAttack', label: 'Attack (s)', min: 0, max: 0.5, step: 0.01 },
+  bandRelease: { type: 'slider', key: 'bandRelease', label: 'Release (s)', min: 0, max: 1.0, step: 0.01 },
+} satisfies Record<string, ControlDefinition>;
+
+export interface ControlSection {
+  title: string;
+  controls: ControlDefinition[];
+}
+
+// The prop controls grouped as in ControlsPanel, for pages that lay them out generically
+export const CONTROL_SECTIONS: ControlSection[] = [
+  { title: 'General', controls: [PROP_CONTROLS.isAudioReactive] },
+  {
+    title: 'Planet Controls',
+    controls: [
+      PROP_CONTROLS.showFractal, PROP_CONTROLS.fractalWireframe, PROP_CONTROLS.fractalWaveAmplitude, PROP_CONTROLS.fractalWaveSmoothing,
+      PROP_CONTROLS.fractalWaveMapping, PROP_CONTROLS.fractalLayerSpacing, PROP_CONTROLS.fractalMetalness, PROP_CONTROLS.fractalRoughness,
+    ],
+  },
+  {
+    title: 'Oscilloscope',
+    controls: [
+      PROP_CONTROLS.showOscilloscope, PROP_CONTROLS.oscilloscopeMode, PROP_CONTROLS.oscilloscopeThickness,
+      PROP_CONTROLS.oscilloscopeRadius, PROP_CONTROLS.oscilloscopeColor,
+    ],
+  },
+  {
+    title: 'Galaxy Controls',
+    controls: [
+      PROP_CONTROLS.particleDistribution, PROP_CONTROLS.particleSpiralArms, PROP_CONTROLS.particleSpiralTwist,
+      PROP_CONTROLS.particleDistributionRadius, PROP_CONTROLS.particleSize, PROP_CONTROLS.noiseStrength,
+      PROP_CONTROLS.particleMotion, PROP_CONTROLS.particleTrailLength, PROP_CONTROLS.particleDamping, PROP_CONTROLS.particleTurbulence,
+    ],
+  },
+  {
+    title: 'Scene & Audio',
+    controls: [
+      PROP_CONTROLS.rotationSpeed, PROP_CONTROLS.fieldOfView, PROP_CONTROLS.bloomStrength,
+      PROP_CONTROLS.beatReactive, PROP_CONTROLS.beatIntensity,
+    ],
+  },
+  {
+    title: 'Camera',
+    controls: [
+      PROP_CONTROLS.cinematicCamera, PROP_CONTROLS.cameraProgram, PROP_CONTROLS.cameraCuts, PROP_CONTROLS.cameraCutBeats,
+      PROP_CONTROLS.cameraIdleTimeout, PROP_CONTROLS.cameraPathLoop,
+    ],
+  },
+  {
+    title: 'Post-Processing',
+    controls: [
+      PROP_CONTROLS.bloomRadius, PROP_CONTROLS.bloomThreshold, PROP_CONTROLS.toneMapping, PROP_CONTROLS.toneMappingExposure,
+    ],
+  },
+  { title: 'Frequency Bands', controls: [PROP_CONTROLS.bandAttack, PROP_CONTROLS.bandRelease] },
+];
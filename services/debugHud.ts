@@ -0,0 +1,216 @@
+import { BandRole } from '../types';
+import { hzToBin } from './frequencyBands';
+import { FrameStats } from './quality';
+import type { AnalysisSnapshot, RenderStats } from './NeogenesisEngine';
+
+export interface DebugHudFrame {
+  analysis: AnalysisSnapshot;
+  frame: FrameStats;
+  render: RenderStats | null;
+}
+
+// Size of the overlay in CSS pixels; the backing store is scaled by devicePixelRatio
+export const DEBUG_HUD_SIZE = { width: 360, height: 316 };
+
+const PADDING = 8;
+const TEXT_LINE = 14;
+const SPECTRUM_HEIGHT = 80;
+const METER_HEIGHT = 10;
+const SPECTROGRAM_HEIGHT = 80;
+const FRAME_GRAPH_HEIGHT = 28;
+// Frequency axis of the spectrum and spectrogram, log-spaced
+const MIN_HZ = 20;
+// Frame-time graph: the top of the scale, and the 60 fps budget drawn across it
+const FRAME_GRAPH_MAX_MS = 50;
+const FRAME_BUDGET_MS = 1000 / 60;
+
+const ROLE_COLORS: Record<BandRole, string> = {
+  bass: '#f87171',
+  mids: '#4ade80',
+  treble: '#60a5fa',
+  none: '#9ca3af',
+};
+
+const formatCount = (value: number): string =>
+  value >= 1e6 ? `${(value / 1e6).toFixed(1)}M` : value >= 1e4 ? `${Math.round(value / 1e3)}k` : `${value}`;
+
+// Black through purple and red to yellow, one entry per byte level
+const createHeatPalette = (): Uint8ClampedArray => {
+  const palette = new Uint8ClampedArray(256 * 3);
+  for (let i = 0; i < 256; i++) {
+    const t = i / 255;
+    palette[i * 3] = Math.min(255, t * 2 * 255);
+    palette[i * 3 + 1] = Math.max(0, (t - 0.5) * 2 * 255);
+    palette[i * 3 + 2] = t < 0.5 ? t * 2 * 180 : (1 - t) * 2 * 180;
+  }
+  return palette;
+};
+
+/**
+ * Draws the analysis debug overlay on its own 2D canvas: the spectrum with the
+ * band boundaries marked, the smoothed levels the shaders receive, a scrolling
+ * spectrogram, frame timing and the renderer's counters. It never touches the
+ * WebGL context, so drawing it doesn't show up in the numbers it reports.
+ */
+export class DebugHudRenderer {
+  private context: CanvasRenderingContext2D;
+  // The spectrogram scrolls inside its own canvas, one column per frame
+  private spectrogram: HTMLCanvasElement;
+  private spectrogramContext: CanvasRenderingContext2D;
+  private column: ImageData;
+  private palette = createHeatPalette();
+  private frameTimes = new Float32Array(DEBUG_HUD_SIZE.width - PADDING * 2);
+  private frameTimeIndex = 0;
+
+  constructor(canvas: HTMLCanvasElement, private pixelRatio: number = 1) {
+    const context = canvas.getContext('2d');
+    if (!context) throw new Error('2D canvas is not available');
+    this.context = context;
+    canvas.width = Math.round(DEBUG_HUD_SIZE.width * pixelRatio);
+    canvas.height = Math.round(DEBUG_HUD_SIZE.height * pixelRatio);
+
+    this.spectrogram = document.createElement('canvas');
+    this.spectrogram.width = DEBUG_HUD_SIZE.width - PADDING * 2;
+    this.spectrogram.height = SPECTROGRAM_HEIGHT;
+    const spectrogramContext = this.spectrogram.getContext('2d');
+    if (!spectrogramContext) throw new Error('2D canvas is not available');
+    this.spectrogramContext = spectrogramContext;
+    this.column = spectrogramContext.createImageData(1, SPECTROGRAM_HEIGHT);
+  }
+
+  public draw({ analysis, frame, render }: DebugHudFrame) {
+    const ctx = this.context;
+    const { width, height } = DEBUG_HUD_SIZE;
+    const innerWidth = width - PADDING * 2;
+    ctx.setTransform(this.pixelRatio, 0, 0, this.pixelRatio, 0, 0);
+    ctx.clearRect(0, 0, width, height);
+    ctx.fillStyle = 'rgba(0, 0, 0, 0.7)';
+    ctx.fillRect(0, 0, width, height);
+    ctx.font = '11px monospace';
+    ctx.textBaseline = 'top';
+
+    // --- Timing and renderer counters ---
+    let y = PADDING;
+    ctx.fillStyle = '#e5e7eb';
+    ctx.fillText(`${frame.fps.toFixed(0)} fps · frame ${frame.frameMs.toFixed(1)} ms · CPU ${frame.workMs.toFixed(1)} ms`, PADDING, y);
+    y += TEXT_LINE;
+    if (render) {
+      ctx.fillText(`calls ${render.drawCalls} · tris ${formatCount(render.triangles)} · pts ${formatCount(render.points)} · lines ${formatCount(render.lines)}`, PADDING, y);
+      y += TEXT_LINE;
+      ctx.fillText(`geometries ${render.geometries} · textures ${render.textures} · programs ${render.programs}`, PADDING, y);
+    } else {
+      ctx.fillText('No renderer stats', PADDING, y);
+      y += TEXT_LINE;
+    }
+    y += TEXT_LINE + 4;
+
+    // --- Spectrum with band boundaries ---
+    const spectrumTop = y;
+    this.drawSpectrum(analysis, PADDING, spectrumTop, innerWidth);
+    y += SPECTRUM_HEIGHT + 6;
+
+    // --- Smoothed levels, as sent to the shaders ---
+    const levels: [string, number, string][] = [
+      ['bass', analysis.bass, ROLE_COLORS.bass],
+      ['mids', analysis.mids, ROLE_COLORS.mids],
+      ['treble', analysis.treble, ROLE_COLORS.treble],
+      ['beat', analysis.beatPulse, '#facc15'],
+    ];
+    const meterWidth = innerWidth - 100;
+    levels.forEach(([label, value, color]) => {
+      ctx.fillStyle = '#9ca3af';
+      ctx.fillText(label, PADDING, y - 1);
+      ctx.fillStyle = 'rgba(255, 255, 255, 0.1)';
+      ctx.fillRect(PADDING + 50, y, meterWidth, METER_HEIGHT - 2);
+      ctx.fillStyle = color;
+      ctx.fillRect(PADDING + 50, y, meterWidth * Math.min(1, Math.max(0, value)), METER_HEIGHT - 2);
+      ctx.fillStyle = '#e5e7eb';
+      ctx.fillText(value.toFixed(3), PADDING + 56 + meterWidth, y - 1);
+      y += METER_HEIGHT + 2;
+    });
+    y += 4;
+
+    // --- Spectrogram ---
+    this.scrollSpectrogram(analysis);
+    ctx.imageSmoothingEnabled = false;
+    ctx.drawImage(this.spectrogram, PADDING, y);
+    y += SPECTROGRAM_HEIGHT + 6;
+
+    // --- Frame time graph ---
+    this.drawFrameTimes(analysis.frameMs, PADDING, y, innerWidth);
+  }
+
+  private drawSpectrum(analysis: AnalysisSnapshot, left: number, top: number, width: number) {
+    const ctx = this.context;
+    const { frequencyData: data, sampleRate } = analysis;
+    ctx.fillStyle = 'rgba(255, 255, 255, 0.05)';
+    ctx.fillRect(left, top, width, SPECTRUM_HEIGHT);
+    if (!data || sampleRate <= 0) {
+      ctx.fillStyle = '#9ca3af';
+      ctx.fillText('No audio', left + 4, top + 4);
+      return;
+    }
+
+    const nyquist = sampleRate / 2;
+    const xForHz = (hz: number) => left + (Math.log(Math.max(hz, MIN_HZ) / MIN_HZ) / Math.log(nyquist / MIN_HZ)) * width;
+    ctx.fillStyle = '#a78bfa';
+    for (let x = 0; x < width; x++) {
+      const hz = MIN_HZ * Math.pow(nyquist / MIN_HZ, x / width);
+      const level = data[hzToBin(hz, sampleRate, data.length)] / 255;
+      ctx.fillRect(left + x, top + SPECTRUM_HEIGHT * (1 - level), 1, SPECTRUM_HEIGHT * level);
+    }
+
+    // Each band's range, with its smoothed energy as a bar along the bottom
+    analysis.bands.forEach((band, i) => {
+      const x0 = xForHz(band.minHz);
+      const x1 = xForHz(band.maxHz);
+      const color = ROLE_COLORS[band.role];
+      ctx.fillStyle = color;
+      ctx.fillRect(x0, top, 1, SPECTRUM_HEIGHT);
+      const energy = analysis.bandEnergies?.[i] ?? 0;
+      ctx.globalAlpha = 0.35;
+      ctx.fillRect(x0, top + SPECTRUM_HEIGHT - 4, (x1 - x0) * Math.min(1, energy), 4);
+      ctx.globalAlpha = 1;
+      ctx.fillText(band.label, x0 + 2, top + 2 + (i % 2) * 11);
+    });
+  }
+
+  private scrollSpectrogram(analysis: AnalysisSnapshot) {
+    const ctx = this.spectrogramContext;
+    const { width, height } = this.spectrogram;
+    ctx.drawImage(this.spectrogram, -1, 0);
+    const { frequencyData: data, sampleRate } = analysis;
+    const pixels = this.column.data;
+    const nyquist = sampleRate / 2;
+    for (let row = 0; row < height; row++) {
+      // Low frequencies at the bottom
+      const hz = MIN_HZ * Math.pow(nyquist / MIN_HZ, (height - 1 - row) / (height - 1));
+      const level = data && sampleRate > 0 ? data[hzToBin(hz, sampleRate, data.length)] : 0;
+      pixels[row * 4] = this.palette[level * 3];
+      pixels[row * 4 + 1] = this.palette[level * 3 + 1];
+      pixels[row * 4 + 2] = this.palette[level * 3 + 2];
+      pixels[row * 4 + 3] = 255;
+    }
+    ctx.putImageData(this.column, width - 1, 0);
+  }
+
+  private drawFrameTimes(frameMs: number, left: number, top: number, width: number) {
+    const ctx = this.context;
+    const count = this.frameTimes.length;
+    this.frameTimes[this.frameTimeIndex] = frameMs;
+    this.frameTimeIndex = (this.frameTimeIndex + 1) % count;
+
+    ctx.fillStyle = 'rgba(255, 255, 255, 0.05)';
+    ctx.fillRect(left, top, width, FRAME_GRAPH_HEIGHT);
+    for (let i = 0; i < count; i++) {
+      const ms = this.frameTimes[(this.frameTimeIndex + i) % count];
+      const h = FRAME_GRAPH_HEIGHT * Math.min(1, ms / FRAME_GRAPH_MAX_MS);
+      ctx.fillStyle = ms > FRAME_BUDGET_MS * 1.5 ? '#f87171' : '#4ade80';
+      ctx.fillRect(left + i, top + FRAME_GRAPH_HEIGHT - h, 1, h);
+    }
+    const budgetY = top + FRAME_GRAPH_HEIGHT * (1 - FRAME_BUDGET_MS / FRAME_GRAPH_MAX_MS);
+    ctx.fillStyle = 'rgba(255, 255, 255, 0.4)';
+    ctx.fillRect(left, budgetY, width, 1);
+    ctx.fillText('16.7 ms', left + width - 44, budgetY - 12);
+  }
+}
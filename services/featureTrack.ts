@@ -0,0 +1,244 @@
+import { AudioFeatureSource, AudioFeatures, FrequencyBand } from '../types';
+import { BandAnalyzer, DEFAULT_BANDS } from './frequencyBands';
+
+export const FEATURE_TRACK_FORMAT = 'neogenesis-features';
+export const FEATURE_TRACK_VERSION = 1;
+
+// One analysed frame. The spectrum is the analyser's byte data, base64-encoded to keep files small.
+export interface FeatureTrackFrame {
+  time: number;
+  spectrum: string;
+  features: AudioFeatures;
+}
+
+export interface FeatureTrack {
+  format: typeof FEATURE_TRACK_FORMAT;
+  version: number;
+  sampleRate: number;
+  binCount: number;
+  frames: FeatureTrackFrame[];
+}
+
+// Flags that mark a single frame; they must not repeat when playback holds a frame for longer
+const EVENT_FLAGS = ['onset', 'kick', 'snare', 'hihat', 'beat'] as const;
+const EVENT_STRENGTHS = ['kickStrength', 'snareStrength', 'hihatStrength'] as const;
+
+const encodeBytes = (bytes: Uint8Array): string => {
+  let binary = '';
+  for (let i = 0; i < bytes.length; i++) binary += String.fromCharCode(bytes[i]);
+  return btoa(binary);
+};
+
+const decodeBytes = (encoded: string, target: Uint8Array) => {
+  const binary = atob(encoded);
+  const length = Math.min(binary.length, target.length);
+  for (let i = 0; i < length; i++) target[i] = binary.charCodeAt(i);
+  target.fill(0, length);
+};
+
+/**
+ * Wraps another source and keeps a copy of every frame it analyses, so a
+ * session can be saved as JSON and replayed later with FeatureTrackPlayer.
+ */
+export class FeatureRecorder implements AudioFeatureSource {
+  private frames: FeatureTrackFrame[] = [];
+  private startTime: number | null = null;
+  // The waveform isn't recorded, but passes through so the oscilloscope keeps drawing while recording
+  public getFloatTimeDomainData?: () => Float32Array;
+  public getStereoTimeDomainData?: () => [Float32Array, Float32Array];
+
+  constructor(private source: AudioFeatureSource) {
+    this.getFloatTimeDomainData = source.getFloatTimeDomainData?.bind(source);
+    this.getStereoTimeDomainData = source.getStereoTimeDomainData?.bind(source);
+  }
+
+  public get frequencyData(): Uint8Array {
+    return this.source.frequencyData;
+  }
+
+  public get frameCount(): number {
+    return this.frames.length;
+  }
+
+  /** The source being recorded, to put back in place once recording stops. */
+  public getSource(): AudioFeatureSource {
+    return this.source;
+  }
+
+  public analyze(): AudioFeatures {
+    const features = this.source.analyze();
+    this.startTime ??= features.time;
+    this.frames.push({
+      time: features.time - this.startTime,
+      spectrum: encodeBytes(this.source.frequencyData),
+      features: { ...features, time: features.time - this.startTime },
+    });
+    return features;
+  }
+
+  public getSampleRate(): number {
+    return this.source.getSampleRate();
+  }
+
+  public getBands(): FrequencyBand[] {
+    return this.source.getBands();
+  }
+
+  public setBands(bands: FrequencyBand[]) {
+    this.source.setBands(bands);
+  }
+
+  public setBandEnvelope(attack: number, release: number) {
+    this.source.setBandEnvelope(attack, release);
+  }
+
+  public getBandEnergies(): Float32Array {
+    return this.source.getBandEnergies();
+  }
+
+  public toTrack(): FeatureTrack {
+    return {
+      format: FEATURE_TRACK_FORMAT,
+      version: FEATURE_TRACK_VERSION,
+      sampleRate: this.source.getSampleRate(),
+      binCount: this.source.frequencyData.length,
+      frames: this.frames,
+    };
+  }
+}
+
+export const serializeFeatureTrack = (track: FeatureTrack): string => JSON.stringify(track);
+
+const isFeatureTrackFrame = (value: unknown): value is FeatureTrackFrame => {
+  const frame = value as FeatureTrackFrame;
+  return typeof frame === 'object' && frame !== null
+    && typeof frame.time === 'number'
+    && typeof frame.spectrum === 'string'
+    && typeof frame.features === 'object' && frame.features !== null
+    && typeof frame.features.rms === 'number';
+};
+
+export const parseFeatureTrack = (json: string): FeatureTrack => {
+  let data: FeatureTrack;
+  try {
+    data = JSON.parse(json);
+  } catch {
+    throw new Error('Feature track is not valid JSON.');
+  }
+  if (typeof data !== 'object' || data === null || data.format !== FEATURE_TRACK_FORMAT) {
+    throw new Error('This file is not a Neogenesis feature track.');
+  }
+  if (data.version > FEATURE_TRACK_VERSION) {
+    throw new Error('This feature track was made by a newer version of Neogenesis.');
+  }
+  if (typeof data.sampleRate !== 'number' || typeof data.binCount !== 'number' || !Array.isArray(data.frames) || !data.frames.every(isFeatureTrackFrame)) {
+    throw new Error('Feature track is missing its frames or sample rate.');
+  }
+  if (data.frames.length === 0) {
+    throw new Error('Feature track has no frames.');
+  }
+  return data;
+};
+
+export interface FeatureTrackPlayerOptions {
+  loop?: boolean;
+  // Clock in seconds for live use; setTime() overrides it
+  now?: () => number;
+}
+
+/**
+ * Replays a recorded feature track as an audio source. Band energies are
+ * recomputed from the recorded spectra, so band edits still apply; onsets,
+ * beats and BPM come straight from the recording.
+ */
+export class FeatureTrackPlayer implements AudioFeatureSource {
+  public readonly frequencyData: Uint8Array;
+  private bandAnalyzer = new BandAnalyzer();
+  private now: () => number;
+  private startTime: number;
+  private manualTime: number | null = null;
+  private loop: boolean;
+  private frameIndex = -1;
+  private lastElapsed = -Infinity;
+
+  constructor(private track: FeatureTrack, options: FeatureTrackPlayerOptions = {}) {
+    this.frequencyData = new Uint8Array(track.binCount);
+    this.loop = options.loop ?? true;
+    this.now = options.now ?? (() => performance.now() / 1000);
+    this.startTime = this.now();
+    this.bandAnalyzer.setBands(DEFAULT_BANDS);
+  }
+
+  public get duration(): number {
+    return this.track.frames[this.track.frames.length - 1].time;
+  }
+
+  /** Pins playback to `time` seconds into the track instead of the clock. */
+  public setTime(time: number) {
+    this.manualTime = time;
+  }
+
+  public analyze(): AudioFeatures {
+    const elapsed = this.manualTime ?? this.now() - this.startTime;
+    if (elapsed < this.lastElapsed) {
+      // Seeking back starts over, so a fixed-step render gives the same frames every time
+      this.bandAnalyzer.reset();
+      this.frameIndex = -1;
+    }
+    this.lastElapsed = elapsed;
+    const time = this.loop && this.duration > 0 ? elapsed % this.duration : Math.min(elapsed, this.duration);
+    const index = this.findFrame(time);
+    const frame = this.track.frames[index];
+    decodeBytes(frame.spectrum, this.frequencyData);
+    this.bandAnalyzer.process(this.frequencyData, this.track.sampleRate, elapsed);
+
+    const features: AudioFeatures = { ...frame.features, time: elapsed };
+    if (index === this.frameIndex) {
+      // Held frame: its events already fired
+      EVENT_FLAGS.forEach(flag => { features[flag] = false; });
+    } else if (index > this.frameIndex && this.frameIndex !== -1) {
+      // Skipped frames: keep any events that happened in between
+      for (let i = this.frameIndex + 1; i < index; i++) {
+        const skipped = this.track.frames[i].features;
+        EVENT_FLAGS.forEach(flag => { features[flag] ||= skipped[flag]; });
+        EVENT_STRENGTHS.forEach(key => { features[key] = Math.max(features[key], skipped[key]); });
+      }
+    }
+    this.frameIndex = index;
+    return features;
+  }
+
+  public getSampleRate(): number {
+    return this.track.sampleRate;
+  }
+
+  public getBands(): FrequencyBand[] {
+    return this.bandAnalyzer.getBands();
+  }
+
+  public setBands(bands: FrequencyBand[]) {
+    this.bandAnalyzer.setBands(bands);
+  }
+
+  public setBandEnvelope(attack: number, release: number) {
+    this.bandAnalyzer.attack = attack;
+    this.bandAnalyzer.release = release;
+  }
+
+  public getBandEnergies(): Float32Array {
+    return this.bandAnalyzer.getEnergies();
+  }
+
+  // Last frame at or before `time`
+  private findFrame(time: number): number {
+    const frames = this.track.frames;
+    let low = 0;
+    let high = frames.length - 1;
+    while (low < high) {
+      const mid = (low + high + 1) >> 1;
+      if (frames[mid].time <= time) low = mid;
+      else high = mid - 1;
+    }
+    return low;
+  }
+}
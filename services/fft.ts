@@ -0,0 +1,101 @@
+/**
+ * In-place iterative radix-2 FFT. `re` and `im` must have the same power-of-two length.
+ */
+export function fft(re: Float32Array, im: Float32Array) {
+  const n = re.length;
+  for (let i = 1, j = 0; i < n; i++) {
+    let bit = n >> 1;
+    for (; j & bit; bit >>= 1) j ^= bit;
+    j ^= bit;
+    if (i < j) {
+      [re[i], re[j]] = [re[j], re[i]];
+      [im[i], im[j]] = [im[j], im[i]];
+    }
+  }
+  for (let size = 2; size <= n; size <<= 1) {
+    const half = size >> 1;
+    const step = (-2 * Math.PI) / size;
+    for (let start = 0; start < n; start += size) {
+      for (let k = 0; k < half; k++) {
+        const cos = Math.cos(step * k);
+        const sin = Math.sin(step * k);
+        const a = start + k;
+        const b = a + half;
+        const tRe = re[b] * cos - im[b] * sin;
+        const tIm = re[b] * sin + im[b] * cos;
+        re[b] = re[a] - tRe;
+        im[b] = im[a] - tIm;
+        re[a] += tRe;
+        im[a] += tIm;
+      }
+    }
+  }
+}
+
+/** Blackman window, the same one AnalyserNode applies before its FFT. */
+export function createBlackmanWindow(size: number): Float32Array {
+  const window = new Float32Array(size);
+  const alpha = 0.16;
+  const a0 = (1 - alpha) / 2;
+  const a1 = 0.5;
+  const a2 = alpha / 2;
+  for (let i = 0; i < size; i++) {
+    window[i] = a0 - a1 * Math.cos((2 * Math.PI * i) / size) + a2 * Math.cos((4 * Math.PI * i) / size);
+  }
+  return window;
+}
+
+// Same defaults as AnalyserNode, so offline and synthetic sources react like the live view
+const MIN_DECIBELS = -100;
+const MAX_DECIBELS = -30;
+const SMOOTHING_TIME_CONSTANT = 0.8;
+
+/**
+ * Software stand-in for AnalyserNode.getByteFrequencyData(): Blackman window,
+ * FFT, time smoothing and the same dB-to-byte mapping, over blocks of samples
+ * supplied by the caller.
+ */
+export class ByteSpectrumAnalyzer {
+  public readonly frequencyData: Uint8Array;
+  private window: Float32Array;
+  private re: Float32Array;
+  private im: Float32Array;
+  private smoothed: Float32Array;
+
+  constructor(public readonly fftSize: number = 512) {
+    this.window = createBlackmanWindow(fftSize);
+    this.re = new Float32Array(fftSize);
+    this.im = new Float32Array(fftSize);
+    this.smoothed = new Float32Array(fftSize / 2);
+    this.frequencyData = new Uint8Array(fftSize / 2);
+  }
+
+  /**
+   * Analyses one block of `fftSize` samples, read through `sampleAt(i)`, into frequencyData.
+   * @returns The block's RMS level.
+   */
+  public process(sampleAt: (i: number) => number): number {
+    let sumSquares = 0;
+    for (let i = 0; i < this.fftSize; i++) {
+      const sample = sampleAt(i);
+      sumSquares += sample * sample;
+      this.re[i] = sample * this.window[i];
+      this.im[i] = 0;
+    }
+    fft(this.re, this.im);
+
+    const range = MAX_DECIBELS - MIN_DECIBELS;
+    for (let i = 0; i < this.smoothed.length; i++) {
+      const magnitude = Math.hypot(this.re[i], this.im[i]) / this.fftSize;
+      this.smoothed[i] = SMOOTHING_TIME_CONSTANT * this.smoothed[i] + (1 - SMOOTHING_TIME_CONSTANT) * magnitude;
+      const db = this.smoothed[i] > 0 ? 20 * Math.log10(this.smoothed[i]) : MIN_DECIBELS;
+      this.frequencyData[i] = Math.max(0, Math.min(255, Math.floor((255 * (db - MIN_DECIBELS)) / range)));
+    }
+    return Math.sqrt(sumSquares / this.fftSize);
+  }
+
+  public reset() {
+    this.smoothed.fill(0);
+    this.frequencyData.fill(0);
+  }
+}
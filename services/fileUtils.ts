@@ -0,0 +1,15 @@
+/** Triggers a browser download for a generated blob. */
+export const downloadBlob = (blob: Blob, filename: string) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  // Give the browser a moment to start the download before releasing the URL
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
+
+/** Strips the extension from a file name, for naming derived exports. */
+export const baseName = (filename: string) => filename.replace(/\.[^/.]+$/, '');
@@ -0,0 +1,131 @@
+import { FractalOptionValues } from '../types';
+import { FractalMeshData, generateFractal, getFractalGenerator, resolveFractalOptions } from './fractalGenerator';
+
+export interface FractalBuildRequest {
+  id: number;
+  generatorId: string;
+  depth: number;
+  options: FractalOptionValues;
+}
+
+export type FractalBuildResponse =
+  | { id: number; positions: Float32Array; indices: Uint32Array | null }
+  | { id: number; error: string };
+
+export class FractalBuildCancelledError extends Error {
+  constructor() {
+    super('Fractal build was superseded by a newer request');
+    this.name = 'FractalBuildCancelledError';
+  }
+}
+
+// Meshes kept around so flicking back to a recent setting is instant
+const CACHE_SIZE = 8;
+
+interface PendingBuild {
+  id: number;
+  key: string;
+  resolve: (data: FractalMeshData) => void;
+  reject: (error: Error) => void;
+}
+
+/**
+ * Generates fractal meshes in a Web Worker, with a small LRU cache keyed by
+ * (generator, depth, options). Only the latest request matters: starting a new
+ * build cancels the one in flight, terminating the worker if it is mid-build.
+ * Falls back to building on the main thread where workers aren't available.
+ */
+export class FractalBuilder {
+  private worker: Worker | null = null;
+  private cache = new Map<string, FractalMeshData>();
+  private pending: PendingBuild | null = null;
+  private nextId = 0;
+
+  public build(generatorId: string, depth: number, values: FractalOptionValues | undefined): Promise<FractalMeshData> {
+    const generator = getFractalGenerator(generatorId);
+    const request: Omit<FractalBuildRequest, 'id'> = {
+      generatorId: generator.id,
+      depth: Math.min(depth, generator.maxDepth),
+      options: resolveFractalOptions(generator, values),
+    };
+    const key = JSON.stringify([request.generatorId, request.depth, request.options]);
+
+    this.cancel();
+    const cached = this.cache.get(key);
+    if (cached) {
+      // Re-insert to mark it as most recently used
+      this.cache.delete(key);
+      this.cache.set(key, cached);
+      return Promise.resolve(cached);
+    }
+
+    const worker = this.getWorker();
+    if (!worker) {
+      const data = generateFractal(request.generatorId, request.depth, request.options);
+      this.store(key, data);
+      return Promise.resolve(data);
+    }
+
+    return new Promise((resolve, reject) => {
+      const id = this.nextId++;
+      this.pending = { id, key, resolve, reject };
+      worker.postMessage({ id, ...request } satisfies FractalBuildRequest);
+    });
+  }
+
+  /** Rejects the build in flight, if any, with a FractalBuildCancelledError. */
+  public cancel() {
+    if (!this.pending) return;
+    const { reject } = this.pending;
+    this.pending = null;
+    // A worker can't be interrupted mid-build; replacing it is the only way to stop the work
+    this.worker?.terminate();
+    this.worker = null;
+    reject(new FractalBuildCancelledError());
+  }
+
+  public dispose() {
+    this.cancel();
+    this.worker?.terminate();
+    this.worker = null;
+    this.cache.clear();
+  }
+
+  private store(key: string, data: FractalMeshData) {
+    this.cache.set(key, data);
+    if (this.cache.size > CACHE_SIZE) {
+      this.cache.delete(this.cache.keys().next().value!);
+    }
+  }
+
+  private getWorker(): Worker | null {
+    if (this.worker) return this.worker;
+    if (typeof Worker === 'undefined') return null;
+    try {
+      this.worker = new Worker(new URL('./fractalWorker.ts', import.meta.url), { type: 'module' });
+    } catch (error) {
+      console.error('Could not start the fractal worker, building on the main thread:', error);
+      return null;
+    }
+    this.worker.onmessage = (event: MessageEvent<FractalBuildResponse>) => this.handleResponse(event.data);
+    this.worker.onerror = (event) => {
+      const pending = this.pending;
+      this.pending = null;
+      pending?.reject(new Error(event.message || 'Fractal worker failed'));
+    };
+    return this.worker;
+  }
+
+  private handleResponse(response: FractalBuildResponse) {
+    const pending = this.pending;
+    if (!pending || pending.id !== response.id) return;
+    this.pending = null;
+    if ('error' in response) {
+      pending.reject(new Error(response.error));
+      return;
+    }
+    const data = { positions: response.positions, indices: response.indices };
+    this.store(pending.key, data);
+    pending.resolve(data);
+  }
+}
@@ -1,90 +1,448 @@
 // src/services/fractalGenerator.ts
 import * as THREE from 'three';
-import * as BufferGeometryUtils from 'three/addons/utils/BufferGeometryUtils.js';
+import { FractalOptionValues } from '../types';
+import { createSeededRandom } from './random';
 
 /**
- * Crea la geometría fractal de Neogenesis.
- * @param baseGeometry La forma inicial (ej. un Icosaedro).
+ * Crea la geometría fractal de Neogenesis: cada triángulo se parte por los puntos
+ * medios de sus aristas, proyectados sobre la esfera, y se conservan las tres
+ * esquinas (o las cuatro partes con `keepCenter`).
+ * Trabaja con arrays planos y una tabla de aristas, sin crear objetos por triángulo.
+ * @param triangles Triángulos del sólido base, 9 floats por triángulo.
  * @param recursionDepth El nivel de detalle del fractal.
- * @returns Una BufferGeometry única, unificada y lista para usar.
+ * @returns Posiciones e índices de una malla soldada.
  */
-export function createNeogenesisFractal(baseGeometry: THREE.BufferGeometry, recursionDepth: number): THREE.BufferGeometry {
-  
-  // Extraemos los vértices de la geometría base para trabajar con ellos.
-  const basePositions = baseGeometry.attributes.position;
-  const initialTriangles: THREE.Triangle[] = [];
-  
-  // Si la geometría está indexada, la descomponemos en triángulos.
-  if (baseGeometry.index) {
-    for (let i = 0; i < baseGeometry.index.count; i += 3) {
-      const v1 = new THREE.Vector3().fromBufferAttribute(basePositions, baseGeometry.index.getX(i));
-      const v2 = new THREE.Vector3().fromBufferAttribute(basePositions, baseGeometry.index.getX(i + 1));
-      const v3 = new THREE.Vector3().fromBufferAttribute(basePositions, baseGeometry.index.getX(i + 2));
-      initialTriangles.push(new THREE.Triangle(v1, v2, v3));
-    }
-  } else {
-    // Si no está indexada, los vértices van de 3 en 3.
-    for (let i = 0; i < basePositions.count; i += 3) {
-      const v1 = new THREE.Vector3().fromBufferAttribute(basePositions, i);
-      const v2 = new THREE.Vector3().fromBufferAttribute(basePositions, i + 1);
-      const v3 = new THREE.Vector3().fromBufferAttribute(basePositions, i + 2);
-      initialTriangles.push(new THREE.Triangle(v1, v2, v3));
+export function subdivideSphere(triangles: Float32Array, recursionDepth: number, keepCenter: boolean = false): FractalMeshData {
+  // -- PASO 1: SOLDADURA DE LOS VÉRTICES DEL SÓLIDO BASE --
+  const positions: number[] = [];
+  let indices: number[] = [];
+  const vertexByKey = new Map<string, number>();
+  for (let i = 0; i < triangles.length; i += 3) {
+    const key = `${triangles[i].toFixed(4)},${triangles[i + 1].toFixed(4)},${triangles[i + 2].toFixed(4)}`;
+    let index = vertexByKey.get(key);
+    if (index === undefined) {
+      index = positions.length / 3;
+      positions.push(triangles[i], triangles[i + 1], triangles[i + 2]);
+      vertexByKey.set(key, index);
     }
+    indices.push(index);
   }
+  const radius = Math.hypot(positions[0], positions[1], positions[2]);
+
+  // -- PASO 2: SUBDIVISIÓN RECURSIVA --
+  for (let level = 0; level < recursionDepth; level++) {
+    // Cada arista se parte una sola vez, así los triángulos vecinos comparten el punto medio
+    const midpoints = new Map<number, number>();
+    const midpoint = (a: number, b: number): number => {
+      const key = a < b ? a * 0x400000 + b : b * 0x400000 + a;
+      let index = midpoints.get(key);
+      if (index === undefined) {
+        const x = positions[a * 3] + positions[b * 3];
+        const y = positions[a * 3 + 1] + positions[b * 3 + 1];
+        const z = positions[a * 3 + 2] + positions[b * 3 + 2];
+        // Proyectar el punto medio para mantener la forma esférica
+        const scale = radius / (Math.hypot(x, y, z) || 1);
+        index = positions.length / 3;
+        positions.push(x * scale, y * scale, z * scale);
+        midpoints.set(key, index);
+      }
+      return index;
+    };
 
-  if (recursionDepth === 0) {
-    return baseGeometry;
+    const next: number[] = [];
+    for (let i = 0; i < indices.length; i += 3) {
+      const a = indices[i], b = indices[i + 1], c = indices[i + 2];
+      const m12 = midpoint(a, b), m23 = midpoint(b, c), m31 = midpoint(c, a);
+      next.push(a, m12, m31, b, m23, m12, c, m31, m23);
+      if (keepCenter) next.push(m12, m23, m31);
+    }
+    indices = next;
   }
 
-  let finalTriangles = initialTriangles;
+  // -- PASO 3: ARRAYS FINALES --
+  return { positions: new Float32Array(positions), indices: new Uint32Array(indices) };
+}
 
-  // -- PASO 2: SUBDIVISIÓN RECURSIVA --
-  for (let i = 0; i < recursionDepth; i++) {
-    const newTriangles: THREE.Triangle[] = [];
-    finalTriangles.forEach(tri => {
-      const m12 = new THREE.Vector3().addVectors(tri.a, tri.b).multiplyScalar(0.5);
-      const m23 = new THREE.Vector3().addVectors(tri.b, tri.c).multiplyScalar(0.5);
-      const m31 = new THREE.Vector3().addVectors(tri.c, tri.a).multiplyScalar(0.5);
-
-      // Proyectar los puntos medios para mantener la forma esférica
-      const radius = tri.a.length();
-      m12.normalize().multiplyScalar(radius);
-      m23.normalize().multiplyScalar(radius);
-      m31.normalize().multiplyScalar(radius);
-      
-      newTriangles.push(new THREE.Triangle(tri.a, m12, m31));
-      newTriangles.push(new THREE.Triangle(tri.b, m23, m12));
-      newTriangles.push(new THREE.Triangle(tri.c, m31, m23));
-    });
-    finalTriangles = newTriangles;
+// --- Registro de generadores ---
+
+export type FractalOptionSchema =
+  | { type: 'number'; key: string; label: string; min: number; max: number; step: number; default: number }
+  | { type: 'boolean'; key: string; label: string; default: boolean }
+  | { type: 'enum'; key: string; label: string; values: { value: string; label: string }[]; default: string };
+
+// Malla plana: posiciones xyz y, opcionalmente, índices. Sin índices se sombrea con caras planas.
+export interface FractalMeshData {
+  positions: Float32Array;
+  indices: Uint32Array | null;
+}
+
+export interface FractalGenerator {
+  id: string;
+  label: string;
+  // Profundidad máxima que el generador soporta sin disparar el número de triángulos
+  maxDepth: number;
+  options: FractalOptionSchema[];
+  generate(depth: number, options: FractalOptionValues): FractalMeshData;
+}
+
+// Radio aproximado de todas las figuras, igual que el icosaedro original
+export const FRACTAL_RADIUS = 4;
+
+export type BaseSolid = 'tetrahedron' | 'octahedron' | 'icosahedron' | 'dodecahedron';
+
+const BASE_SOLID_OPTION: FractalOptionSchema = {
+  type: 'enum',
+  key: 'baseSolid',
+  label: 'Base Solid',
+  values: [
+    { value: 'icosahedron', label: 'Icosahedron' },
+    { value: 'octahedron', label: 'Octahedron' },
+    { value: 'tetrahedron', label: 'Tetrahedron' },
+    { value: 'dodecahedron', label: 'Dodecahedron' },
+  ],
+  default: 'icosahedron',
+};
+
+const createBaseSolid = (solid: BaseSolid, radius: number, detail: number = 0): THREE.BufferGeometry => {
+  switch (solid) {
+    case 'tetrahedron': return new THREE.TetrahedronGeometry(radius, detail);
+    case 'octahedron': return new THREE.OctahedronGeometry(radius, detail);
+    case 'dodecahedron': return new THREE.DodecahedronGeometry(radius, detail);
+    default: return new THREE.IcosahedronGeometry(radius, detail);
   }
+};
 
-  // -- PASO 3: RECOLECCIÓN --
-  const geometries: THREE.BufferGeometry[] = [];
-  finalTriangles.forEach(tri => {
-    const geo = new THREE.BufferGeometry();
-    geo.setAttribute('position', new THREE.Float32BufferAttribute([
-      tri.a.x, tri.a.y, tri.a.z,
-      tri.b.x, tri.b.y, tri.b.z,
-      tri.c.x, tri.c.y, tri.c.z,
-    ], 3));
-    geometries.push(geo);
-  });
+// Triángulos del sólido, 9 floats por triángulo (las geometrías poliédricas de THREE no están indexadas)
+const getSolidTriangles = (solid: BaseSolid, radius: number, detail: number = 0): Float32Array => {
+  const geometry = createBaseSolid(solid, radius, detail);
+  const triangles = new Float32Array(geometry.attributes.position.array);
+  geometry.dispose();
+  return triangles;
+};
 
-  if (geometries.length === 0) {
-    return new THREE.BufferGeometry(); // Devuelve una geometría vacía si no hay nada que procesar
+// Esfera geodésica unitaria y completa, base de los planetas de ruido y del Mandelbulb
+const createUnitSphere = (solid: BaseSolid, depth: number): FractalMeshData =>
+  subdivideSphere(getSolidTriangles(solid, 1, 1), depth, true);
+
+// --- Ruido 3D (Perlin con permutación sembrada) ---
+
+const createNoise3D = (seed: number) => {
+  const random = createSeededRandom(seed);
+  const perm = new Uint8Array(512);
+  const base = Array.from({ length: 256 }, (_, i) => i);
+  for (let i = 255; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [base[i], base[j]] = [base[j], base[i]];
   }
+  for (let i = 0; i < 512; i++) perm[i] = base[i & 255];
+
+  const fade = (t: number) => t * t * t * (t * (t * 6 - 15) + 10);
+  const grad = (hash: number, x: number, y: number, z: number) => {
+    const h = hash & 15;
+    const u = h < 8 ? x : y;
+    const v = h < 4 ? y : h === 12 || h === 14 ? x : z;
+    return ((h & 1) ? -u : u) + ((h & 2) ? -v : v);
+  };
+  const lerp = (a: number, b: number, t: number) => a + (b - a) * t;
+
+  return (x: number, y: number, z: number): number => {
+    const X = Math.floor(x) & 255, Y = Math.floor(y) & 255, Z = Math.floor(z) & 255;
+    x -= Math.floor(x); y -= Math.floor(y); z -= Math.floor(z);
+    const u = fade(x), v = fade(y), w = fade(z);
+    const A = perm[X] + Y, AA = perm[A] + Z, AB = perm[A + 1] + Z;
+    const B = perm[X + 1] + Y, BA = perm[B] + Z, BB = perm[B + 1] + Z;
+    return lerp(
+      lerp(lerp(grad(perm[AA], x, y, z), grad(perm[BA], x - 1, y, z), u),
+           lerp(grad(perm[AB], x, y - 1, z), grad(perm[BB], x - 1, y - 1, z), u), v),
+      lerp(lerp(grad(perm[AA + 1], x, y, z - 1), grad(perm[BA + 1], x - 1, y, z - 1), u),
+           lerp(grad(perm[AB + 1], x, y - 1, z - 1), grad(perm[BB + 1], x - 1, y - 1, z - 1), u), v),
+      w);
+  };
+};
+
+// --- Generadores ---
+
+const geodesicGenerator: FractalGenerator = {
+  id: 'geodesic',
+  label: 'Geodesic Sphere',
+  maxDepth: 6,
+  options: [BASE_SOLID_OPTION],
+  generate: (depth, options) => subdivideSphere(getSolidTriangles(options.baseSolid as BaseSolid, FRACTAL_RADIUS, 1), depth),
+};
+
+const sierpinskiGenerator: FractalGenerator = {
+  id: 'sierpinski',
+  label: 'Sierpinski Tetrahedron',
+  maxDepth: 7,
+  options: [
+    { type: 'number', key: 'gap', label: 'Gap', min: 0, max: 0.3, step: 0.01, default: 0 },
+  ],
+  generate: (depth, options) => {
+    const gap = options.gap as number;
+    const s = FRACTAL_RADIUS / Math.sqrt(3);
+    const root = [[s, s, s], [s, -s, -s], [-s, s, -s], [-s, -s, s]];
+    const leafCount = Math.pow(4, depth);
+    const positions = new Float32Array(leafCount * 4 * 9);
+    let offset = 0;
+    const faces = [[0, 1, 2], [0, 3, 1], [0, 2, 3], [1, 3, 2]];
+
+    // Cada tetraedro se reemplaza por cuatro copias a la mitad, una en cada vértice
+    const subdivide = (corners: number[][], level: number) => {
+      if (level === 0) {
+        faces.forEach(face => face.forEach(index => {
+          positions.set(corners[index], offset);
+          offset += 3;
+        }));
+        return;
+      }
+      const scale = 0.5 * (1 - gap);
+      corners.forEach(anchor => {
+        subdivide(corners.map(corner => corner.map((value, axis) => anchor[axis] + (value - anchor[axis]) * scale)), level - 1);
+      });
+    };
+    subdivide(root, depth);
+    return { positions, indices: null };
+  },
+};
+
+const mengerGenerator: FractalGenerator = {
+  id: 'menger',
+  label: 'Menger Sponge',
+  maxDepth: 3,
+  options: [
+    { type: 'number', key: 'cubeScale', label: 'Cube Scale', min: 0.5, max: 1, step: 0.05, default: 1 },
+  ],
+  generate: (depth, options) => {
+    const cubeScale = options.cubeScale as number;
+    const half = FRACTAL_RADIUS / Math.sqrt(3);
+    const cubes: number[][] = [];
 
-  // -- PASO 4: UNIFICACIÓN Y SOLDADURA --
-  // Primero, fusionamos todas las geometrías pequeñas en una sola.
-  const mergedGeo = BufferGeometryUtils.mergeGeometries(geometries);
-  if (!mergedGeo) {
-    return new THREE.BufferGeometry();
+    // Se conservan los 20 subcubos que no están en el centro de una cara ni en el centro del cubo
+    const subdivide = (cx: number, cy: number, cz: number, size: number, level: number) => {
+      if (level === 0) {
+        cubes.push([cx, cy, cz, size * cubeScale]);
+        return;
+      }
+      const step = (size * 2) / 3;
+      for (let x = -1; x <= 1; x++) {
+        for (let y = -1; y <= 1; y++) {
+          for (let z = -1; z <= 1; z++) {
+            if ((x === 0 ? 1 : 0) + (y === 0 ? 1 : 0) + (z === 0 ? 1 : 0) >= 2) continue;
+            subdivide(cx + x * step, cy + y * step, cz + z * step, size / 3, level - 1);
+          }
+        }
+      }
+    };
+    subdivide(0, 0, 0, half, depth);
+
+    const box = new THREE.BoxGeometry(2, 2, 2).toNonIndexed();
+    const template = box.attributes.position.array as Float32Array;
+    const positions = new Float32Array(cubes.length * template.length);
+    cubes.forEach(([cx, cy, cz, h], c) => {
+      const base = c * template.length;
+      for (let i = 0; i < template.length; i += 3) {
+        positions[base + i] = cx + template[i] * h;
+        positions[base + i + 1] = cy + template[i + 1] * h;
+        positions[base + i + 2] = cz + template[i + 2] * h;
+      }
+    });
+    box.dispose();
+    return { positions, indices: null };
+  },
+};
+
+const kochGenerator: FractalGenerator = {
+  id: 'koch',
+  label: 'Koch Extrusion',
+  maxDepth: 5,
+  options: [
+    BASE_SOLID_OPTION,
+    { type: 'number', key: 'height', label: 'Spike Height', min: -1, max: 1.5, step: 0.05, default: 0.8 },
+  ],
+  generate: (depth, options) => {
+    const height = options.height as number;
+    let triangles = getSolidTriangles(options.baseSolid as BaseSolid, FRACTAL_RADIUS);
+
+    const a = new THREE.Vector3(), b = new THREE.Vector3(), c = new THREE.Vector3();
+    const mab = new THREE.Vector3(), mbc = new THREE.Vector3(), mca = new THREE.Vector3();
+    const normal = new THREE.Vector3(), apex = new THREE.Vector3(), edge = new THREE.Vector3();
+
+    // Cada cara se parte en cuatro y la central se levanta como un tetraedro: 6 caras nuevas
+    for (let level = 0; level < depth; level++) {
+      const next = new Float32Array(triangles.length * 6);
+      let offset = 0;
+      const push = (...points: THREE.Vector3[]) => points.forEach(p => { next[offset++] = p.x; next[offset++] = p.y; next[offset++] = p.z; });
+      for (let i = 0; i < triangles.length; i += 9) {
+        a.fromArray(triangles, i); b.fromArray(triangles, i + 3); c.fromArray(triangles, i + 6);
+        mab.addVectors(a, b).multiplyScalar(0.5);
+        mbc.addVectors(b, c).multiplyScalar(0.5);
+        mca.addVectors(c, a).multiplyScalar(0.5);
+        normal.subVectors(b, a).cross(edge.subVectors(c, a)).normalize();
+        const side = mab.distanceTo(mbc);
+        apex.addVectors(mab, mbc).add(mca).multiplyScalar(1 / 3).addScaledVector(normal, side * Math.sqrt(2 / 3) * height);
+        push(a, mab, mca, mab, b, mbc, mca, mbc, c);
+        push(mab, mbc, apex, mbc, mca, apex, mca, mab, apex);
+      }
+      triangles = next;
+    }
+    return { positions: triangles, indices: null };
+  },
+};
+
+const terrainGenerator: FractalGenerator = {
+  id: 'terrain',
+  label: 'Terrain Planet',
+  maxDepth: 5,
+  options: [
+    BASE_SOLID_OPTION,
+    { type: 'number', key: 'seed', label: 'Seed', min: 0, max: 999, step: 1, default: 7 },
+    { type: 'number', key: 'amplitude', label: 'Relief', min: 0, max: 0.5, step: 0.01, default: 0.3 },
+    { type: 'number', key: 'frequency', label: 'Frequency', min: 0.5, max: 6, step: 0.1, default: 1.5 },
+    { type: 'number', key: 'octaves', label: 'Octaves', min: 1, max: 6, step: 1, default: 4 },
+    { type: 'number', key: 'seaLevel', label: 'Sea Level', min: -1, max: 1, step: 0.05, default: 0 },
+  ],
+  generate: (depth, options) => {
+    const noise = createNoise3D(options.seed as number);
+    const amplitude = options.amplitude as number;
+    const frequency = options.frequency as number;
+    const octaves = options.octaves as number;
+    const seaLevel = options.seaLevel as number;
+    const mesh = createUnitSphere(options.baseSolid as BaseSolid, depth);
+    const p = mesh.positions;
+
+    // Ruido fractal (fBm) a lo largo de la normal; por debajo del nivel del mar queda liso
+    for (let i = 0; i < p.length; i += 3) {
+      const length = Math.hypot(p[i], p[i + 1], p[i + 2]) || 1;
+      const x = p[i] / length, y = p[i + 1] / length, z = p[i + 2] / length;
+      let height = 0, amp = 1, freq = frequency, norm = 0;
+      for (let o = 0; o < octaves; o++) {
+        height += noise(x * freq, y * freq, z * freq) * amp;
+        norm += amp;
+        amp *= 0.5;
+        freq *= 2;
+      }
+      height = Math.max(height / norm, seaLevel * 0.5);
+      const radius = FRACTAL_RADIUS * (1 + height * amplitude * 2);
+      p[i] = x * radius; p[i + 1] = y * radius; p[i + 2] = z * radius;
+    }
+    return mesh;
+  },
+};
+
+// Un punto pertenece al Mandelbulb si su órbita no escapa tras `iterations` pasos
+const isInsideMandelbulb = (cx: number, cy: number, cz: number, power: number, iterations: number): boolean => {
+  let x = cx, y = cy, z = cz;
+  for (let i = 0; i < iterations; i++) {
+    const r = Math.sqrt(x * x + y * y + z * z);
+    if (r > 2) return false;
+    const theta = Math.acos(r === 0 ? 0 : z / r) * power;
+    const phi = Math.atan2(y, x) * power;
+    const zr = Math.pow(r, power);
+    x = zr * Math.sin(theta) * Math.cos(phi) + cx;
+    y = zr * Math.sin(theta) * Math.sin(phi) + cy;
+    z = zr * Math.cos(theta) + cz;
   }
-  // Luego, "soldamos" los vértices duplicados para crear una malla continua.
-  const finalGeo = BufferGeometryUtils.mergeVertices(mergedGeo);
-  // Finalmente, calculamos las normales para que la iluminación funcione correctamente.
-  finalGeo.computeVertexNormals();
+  return true;
+};
 
-  return finalGeo;
-}
+const MANDELBULB_OUTER_RADIUS = 1.3;
+const MANDELBULB_MARCH_STEPS = 96;
+
+const mandelbulbGenerator: FractalGenerator = {
+  id: 'mandelbulb',
+  label: 'Mandelbulb',
+  maxDepth: 5,
+  options: [
+    { type: 'number', key: 'power', label: 'Power', min: 2, max: 12, step: 1, default: 8 },
+    { type: 'number', key: 'iterations', label: 'Iterations', min: 3, max: 16, step: 1, default: 8 },
+  ],
+  generate: (depth, options) => {
+    const power = options.power as number;
+    const iterations = options.iterations as number;
+    const mesh = createUnitSphere('icosahedron', depth);
+    const p = mesh.positions;
+    const radii = new Float32Array(p.length / 3);
+
+    // Cada vértice de la esfera baja por su radio hasta tocar la superficie exterior del fractal
+    for (let i = 0; i < p.length; i += 3) {
+      const length = Math.hypot(p[i], p[i + 1], p[i + 2]) || 1;
+      const x = p[i] / length, y = p[i + 1] / length, z = p[i + 2] / length;
+      let outside = MANDELBULB_OUTER_RADIUS;
+      let inside = 0;
+      for (let s = 1; s <= MANDELBULB_MARCH_STEPS; s++) {
+        const r = MANDELBULB_OUTER_RADIUS * (1 - s / MANDELBULB_MARCH_STEPS);
+        if (isInsideMandelbulb(x * r, y * r, z * r, power, iterations)) {
+          inside = r;
+          break;
+        }
+        outside = r;
+      }
+      // Bisección entre el último punto exterior y el primero interior
+      for (let b = 0; b < 6; b++) {
+        const mid = (inside + outside) / 2;
+        if (isInsideMandelbulb(x * mid, y * mid, z * mid, power, iterations)) inside = mid; else outside = mid;
+      }
+      radii[i / 3] = inside;
+      p[i] = x; p[i + 1] = y; p[i + 2] = z;
+    }
+    // Se escala para que el punto más lejano quede en el radio común
+    let maxRadius = 0;
+    radii.forEach(r => { maxRadius = Math.max(maxRadius, r); });
+    const scale = FRACTAL_RADIUS / (maxRadius || 1);
+    for (let i = 0; i < p.length; i += 3) {
+      const radius = radii[i / 3] * scale;
+      p[i] *= radius; p[i + 1] *= radius; p[i + 2] *= radius;
+    }
+    return mesh;
+  },
+};
+
+const generators = new Map<string, FractalGenerator>();
+
+export const registerFractalGenerator = (generator: FractalGenerator) => {
+  generators.set(generator.id, generator);
+};
+
+[geodesicGenerator, sierpinskiGenerator, mengerGenerator, kochGenerator, terrainGenerator, mandelbulbGenerator].forEach(registerFractalGenerator);
+
+export const DEFAULT_FRACTAL_GENERATOR = geodesicGenerator.id;
+
+export const listFractalGenerators = (): FractalGenerator[] => [...generators.values()];
+
+/** Looks up a generator, falling back to the geodesic sphere for unknown ids. */
+export const getFractalGenerator = (id: string): FractalGenerator => generators.get(id) ?? geodesicGenerator;
+
+/** Fills missing options with their defaults and drops or clamps invalid values. */
+export const resolveFractalOptions = (generator: FractalGenerator, values: FractalOptionValues | undefined): FractalOptionValues => {
+  const resolved: FractalOptionValues = {};
+  generator.options.forEach(option => {
+    const value = values?.[option.key];
+    switch (option.type) {
+      case 'number':
+        resolved[option.key] = typeof value === 'number' && isFinite(value) ? Math.min(option.max, Math.max(option.min, value)) : option.default;
+        break;
+      case 'boolean':
+        resolved[option.key] = typeof value === 'boolean' ? value : option.default;
+        break;
+      case 'enum':
+        resolved[option.key] = typeof value === 'string' && option.values.some(entry => entry.value === value) ? value : option.default;
+        break;
+    }
+  });
+  return resolved;
+};
+
+/** Runs a generator with validated options and its own depth cap. */
+export const generateFractal = (generatorId: string, depth: number, values: FractalOptionValues | undefined): FractalMeshData => {
+  const generator = getFractalGenerator(generatorId);
+  return generator.generate(Math.min(depth, generator.maxDepth), resolveFractalOptions(generator, values));
+};
+
+/** Wraps generated arrays in a BufferGeometry with normals (smooth when indexed, flat otherwise). */
+export const createFractalGeometry = (data: FractalMeshData): THREE.BufferGeometry => {
+  const geometry = new THREE.BufferGeometry();
+  geometry.setAttribute('position', new THREE.BufferAttribute(data.positions, 3));
+  if (data.indices) geometry.setIndex(new THREE.BufferAttribute(data.indices, 1));
+  geometry.computeVertexNormals();
+  return geometry;
+};
@@ -0,0 +1,41 @@
+import { FractalLayer, Vec3Tuple } from '../types';
+import { THEME_COLOR_OPTIONS } from './themes';
+
+export const MAX_FRACTAL_LAYERS = 8;
+export const FRACTAL_LAYER_SPEED_RANGE = { min: 0, max: 5 };
+
+// The axis the original three layers turned around: mostly up, leaning back along x
+const DEFAULT_ROTATION_AXIS: Vec3Tuple = [-0.6, 1, 0];
+
+/** A layer as the planet always drew its `index`th mesh: following the planet's material, spinning faster inward. */
+export const createFractalLayer = (index: number, id: string = `layer-${index}`): FractalLayer => ({
+  id,
+  material: null,
+  wireframe: false,
+  opacity: 1,
+  emissive: 'emissive',
+  rotationAxis: [...DEFAULT_ROTATION_AXIS],
+  rotationSpeed: Math.round((index + 1) * 0.6 * 10) / 10,
+  bandId: '',
+});
+
+export const DEFAULT_FRACTAL_LAYERS: FractalLayer[] = [0, 1, 2].map(index => createFractalLayer(index));
+
+const isUnit = (value: unknown): value is number => typeof value === 'number' && value >= 0 && value <= 1;
+
+const isFractalLayer = (value: unknown): value is FractalLayer => {
+  const layer = value as FractalLayer;
+  return typeof layer === 'object' && layer !== null
+    && typeof layer.id === 'string'
+    && (layer.material === null || (typeof layer.material === 'object' && isUnit(layer.material.metalness) && isUnit(layer.material.roughness)))
+    && typeof layer.wireframe === 'boolean'
+    && isUnit(layer.opacity)
+    && THEME_COLOR_OPTIONS.some(option => option.value === layer.emissive)
+    && Array.isArray(layer.rotationAxis) && layer.rotationAxis.length === 3 && layer.rotationAxis.every(n => typeof n === 'number' && isFinite(n))
+    && typeof layer.rotationSpeed === 'number' && layer.rotationSpeed >= FRACTAL_LAYER_SPEED_RANGE.min && layer.rotationSpeed <= FRACTAL_LAYER_SPEED_RANGE.max
+    && typeof layer.bandId === 'string';
+};
+
+export const isFractalLayerList = (value: unknown): value is FractalLayer[] =>
+  Array.isArray(value) && value.length >= 1 && value.length <= MAX_FRACTAL_LAYERS && value.every(isFractalLayer)
+  && new Set(value.map(layer => layer.id)).size === value.length;
@@ -0,0 +1,120 @@
+import * as THREE from 'three';
+import { FractalWaveMapping } from '../types';
+
+const MAPPING_INDEX: Record<FractalWaveMapping, number> = { latitude: 0, longitude: 1, geodesic: 2 };
+
+// Texels in the spectrum texture, spaced logarithmically in frequency
+const SPECTRUM_TEXELS = 128;
+// The top quarter of the analyser bins is mostly empty, so the spectrum stops short of Nyquist
+const SPECTRUM_MAX_BIN_FRACTION = 0.75;
+
+// Largest angle between a point on the sphere and its nearest icosahedron vertex
+const GEODESIC_MAX_ANGLE = 0.6524;
+
+const WAVE_VERTEX_HEAD = /* glsl */ `
+uniform sampler2D uSpectrum;
+uniform float uWaveGain;
+uniform float uWaveMaterialGain;
+uniform int uWaveMapping;
+
+float waveCoordinate(vec3 p) {
+    vec3 n = normalize(p);
+    if (uWaveMapping == 1) {
+        return abs(atan(n.z, n.x)) / 3.14159265;
+    }
+    if (uWaveMapping == 2) {
+        // Distance to the nearest of the 12 icosahedron vertices
+        const float t = 0.85065081;
+        const float s = 0.52573111;
+        float nearest = max(max(abs(dot(n, vec3(0.0, s, t))), abs(dot(n, vec3(0.0, s, -t)))),
+                        max(max(abs(dot(n, vec3(s, t, 0.0))), abs(dot(n, vec3(s, -t, 0.0)))),
+                            max(abs(dot(n, vec3(t, 0.0, s))), abs(dot(n, vec3(-t, 0.0, s))))));
+        return clamp(acos(clamp(nearest, -1.0, 1.0)) / ${GEODESIC_MAX_ANGLE.toFixed(4)}, 0.0, 1.0);
+    }
+    return acos(clamp(n.y, -1.0, 1.0)) / 3.14159265;
+}
+`;
+
+const WAVE_DISPLACEMENT = /* glsl */ `
+#include <begin_vertex>
+float waveU = waveCoordinate(position) * ${((SPECTRUM_TEXELS - 1) / SPECTRUM_TEXELS).toFixed(6)} + ${(0.5 / SPECTRUM_TEXELS).toFixed(6)};
+transformed += objectNormal * texture2D(uSpectrum, vec2(waveU, 0.5)).r * uWaveGain * uWaveMaterialGain;
+`;
+
+/**
+ * Audio-driven vertex displacement for the fractal wireframe, done on the GPU.
+ * The smoothed spectrum is uploaded as a 1-pixel-high texture each frame and
+ * the patched material maps it onto the sphere by latitude, longitude or
+ * geodesic distance. Smoothing follows the old per-vertex lerp: each texel and
+ * the overall gain move `smoothing` of the way to their target per frame.
+ */
+export class FractalWaveField {
+  public readonly texture: THREE.DataTexture;
+  private data = new Uint8Array(SPECTRUM_TEXELS * 4);
+  private levels = new Float32Array(SPECTRUM_TEXELS);
+  private gain = 0;
+  private uniforms = {
+    uSpectrum: { value: null as THREE.DataTexture | null },
+    uWaveGain: { value: 0 },
+    uWaveMapping: { value: 0 },
+  };
+
+  constructor() {
+    this.texture = new THREE.DataTexture(this.data, SPECTRUM_TEXELS, 1, THREE.RGBAFormat);
+    this.texture.magFilter = THREE.LinearFilter;
+    this.texture.minFilter = THREE.LinearFilter;
+    this.texture.needsUpdate = true;
+    this.uniforms.uSpectrum.value = this.texture;
+  }
+
+  /**
+   * Patches a built-in material so its vertices are displaced along their normals.
+   * @returns The material's own gain on top of the field's, 0 to keep it still.
+   */
+  public applyTo(material: THREE.Material): { value: number } {
+    const materialGain = { value: 1 };
+    material.onBeforeCompile = shader => {
+      Object.assign(shader.uniforms, this.uniforms, { uWaveMaterialGain: materialGain });
+      shader.vertexShader = shader.vertexShader
+        .replace('#include <common>', `#include <common>\n${WAVE_VERTEX_HEAD}`)
+        .replace('#include <begin_vertex>', WAVE_DISPLACEMENT);
+    };
+    material.needsUpdate = true;
+    return materialGain;
+  }
+
+  /**
+   * Steps the field one frame. `frequencyData` may be null (no audio), in which
+   * case the waves settle back to rest.
+   */
+  public update(frequencyData: Uint8Array | null, gain: number, smoothing: number, mapping: FractalWaveMapping) {
+    const binCount = frequencyData?.length ?? 0;
+    const maxBin = Math.max(1, binCount * SPECTRUM_MAX_BIN_FRACTION);
+    for (let i = 0; i < SPECTRUM_TEXELS; i++) {
+      let target = 0;
+      if (frequencyData && binCount > 1) {
+        const bin = Math.min(binCount - 1, Math.round(Math.pow(maxBin, i / (SPECTRUM_TEXELS - 1))));
+        target = frequencyData[bin] / 255;
+      }
+      this.levels[i] += (target - this.levels[i]) * smoothing;
+      this.data[i * 4] = Math.round(this.levels[i] * 255);
+    }
+    this.texture.needsUpdate = true;
+    this.gain += ((frequencyData ? gain : 0) - this.gain) * smoothing;
+    this.uniforms.uWaveGain.value = this.gain;
+    this.uniforms.uWaveMapping.value = MAPPING_INDEX[mapping];
+  }
+
+  /** Puts the surface back to rest immediately, e.g. when leaving wireframe mode. */
+  public reset() {
+    this.levels.fill(0);
+    this.data.fill(0);
+    this.gain = 0;
+    this.uniforms.uWaveGain.value = 0;
+    this.texture.needsUpdate = true;
+  }
+
+  public dispose() {
+    this.texture.dispose();
+  }
+}
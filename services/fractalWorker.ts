@@ -0,0 +1,18 @@
+// Builds fractal meshes off the main thread. Results come back as transferable arrays.
+import { generateFractal } from './fractalGenerator';
+import { FractalBuildRequest, FractalBuildResponse } from './fractalBuilder';
+
+self.onmessage = (event: MessageEvent<FractalBuildRequest>) => {
+  const { id, generatorId, depth, options } = event.data;
+  let response: FractalBuildResponse;
+  const transfer: Transferable[] = [];
+  try {
+    const data = generateFractal(generatorId, depth, options);
+    response = { id, positions: data.positions, indices: data.indices };
+    transfer.push(data.positions.buffer);
+    if (data.indices) transfer.push(data.indices.buffer);
+  } catch (error) {
+    response = { id, error: error instanceof Error ? error.message : String(error) };
+  }
+  self.postMessage(response, { transfer });
+};
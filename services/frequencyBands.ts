@@ -0,0 +1,157 @@
+import { BandRole, BandScale, FrequencyBand } from '../types';
+
+export const DEFAULT_BANDS: FrequencyBand[] = [
+  { id: 'bass', label: 'Bass', minHz: 20, maxHz: 250, gain: 1.0, role: 'bass' },
+  { id: 'mids', label: 'Mids', minHz: 250, maxHz: 4000, gain: 1.0, role: 'mids' },
+  { id: 'treble', label: 'Treble', minHz: 4000, maxHz: 16000, gain: 1.0, role: 'treble' },
+];
+
+const hzToMel = (hz: number) => 2595 * Math.log10(1 + hz / 700);
+const melToHz = (mel: number) => 700 * (Math.pow(10, mel / 2595) - 1);
+
+// Assigns a scene role from the band's geometric center frequency
+const roleForRange = (minHz: number, maxHz: number): BandRole => {
+  const center = Math.sqrt(minHz * maxHz);
+  if (center < 250) return 'bass';
+  if (center < 4000) return 'mids';
+  return 'treble';
+};
+
+const formatHz = (hz: number) => (hz >= 1000 ? `${(hz / 1000).toFixed(1)}k` : `${Math.round(hz)}`);
+
+/**
+ * Builds a set of contiguous bands between minHz and maxHz.
+ * 'log' and 'mel' split the range into `count` bands; 'octave' ignores `count`
+ * and doubles the lower edge until it reaches maxHz.
+ */
+export function createBandPreset(scale: BandScale, count: number, minHz = 20, maxHz = 16000): FrequencyBand[] {
+  const edges: number[] = [];
+  if (scale === 'octave') {
+    for (let hz = minHz; hz < maxHz; hz *= 2) edges.push(hz);
+    edges.push(maxHz);
+  } else if (scale === 'mel') {
+    const minMel = hzToMel(minHz);
+    const maxMel = hzToMel(maxHz);
+    for (let i = 0; i <= count; i++) edges.push(melToHz(minMel + (maxMel - minMel) * (i / count)));
+  } else {
+    const ratio = maxHz / minHz;
+    for (let i = 0; i <= count; i++) edges.push(minHz * Math.pow(ratio, i / count));
+  }
+
+  const bands: FrequencyBand[] = [];
+  for (let i = 0; i < edges.length - 1; i++) {
+    const lo = Math.round(edges[i]);
+    const hi = Math.round(edges[i + 1]);
+    bands.push({ id: `${scale}-${i}`, label: `${formatHz(lo)}–${formatHz(hi)}`, minHz: lo, maxHz: hi, gain: 1.0, role: roleForRange(lo, hi) });
+  }
+  return bands;
+}
+
+/** Converts a frequency in Hz to the nearest analyser bin index. */
+export const hzToBin = (hz: number, sampleRate: number, binCount: number): number => {
+  const nyquist = sampleRate / 2;
+  return Math.min(binCount - 1, Math.max(0, Math.round((hz / nyquist) * binCount)));
+};
+
+/**
+ * Maps Hz bands onto FFT bins and tracks their normalized energies with an
+ * attack/release envelope. Time constants are in seconds, so the response is the
+ * same regardless of frame rate, sample rate or FFT size.
+ */
+export class BandAnalyzer {
+  private bands: FrequencyBand[] = [];
+  private binRanges: [number, number][] = [];
+  private energies = new Float32Array(0);
+  private sampleRate = 0;
+  private binCount = 0;
+  private lastTime: number | null = null;
+  public attack = 0.05;
+  public release = 0.2;
+
+  public setBands(bands: FrequencyBand[]) {
+    // Carry the envelope state of bands that survive the change
+    const previous = new Map(this.bands.map((band, i) => [band.id, this.energies[i]]));
+    this.bands = bands;
+    this.energies = new Float32Array(bands.length);
+    bands.forEach((band, i) => { this.energies[i] = previous.get(band.id) ?? 0; });
+    this.updateBinRanges();
+  }
+
+  public getBands(): FrequencyBand[] {
+    return this.bands;
+  }
+
+  public getEnergies(): Float32Array {
+    return this.energies;
+  }
+
+  public getEnergy(id: string): number {
+    const index = this.bands.findIndex(band => band.id === id);
+    return index === -1 ? 0 : this.energies[index];
+  }
+
+  public reset() {
+    this.energies.fill(0);
+    this.lastTime = null;
+  }
+
+  /**
+   * Updates the band envelopes from one frame of byte frequency data.
+   * @param time Frame timestamp in seconds, used to derive the envelope step.
+   */
+  public process(spectrum: Uint8Array, sampleRate: number, time: number): Float32Array {
+    if (sampleRate !== this.sampleRate || spectrum.length !== this.binCount) {
+      this.sampleRate = sampleRate;
+      this.binCount = spectrum.length;
+      this.updateBinRanges();
+    }
+    const dt = this.lastTime === null ? 1 / 60 : Math.max(0, time - this.lastTime);
+    this.lastTime = time;
+    const attackCoeff = this.attack > 0 ? 1 - Math.exp(-dt / this.attack) : 1;
+    const releaseCoeff = this.release > 0 ? 1 - Math.exp(-dt / this.release) : 1;
+
+    for (let b = 0; b < this.bands.length; b++) {
+      const [start, end] = this.binRanges[b];
+      let sum = 0;
+      for (let i = start; i <= end; i++) sum += spectrum[i];
+      const target = sum / ((end - start + 1) * 255);
+      const current = this.energies[b];
+      this.energies[b] = current + (target - current) * (target > current ? attackCoeff : releaseCoeff);
+    }
+    return this.energies;
+  }
+
+  private updateBinRanges() {
+    if (this.binCount === 0) {
+      this.binRanges = this.bands.map(() => [0, 0]);
+      return;
+    }
+    this.binRanges = this.bands.map(band => {
+      const start = hzToBin(Math.min(band.minHz, band.maxHz), this.sampleRate, this.binCount);
+      const end = hzToBin(Math.max(band.minHz, band.maxHz), this.sampleRate, this.binCount);
+      // Bands narrower than one bin still read the bin they fall in
+      return [start, Math.max(start, end - 1)];
+    });
+  }
+}
+
+/** A band's energy times its gain, or 0 when no band has that id. */
+export const getBandLevel = (bands: FrequencyBand[], energies: Float32Array, id: string): number => {
+  const index = bands.findIndex(band => band.id === id);
+  return index === -1 || index >= energies.length ? 0 : energies[index] * bands[index].gain;
+};
+
+/**
+ * Weighted drive for a scene role: the mean of `energy * gain` over every band
+ * assigned to that role.
+ */
+export const getRoleLevel = (bands: FrequencyBand[], energies: Float32Array, role: BandRole): number => {
+  let sum = 0;
+  let count = 0;
+  for (let i = 0; i < bands.length && i < energies.length; i++) {
+    if (bands[i].role !== role) continue;
+    sum += energies[i] * bands[i].gain;
+    count++;
+  }
+  return count > 0 ? sum / count : 0;
+};
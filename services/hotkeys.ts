@@ -0,0 +1,230 @@
+import { NeogenesisProps } from '../types';
+import { getPropRange } from './presets';
+
+export type HotkeyGroup = 'Performance' | 'Tempo' | 'Themes' | 'Toggles' | 'Nudge' | 'Presets' | 'Flash';
+
+export type FlashAction = 'flashBloom' | 'flashWireframe' | 'flashTurbulence' | 'flashWarp';
+export type PresetAction = 'preset1' | 'preset2' | 'preset3' | 'preset4' | 'preset5' | 'preset6' | 'preset7' | 'preset8' | 'preset9';
+
+export type HotkeyAction =
+  | 'togglePerformanceMode' | 'toggleCheatSheet' | 'toggleDebugHud'
+  | 'tapTempo' | 'clearTapTempo'
+  | 'nextTheme' | 'previousTheme'
+  | 'togglePlanet' | 'toggleWireframe' | 'toggleCinematicCamera'
+  | 'bloomUp' | 'bloomDown' | 'sensitivityUp' | 'sensitivityDown'
+  | PresetAction
+  | FlashAction;
+
+export interface HotkeyActionDefinition {
+  id: HotkeyAction;
+  label: string;
+  group: HotkeyGroup;
+  // Active only while its key is held
+  momentary?: boolean;
+  // Fires again on key repeat while held
+  repeats?: boolean;
+}
+
+// A key is a KeyboardEvent.code, so bindings don't move with the keyboard layout,
+// optionally prefixed with 'Shift+'. Each key triggers at most one action.
+export type Keymap = Record<HotkeyAction, string | null>;
+
+const PRESET_SLOTS: PresetAction[] = ['preset1', 'preset2', 'preset3', 'preset4', 'preset5', 'preset6', 'preset7', 'preset8', 'preset9'];
+
+export const HOTKEY_ACTIONS: HotkeyActionDefinition[] = [
+  { id: 'togglePerformanceMode', label: 'Performance mode (hide UI)', group: 'Performance' },
+  { id: 'toggleCheatSheet', label: 'Show shortcuts', group: 'Performance' },
+  { id: 'toggleDebugHud', label: 'Analysis debug overlay', group: 'Performance' },
+  { id: 'tapTempo', label: 'Tap tempo', group: 'Tempo' },
+  { id: 'clearTapTempo', label: 'Follow detected beat', group: 'Tempo' },
+  { id: 'nextTheme', label: 'Next theme', group: 'Themes' },
+  { id: 'previousTheme', label: 'Previous theme', group: 'Themes' },
+  { id: 'togglePlanet', label: 'Planet', group: 'Toggles' },
+  { id: 'toggleWireframe', label: 'Wireframe', group: 'Toggles' },
+  { id: 'toggleCinematicCamera', label: 'Cinematic camera', group: 'Toggles' },
+  { id: 'bloomUp', label: 'Bloom +', group: 'Nudge', repeats: true },
+  { id: 'bloomDown', label: 'Bloom −', group: 'Nudge', repeats: true },
+  { id: 'sensitivityUp', label: 'Sensitivity +', group: 'Nudge', repeats: true },
+  { id: 'sensitivityDown', label: 'Sensitivity −', group: 'Nudge', repeats: true },
+  ...PRESET_SLOTS.map((id, i): HotkeyActionDefinition => ({ id, label: `Preset ${i + 1}`, group: 'Presets' })),
+  { id: 'flashBloom', label: 'Bloom burst', group: 'Flash', momentary: true },
+  { id: 'flashWireframe', label: 'Wireframe', group: 'Flash', momentary: true },
+  { id: 'flashTurbulence', label: 'Turbulence', group: 'Flash', momentary: true },
+  { id: 'flashWarp', label: 'Warp (wide lens)', group: 'Flash', momentary: true },
+];
+
+export const HOTKEY_GROUPS: HotkeyGroup[] = ['Performance', 'Tempo', 'Themes', 'Toggles', 'Nudge', 'Presets', 'Flash'];
+
+export const DEFAULT_KEYMAP: Keymap = {
+  togglePerformanceMode: 'KeyH',
+  toggleCheatSheet: 'Shift+Slash',
+  toggleDebugHud: 'KeyD',
+  tapTempo: 'Space',
+  clearTapTempo: 'Backspace',
+  nextTheme: 'KeyT',
+  previousTheme: 'Shift+KeyT',
+  togglePlanet: 'KeyP',
+  toggleWireframe: 'KeyW',
+  toggleCinematicCamera: 'KeyC',
+  bloomUp: 'ArrowUp',
+  bloomDown: 'ArrowDown',
+  sensitivityUp: 'ArrowRight',
+  sensitivityDown: 'ArrowLeft',
+  preset1: 'Digit1',
+  preset2: 'Digit2',
+  preset3: 'Digit3',
+  preset4: 'Digit4',
+  preset5: 'Digit5',
+  preset6: 'Digit6',
+  preset7: 'Digit7',
+  preset8: 'Digit8',
+  preset9: 'Digit9',
+  flashBloom: 'KeyB',
+  flashWireframe: 'KeyX',
+  flashTurbulence: 'KeyN',
+  flashWarp: 'KeyV',
+};
+
+export const getHotkeyAction = (id: HotkeyAction): HotkeyActionDefinition =>
+  HOTKEY_ACTIONS.find(action => action.id === id) ?? HOTKEY_ACTIONS[0];
+
+export const getPresetSlot = (action: HotkeyAction): number => PRESET_SLOTS.indexOf(action as PresetAction);
+
+// --- Keys ---
+
+const MODIFIER_CODES = ['ShiftLeft', 'ShiftRight', 'ControlLeft', 'ControlRight', 'AltLeft', 'AltRight', 'MetaLeft', 'MetaRight'];
+
+/**
+ * The key combination of a keyboard event, or null when it can't be a hotkey:
+ * a lone modifier, or a Ctrl/Alt/Meta chord that belongs to the browser.
+ */
+export const keyComboFromEvent = (event: KeyboardEvent): string | null => {
+  if (!event.code || MODIFIER_CODES.includes(event.code)) return null;
+  if (event.ctrlKey || event.altKey || event.metaKey) return null;
+  return event.shiftKey ? `Shift+${event.code}` : event.code;
+};
+
+const CODE_LABELS: Record<string, string> = {
+  Space: 'Space', Backspace: '⌫', Enter: 'Enter', Escape: 'Esc', Tab: 'Tab',
+  ArrowUp: '↑', ArrowDown: '↓', ArrowLeft: '←', ArrowRight: '→',
+  Slash: '/', Backslash: '\\', Period: '.', Comma: ',', Semicolon: ';', Quote: "'",
+  BracketLeft: '[', BracketRight: ']', Minus: '-', Equal: '=', Backquote: '`',
+};
+
+export const formatKeyCombo = (combo: string | null): string => {
+  if (!combo) return '—';
+  const shift = combo.startsWith('Shift+');
+  const code = shift ? combo.slice('Shift+'.length) : combo;
+  const label = CODE_LABELS[code] ?? code.replace(/^(Key|Digit|Numpad)/, '');
+  return shift ? `Shift + ${label}` : label;
+};
+
+export const findHotkeyAction = (keymap: Keymap, combo: string): HotkeyAction | null =>
+  HOTKEY_ACTIONS.find(action => keymap[action.id] === combo)?.id ?? null;
+
+// Binds `combo` to `action`, taking it away from any action that had it
+export const rebindHotkey = (keymap: Keymap, action: HotkeyAction, combo: string | null): Keymap => {
+  const next = { ...keymap };
+  if (combo) {
+    HOTKEY_ACTIONS.forEach(({ id }) => {
+      if (next[id] === combo) next[id] = null;
+    });
+  }
+  next[action] = combo;
+  return next;
+};
+
+// --- Prop actions ---
+
+const BLOOM_STEP = 0.1;
+// Each nudge multiplies or divides every band's gain by this
+const SENSITIVITY_FACTOR = 1.1;
+// Same range as the gain slider in BandEditor
+const MAX_BAND_GAIN = 3.0;
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+/**
+ * The props after a one-shot action (theme step, toggle or nudge), or null if
+ * `action` doesn't change props. Sensitivity scales every band's gain by the same
+ * factor, stopping short of the gain limit, so the bands keep their balance.
+ */
+export const applyHotkeyAction = (props: NeogenesisProps, action: HotkeyAction, themeIds: string[]): NeogenesisProps | null => {
+  switch (action) {
+    case 'nextTheme':
+    case 'previousTheme': {
+      if (themeIds.length === 0) return null;
+      const index = themeIds.indexOf(props.theme);
+      const offset = action === 'nextTheme' ? 1 : -1;
+      return { ...props, theme: themeIds[(index + offset + themeIds.length) % themeIds.length] };
+    }
+    case 'togglePlanet':
+      return { ...props, showFractal: !props.showFractal };
+    case 'toggleWireframe':
+      return { ...props, fractalWireframe: !props.fractalWireframe };
+    case 'toggleCinematicCamera':
+      return { ...props, cinematicCamera: !props.cinematicCamera };
+    case 'bloomUp':
+    case 'bloomDown': {
+      const { min, max } = getPropRange('bloomStrength');
+      const step = action === 'bloomUp' ? BLOOM_STEP : -BLOOM_STEP;
+      return { ...props, bloomStrength: round(Math.min(max, Math.max(min, props.bloomStrength + step))) };
+    }
+    case 'sensitivityUp':
+    case 'sensitivityDown': {
+      const loudest = Math.max(0, ...props.bands.map(band => band.gain));
+      const factor = action === 'sensitivityUp'
+        ? Math.max(1, Math.min(SENSITIVITY_FACTOR, loudest > 0 ? MAX_BAND_GAIN / loudest : SENSITIVITY_FACTOR))
+        : 1 / SENSITIVITY_FACTOR;
+      return { ...props, bands: props.bands.map(band => ({ ...band, gain: band.gain * factor })) };
+    }
+    default:
+      return null;
+  }
+};
+
+// Average band gain, shown as the sensitivity when it's nudged
+export const getSensitivity = (props: NeogenesisProps): number =>
+  props.bands.length === 0 ? 0 : props.bands.reduce((sum, band) => sum + band.gain, 0) / props.bands.length;
+
+// What each flash key overrides while it's held. The overrides never reach the saved props.
+export const FLASH_OVERRIDES: Record<FlashAction, (props: NeogenesisProps) => Partial<NeogenesisProps>> = {
+  flashBloom: () => ({ bloomStrength: getPropRange('bloomStrength').max }),
+  flashWireframe: props => ({ fractalWireframe: !props.fractalWireframe }),
+  flashTurbulence: () => ({ noiseStrength: getPropRange('noiseStrength').max, particleTurbulence: getPropRange('particleTurbulence').max }),
+  flashWarp: () => ({ fieldOfView: getPropRange('fieldOfView').max }),
+};
+
+export const applyFlashes = (props: NeogenesisProps, held: FlashAction[]): NeogenesisProps =>
+  held.reduce((result, flash) => ({ ...result, ...FLASH_OVERRIDES[flash](props) }), props);
+
+// --- Storage ---
+
+const KEYMAP_KEY = 'neogenesis.hotkeys';
+
+// Stored bindings override the defaults one by one, so actions added later get their default key
+export const loadKeymap = (): Keymap => {
+  try {
+    const stored = localStorage.getItem(KEYMAP_KEY);
+    if (!stored) return DEFAULT_KEYMAP;
+    const data = JSON.parse(stored) as Record<string, unknown>;
+    let keymap = { ...DEFAULT_KEYMAP };
+    HOTKEY_ACTIONS.forEach(({ id }) => {
+      const combo = data[id];
+      if (typeof combo === 'string') keymap = rebindHotkey(keymap, id, combo);
+      else if (combo === null) keymap = rebindHotkey(keymap, id, null);
+    });
+    return keymap;
+  } catch (err) {
+    console.error('Could not read hotkeys:', err);
+    return DEFAULT_KEYMAP;
+  }
+};
+
+export const saveKeymap = (keymap: Keymap) => {
+  try {
+    localStorage.setItem(KEYMAP_KEY, JSON.stringify(keymap));
+  } catch (err) {
+    console.error('Could not save hotkeys:', err);
+  }
+};
@@ -0,0 +1,149 @@
+import { AudioFeatures, FrequencyBand, LfoShape, ModulationCurve, ModulationRoute, ModulationSourceKind, ModulationTarget, NeogenesisProps } from '../types';
+import { getBandLevel } from './frequencyBands';
+
+export const MODULATION_TARGETS: { key: ModulationTarget; label: string }[] = [
+  { key: 'particleSize', label: 'Particle Size' },
+  { key: 'noiseStrength', label: 'Noise Strength' },
+  { key: 'rotationSpeed', label: 'Rotation Speed' },
+  { key: 'fieldOfView', label: 'Field of View' },
+  { key: 'bloomStrength', label: 'Bloom Strength' },
+  { key: 'fractalLayerSpacing', label: 'Layer Spacing' },
+  { key: 'fractalMetalness', label: 'Metalness' },
+  { key: 'fractalRoughness', label: 'Roughness' },
+  { key: 'fractalWaveAmplitude', label: 'Wave Amplitude' },
+  { key: 'fractalWaveSmoothing', label: 'Wave Smoothing' },
+  { key: 'beatIntensity', label: 'Beat Intensity' },
+];
+
+export const MODULATION_SOURCES: { kind: ModulationSourceKind; label: string }[] = [
+  { kind: 'band', label: 'Band Energy' },
+  { kind: 'rms', label: 'RMS Level' },
+  { kind: 'flux', label: 'Spectral Flux' },
+  { kind: 'onset', label: 'Onset' },
+  { kind: 'kick', label: 'Kick' },
+  { kind: 'snare', label: 'Snare' },
+  { kind: 'hihat', label: 'Hi-hat' },
+  { kind: 'beatPhase', label: 'Beat Phase' },
+  { kind: 'lfo', label: 'LFO' },
+];
+
+export const MODULATION_CURVES: ModulationCurve[] = ['linear', 'exponential', 'logarithmic', 'smoothstep', 'inverted'];
+
+export const LFO_SHAPES: LfoShape[] = ['sine', 'triangle', 'saw', 'square'];
+
+type TriggerKind = 'onset' | 'kick' | 'snare' | 'hihat';
+
+// Triggers (kick, onset, ...) are single-frame events; they hold their strength and decay with this time constant
+const TRIGGER_DECAY = 0.15;
+
+export const isModulationRoute = (value: unknown): value is ModulationRoute => {
+  const route = value as ModulationRoute;
+  return typeof route === 'object' && route !== null
+    && typeof route.id === 'string' && typeof route.enabled === 'boolean'
+    && MODULATION_SOURCES.some(source => source.kind === route.source)
+    && MODULATION_TARGETS.some(target => target.key === route.target)
+    && typeof route.bandId === 'string'
+    && LFO_SHAPES.includes(route.lfoShape) && typeof route.lfoRate === 'number'
+    && typeof route.depth === 'number' && typeof route.min === 'number' && typeof route.max === 'number'
+    && MODULATION_CURVES.includes(route.curve) && typeof route.smoothing === 'number';
+};
+
+const applyCurve = (x: number, curve: ModulationCurve): number => {
+  const v = Math.min(1, Math.max(0, x));
+  switch (curve) {
+    case 'exponential': return v * v;
+    case 'logarithmic': return Math.log10(1 + 9 * v);
+    case 'smoothstep': return v * v * (3 - 2 * v);
+    case 'inverted': return 1 - v;
+    default: return v;
+  }
+};
+
+const lfo = (shape: LfoShape, rate: number, time: number): number => {
+  const phase = (time * rate) % 1;
+  switch (shape) {
+    case 'triangle': return 1 - Math.abs(phase * 2 - 1);
+    case 'saw': return phase;
+    case 'square': return phase < 0.5 ? 1 : 0;
+    default: return 0.5 + 0.5 * Math.sin(phase * Math.PI * 2);
+  }
+};
+
+export interface ModulationContext {
+  time: number;
+  features: AudioFeatures | null;
+  bands: FrequencyBand[];
+  bandEnergies: Float32Array | null;
+}
+
+/**
+ * Evaluates the modulation routes once per frame and returns the props the scene
+ * should render with. The base props are never mutated; smoothing state is kept
+ * per route id so editing one route doesn't reset the others.
+ */
+export class ModulationMatrix {
+  private smoothed = new Map<string, number>();
+  private triggers: Record<TriggerKind, number> = { onset: 0, kick: 0, snare: 0, hihat: 0 };
+  private lastTime: number | null = null;
+
+  public reset() {
+    this.smoothed.clear();
+    this.triggers = { onset: 0, kick: 0, snare: 0, hihat: 0 };
+    this.lastTime = null;
+  }
+
+  public apply(props: NeogenesisProps, context: ModulationContext): NeogenesisProps {
+    const dt = this.lastTime === null ? 1 / 60 : Math.max(0, context.time - this.lastTime);
+    this.lastTime = context.time;
+    this.updateTriggers(context.features, dt);
+
+    const routes = props.modulationRoutes;
+    if (routes.length === 0) return props;
+
+    const result = { ...props };
+    routes.forEach(route => {
+      if (!route.enabled) return;
+      const raw = this.readSource(route, context);
+      const previous = this.smoothed.get(route.id) ?? raw;
+      const coeff = route.smoothing > 0 ? 1 - Math.exp(-dt / route.smoothing) : 1;
+      const value = previous + (raw - previous) * coeff;
+      this.smoothed.set(route.id, value);
+
+      const lo = Math.min(route.min, route.max);
+      const hi = Math.max(route.min, route.max);
+      const modulated = result[route.target] + route.depth * applyCurve(value, route.curve) * (hi - lo);
+      result[route.target] = Math.min(hi, Math.max(lo, modulated));
+    });
+    return result;
+  }
+
+  private updateTriggers(features: AudioFeatures | null, dt: number) {
+    const decay = Math.exp(-dt / TRIGGER_DECAY);
+    (Object.keys(this.triggers) as TriggerKind[]).forEach(key => {
+      this.triggers[key] *= decay;
+    });
+    if (!features) return;
+    if (features.onset) this.triggers.onset = 1;
+    if (features.kick) this.triggers.kick = Math.max(this.triggers.kick, features.kickStrength);
+    if (features.snare) this.triggers.snare = Math.max(this.triggers.snare, features.snareStrength);
+    if (features.hihat) this.triggers.hihat = Math.max(this.triggers.hihat, features.hihatStrength);
+  }
+
+  private readSource(route: ModulationRoute, context: ModulationContext): number {
+    const { features } = context;
+    switch (route.source) {
+      case 'band': return context.bandEnergies ? getBandLevel(context.bands, context.bandEnergies, route.bandId) : 0;
+      // RMS of typical program material rarely exceeds ~0.5, so scale it into 0-1
+      case 'rms': return features ? Math.min(1, features.rms * 2) : 0;
+      case 'flux': return features ? Math.min(1, features.spectralFlux * 10) : 0;
+      case 'onset':
+      case 'kick':
+      case 'snare':
+      case 'hihat':
+        return this.triggers[route.source];
+      case 'beatPhase': return features ? features.beatPhase : 0;
+      case 'lfo': return lfo(route.lfoShape, route.lfoRate, context.time);
+      default: return 0;
+    }
+  }
+}
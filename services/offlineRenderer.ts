@@ -0,0 +1,140 @@
+import { AudioFeatureSource } from '../types';
+import { OfflineAudioAnalyzer } from './OfflineAudioAnalyzer';
+import { WebMMuxer } from './webmMuxer';
+import { baseName, downloadBlob } from './fileUtils';
+
+export type OfflineRenderFormat = 'png' | 'webm';
+
+export interface OfflineRenderOptions {
+  fps: number;
+  width: number;
+  height: number;
+  format: OfflineRenderFormat;
+  // Bits per second, only used for WebM
+  bitrate: number;
+}
+
+/** The part of the scene the offline renderer drives. Provided by NeogenesisEngine. */
+export interface OfflineRenderTarget {
+  canvas: HTMLCanvasElement;
+  // Resolves when the scene is ready for the first frame
+  beginOffline(width: number, height: number): Promise<void>;
+  renderFrame(time: number, source: AudioFeatureSource): void;
+  endOffline(): void;
+}
+
+export interface FrameSink {
+  writeFrame(canvas: HTMLCanvasElement, index: number, timestampUs: number): Promise<void>;
+  finish(durationMs: number): Promise<void>;
+  abort?(): void;
+}
+
+// The File System Access folder picker isn't in lib.dom
+interface DirectoryPickerWindow {
+  showDirectoryPicker(options?: { mode?: 'read' | 'readwrite' }): Promise<FileSystemDirectoryHandle>;
+}
+
+const hasDirectoryPicker = (target: Window): target is Window & DirectoryPickerWindow => 'showDirectoryPicker' in target;
+
+export const isPngSequenceSupported = () => hasDirectoryPicker(window);
+
+export const isWebMEncodingSupported = () => 'VideoEncoder' in window;
+
+/**
+ * Asks the user for an output folder and writes frame_00000.png, frame_00001.png, ...
+ * into it. Must be called from a user gesture, before any await.
+ */
+export async function createPngSequenceSink(): Promise<FrameSink> {
+  if (!hasDirectoryPicker(window)) throw new Error('Saving a PNG sequence needs a browser with the File System Access API');
+  const directory = await window.showDirectoryPicker({ mode: 'readwrite' });
+  return {
+    async writeFrame(canvas, index) {
+      // toBlob snapshots the drawing buffer synchronously, right after the render call
+      const blob = await new Promise<Blob | null>(resolve => canvas.toBlob(resolve, 'image/png'));
+      if (!blob) throw new Error(`Could not encode frame ${index}`);
+      const handle = await directory.getFileHandle(`frame_${String(index).padStart(5, '0')}.png`, { create: true });
+      const writable = await handle.createWritable();
+      await writable.write(blob);
+      await writable.close();
+    },
+    async finish() {},
+  };
+}
+
+export function createWebMSink(options: OfflineRenderOptions, filename: string): FrameSink {
+  const muxer = new WebMMuxer(options.width, options.height, 'V_VP8');
+  let encodeError: Error | null = null;
+  const encoder = new VideoEncoder({
+    output: chunk => muxer.addChunk(chunk),
+    error: err => { encodeError = err; },
+  });
+  encoder.configure({
+    codec: 'vp8',
+    width: options.width,
+    height: options.height,
+    bitrate: options.bitrate,
+    framerate: options.fps,
+  });
+  const keyframeInterval = Math.max(1, Math.round(options.fps * 2));
+
+  return {
+    async writeFrame(canvas, index, timestampUs) {
+      if (encodeError) throw encodeError;
+      const frame = new VideoFrame(canvas, { timestamp: timestampUs, duration: Math.round(1e6 / options.fps) });
+      encoder.encode(frame, { keyFrame: index % keyframeInterval === 0 });
+      frame.close();
+      // Backpressure: don't let the encoder queue grow without bound
+      while (encoder.encodeQueueSize > 4) {
+        await new Promise(resolve => setTimeout(resolve, 5));
+      }
+    },
+    async finish(durationMs) {
+      await encoder.flush();
+      encoder.close();
+      if (encodeError) throw encodeError;
+      downloadBlob(muxer.finalize(durationMs), filename);
+    },
+    abort() {
+      if (encoder.state !== 'closed') encoder.close();
+    },
+  };
+}
+
+/**
+ * Renders an audio file frame by frame at a fixed frame rate. Each frame's
+ * analysis and scene time are derived from the frame index alone, so two renders
+ * of the same file with the same settings produce the same frames.
+ */
+export async function renderOffline(
+  file: File,
+  target: OfflineRenderTarget,
+  sink: FrameSink,
+  options: OfflineRenderOptions,
+  onProgress: (frame: number, totalFrames: number) => void,
+  signal?: AbortSignal,
+): Promise<void> {
+  let started = false;
+  try {
+    const analyzer = await OfflineAudioAnalyzer.fromFile(file);
+    const totalFrames = Math.ceil(analyzer.duration * options.fps);
+    started = true;
+    await target.beginOffline(options.width, options.height);
+
+    for (let frame = 0; frame < totalFrames; frame++) {
+      if (signal?.aborted) throw new DOMException('Offline render cancelled', 'AbortError');
+      const time = frame / options.fps;
+      analyzer.setTime(time);
+      target.renderFrame(time, analyzer);
+      await sink.writeFrame(target.canvas, frame, Math.round(time * 1e6));
+      onProgress(frame + 1, totalFrames);
+    }
+    await sink.finish((totalFrames / options.fps) * 1000);
+  } catch (err) {
+    sink.abort?.();
+    throw err;
+  } finally {
+    if (started) target.endOffline();
+  }
+}
+
+export const offlineRenderFilename = (file: File) => `${baseName(file.name)}-neogenesis.webm`;
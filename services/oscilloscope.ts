@@ -0,0 +1,188 @@
+import * as THREE from 'three';
+import { OscilloscopeMode } from '../types';
+
+// Points along the line; the waveform is resampled to this many
+const SCOPE_POINTS = 256;
+// Swing of the waveform at full scale, as a fraction of the orbit radius
+const WAVE_SCALE = 0.3;
+// Tilt of the orbit's plane, so the ring reads as an orbit rather than a flat halo
+const ORBIT_TILT = 0.35;
+// Radians per second the scope travels around the planet
+const ORBIT_SPEED = 0.15;
+// Without separate channels, the Lissajous figure traces the signal against itself this many samples later
+const MONO_DELAY = 32;
+
+const SCOPE_VERTEX_SHADER = /* glsl */ `
+attribute vec3 previous;
+attribute vec3 next;
+attribute float side;
+uniform float uThickness;
+varying float vSide;
+void main() {
+    vSide = side;
+    vec4 viewPosition = modelViewMatrix * vec4(position, 1.0);
+    vec3 tangent = (modelViewMatrix * vec4(next, 1.0)).xyz - (modelViewMatrix * vec4(previous, 1.0)).xyz;
+    // Across both the line and the view ray, so the ribbon always faces the camera
+    vec3 across = cross(tangent, viewPosition.xyz);
+    float len = length(across);
+    across = len > 1e-6 ? across / len : vec3(0.0, 1.0, 0.0);
+    viewPosition.xyz += across * side * uThickness * 0.5;
+    gl_Position = projectionMatrix * viewPosition;
+}
+`;
+
+const SCOPE_FRAGMENT_SHADER = /* glsl */ `
+uniform vec3 uColor;
+uniform float uOpacity;
+varying float vSide;
+void main() {
+    // Bright core fading out toward both edges
+    gl_FragColor = vec4(uColor, uOpacity * (1.0 - vSide * vSide));
+}
+`;
+
+export interface OscilloscopeFrame {
+  mode: OscilloscopeMode;
+  radius: number;
+  thickness: number;
+  time: number;
+  // Mono waveform from -1 to 1; null draws silence
+  waveform: Float32Array | null;
+  // Left and right channels for the Lissajous mode
+  stereo: [Float32Array, Float32Array] | null;
+}
+
+const sampleAt = (data: Float32Array | null, index: number): number =>
+  data && data.length > 0 ? THREE.MathUtils.clamp(data[Math.min(index, data.length - 1)], -1, 1) : 0;
+
+/**
+ * The live waveform drawn as a glowing ribbon that orbits the planet. In ring
+ * mode the signal swings a circle in and out around the planet; in Lissajous
+ * mode the left channel is traced against the right on a plane that travels
+ * along the orbit. Points are placed on the CPU each frame and the vertex
+ * shader widens the line toward the camera, so thickness is in world units.
+ */
+export class Oscilloscope {
+  public readonly object = new THREE.Group();
+  // Lerped toward the theme by the engine; the material reads it directly
+  public readonly color: THREE.Color;
+  private mesh: THREE.Mesh;
+  private material: THREE.ShaderMaterial;
+  // The line's centre points; the ring repeats its first point at the end to close
+  private points = new Float32Array((SCOPE_POINTS + 1) * 3);
+  private position: THREE.BufferAttribute;
+  private previous: THREE.BufferAttribute;
+  private next: THREE.BufferAttribute;
+
+  constructor(color: THREE.Color) {
+    this.color = color.clone();
+    const count = SCOPE_POINTS + 1;
+    const geometry = new THREE.BufferGeometry();
+    // Two vertices per point, one on each side of the line
+    this.position = new THREE.BufferAttribute(new Float32Array(count * 6), 3);
+    this.previous = new THREE.BufferAttribute(new Float32Array(count * 6), 3);
+    this.next = new THREE.BufferAttribute(new Float32Array(count * 6), 3);
+    [this.position, this.previous, this.next].forEach(attribute => attribute.setUsage(THREE.DynamicDrawUsage));
+    const side = new Float32Array(count * 2);
+    const indices: number[] = [];
+    for (let i = 0; i < count; i++) {
+      side[i * 2] = -1;
+      side[i * 2 + 1] = 1;
+      if (i < count - 1) {
+        const a = i * 2;
+        indices.push(a, a + 1, a + 2, a + 1, a + 3, a + 2);
+      }
+    }
+    geometry.setAttribute('position', this.position);
+    geometry.setAttribute('previous', this.previous);
+    geometry.setAttribute('next', this.next);
+    geometry.setAttribute('side', new THREE.BufferAttribute(side, 1));
+    geometry.setIndex(indices);
+
+    this.material = new THREE.ShaderMaterial({
+      uniforms: {
+        uThickness: { value: 0.1 }, uColor: { value: this.color }, uOpacity: { value: 0.9 },
+      },
+      vertexShader: SCOPE_VERTEX_SHADER,
+      fragmentShader: SCOPE_FRAGMENT_SHADER,
+      blending: THREE.AdditiveBlending, depthWrite: false, transparent: true, side: THREE.DoubleSide,
+    });
+    this.mesh = new THREE.Mesh(geometry, this.material);
+    // The vertices move every frame, so the bounding sphere of the first frame means nothing
+    this.mesh.frustumCulled = false;
+    this.object.rotation.x = ORBIT_TILT;
+    this.object.add(this.mesh);
+  }
+
+  public update(frame: OscilloscopeFrame) {
+    const closed = frame.mode === 'ring';
+    if (closed) {
+      this.placeRing(frame.waveform, frame.radius);
+    } else {
+      this.placeLissajous(frame.waveform, frame.stereo, frame.radius);
+    }
+    this.writeAttributes(closed);
+    this.material.uniforms.uThickness.value = frame.thickness;
+    this.mesh.rotation.y = frame.time * ORBIT_SPEED;
+  }
+
+  public reset(color: THREE.Color) {
+    this.color.copy(color);
+    this.mesh.rotation.y = 0;
+  }
+
+  public dispose() {
+    this.mesh.geometry.dispose();
+    this.material.dispose();
+  }
+
+  private placeRing(waveform: Float32Array | null, radius: number) {
+    const length = waveform?.length ?? 0;
+    for (let i = 0; i <= SCOPE_POINTS; i++) {
+      const index = i % SCOPE_POINTS;
+      const angle = (index / SCOPE_POINTS) * Math.PI * 2;
+      const r = radius * (1 + sampleAt(waveform, Math.floor((index * length) / SCOPE_POINTS)) * WAVE_SCALE);
+      this.points[i * 3] = Math.cos(angle) * r;
+      this.points[i * 3 + 1] = 0;
+      this.points[i * 3 + 2] = Math.sin(angle) * r;
+    }
+  }
+
+  // Left across, right up, on the plane facing out from the planet at the orbit radius
+  private placeLissajous(waveform: Float32Array | null, stereo: [Float32Array, Float32Array] | null, radius: number) {
+    const [left, right] = stereo ?? [waveform, waveform];
+    const delay = stereo ? 0 : MONO_DELAY;
+    const length = Math.max(0, (left?.length ?? 0) - delay);
+    const size = radius * WAVE_SCALE;
+    for (let i = 0; i <= SCOPE_POINTS; i++) {
+      const index = Math.floor((i * Math.max(0, length - 1)) / SCOPE_POINTS);
+      this.points[i * 3] = radius;
+      this.points[i * 3 + 1] = sampleAt(right, index + delay) * size;
+      this.points[i * 3 + 2] = sampleAt(left, index) * size;
+    }
+  }
+
+  private writeAttributes(closed: boolean) {
+    const points = this.points;
+    const count = SCOPE_POINTS + 1;
+    const position = this.position.array as Float32Array;
+    const previous = this.previous.array as Float32Array;
+    const next = this.next.array as Float32Array;
+    for (let i = 0; i < count; i++) {
+      // The closing point repeats the first, so the ring's neighbours wrap past it
+      const before = i > 0 ? i - 1 : closed ? count - 2 : 0;
+      const after = i < count - 1 ? i + 1 : closed ? 1 : count - 1;
+      for (let v = 0; v < 2; v++) {
+        const offset = (i * 2 + v) * 3;
+        for (let c = 0; c < 3; c++) {
+          position[offset + c] = points[i * 3 + c];
+          previous[offset + c] = points[before * 3 + c];
+          next[offset + c] = points[after * 3 + c];
+        }
+      }
+    }
+    this.position.needsUpdate = true;
+    this.previous.needsUpdate = true;
+    this.next.needsUpdate = true;
+  }
+}
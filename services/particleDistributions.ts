@@ -0,0 +1,288 @@
+import { ParticleDistribution } from '../types';
+import { createSeededRandom } from './random';
+
+/** Grayscale weights of a picture; brighter, more opaque pixels attract more particles. */
+export interface PointMask {
+  width: number;
+  height: number;
+  weights: Float32Array;
+}
+
+/** A triangle mesh to scatter particles over, such as the current fractal. */
+export interface SurfaceMesh {
+  positions: ArrayLike<number>;
+  indices: ArrayLike<number> | null;
+}
+
+export interface ParticleShapeOptions {
+  radius: number;
+  spiralArms: number;
+  spiralTwist: number;
+  // Rasterized `particleText` and the uploaded image; null falls back to the sphere
+  textMask: PointMask | null;
+  imageMask: PointMask | null;
+  surface: SurfaceMesh | null;
+}
+
+type Random = () => number;
+
+// Sum of uniforms, roughly normal with mean 0 and standard deviation 1
+const gaussian = (random: Random) => (random() + random() + random() + random() - 2) * 1.73;
+
+const fillSphere = (out: Float32Array, count: number, radius: number, random: Random) => {
+  for (let i = 0; i < count; i++) {
+    const theta = 2 * Math.PI * random();
+    const phi = Math.acos(2 * random() - 1);
+    const r = radius * Math.cbrt(random());
+    out[i * 3] = r * Math.sin(phi) * Math.cos(theta);
+    out[i * 3 + 1] = r * Math.sin(phi) * Math.sin(theta);
+    out[i * 3 + 2] = r * Math.cos(phi);
+  }
+};
+
+// Log-spiral arms that thicken toward a bright core; `twist` is in turns from core to rim
+const fillSpiral = (out: Float32Array, count: number, radius: number, arms: number, twist: number, random: Random) => {
+  const armCount = Math.max(1, Math.round(arms));
+  for (let i = 0; i < count; i++) {
+    const t = Math.pow(random(), 1.5);
+    const r = radius * t;
+    const arm = i % armCount;
+    const spread = 0.35 * (1.1 - t);
+    const angle = (arm / armCount) * Math.PI * 2 + t * twist * Math.PI * 2 + gaussian(random) * spread;
+    const scatter = radius * 0.04 * (1 + (1 - t) * 2);
+    out[i * 3] = Math.cos(angle) * r + gaussian(random) * scatter;
+    out[i * 3 + 1] = gaussian(random) * radius * 0.03 * (1 + (1 - t) * 3);
+    out[i * 3 + 2] = Math.sin(angle) * r + gaussian(random) * scatter;
+  }
+};
+
+// Thin disc with an empty inner region and density falling off outwards
+const fillDisc = (out: Float32Array, count: number, radius: number, random: Random) => {
+  const inner = radius * 0.3;
+  for (let i = 0; i < count; i++) {
+    const r = inner + (radius - inner) * Math.pow(random(), 2);
+    const angle = random() * Math.PI * 2;
+    out[i * 3] = Math.cos(angle) * r;
+    out[i * 3 + 1] = gaussian(random) * radius * 0.01 * (r / inner);
+    out[i * 3 + 2] = Math.sin(angle) * r;
+  }
+};
+
+const fillTorus = (out: Float32Array, count: number, radius: number, random: Random) => {
+  const major = radius * 0.7;
+  const minor = radius * 0.25;
+  for (let i = 0; i < count; i++) {
+    const u = random() * Math.PI * 2;
+    const v = random() * Math.PI * 2;
+    const r = minor * Math.sqrt(random());
+    const ring = major + r * Math.cos(v);
+    out[i * 3] = ring * Math.cos(u);
+    out[i * 3 + 1] = r * Math.sin(v);
+    out[i * 3 + 2] = ring * Math.sin(u);
+  }
+};
+
+// Two intertwined strands along the vertical axis, with a rung every so often
+const fillHelix = (out: Float32Array, count: number, radius: number, random: Random) => {
+  const helixRadius = radius * 0.35;
+  const turns = 3;
+  const rungs = 24;
+  for (let i = 0; i < count; i++) {
+    const isRung = random() < 0.15;
+    const t = isRung ? (Math.floor(random() * rungs) + 0.5) / rungs : random();
+    const angle = t * turns * Math.PI * 2;
+    const y = (t * 2 - 1) * radius;
+    const jitter = radius * 0.02;
+    if (isRung) {
+      const across = random() * 2 - 1;
+      out[i * 3] = Math.cos(angle) * helixRadius * across + gaussian(random) * jitter;
+      out[i * 3 + 1] = y + gaussian(random) * jitter;
+      out[i * 3 + 2] = Math.sin(angle) * helixRadius * across + gaussian(random) * jitter;
+    } else {
+      const strand = i % 2 === 0 ? 0 : Math.PI;
+      out[i * 3] = Math.cos(angle + strand) * helixRadius + gaussian(random) * jitter;
+      out[i * 3 + 1] = y + gaussian(random) * jitter;
+      out[i * 3 + 2] = Math.sin(angle + strand) * helixRadius + gaussian(random) * jitter;
+    }
+  }
+};
+
+// Index of the first cumulative weight above `value`
+const searchCumulative = (cumulative: Float32Array, value: number): number => {
+  let lo = 0;
+  let hi = cumulative.length - 1;
+  while (lo < hi) {
+    const mid = (lo + hi) >> 1;
+    if (cumulative[mid] < value) lo = mid + 1;
+    else hi = mid;
+  }
+  return lo;
+};
+
+const buildCumulative = (weights: ArrayLike<number>): Float32Array | null => {
+  const cumulative = new Float32Array(weights.length);
+  let sum = 0;
+  for (let i = 0; i < weights.length; i++) {
+    sum += weights[i];
+    cumulative[i] = sum;
+  }
+  return sum > 0 ? cumulative : null;
+};
+
+// Pixels picked by weight, laid out upright in the XY plane and fitted to the radius
+const fillMask = (out: Float32Array, count: number, radius: number, mask: PointMask, random: Random): boolean => {
+  const cumulative = buildCumulative(mask.weights);
+  if (!cumulative) return false;
+  const total = cumulative[cumulative.length - 1];
+  const scale = (radius * 2) / Math.max(mask.width, mask.height);
+  for (let i = 0; i < count; i++) {
+    const pixel = searchCumulative(cumulative, random() * total);
+    const px = pixel % mask.width + random();
+    const py = Math.floor(pixel / mask.width) + random();
+    out[i * 3] = (px - mask.width / 2) * scale;
+    out[i * 3 + 1] = (mask.height / 2 - py) * scale;
+    out[i * 3 + 2] = gaussian(random) * radius * 0.03;
+  }
+  return true;
+};
+
+// Area-weighted points on the mesh's triangles, scaled so the mesh reaches the radius
+const fillSurface = (out: Float32Array, count: number, radius: number, surface: SurfaceMesh, random: Random): boolean => {
+  const { positions, indices } = surface;
+  const triangleCount = Math.floor((indices ? indices.length : positions.length / 3) / 3);
+  if (triangleCount === 0) return false;
+  const vertex = (triangle: number, corner: number) => (indices ? indices[triangle * 3 + corner] : triangle * 3 + corner) * 3;
+
+  const areas = new Float32Array(triangleCount);
+  for (let t = 0; t < triangleCount; t++) {
+    const a = vertex(t, 0), b = vertex(t, 1), c = vertex(t, 2);
+    const abx = positions[b] - positions[a], aby = positions[b + 1] - positions[a + 1], abz = positions[b + 2] - positions[a + 2];
+    const acx = positions[c] - positions[a], acy = positions[c + 1] - positions[a + 1], acz = positions[c + 2] - positions[a + 2];
+    const cx = aby * acz - abz * acy, cy = abz * acx - abx * acz, cz = abx * acy - aby * acx;
+    areas[t] = Math.sqrt(cx * cx + cy * cy + cz * cz);
+  }
+  const cumulative = buildCumulative(areas);
+  if (!cumulative) return false;
+
+  let extent = 0;
+  for (let i = 0; i < positions.length; i += 3) {
+    extent = Math.max(extent, Math.hypot(positions[i], positions[i + 1], positions[i + 2]));
+  }
+  const scale = extent > 0 ? radius / extent : 1;
+  const total = cumulative[cumulative.length - 1];
+  for (let i = 0; i < count; i++) {
+    const t = searchCumulative(cumulative, random() * total);
+    const a = vertex(t, 0), b = vertex(t, 1), c = vertex(t, 2);
+    // Uniform barycentric coordinates
+    let u = random(), v = random();
+    if (u + v > 1) { u = 1 - u; v = 1 - v; }
+    const w = 1 - u - v;
+    for (let axis = 0; axis < 3; axis++) {
+      out[i * 3 + axis] = (positions[a + axis] * w + positions[b + axis] * u + positions[c + axis] * v) * scale;
+    }
+  }
+  return true;
+};
+
+/**
+ * Seeded particle positions for a distribution, so every build of the same
+ * shape is identical. Shapes that need data they don't have (no image loaded,
+ * fractal not built yet) fall back to the sphere.
+ */
+export const createParticlePositions = (count: number, distribution: ParticleDistribution, options: ParticleShapeOptions, seed: number): Float32Array => {
+  const out = new Float32Array(count * 3);
+  const random = createSeededRandom(seed);
+  const { radius } = options;
+  switch (distribution) {
+    case 'spiral':
+      fillSpiral(out, count, radius, options.spiralArms, options.spiralTwist, random);
+      return out;
+    case 'disc':
+      fillDisc(out, count, radius, random);
+      return out;
+    case 'torus':
+      fillTorus(out, count, radius, random);
+      return out;
+    case 'helix':
+      fillHelix(out, count, radius, random);
+      return out;
+    case 'fractal':
+      if (options.surface && fillSurface(out, count, radius, options.surface, random)) return out;
+      break;
+    case 'text':
+      if (options.textMask && fillMask(out, count, radius, options.textMask, random)) return out;
+      break;
+    case 'image':
+      if (options.imageMask && fillMask(out, count, radius, options.imageMask, random)) return out;
+      break;
+  }
+  fillSphere(out, count, radius, createSeededRandom(seed));
+  return out;
+};
+
+// --- Masks ---
+
+// Longest side of a rasterized mask; plenty for a few hundred thousand points
+const MASK_SIZE = 256;
+
+const maskFromCanvas = (context: CanvasRenderingContext2D, width: number, height: number, useLuminance: boolean): PointMask => {
+  const pixels = context.getImageData(0, 0, width, height).data;
+  const weights = new Float32Array(width * height);
+  for (let i = 0; i < weights.length; i++) {
+    const alpha = pixels[i * 4 + 3] / 255;
+    const luminance = useLuminance ? (0.2126 * pixels[i * 4] + 0.7152 * pixels[i * 4 + 1] + 0.0722 * pixels[i * 4 + 2]) / 255 : 1;
+    // Squared, so dark backgrounds stay nearly empty
+    weights[i] = alpha * luminance * luminance;
+  }
+  return { width, height, weights };
+};
+
+/** Rasterizes `text` in bold type. Returns null outside the browser or for blank text. */
+export const rasterizeText = (text: string): PointMask | null => {
+  const lines = text.split('\n').map(line => line.trim()).filter(Boolean);
+  if (lines.length === 0 || typeof document === 'undefined') return null;
+  const canvas = document.createElement('canvas');
+  const context = canvas.getContext('2d');
+  if (!context) return null;
+
+  const fontSize = 64;
+  const font = `900 ${fontSize}px sans-serif`;
+  context.font = font;
+  const textWidth = Math.max(...lines.map(line => context.measureText(line).width));
+  const lineHeight = fontSize * 1.1;
+  const scale = Math.min(1, MASK_SIZE * 2 / Math.max(textWidth, lineHeight * lines.length));
+  canvas.width = Math.max(1, Math.ceil(textWidth * scale));
+  canvas.height = Math.max(1, Math.ceil(lineHeight * lines.length * scale));
+
+  // Resizing the canvas resets its state
+  context.scale(scale, scale);
+  context.font = font;
+  context.textAlign = 'center';
+  context.textBaseline = 'middle';
+  context.fillStyle = '#fff';
+  lines.forEach((line, i) => context.fillText(line, textWidth / 2, lineHeight * (i + 0.5)));
+  return maskFromCanvas(context, canvas.width, canvas.height, false);
+};
+
+/** Decodes an image file into a mask. Rejects with a user-facing message if it can't be read. */
+export const loadImageMask = async (file: File): Promise<PointMask> => {
+  let bitmap: ImageBitmap;
+  try {
+    bitmap = await createImageBitmap(file);
+  } catch {
+    throw new Error(`"${file.name}" is not an image this browser can read.`);
+  }
+  const scale = Math.min(1, MASK_SIZE / Math.max(bitmap.width, bitmap.height));
+  const width = Math.max(1, Math.round(bitmap.width * scale));
+  const height = Math.max(1, Math.round(bitmap.height * scale));
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const context = canvas.getContext('2d');
+  if (!context) throw new Error('Could not read the image.');
+  context.drawImage(bitmap, 0, 0, width, height);
+  bitmap.close();
+  const mask = maskFromCanvas(context, width, height, true);
+  if (!mask.weights.some(weight => weight > 0)) throw new Error(`"${file.name}" is completely dark or transparent.`);
+  return mask;
+};
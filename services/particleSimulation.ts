@@ -0,0 +1,277 @@
+import * as THREE from 'three';
+import { GPUComputationRenderer } from 'three/addons/misc/GPUComputationRenderer.js';
+import { PARTICLE_SEED, createSeededRandom } from './random';
+
+// 3D simplex noise (Ashima Arts / Stefan Gustavson), shared by the static particle shader and the simulation
+export const SIMPLEX_NOISE_GLSL = `
+    vec3 mod289(vec3 x) { return x - floor(x * (1.0 / 289.0)) * 289.0; }
+    vec4 mod289(vec4 x) { return x - floor(x * (1.0 / 289.0)) * 289.0; }
+    vec4 permute(vec4 x) { return mod289(((x*34.0)+1.0)*x); }
+    vec4 taylorInvSqrt(vec4 r) { return 1.79284291400159 - 0.85373472095314 * r; }
+    float snoise(vec3 v) {
+        const vec2 C = vec2(1.0/6.0, 1.0/3.0); const vec4 D = vec4(0.0, 0.5, 1.0, 2.0);
+        vec3 i = floor(v + dot(v, C.yyy)); vec3 x0 = v - i + dot(i, C.xxx);
+        vec3 g = step(x0.yzx, x0.xyz); vec3 l = 1.0 - g; vec3 i1 = min(g.xyz, l.zxy); vec3 i2 = max(g.xyz, l.zxy);
+        vec3 x1 = x0 - i1 + C.xxx; vec3 x2 = x0 - i2 + C.yyy; vec3 x3 = x0 - D.yyy;
+        i = mod289(i);
+        vec4 p = permute(permute(permute( i.z + vec4(0.0, i1.z, i2.z, 1.0)) + i.y + vec4(0.0, i1.y, i2.y, 1.0)) + i.x + vec4(0.0, i1.x, i2.x, 1.0));
+        float n_ = 0.142857142857; vec3 ns = n_ * D.wyz - D.xzx;
+        vec4 j = p - 49.0 * floor(p * ns.z * ns.z);
+        vec4 x_ = floor(j * ns.z); vec4 y_ = floor(j - 7.0 * x_);
+        vec4 x = x_ * ns.x + ns.yyyy; vec4 y = y_ * ns.x + ns.yyyy; vec4 h = 1.0 - abs(x) - abs(y);
+        vec4 b0 = vec4(x.xy, y.xy); vec4 b1 = vec4(x.zw, y.zw);
+        vec4 s0 = floor(b0)*2.0 + 1.0; vec4 s1 = floor(b1)*2.0 + 1.0; vec4 sh = -step(h, vec4(0.0));
+        vec4 a0 = b0.xzyw + s0.xzyw*sh.xxyy; vec4 a1 = b1.xzyw + s1.xzyw*sh.zzww;
+        vec3 p0 = vec3(a0.xy,h.x); vec3 p1 = vec3(a0.zw,h.y); vec3 p2 = vec3(a1.xy,h.z); vec3 p3 = vec3(a1.zw,h.w);
+        vec4 norm = taylorInvSqrt(vec4(dot(p0,p0), dot(p1,p1), dot(p2,p2), dot(p3,p3)));
+        p0 *= norm.x; p1 *= norm.y; p2 *= norm.z; p3 *= norm.w;
+        vec4 m = max(0.6 - vec4(dot(x0,x0), dot(x1,x1), dot(x2,x2), dot(x3,x3)), 0.0);
+        m = m * m; return 42.0 * dot(m*m, vec4(dot(p0,x0), dot(p1,x1), dot(p2,x2), dot(p3,x3)));
+    }`;
+
+const MAX_ATTRACTORS = 4;
+
+// Forces, in units of the galaxy radius per second squared
+const HOME_SPRING = 2.0;
+const GRAVITY = 0.3;
+const CURL_STRENGTH = 0.5;
+const ATTRACTOR_STRENGTH = 4.0;
+const SHOCK_STRENGTH = 8.0;
+// Shockwave front speed in radii per second, and the radius at which it has faded out
+const SHOCK_SPEED = 2.0;
+const SHOCK_REACH = 2.5;
+// Seconds for an attractor to lose most of its pull
+const ATTRACTOR_DECAY = 0.6;
+
+// Velocity: springs home, curl-noise flow, gravity toward the planet, attractors and the shockwave front
+const VELOCITY_SHADER = `
+    uniform float uDelta; uniform float uTime; uniform float uMorph; uniform float uRadius;
+    uniform float uDamping; uniform float uTurbulence; uniform float uMids;
+    uniform sampler2D uHome; uniform sampler2D uPreviousHome;
+    uniform vec4 uAttractors[${MAX_ATTRACTORS}]; uniform vec2 uShock;
+    ${SIMPLEX_NOISE_GLSL}
+    vec3 snoiseVec3(vec3 x) {
+        return vec3(snoise(x), snoise(vec3(x.y - 19.1, x.z + 33.4, x.x + 47.2)), snoise(vec3(x.z + 74.2, x.x - 124.5, x.y + 99.4)));
+    }
+    // Divergence-free flow, so the particles swirl without bunching up
+    vec3 curlNoise(vec3 p) {
+        const float e = 0.1;
+        vec3 dx = vec3(e, 0.0, 0.0); vec3 dy = vec3(0.0, e, 0.0); vec3 dz = vec3(0.0, 0.0, e);
+        vec3 px0 = snoiseVec3(p - dx); vec3 px1 = snoiseVec3(p + dx);
+        vec3 py0 = snoiseVec3(p - dy); vec3 py1 = snoiseVec3(p + dy);
+        vec3 pz0 = snoiseVec3(p - dz); vec3 pz1 = snoiseVec3(p + dz);
+        vec3 curl = vec3(py1.z - py0.z - pz1.y + pz0.y, pz1.x - pz0.x - px1.z + px0.z, px1.y - px0.y - py1.x + py0.x);
+        return curl / (2.0 * e);
+    }
+    void main() {
+        vec2 uv = gl_FragCoord.xy / resolution.xy;
+        vec3 pos = texture2D(texturePosition, uv).xyz;
+        vec3 vel = texture2D(textureVelocity, uv).xyz;
+        vec3 home = mix(texture2D(uPreviousHome, uv).xyz, texture2D(uHome, uv).xyz, uMorph);
+
+        vec3 acc = (home - pos) * ${HOME_SPRING.toFixed(1)};
+        acc += curlNoise(pos / uRadius * 1.5 + uTime * 0.1) * uTurbulence * (1.0 + uMids) * uRadius * ${CURL_STRENGTH.toFixed(1)};
+
+        float dist = length(pos);
+        vec3 outward = pos / max(dist, 0.001);
+        float falloff = 1.0 + dist * dist / (uRadius * uRadius);
+        acc -= outward * ${GRAVITY.toFixed(1)} * uRadius / falloff;
+
+        for (int i = 0; i < ${MAX_ATTRACTORS}; i++) {
+            vec3 toAttractor = uAttractors[i].xyz - pos;
+            float d2 = dot(toAttractor, toAttractor);
+            acc += toAttractor * inversesqrt(d2 + 1.0) * uAttractors[i].w * uRadius * ${ATTRACTOR_STRENGTH.toFixed(1)} / (1.0 + 4.0 * d2 / (uRadius * uRadius));
+        }
+
+        float front = (dist - uShock.x) / (uRadius * 0.15);
+        acc += outward * uShock.y * uRadius * ${SHOCK_STRENGTH.toFixed(1)} * exp(-front * front);
+
+        vel += acc * uDelta;
+        vel *= exp(-uDamping * uDelta);
+        gl_FragColor = vec4(vel, 1.0);
+    }`;
+
+const POSITION_SHADER = `
+    uniform float uDelta;
+    void main() {
+        vec2 uv = gl_FragCoord.xy / resolution.xy;
+        vec3 pos = texture2D(texturePosition, uv).xyz;
+        vec3 vel = texture2D(textureVelocity, uv).xyz;
+        gl_FragColor = vec4(pos + vel * uDelta, 1.0);
+    }`;
+
+/** Side of the square state textures holding `count` particles; particle i lives at texel (i % size, i / size). */
+export const getSimulationTextureSize = (count: number): number => Math.max(1, Math.ceil(Math.sqrt(count)));
+
+/** Texture coordinates of each particle's texel, for shaders that read the simulation. */
+export const createSimulationReferences = (count: number): Float32Array => {
+  const size = getSimulationTextureSize(count);
+  const references = new Float32Array(count * 2);
+  for (let i = 0; i < count; i++) {
+    references[i * 2] = ((i % size) + 0.5) / size;
+    references[i * 2 + 1] = (Math.floor(i / size) + 0.5) / size;
+  }
+  return references;
+};
+
+export interface SimulationStep {
+  // Seconds since the last step
+  delta: number;
+  time: number;
+  // Progress from the previous home positions to the current ones (see setHome)
+  morph: number;
+  radius: number;
+  // 0-1 prop values
+  damping: number;
+  turbulence: number;
+  // Smoothed mids level, which stirs the flow field
+  mids: number;
+}
+
+const copyIntoTexture = (texture: THREE.DataTexture, positions: Float32Array) => {
+  const data = texture.image.data as Float32Array;
+  data.fill(0);
+  for (let i = 0; i < positions.length / 3; i++) {
+    data[i * 4] = positions[i * 3];
+    data[i * 4 + 1] = positions[i * 3 + 1];
+    data[i * 4 + 2] = positions[i * 3 + 2];
+    data[i * 4 + 3] = 1;
+  }
+  texture.needsUpdate = true;
+};
+
+type ComputeVariable = ReturnType<GPUComputationRenderer['addVariable']>;
+
+/**
+ * Particle positions and velocities integrated on the GPU, ping-ponging
+ * between float render targets. Each particle is pulled back toward its home
+ * position, so the galaxy keeps its shape while the forces play on it.
+ */
+export class ParticleSimulation {
+  public readonly count: number;
+  private compute: GPUComputationRenderer;
+  private positionVariable: ComputeVariable;
+  private velocityVariable: ComputeVariable;
+  private home: THREE.DataTexture;
+  private previousHome: THREE.DataTexture;
+  private attractors: { position: THREE.Vector3; strength: number; age: number }[] = [];
+  private shock = { age: Infinity, strength: 0 };
+  private random = createSeededRandom(PARTICLE_SEED + 2);
+
+  /** Returns null when the GPU can't render to float textures, in which case the static shader is used. */
+  public static create(renderer: THREE.WebGLRenderer, count: number): ParticleSimulation | null {
+    const extensions = renderer.extensions;
+    let type: number;
+    if (extensions.has('EXT_color_buffer_float')) {
+      type = THREE.FloatType;
+    } else if (extensions.has('EXT_color_buffer_half_float')) {
+      type = THREE.HalfFloatType;
+    } else {
+      return null;
+    }
+    const simulation = new ParticleSimulation(renderer, count, type);
+    const error = simulation.compute.init();
+    if (error) {
+      console.warn('Particle simulation unavailable:', error);
+      simulation.dispose();
+      return null;
+    }
+    return simulation;
+  }
+
+  private constructor(renderer: THREE.WebGLRenderer, count: number, type: number) {
+    this.count = count;
+    const size = getSimulationTextureSize(count);
+    this.compute = new GPUComputationRenderer(size, size, renderer);
+    this.compute.setDataType(type);
+
+    this.home = this.compute.createTexture();
+    this.previousHome = this.compute.createTexture();
+    this.positionVariable = this.compute.addVariable('texturePosition', POSITION_SHADER, this.compute.createTexture());
+    this.velocityVariable = this.compute.addVariable('textureVelocity', VELOCITY_SHADER, this.compute.createTexture());
+    this.compute.setVariableDependencies(this.positionVariable, [this.positionVariable, this.velocityVariable]);
+    this.compute.setVariableDependencies(this.velocityVariable, [this.positionVariable, this.velocityVariable]);
+
+    this.positionVariable.material.uniforms.uDelta = { value: 0 };
+    Object.assign(this.velocityVariable.material.uniforms, {
+      uDelta: { value: 0 }, uTime: { value: 0 }, uMorph: { value: 1 }, uRadius: { value: 1 },
+      uDamping: { value: 1 }, uTurbulence: { value: 0 }, uMids: { value: 0 },
+      uHome: { value: this.home }, uPreviousHome: { value: this.previousHome },
+      uAttractors: { value: Array.from({ length: MAX_ATTRACTORS }, () => new THREE.Vector4()) },
+      uShock: { value: new THREE.Vector2() },
+    });
+  }
+
+  public get positionTexture(): THREE.Texture {
+    return this.compute.getCurrentRenderTarget(this.positionVariable).texture;
+  }
+
+  public get velocityTexture(): THREE.Texture {
+    return this.compute.getCurrentRenderTarget(this.velocityVariable).texture;
+  }
+
+  /** Sets where the particles are drawn back to, flowing from `previous` to `target` as the step's morph goes from 0 to 1. */
+  public setHome(previous: Float32Array, target: Float32Array) {
+    copyIntoTexture(this.previousHome, previous);
+    copyIntoTexture(this.home, target);
+  }
+
+  /** Puts every particle at rest on its target home position and clears the attractors and shockwave. */
+  public reset() {
+    const velocity = this.compute.createTexture();
+    [0, 1].forEach(i => {
+      this.compute.renderTexture(this.home, this.positionVariable.renderTargets[i]);
+      this.compute.renderTexture(velocity, this.velocityVariable.renderTargets[i]);
+    });
+    velocity.dispose();
+    this.attractors = [];
+    this.shock = { age: Infinity, strength: 0 };
+    this.random = createSeededRandom(PARTICLE_SEED + 2);
+  }
+
+  /** A bass hit: a shockwave from the center and a short-lived attractor somewhere in the galaxy. */
+  public kick(strength: number, radius: number) {
+    this.shock = { age: 0, strength };
+    const direction = new THREE.Vector3(this.random() * 2 - 1, this.random() * 2 - 1, this.random() * 2 - 1);
+    if (direction.lengthSq() < 1e-6) direction.set(1, 0, 0);
+    const position = direction.normalize().multiplyScalar(radius * (0.3 + this.random() * 0.5));
+    this.attractors.push({ position, strength, age: 0 });
+    if (this.attractors.length > MAX_ATTRACTORS) this.attractors.shift();
+  }
+
+  public step(step: SimulationStep) {
+    const delta = step.delta;
+    this.shock.age += delta;
+    this.attractors.forEach(attractor => { attractor.age += delta; });
+
+    const uniforms = this.velocityVariable.material.uniforms;
+    uniforms.uDelta.value = delta;
+    uniforms.uTime.value = step.time;
+    uniforms.uMorph.value = step.morph;
+    uniforms.uRadius.value = step.radius;
+    // 0 keeps drifting for seconds, 1 stops almost at once
+    uniforms.uDamping.value = 0.5 + step.damping * 5;
+    uniforms.uTurbulence.value = step.turbulence;
+    uniforms.uMids.value = step.mids;
+    uniforms.uAttractors.value.forEach((slot: THREE.Vector4, i: number) => {
+      const attractor = this.attractors[i];
+      if (attractor) {
+        slot.set(attractor.position.x, attractor.position.y, attractor.position.z, attractor.strength * Math.exp(-attractor.age / ATTRACTOR_DECAY));
+      } else {
+        slot.set(0, 0, 0, 0);
+      }
+    });
+    const shockRadius = this.shock.age * SHOCK_SPEED * step.radius;
+    const shockFade = Math.max(0, 1 - this.shock.age * SHOCK_SPEED / SHOCK_REACH);
+    uniforms.uShock.value.set(shockRadius, this.shock.strength * shockFade);
+    this.positionVariable.material.uniforms.uDelta.value = delta;
+
+    if (delta > 0) this.compute.compute();
+  }
+
+  public dispose() {
+    this.compute.dispose();
+    this.home.dispose();
+    this.previousHome.dispose();
+  }
+}
@@ -0,0 +1,121 @@
+export type RepeatMode = 'off' | 'all' | 'one';
+
+export interface PlaylistTrack {
+  id: string;
+  file: File;
+  // Object URL for the file; revoked when the track leaves the playlist
+  url: string;
+  title: string;
+  artist: string | null;
+  // Seconds, or null until the metadata has loaded
+  duration: number | null;
+}
+
+// ID3v2 tags live at the start of the file; this is plenty for title and artist
+const ID3_READ_BYTES = 256 * 1024;
+
+let nextTrackId = 0;
+
+export const isAudioFile = (file: File) => file.type.startsWith('audio/') || /\.(mp3|wav|ogg|oga|flac|m4a|aac|opus|webm)$/i.test(file.name);
+
+export const createTrack = (file: File): PlaylistTrack => ({
+  id: `track-${nextTrackId++}`,
+  file,
+  url: URL.createObjectURL(file),
+  title: file.name.replace(/\.[^/.]+$/, ''),
+  artist: null,
+  duration: null,
+});
+
+export const releaseTrack = (track: PlaylistTrack) => {
+  URL.revokeObjectURL(track.url);
+};
+
+export const formatTrackTime = (seconds: number | null) => {
+  if (seconds === null || !isFinite(seconds)) return '--:--';
+  const total = Math.floor(seconds);
+  return `${Math.floor(total / 60)}:${String(total % 60).padStart(2, '0')}`;
+};
+
+/** Fisher–Yates shuffle of track ids, keeping `firstId` (the playing track) at the front. */
+export const createShuffleOrder = (ids: string[], firstId: string | null): string[] => {
+  const rest = ids.filter(id => id !== firstId);
+  for (let i = rest.length - 1; i > 0; i--) {
+    const j = Math.floor(Math.random() * (i + 1));
+    [rest[i], rest[j]] = [rest[j], rest[i]];
+  }
+  return firstId !== null && ids.includes(firstId) ? [firstId, ...rest] : rest;
+};
+
+/**
+ * Picks the track to play after (direction 1) or before (direction -1) the current one.
+ * Returns null when playback should stop.
+ */
+export const getAdjacentTrackId = (order: string[], currentId: string | null, direction: 1 | -1, repeat: RepeatMode, isAutoAdvance: boolean): string | null => {
+  if (order.length === 0) return null;
+  if (currentId === null) return order[0];
+  if (repeat === 'one' && isAutoAdvance) return currentId;
+  const index = order.indexOf(currentId);
+  const next = index + direction;
+  if (next >= 0 && next < order.length) return order[next];
+  if (repeat === 'off' && isAutoAdvance) return null;
+  return order[(next + order.length) % order.length];
+};
+
+// --- Metadata ---
+
+const readSyncsafe = (bytes: Uint8Array, offset: number) =>
+  (bytes[offset] << 21) | (bytes[offset + 1] << 14) | (bytes[offset + 2] << 7) | bytes[offset + 3];
+
+const decodeText = (bytes: Uint8Array): string => {
+  const encoding = bytes[0];
+  const body = bytes.subarray(1);
+  let text: string;
+  switch (encoding) {
+    case 1: text = new TextDecoder('utf-16').decode(body); break;
+    case 2: text = new TextDecoder('utf-16be').decode(body); break;
+    case 3: text = new TextDecoder('utf-8').decode(body); break;
+    default: text = new TextDecoder('latin1').decode(body);
+  }
+  return text.replace(/\0+$/, '').split('\0')[0].trim();
+};
+
+/** Reads title and artist from an ID3v2.2/2.3/2.4 tag, if the file has one. */
+export const readId3Tags = async (file: File): Promise<{ title: string | null; artist: string | null }> => {
+  const result = { title: null as string | null, artist: null as string | null };
+  const bytes = new Uint8Array(await file.slice(0, ID3_READ_BYTES).arrayBuffer());
+  if (bytes.length < 10 || bytes[0] !== 0x49 || bytes[1] !== 0x44 || bytes[2] !== 0x33) return result;
+
+  const version = bytes[3];
+  const tagEnd = Math.min(bytes.length, 10 + readSyncsafe(bytes, 6));
+  const idLength = version === 2 ? 3 : 4;
+  const headerLength = version === 2 ? 6 : 10;
+  let offset = 10;
+  // Skip the extended header when the flag is set
+  if (version > 2 && bytes[5] & 0x40) {
+    offset += version === 4 ? readSyncsafe(bytes, 10) : ((bytes[10] << 24) | (bytes[11] << 16) | (bytes[12] << 8) | bytes[13]) + 4;
+  }
+
+  while (offset + headerLength <= tagEnd) {
+    const id = String.fromCharCode(...bytes.subarray(offset, offset + idLength));
+    if (!/^[A-Z0-9]+$/.test(id)) break; // padding
+    let size: number;
+    if (version === 2) size = (bytes[offset + 3] << 16) | (bytes[offset + 4] << 8) | bytes[offset + 5];
+    else if (version === 4) size = readSyncsafe(bytes, offset + 4);
+    else size = (bytes[offset + 4] << 24) | (bytes[offset + 5] << 16) | (bytes[offset + 6] << 8) | bytes[offset + 7];
+    const data = bytes.subarray(offset + headerLength, offset + headerLength + size);
+    if (id === 'TIT2' || id === 'TT2') result.title = decodeText(data) || null;
+    if (id === 'TPE1' || id === 'TP1') result.artist = decodeText(data) || null;
+    offset += headerLength + size;
+  }
+  return result;
+};
+
+/** Loads a track's duration through a throwaway audio element. */
+export const readDuration = (url: string): Promise<number | null> => new Promise(resolve => {
+  const probe = new Audio();
+  probe.preload = 'metadata';
+  probe.onloadedmetadata = () => resolve(isFinite(probe.duration) ? probe.duration : null);
+  probe.onerror = () => resolve(null);
+  probe.src = url;
+});
@@ -0,0 +1,195 @@
+import * as THREE from 'three';
+import type { EffectComposer } from 'three/addons/postprocessing/EffectComposer.js';
+import { ShaderPass } from 'three/addons/postprocessing/ShaderPass.js';
+import { AfterimagePass } from 'three/addons/postprocessing/AfterimagePass.js';
+import { FrequencyBand, PostEffect, PostEffectKind, ToneMappingMode } from '../types';
+import { DEFAULT_POST_EFFECTS, getPostEffectIntensity, normalizePostEffects } from './postEffects';
+
+// --- Shaders ---
+
+const PASS_VERTEX_SHADER = `
+    varying vec2 vUv;
+    void main() {
+        vUv = uv;
+        gl_Position = projectionMatrix * modelViewMatrix * vec4(position, 1.0);
+    }`;
+
+const RANDOM_GLSL = `
+    float rand(vec2 co) { return fract(sin(dot(co, vec2(12.9898, 78.233))) * 43758.5453); }`;
+
+// Red and blue pulled apart radially, strongest at the edges like a cheap lens
+const CHROMATIC_ABERRATION_SHADER = `
+    uniform sampler2D tDiffuse; uniform float uAmount;
+    varying vec2 vUv;
+    void main() {
+        vec2 offset = (vUv - 0.5) * uAmount * 0.06;
+        vec4 texel = texture2D(tDiffuse, vUv);
+        float r = texture2D(tDiffuse, vUv + offset).r;
+        float b = texture2D(tDiffuse, vUv - offset).b;
+        gl_FragColor = vec4(r, texel.g, b, texel.a);
+    }`;
+
+const FILM_GRAIN_SHADER = `
+    uniform sampler2D tDiffuse; uniform float uAmount; uniform float uTime;
+    varying vec2 vUv;
+    ${RANDOM_GLSL}
+    void main() {
+        vec4 texel = texture2D(tDiffuse, vUv);
+        float grain = rand(vUv + fract(uTime * 0.37)) - 0.5;
+        gl_FragColor = vec4(texel.rgb + grain * uAmount * 0.4, texel.a);
+    }`;
+
+// Folds the frame into mirrored wedges around the center, blended over the original by uAmount
+const KALEIDOSCOPE_SHADER = `
+    uniform sampler2D tDiffuse; uniform float uAmount; uniform float uAngle;
+    varying vec2 vUv;
+    const float SIDES = 6.0;
+    const float TAU = 6.28318530718;
+    void main() {
+        vec2 p = vUv - 0.5;
+        float r = length(p);
+        float a = mod(atan(p.y, p.x) + uAngle, TAU / SIDES);
+        a = abs(a - TAU / SIDES / 2.0);
+        vec2 folded = r * vec2(cos(a), sin(a)) + 0.5;
+        gl_FragColor = mix(texture2D(tDiffuse, vUv), texture2D(tDiffuse, folded), uAmount);
+    }`;
+
+// Channel split in a direction that jumps every few frames, plus random torn scanline bands
+const RGB_SHIFT_SHADER = `
+    uniform sampler2D tDiffuse; uniform float uAmount; uniform float uSeed;
+    varying vec2 vUv;
+    ${RANDOM_GLSL}
+    void main() {
+        float slice = floor(vUv.y * 24.0);
+        float tear = step(0.85, rand(vec2(uSeed, slice))) * (rand(vec2(slice, uSeed)) - 0.5) * uAmount * 0.1;
+        vec2 uv = vec2(vUv.x + tear, vUv.y);
+        float angle = rand(vec2(uSeed, 0.5)) * 6.28318530718;
+        vec2 offset = vec2(cos(angle), sin(angle)) * uAmount * 0.02;
+        vec4 texel = texture2D(tDiffuse, uv);
+        gl_FragColor = vec4(texture2D(tDiffuse, uv + offset).r, texel.g, texture2D(tDiffuse, uv - offset).b, texel.a);
+    }`;
+
+const VIGNETTE_SHADER = `
+    uniform sampler2D tDiffuse; uniform float uAmount;
+    varying vec2 vUv;
+    void main() {
+        vec4 texel = texture2D(tDiffuse, vUv);
+        float edge = smoothstep(0.25, 0.75, distance(vUv, vec2(0.5)));
+        gl_FragColor = vec4(texel.rgb * (1.0 - edge * uAmount), texel.a);
+    }`;
+
+// three's own tone mapping curves; toneMappingExposure is the renderer's, set by the chain
+const TONE_MAPPING_SHADER = `
+    #include <tonemapping_pars_fragment>
+    uniform sampler2D tDiffuse; uniform int uMode;
+    varying vec2 vUv;
+    void main() {
+        vec4 texel = texture2D(tDiffuse, vUv);
+        vec3 color = texel.rgb;
+        if (uMode == 1) color = LinearToneMapping(color);
+        else if (uMode == 2) color = ReinhardToneMapping(color);
+        else if (uMode == 3) color = OptimizedCineonToneMapping(color);
+        else if (uMode == 4) color = ACESFilmicToneMapping(color);
+        else if (uMode == 5) color = AgXToneMapping(color);
+        else if (uMode == 6) color = NeutralToneMapping(color);
+        gl_FragColor = vec4(color, texel.a);
+    }`;
+
+const TONE_MAPPING_MODE_INDEX: Record<ToneMappingMode, number> = { none: 0, linear: 1, reinhard: 2, cineon: 3, aces: 4, agx: 5, neutral: 6 };
+
+const createShaderPass = (fragmentShader: string, uniforms: Record<string, { value: unknown }>) =>
+  new ShaderPass({ uniforms: { tDiffuse: { value: null }, ...uniforms }, vertexShader: PASS_VERTEX_SHADER, fragmentShader });
+
+// Afterimage feedback: how much of the previous frame survives at intensity 0 and 1
+const AFTERIMAGE_DAMP = { min: 0.75, max: 0.97 };
+
+export interface PostEffectFrame {
+  time: number;
+  bands: FrequencyBand[];
+  // Band energies for this frame, or null without audio
+  energies: Float32Array | null;
+  toneMapping: ToneMappingMode;
+  exposure: number;
+}
+
+/**
+ * The configurable part of the composer: tone mapping, then one pass per
+ * effect kind in the order of the props' effect list. Every pass stays in the
+ * composer; disabled effects are just skipped, so reordering or toggling
+ * never allocates render targets.
+ */
+export class PostEffectChain {
+  private renderer: THREE.WebGLRenderer;
+  private composer: EffectComposer;
+  // Passes the chain doesn't own (scene render and bloom), kept at the front
+  private basePassCount: number;
+  private toneMappingPass: ShaderPass;
+  private passes: Record<PostEffectKind, ShaderPass | AfterimagePass>;
+  private order = '';
+  private clearFeedback = false;
+
+  constructor(renderer: THREE.WebGLRenderer, composer: EffectComposer) {
+    this.renderer = renderer;
+    this.composer = composer;
+    this.basePassCount = composer.passes.length;
+    this.toneMappingPass = createShaderPass(TONE_MAPPING_SHADER, { uMode: { value: 0 } });
+    this.passes = {
+      chromaticAberration: createShaderPass(CHROMATIC_ABERRATION_SHADER, { uAmount: { value: 0 } }),
+      filmGrain: createShaderPass(FILM_GRAIN_SHADER, { uAmount: { value: 0 }, uTime: { value: 0 } }),
+      afterimage: new AfterimagePass(AFTERIMAGE_DAMP.min),
+      kaleidoscope: createShaderPass(KALEIDOSCOPE_SHADER, { uAmount: { value: 0 }, uAngle: { value: 0 } }),
+      rgbShift: createShaderPass(RGB_SHIFT_SHADER, { uAmount: { value: 0 }, uSeed: { value: 0 } }),
+      vignette: createShaderPass(VIGNETTE_SHADER, { uAmount: { value: 0 } }),
+    };
+    composer.addPass(this.toneMappingPass);
+    DEFAULT_POST_EFFECTS.forEach(({ kind }) => composer.addPass(this.passes[kind]));
+    this.update([], { time: 0, bands: [], energies: null, toneMapping: 'none', exposure: 1 });
+  }
+
+  public update(effects: PostEffect[], frame: PostEffectFrame) {
+    this.toneMappingPass.enabled = frame.toneMapping !== 'none';
+    this.toneMappingPass.uniforms.uMode.value = TONE_MAPPING_MODE_INDEX[frame.toneMapping];
+    this.renderer.toneMappingExposure = frame.exposure;
+
+    const stack = normalizePostEffects(effects);
+    const order = stack.map(effect => effect.kind).join(',');
+    if (order !== this.order) {
+      this.order = order;
+      this.composer.passes.length = this.basePassCount + 1;
+      stack.forEach(effect => this.composer.passes.push(this.passes[effect.kind]));
+    }
+
+    stack.forEach(effect => {
+      const pass = this.passes[effect.kind];
+      pass.enabled = effect.enabled;
+      if (!effect.enabled) return;
+      const amount = getPostEffectIntensity(effect, frame.bands, frame.energies);
+      const uniforms = pass.uniforms;
+      switch (effect.kind) {
+        case 'afterimage':
+          uniforms.damp.value = this.clearFeedback ? 0 : AFTERIMAGE_DAMP.min + (AFTERIMAGE_DAMP.max - AFTERIMAGE_DAMP.min) * amount;
+          this.clearFeedback = false;
+          break;
+        case 'filmGrain':
+          uniforms.uAmount.value = amount;
+          uniforms.uTime.value = frame.time;
+          break;
+        case 'kaleidoscope':
+          uniforms.uAmount.value = amount;
+          uniforms.uAngle.value = frame.time * 0.1;
+          break;
+        case 'rgbShift':
+          uniforms.uAmount.value = amount;
+          uniforms.uSeed.value = Math.floor(frame.time * 12) % 1000;
+          break;
+        default:
+          uniforms.uAmount.value = amount;
+      }
+    });
+  }
+
+  /** Drops the afterimage history, so the next frame starts from a clean image. */
+  public reset() {
+    this.clearFeedback = true;
+  }
+}
@@ -0,0 +1,65 @@
+import { FrequencyBand, PostEffect, PostEffectKind, ToneMappingMode } from '../types';
+import { getBandLevel } from './frequencyBands';
+
+export const POST_EFFECT_KINDS: { kind: PostEffectKind; label: string }[] = [
+  { kind: 'chromaticAberration', label: 'Chromatic Aberration' },
+  { kind: 'filmGrain', label: 'Film Grain' },
+  { kind: 'afterimage', label: 'Afterimage Trails' },
+  { kind: 'kaleidoscope', label: 'Kaleidoscope' },
+  { kind: 'rgbShift', label: 'RGB Shift Glitch' },
+  { kind: 'vignette', label: 'Vignette' },
+];
+
+export const TONE_MAPPING_MODES: { value: ToneMappingMode; label: string }[] = [
+  { value: 'none', label: 'None' },
+  { value: 'linear', label: 'Linear' },
+  { value: 'reinhard', label: 'Reinhard' },
+  { value: 'cineon', label: 'Cineon' },
+  { value: 'aces', label: 'ACES Filmic' },
+  { value: 'agx', label: 'AgX' },
+  { value: 'neutral', label: 'Neutral' },
+];
+
+export const getPostEffectLabel = (kind: PostEffectKind): string =>
+  POST_EFFECT_KINDS.find(entry => entry.kind === kind)?.label ?? kind;
+
+export const createPostEffect = (kind: PostEffectKind): PostEffect => ({
+  kind,
+  enabled: false,
+  intensity: 0.5,
+  bandId: '',
+  audioAmount: 0.5,
+});
+
+// Every effect, switched off, in the default order
+export const DEFAULT_POST_EFFECTS: PostEffect[] = POST_EFFECT_KINDS.map(({ kind }) => createPostEffect(kind));
+
+const isPostEffect = (value: unknown): value is PostEffect => {
+  const effect = value as PostEffect;
+  return typeof effect === 'object' && effect !== null
+    && POST_EFFECT_KINDS.some(entry => entry.kind === effect.kind)
+    && typeof effect.enabled === 'boolean'
+    && typeof effect.intensity === 'number' && effect.intensity >= 0 && effect.intensity <= 1
+    && typeof effect.bandId === 'string'
+    && typeof effect.audioAmount === 'number' && effect.audioAmount >= 0 && effect.audioAmount <= 1;
+};
+
+// Each kind may appear at most once: the position in the list is the effect's place in the chain
+export const isPostEffectList = (value: unknown): value is PostEffect[] =>
+  Array.isArray(value) && value.every(isPostEffect)
+  && new Set(value.map(effect => effect.kind)).size === value.length;
+
+/** The full stack in order: the listed effects, then any kind the list leaves out (switched off). */
+export const normalizePostEffects = (effects: PostEffect[]): PostEffect[] => [
+  ...effects,
+  ...DEFAULT_POST_EFFECTS.filter(({ kind }) => !effects.some(effect => effect.kind === kind)),
+];
+
+/**
+ * The intensity an effect renders with: its base intensity plus `audioAmount`
+ * times the level of its bound band, capped at 1.
+ */
+export const getPostEffectIntensity = (effect: PostEffect, bands: FrequencyBand[], energies: Float32Array | null): number => {
+  if (!effect.bandId || !energies) return effect.intensity;
+  return Math.min(1, effect.intensity + effect.audioAmount * getBandLevel(bands, energies, effect.bandId));
+};
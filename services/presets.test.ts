@@ -0,0 +1,57 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_PROPS, PRESET_FORMAT, PRESET_SCHEMA_VERSION, PresetError, parsePreset, serializePreset } from './presets';
+import { DEFAULT_FRACTAL_LAYERS } from './fractalLayers';
+
+const serialized = (version: number, props: Record<string, unknown>) =>
+  JSON.stringify({ format: PRESET_FORMAT, version, name: 'Old', props });
+
+describe('preset schema versions', () => {
+  it('migrates a preset saved at an older version', () => {
+    const { props } = parsePreset(serialized(1, { fractalMetalness: 0.7 }));
+    expect(props.fractalLayers[0].material).toEqual({ metalness: 0.7, roughness: DEFAULT_PROPS.fractalRoughness });
+  });
+
+  it('saves at the current version and reads its own output back unchanged', () => {
+    const preset = { name: 'Round trip', props: { ...DEFAULT_PROPS, particleSize: 2 } };
+    const json = serializePreset(preset);
+    expect(JSON.parse(json).version).toBe(PRESET_SCHEMA_VERSION);
+    expect(parsePreset(json)).toEqual(preset);
+  });
+
+  it('rejects versions it does not know', () => {
+    expect(() => parsePreset(serialized(0, {}))).toThrow(PresetError);
+    expect(() => parsePreset(serialized(1.5, {}))).toThrow(PresetError);
+    expect(() => parsePreset(serialized(PRESET_SCHEMA_VERSION + 1, {}))).toThrow('newer version');
+  });
+});
+
+describe('fractal layer migration', () => {
+  it('gives the outer layer the material an old preset set on the planet', () => {
+    const { props } = parsePreset(serialized(1, { fractalMetalness: 0.8, fractalRoughness: 0.2, fractalLayerSpacing: 0.5 }));
+    expect(props.fractalLayers).toHaveLength(DEFAULT_FRACTAL_LAYERS.length);
+    expect(props.fractalLayers[0].material).toEqual({ metalness: 0.8, roughness: 0.2 });
+    expect(props.fractalLayers.slice(1)).toEqual(DEFAULT_FRACTAL_LAYERS.slice(1));
+    expect(props.fractalLayerSpacing).toBe(0.5);
+  });
+
+  it('fills in the default for the material field an old preset left out', () => {
+    const { props } = parsePreset(serialized(1, { fractalRoughness: 0.9 }));
+    expect(props.fractalLayers[0].material).toEqual({ metalness: DEFAULT_PROPS.fractalMetalness, roughness: 0.9 });
+  });
+
+  it('leaves the layers on the planet material while a modulation route moves it', () => {
+    const route = {
+      id: 'route-1', enabled: true, source: 'rms', bandId: '', lfoShape: 'sine', lfoRate: 1,
+      target: 'fractalMetalness', depth: 0.5, min: 0, max: 1, curve: 'linear', smoothing: 0.1,
+    };
+    const { props } = parsePreset(serialized(1, { fractalMetalness: 0.8, modulationRoutes: [route] }));
+    expect(props.fractalLayers).toEqual(DEFAULT_FRACTAL_LAYERS);
+    expect(props.fractalMetalness).toBe(0.8);
+  });
+
+  it('adds ids to layers saved before they had one', () => {
+    const layers = DEFAULT_FRACTAL_LAYERS.map(({ id, ...layer }) => layer);
+    const { props } = parsePreset(serialized(1, { fractalLayers: layers }));
+    expect(props.fractalLayers.map(layer => layer.id)).toEqual(['layer-0', 'layer-1', 'layer-2']);
+  });
+});
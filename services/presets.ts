@@ -0,0 +1,436 @@
+import { FrequencyBand, NeogenesisProps, Theme, ThemeDefinition } from '../types';
+import { isModulationRoute } from './modulation';
+import { DEFAULT_POST_EFFECTS, isPostEffectList } from './postEffects';
+import { isCameraPath } from './cameraPrograms';
+import { DEFAULT_FRACTAL_LAYERS, isFractalLayerList } from './fractalLayers';
+import { getTheme, hasTheme, isThemeDefinition, registerTheme } from './themes';
+import { DEFAULT_BANDS } from './frequencyBands';
+
+export const PRESET_FORMAT = 'neogenesis-preset';
+export const PRESET_SCHEMA_VERSION = 2;
+
+const USER_PRESETS_KEY = 'neogenesis.presets';
+const CURRENT_PROPS_KEY = 'neogenesis.currentProps';
+const SHARE_HASH_PREFIX = '#preset=';
+
+export const PARTICLE_TEXT_MAX_LENGTH = 40;
+
+export const DEFAULT_PROPS: NeogenesisProps = {
+  isAudioReactive: true,
+  theme: Theme.Nebula,
+  particleSize: 1.0,
+  bands: DEFAULT_BANDS,
+  bandAttack: 0.05,
+  bandRelease: 0.2,
+  noiseStrength: 0.1,
+  rotationSpeed: 0.2,
+  fieldOfView: 75,
+  bloomStrength: 0.5,
+  bloomRadius: 0.4,
+  bloomThreshold: 0.85,
+  toneMapping: 'none',
+  toneMappingExposure: 1.0,
+  postEffects: DEFAULT_POST_EFFECTS,
+  recursionDepth: 2,
+  fractalGenerator: 'geodesic',
+  fractalOptions: {},
+  showFractal: true,
+  fractalWireframe: false,
+  particleDistributionRadius: 10,
+  particleDistribution: 'sphere',
+  particleSpiralArms: 3,
+  particleSpiralTwist: 1.0,
+  particleText: 'NEOGENESIS',
+  particleMotion: 'simulated',
+  particleTrailLength: 0.3,
+  particleDamping: 0.4,
+  particleTurbulence: 0.5,
+  fractalLayerSpacing: 0.7,
+  fractalMetalness: 0.1,
+  fractalRoughness: 0.5,
+  fractalLayers: DEFAULT_FRACTAL_LAYERS,
+  fractalWaveAmplitude: 0.25,
+  fractalWaveSmoothing: 0.1,
+  fractalWaveMapping: 'latitude',
+  showOscilloscope: false,
+  oscilloscopeMode: 'ring',
+  oscilloscopeThickness: 0.12,
+  oscilloscopeRadius: 8,
+  oscilloscopeColor: 'color2',
+  cinematicCamera: false,
+  cameraProgram: 'orbit',
+  cameraCuts: false,
+  cameraCutBeats: 16,
+  cameraIdleTimeout: 4,
+  cameraPath: [],
+  cameraPathLoop: true,
+  beatReactive: true,
+  beatIntensity: 1.0,
+  themeCycleMode: 'off',
+  themeCycleList: [Theme.Nebula, Theme.Sunfire, Theme.Oceanic],
+  themeCycleInterval: 10,
+  themeCycleBeats: 16,
+  modulationRoutes: [],
+};
+
+export interface Preset {
+  name: string;
+  props: NeogenesisProps;
+  builtIn?: boolean;
+  // The custom theme the preset was saved with; registered by applyPresetTheme when the preset is used
+  customTheme?: ThemeDefinition;
+}
+
+// What a preset looks like on disk, in localStorage and in share links
+interface SerializedPreset {
+  format: typeof PRESET_FORMAT;
+  version: number;
+  name: string;
+  props: Record<string, unknown>;
+  // Definition of a custom theme, so the preset still looks right where that theme isn't registered
+  customTheme?: unknown;
+}
+
+export class PresetError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'PresetError';
+  }
+}
+
+// --- Schema ---
+
+type FieldSchema =
+  | { type: 'number'; min: number; max: number; integer?: boolean }
+  | { type: 'boolean' }
+  | { type: 'enum'; values: readonly string[] }
+  | { type: 'custom'; validate: (value: unknown) => boolean };
+
+const isFrequencyBand = (value: unknown): value is FrequencyBand => {
+  const band = value as FrequencyBand;
+  return typeof band === 'object' && band !== null
+    && typeof band.id === 'string' && typeof band.label === 'string'
+    && typeof band.minHz === 'number' && typeof band.maxHz === 'number'
+    && typeof band.gain === 'number'
+    && ['bass', 'mids', 'treble', 'none'].includes(band.role);
+};
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+// Option values are checked against each generator's own schema when the fractal is built
+const isFractalOptionsMap = (value: unknown): boolean =>
+  isPlainObject(value) && Object.values(value).every(options =>
+    isPlainObject(options) && Object.values(options).every(option => ['number', 'string', 'boolean'].includes(typeof option)));
+
+// Every prop must be listed here, so a new prop can't be added without deciding how it's validated
+const PROPS_SCHEMA: Record<keyof NeogenesisProps, FieldSchema> = {
+  isAudioReactive: { type: 'boolean' },
+  theme: { type: 'custom', validate: value => typeof value === 'string' && value.length > 0 },
+  particleSize: { type: 'number', min: 0.1, max: 3.0 },
+  bands: { type: 'custom', validate: value => Array.isArray(value) && value.every(isFrequencyBand) },
+  bandAttack: { type: 'number', min: 0, max: 0.5 },
+  bandRelease: { type: 'number', min: 0, max: 1.0 },
+  noiseStrength: { type: 'number', min: 0, max: 1.0 },
+  rotationSpeed: { type: 'number', min: 0, max: 2.0 },
+  fieldOfView: { type: 'number', min: 30, max: 120 },
+  bloomStrength: { type: 'number', min: 0, max: 3.0 },
+  bloomRadius: { type: 'number', min: 0, max: 1.0 },
+  bloomThreshold: { type: 'number', min: 0, max: 1.0 },
+  toneMapping: { type: 'enum', values: ['none', 'linear', 'reinhard', 'cineon', 'aces', 'agx', 'neutral'] },
+  toneMappingExposure: { type: 'number', min: 0.1, max: 3.0 },
+  postEffects: { type: 'custom', validate: isPostEffectList },
+  recursionDepth: { type: 'number', min: 0, max: 6, integer: true },
+  fractalGenerator: { type: 'custom', validate: value => typeof value === 'string' && value.length > 0 },
+  fractalOptions: { type: 'custom', validate: isFractalOptionsMap },
+  showFractal: { type: 'boolean' },
+  fractalWireframe: { type: 'boolean' },
+  particleDistributionRadius: { type: 'number', min: 5, max: 50 },
+  particleDistribution: { type: 'enum', values: ['sphere', 'spiral', 'disc', 'torus', 'helix', 'fractal', 'text', 'image'] },
+  particleSpiralArms: { type: 'number', min: 1, max: 8, integer: true },
+  particleSpiralTwist: { type: 'number', min: 0, max: 3.0 },
+  particleText: { type: 'custom', validate: value => typeof value === 'string' && value.length <= PARTICLE_TEXT_MAX_LENGTH },
+  particleMotion: { type: 'enum', values: ['static', 'simulated'] },
+  particleTrailLength: { type: 'number', min: 0, max: 1.0 },
+  particleDamping: { type: 'number', min: 0, max: 1.0 },
+  particleTurbulence: { type: 'number', min: 0, max: 2.0 },
+  fractalLayerSpacing: { type: 'number', min: 0.3, max: 1.0 },
+  fractalMetalness: { type: 'number', min: 0, max: 1.0 },
+  fractalRoughness: { type: 'number', min: 0, max: 1.0 },
+  fractalLayers: { type: 'custom', validate: isFractalLayerList },
+  fractalWaveAmplitude: { type: 'number', min: 0, max: 1.0 },
+  fractalWaveSmoothing: { type: 'number', min: 0.01, max: 0.5 },
+  fractalWaveMapping: { type: 'enum', values: ['latitude', 'longitude', 'geodesic'] },
+  showOscilloscope: { type: 'boolean' },
+  oscilloscopeMode: { type: 'enum', values: ['ring', 'lissajous'] },
+  oscilloscopeThickness: { type: 'number', min: 0.02, max: 0.5 },
+  oscilloscopeRadius: { type: 'number', min: 5, max: 30 },
+  oscilloscopeColor: { type: 'enum', values: ['color1', 'color2', 'color3', 'emissive'] },
+  cinematicCamera: { type: 'boolean' },
+  cameraProgram: { type: 'enum', values: ['orbit', 'flyThrough', 'surfaceSkim', 'dollyZoom', 'path'] },
+  cameraCuts: { type: 'boolean' },
+  cameraCutBeats: { type: 'number', min: 1, max: 64, integer: true },
+  cameraIdleTimeout: { type: 'number', min: 0, max: 30 },
+  cameraPath: { type: 'custom', validate: isCameraPath },
+  cameraPathLoop: { type: 'boolean' },
+  beatReactive: { type: 'boolean' },
+  beatIntensity: { type: 'number', min: 0, max: 2.0 },
+  themeCycleMode: { type: 'enum', values: ['off', 'timer', 'beat'] },
+  themeCycleList: { type: 'custom', validate: value => Array.isArray(value) && value.every(id => typeof id === 'string') },
+  themeCycleInterval: { type: 'number', min: 1, max: 120 },
+  themeCycleBeats: { type: 'number', min: 1, max: 64, integer: true },
+  modulationRoutes: { type: 'custom', validate: value => Array.isArray(value) && value.every(isModulationRoute) },
+};
+
+/** Slider range of a numeric prop, as used for validation and modulation defaults. */
+export const getPropRange = (key: keyof NeogenesisProps): { min: number; max: number } => {
+  const schema = PROPS_SCHEMA[key];
+  return schema.type === 'number' ? { min: schema.min, max: schema.max } : { min: 0, max: 1 };
+};
+
+// --- Migrations ---
+
+// MIGRATIONS[n] upgrades raw props from schema version n + 1 to n + 2. A field that is renamed, removed
+// or changes meaning bumps PRESET_SCHEMA_VERSION and adds one here; one that is simply new doesn't,
+// since it is filled from DEFAULT_PROPS.
+const MIGRATIONS: ((props: Record<string, unknown>) => Record<string, unknown>)[] = [
+  // 1 -> 2: layers got ids. A preset from before the layer list gets the three meshes the planet drew,
+  // the outer one keeping the material it set, unless a modulation route moves that material
+  props => {
+    if (Array.isArray(props.fractalLayers)) {
+      return {
+        ...props,
+        fractalLayers: props.fractalLayers.map((layer, i) => (isPlainObject(layer) && !('id' in layer) ? { id: `layer-${i}`, ...layer } : layer)),
+      };
+    }
+    const { fractalMetalness, fractalRoughness, modulationRoutes } = props;
+    const isSet = (value: unknown): value is number => typeof value === 'number' && isFinite(value);
+    const modulated = Array.isArray(modulationRoutes)
+      && modulationRoutes.some(route => isPlainObject(route) && (route.target === 'fractalMetalness' || route.target === 'fractalRoughness'));
+    if (modulated || (!isSet(fractalMetalness) && !isSet(fractalRoughness))) return props;
+    const unit = (value: number) => Math.min(1, Math.max(0, value));
+    const material = {
+      metalness: unit(isSet(fractalMetalness) ? fractalMetalness : DEFAULT_PROPS.fractalMetalness),
+      roughness: unit(isSet(fractalRoughness) ? fractalRoughness : DEFAULT_PROPS.fractalRoughness),
+    };
+    return { ...props, fractalLayers: DEFAULT_FRACTAL_LAYERS.map((layer, i) => (i === 0 ? { ...layer, material } : layer)) };
+  },
+];
+
+const migrate = (props: Record<string, unknown>, version: number): Record<string, unknown> => {
+  if (!Number.isInteger(version) || version < 1) {
+    throw new PresetError(`Unknown preset schema version: ${version}`);
+  }
+  if (version > PRESET_SCHEMA_VERSION) {
+    throw new PresetError(`Preset was saved by a newer version (schema ${version}, this app reads up to ${PRESET_SCHEMA_VERSION}).`);
+  }
+  let migrated = props;
+  for (let v = version; v < PRESET_SCHEMA_VERSION; v++) {
+    migrated = MIGRATIONS[v - 1](migrated);
+  }
+  return migrated;
+};
+
+// Checks one field against its schema; returns the (possibly clamped) value, or undefined if it's invalid
+const checkField = (key: keyof NeogenesisProps, value: unknown): unknown => {
+  const schema = PROPS_SCHEMA[key];
+  switch (schema.type) {
+    case 'number': {
+      if (typeof value !== 'number' || !isFinite(value)) return undefined;
+      const clamped = Math.min(schema.max, Math.max(schema.min, value));
+      return schema.integer ? Math.round(clamped) : clamped;
+    }
+    case 'boolean':
+      return typeof value === 'boolean' ? value : undefined;
+    case 'enum':
+      return typeof value === 'string' && schema.values.includes(value) ? value : undefined;
+    case 'custom':
+      return schema.validate(value) ? value : undefined;
+  }
+};
+
+export const isPropKey = (key: unknown): key is keyof NeogenesisProps =>
+  typeof key === 'string' && Object.prototype.hasOwnProperty.call(PROPS_SCHEMA, key);
+
+/** Validates a single prop value from outside the app (e.g. a remote), clamping numbers like validateProps. */
+export const validatePropValue = <K extends keyof NeogenesisProps>(key: K, value: unknown): NeogenesisProps[K] => {
+  const checked = checkField(key, value);
+  if (checked === undefined) {
+    throw new PresetError(`Invalid value for ${key}`);
+  }
+  return checked as NeogenesisProps[K];
+};
+
+/**
+ * Checks raw props against the schema. Missing fields take their default value,
+ * unknown fields are dropped and out-of-range numbers are clamped; a field of the
+ * wrong type makes the whole preset invalid.
+ */
+export const validateProps = (raw: Record<string, unknown>): NeogenesisProps => {
+  const result: Record<string, unknown> = { ...DEFAULT_PROPS };
+  const invalid: string[] = [];
+  (Object.keys(PROPS_SCHEMA) as (keyof NeogenesisProps)[]).forEach(key => {
+    if (!(key in raw)) return;
+    const checked = checkField(key, raw[key]);
+    if (checked === undefined) {
+      invalid.push(key);
+    } else {
+      result[key] = checked;
+    }
+  });
+  if (invalid.length > 0) {
+    throw new PresetError(`Invalid preset fields: ${invalid.join(', ')}`);
+  }
+  return result as unknown as NeogenesisProps;
+};
+
+// --- Serialization ---
+
+export const serializePreset = (preset: Preset): string => {
+  const data: SerializedPreset = {
+    format: PRESET_FORMAT,
+    version: PRESET_SCHEMA_VERSION,
+    name: preset.name,
+    props: { ...preset.props },
+  };
+  // A preset whose theme was never registered here still carries the definition it came with
+  const theme = hasTheme(preset.props.theme) ? getTheme(preset.props.theme) : preset.customTheme;
+  if (theme && !theme.builtIn && theme.id === preset.props.theme) {
+    const { builtIn, ...definition } = theme;
+    data.customTheme = definition;
+  }
+  return JSON.stringify(data, null, 2);
+};
+
+export const parsePreset = (json: string): Preset => {
+  let data: SerializedPreset;
+  try {
+    data = JSON.parse(json);
+  } catch {
+    throw new PresetError('Preset is not valid JSON.');
+  }
+  if (typeof data !== 'object' || data === null || data.format !== PRESET_FORMAT) {
+    throw new PresetError('This file is not a Neogenesis preset.');
+  }
+  if (typeof data.version !== 'number' || typeof data.props !== 'object' || data.props === null) {
+    throw new PresetError('Preset is missing its version or props.');
+  }
+  const name = typeof data.name === 'string' && data.name.trim() ? data.name.trim() : 'Imported preset';
+  const props = validateProps(migrate(data.props, data.version));
+  return isThemeDefinition(data.customTheme) ? { name, props, customTheme: data.customTheme } : { name, props };
+};
+
+/**
+ * Registers the custom theme a preset carries, unless a theme with that id
+ * already exists. Parsing never does this; call it when the preset is applied.
+ */
+export const applyPresetTheme = (preset: Preset) => {
+  if (preset.customTheme && !hasTheme(preset.customTheme.id)) {
+    registerTheme(preset.customTheme);
+  }
+};
+
+// --- localStorage ---
+
+export const loadUserPresets = (): Preset[] => {
+  try {
+    const stored = localStorage.getItem(USER_PRESETS_KEY);
+    if (!stored) return [];
+    const entries: unknown[] = JSON.parse(stored);
+    const presets: Preset[] = [];
+    entries.forEach(entry => {
+      try {
+        presets.push(parsePreset(JSON.stringify(entry)));
+      } catch (err) {
+        console.warn('Skipping stored preset:', err);
+      }
+    });
+    return presets;
+  } catch (err) {
+    console.error('Could not read stored presets:', err);
+    return [];
+  }
+};
+
+export const saveUserPresets = (presets: Preset[]) => {
+  const entries = presets.filter(preset => !preset.builtIn).map(preset => JSON.parse(serializePreset(preset)));
+  localStorage.setItem(USER_PRESETS_KEY, JSON.stringify(entries));
+};
+
+export const loadCurrentPreset = (): Preset | null => {
+  try {
+    const stored = localStorage.getItem(CURRENT_PROPS_KEY);
+    return stored ? parsePreset(stored) : null;
+  } catch (err) {
+    console.warn('Ignoring stored settings:', err);
+    return null;
+  }
+};
+
+export const saveCurrentProps = (props: NeogenesisProps) => {
+  try {
+    localStorage.setItem(CURRENT_PROPS_KEY, serializePreset({ name: 'Last session', props }));
+  } catch (err) {
+    console.error('Could not save settings:', err);
+  }
+};
+
+// --- Share links ---
+
+const toBase64Url = (text: string) => {
+  const bytes = new TextEncoder().encode(text);
+  let binary = '';
+  bytes.forEach(byte => { binary += String.fromCharCode(byte); });
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+};
+
+const fromBase64Url = (encoded: string) => {
+  const base64 = encoded.replace(/-/g, '+').replace(/_/g, '/');
+  const binary = atob(base64 + '='.repeat((4 - (base64.length % 4)) % 4));
+  return new TextDecoder().decode(Uint8Array.from(binary, char => char.charCodeAt(0)));
+};
+
+export const createShareUrl = (preset: Preset): string => {
+  const data = JSON.stringify(JSON.parse(serializePreset(preset)));
+  return `${window.location.origin}${window.location.pathname}${SHARE_HASH_PREFIX}${toBase64Url(data)}`;
+};
+
+/** Reads a preset from the URL hash, if there is one. */
+export const readPresetFromHash = (hash: string = window.location.hash): Preset | null => {
+  if (!hash.startsWith(SHARE_HASH_PREFIX)) return null;
+  try {
+    return parsePreset(fromBase64Url(hash.slice(SHARE_HASH_PREFIX.length)));
+  } catch (err) {
+    console.error('Could not read preset from link:', err);
+    return null;
+  }
+};
+
+// --- Factory presets ---
+
+export const FACTORY_PRESETS: Preset[] = [
+  { name: 'Neogenesis', builtIn: true, props: DEFAULT_PROPS },
+  {
+    name: 'Solar Flare',
+    builtIn: true,
+    props: { ...DEFAULT_PROPS, theme: Theme.Sunfire, bloomStrength: 1.4, particleSize: 1.4, noiseStrength: 0.35, rotationSpeed: 0.5, beatIntensity: 1.5 },
+  },
+  {
+    name: 'Wireframe Pulse',
+    builtIn: true,
+    props: { ...DEFAULT_PROPS, theme: Theme.Oceanic, fractalWireframe: true, recursionDepth: 3, fractalWaveAmplitude: 0.6, fractalWaveSmoothing: 0.2, bloomStrength: 0.9 },
+  },
+  {
+    name: 'Deep Forest',
+    builtIn: true,
+    props: { ...DEFAULT_PROPS, theme: Theme.Forest, particleDistributionRadius: 25, fractalMetalness: 0.6, fractalRoughness: 0.3, fieldOfView: 60, cinematicCamera: true },
+  },
+  {
+    name: 'Monolith',
+    builtIn: true,
+    props: { ...DEFAULT_PROPS, theme: Theme.Monochrome, showFractal: true, fractalLayerSpacing: 0.5, bloomStrength: 0.3, particleSize: 0.6, rotationSpeed: 0.1, beatReactive: false },
+  },
+];
+
+// Factory presets first, then the user's, in the order PresetPanel lists them
+export const listPresets = (): Preset[] => [...FACTORY_PRESETS, ...loadUserPresets()];
@@ -0,0 +1,159 @@
+export type QualityTierId = 'low' | 'medium' | 'high' | 'ultra';
+
+export interface QualityTier {
+  id: QualityTierId;
+  label: string;
+  particleCount: number;
+  // Upper bound for the renderer pixel ratio; the device ratio is used when it is lower
+  maxPixelRatio: number;
+  // Bloom render target size as a fraction of the canvas
+  bloomScale: number;
+  // Highest fractal detail built at this tier, whatever the slider says
+  fractalDepthCap: number;
+  // Whether the 'simulated' particle motion runs; tiers without it fall back to the static shader
+  particleSimulation: boolean;
+}
+
+// Ordered from cheapest to most expensive; the governor steps through them in this order
+export const QUALITY_TIERS: QualityTier[] = [
+  { id: 'low', label: 'Low', particleCount: 5000, maxPixelRatio: 0.75, bloomScale: 0.25, fractalDepthCap: 3, particleSimulation: false },
+  { id: 'medium', label: 'Medium', particleCount: 12000, maxPixelRatio: 1, bloomScale: 0.5, fractalDepthCap: 4, particleSimulation: true },
+  { id: 'high', label: 'High', particleCount: 20000, maxPixelRatio: 1.5, bloomScale: 0.75, fractalDepthCap: 5, particleSimulation: true },
+  { id: 'ultra', label: 'Ultra', particleCount: 40000, maxPixelRatio: 2, bloomScale: 1, fractalDepthCap: 6, particleSimulation: true },
+];
+
+export const getQualityTier = (id: QualityTierId): QualityTier =>
+  QUALITY_TIERS.find(tier => tier.id === id) ?? QUALITY_TIERS[2];
+
+export const getPixelRatio = (tier: QualityTier, devicePixelRatio: number = window.devicePixelRatio || 1): number =>
+  Math.min(devicePixelRatio, tier.maxPixelRatio);
+
+/**
+ * Moves `direction` tiers from `current`, never above `ceiling` (the tier the user picked).
+ */
+export const stepQualityTier = (current: QualityTierId, direction: -1 | 1, ceiling: QualityTierId): QualityTierId => {
+  const index = QUALITY_TIERS.findIndex(tier => tier.id === current);
+  const max = QUALITY_TIERS.findIndex(tier => tier.id === ceiling);
+  const next = Math.max(0, Math.min(max, index + direction));
+  return QUALITY_TIERS[next].id;
+};
+
+// --- Settings ---
+
+// Per-machine settings, kept apart from NeogenesisProps so presets don't carry them between devices
+export interface QualitySettings {
+  tier: QualityTierId;
+  // Let the governor lower the tier (down to Low) when frames run long
+  auto: boolean;
+  // Overrides the tier's particle count; null uses the tier default
+  particleCount: number | null;
+}
+
+export const DEFAULT_QUALITY_SETTINGS: QualitySettings = { tier: 'high', auto: true, particleCount: null };
+
+export const PARTICLE_COUNT_RANGE = { min: 1000, max: 60000, step: 1000 };
+
+const QUALITY_SETTINGS_KEY = 'neogenesis.quality';
+
+export const loadQualitySettings = (): QualitySettings => {
+  try {
+    const stored = localStorage.getItem(QUALITY_SETTINGS_KEY);
+    if (!stored) return DEFAULT_QUALITY_SETTINGS;
+    const data = JSON.parse(stored) as Partial<QualitySettings>;
+    return {
+      tier: QUALITY_TIERS.some(tier => tier.id === data.tier) ? data.tier! : DEFAULT_QUALITY_SETTINGS.tier,
+      auto: typeof data.auto === 'boolean' ? data.auto : DEFAULT_QUALITY_SETTINGS.auto,
+      particleCount: typeof data.particleCount === 'number'
+        ? Math.min(PARTICLE_COUNT_RANGE.max, Math.max(PARTICLE_COUNT_RANGE.min, Math.round(data.particleCount)))
+        : null,
+    };
+  } catch (err) {
+    console.error('Could not read quality settings:', err);
+    return DEFAULT_QUALITY_SETTINGS;
+  }
+};
+
+export const saveQualitySettings = (settings: QualitySettings) => {
+  try {
+    localStorage.setItem(QUALITY_SETTINGS_KEY, JSON.stringify(settings));
+  } catch (err) {
+    console.error('Could not save quality settings:', err);
+  }
+};
+
+// --- Governor ---
+
+export interface FrameStats {
+  fps: number;
+  // Average time between frames
+  frameMs: number;
+  // Average time spent stepping and rendering the scene on the CPU
+  workMs: number;
+}
+
+// Frames longer than this are treated as a stall (tab switch, debugger) and ignored
+const MAX_SAMPLE_MS = 250;
+// Exponential moving average weight per frame, roughly a one-second window at 60 fps
+const AVERAGE_WEIGHT = 1 / 60;
+
+/**
+ * Watches frame times and decides when to change quality tier. It steps down
+ * quickly when frames run long, and only steps back up after a sustained
+ * stretch of headroom, so it doesn't oscillate between two tiers.
+ */
+export class QualityGovernor {
+  private frameMs: number;
+  private workMs = 0;
+  private lastChange = 0;
+  private lastDirection: -1 | 1 | 0 = 0;
+
+  constructor(
+    private targetFrameMs: number = 1000 / 60,
+    // Seconds the average has to stay slow before stepping down
+    private downDelay: number = 2,
+    // Seconds of headroom needed before stepping up (longer right after a step down)
+    private upDelay: number = 8,
+  ) {
+    this.frameMs = targetFrameMs;
+  }
+
+  /**
+   * Adds one frame's timings (ms) at time `now` (ms).
+   * @returns -1 to step down a tier, 1 to step up, 0 to stay.
+   */
+  public sample(frameMs: number, workMs: number, now: number): -1 | 0 | 1 {
+    if (frameMs <= 0 || frameMs > MAX_SAMPLE_MS) return 0;
+    this.frameMs += (frameMs - this.frameMs) * AVERAGE_WEIGHT;
+    this.workMs += (workMs - this.workMs) * AVERAGE_WEIGHT;
+    const sinceChange = (now - this.lastChange) / 1000;
+
+    if (this.frameMs > this.targetFrameMs * 1.25 && sinceChange > this.downDelay) {
+      return this.changed(-1, now);
+    }
+    // The frame rate is capped by the display, so headroom shows up as idle time in the work
+    const upDelay = this.lastDirection === -1 ? this.upDelay * 2 : this.upDelay;
+    if (this.frameMs < this.targetFrameMs * 1.1 && this.workMs < this.targetFrameMs * 0.4 && sinceChange > upDelay) {
+      return this.changed(1, now);
+    }
+    return 0;
+  }
+
+  public getStats(): FrameStats {
+    return { fps: 1000 / this.frameMs, frameMs: this.frameMs, workMs: this.workMs };
+  }
+
+  /** Restarts the hold-off timers, e.g. after the tier was changed by hand. */
+  public reset(now: number) {
+    this.lastChange = now;
+    this.lastDirection = 0;
+    this.frameMs = this.targetFrameMs;
+  }
+
+  private changed(direction: -1 | 1, now: number): -1 | 1 {
+    this.lastChange = now;
+    this.lastDirection = direction;
+    // Start the next measurement from the target so one slow stretch isn't counted twice
+    this.frameMs = this.targetFrameMs;
+    return direction;
+  }
+}
@@ -0,0 +1,16 @@
+/**
+ * Small seeded PRNG (mulberry32). Anything that has to look the same across
+ * two renders of the same song should draw from this instead of Math.random().
+ */
+export const createSeededRandom = (seed: number): (() => number) => {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+export const PARTICLE_SEED = 0x6e656f;
@@ -0,0 +1,126 @@
+import { NeogenesisProps } from '../types';
+
+/**
+ * Remote control protocol, spoken over a WebSocket through the local relay
+ * (server/relay.mjs). Each WebSocket text frame carries one JSON object with a
+ * `type`. Peers connect as `?role=host` (the visualizer) or `?role=remote`
+ * (a phone, tablet or script).
+ *
+ * Remote → host commands:
+ *   { "type": "set", "key": "bloomStrength", "value": 1.2 }  Set one prop; validated and clamped like a preset field
+ *   { "type": "loadPreset", "name": "Solar Flare" }          Load a factory or saved preset by name
+ *   { "type": "theme", "id": "Sunfire" }                      Switch to a registered theme
+ *   { "type": "tap" }                                          Tap tempo; taps about a beat apart set the BPM
+ *   { "type": "query" }                                        Ask for a `state` reply
+ *
+ * Host → remote:
+ *   { "type": "state", "version": 1, "props": {...}, "presets": ["..."], "themes": [{ "id", "name" }], "tempo": 120 }
+ *     Sent to every remote whenever the props change, and in reply to `query`.
+ *     `tempo` is the tapped BPM, 0 while following the detected beat.
+ *   { "type": "error", "message": "..." }  A command couldn't be applied
+ *
+ * Relay → everyone:
+ *   { "type": "peers", "hosts": 1, "remotes": 2 }  Sent whenever someone joins or leaves
+ *
+ * The relay tags commands it forwards to the host with the sender's `clientId`;
+ * a host message carrying a `clientId` goes only to that remote, otherwise to all.
+ */
+export const REMOTE_PROTOCOL_VERSION = 1;
+
+export type RemoteRole = 'host' | 'remote';
+
+export interface RemoteThemeSummary {
+  id: string;
+  name: string;
+}
+
+export type RemoteCommand =
+  | { type: 'set'; key: keyof NeogenesisProps; value: unknown }
+  | { type: 'loadPreset'; name: string }
+  | { type: 'theme'; id: string }
+  | { type: 'tap' }
+  | { type: 'query' };
+
+export interface RemoteStateMessage {
+  type: 'state';
+  version: number;
+  props: NeogenesisProps;
+  presets: string[];
+  themes: RemoteThemeSummary[];
+  tempo: number;
+}
+
+export type RemoteHostMessage =
+  | RemoteStateMessage
+  | { type: 'error'; message: string };
+
+export interface RemotePeersMessage {
+  type: 'peers';
+  hosts: number;
+  remotes: number;
+}
+
+// Relay routing, added on top of any message
+interface Routed {
+  clientId?: string;
+}
+
+export type HostInboundMessage = (RemoteCommand | RemotePeersMessage) & Routed;
+export type RemoteInboundMessage = RemoteHostMessage | RemotePeersMessage;
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+/** Parses a frame received by the host. Returns null for anything that isn't a well-formed command. */
+export const parseHostInbound = (data: string): HostInboundMessage | null => {
+  let message: unknown;
+  try {
+    message = JSON.parse(data);
+  } catch {
+    return null;
+  }
+  if (!isObject(message)) return null;
+  const clientId = typeof message.clientId === 'string' ? message.clientId : undefined;
+  switch (message.type) {
+    case 'set':
+      return typeof message.key === 'string' && 'value' in message ? { type: 'set', key: message.key as keyof NeogenesisProps, value: message.value, clientId } : null;
+    case 'loadPreset':
+      return typeof message.name === 'string' ? { type: 'loadPreset', name: message.name, clientId } : null;
+    case 'theme':
+      return typeof message.id === 'string' ? { type: 'theme', id: message.id, clientId } : null;
+    case 'tap':
+    case 'query':
+      return { type: message.type, clientId };
+    case 'peers':
+      return typeof message.hosts === 'number' && typeof message.remotes === 'number'
+        ? { type: 'peers', hosts: message.hosts, remotes: message.remotes }
+        : null;
+    default:
+      return null;
+  }
+};
+
+/** Parses a frame received by a remote. Returns null for anything it doesn't understand. */
+export const parseRemoteInbound = (data: string): RemoteInboundMessage | null => {
+  let message: unknown;
+  try {
+    message = JSON.parse(data);
+  } catch {
+    return null;
+  }
+  if (!isObject(message)) return null;
+  switch (message.type) {
+    case 'state':
+      return isObject(message.props) && Array.isArray(message.presets) && Array.isArray(message.themes)
+        ? (message as unknown as RemoteStateMessage)
+        : null;
+    case 'error':
+      return typeof message.message === 'string' ? { type: 'error', message: message.message } : null;
+    case 'peers':
+      return typeof message.hosts === 'number' && typeof message.remotes === 'number'
+        ? { type: 'peers', hosts: message.hosts, remotes: message.remotes }
+        : null;
+    default:
+      return null;
+  }
+};
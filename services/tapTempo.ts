@@ -0,0 +1,60 @@
+import { AudioFeatures } from '../types';
+
+// A pause longer than this starts a new run of taps
+const TAP_TIMEOUT = 2;
+const MAX_TAPS = 8;
+const MIN_BPM = 30;
+const MAX_BPM = 300;
+
+/**
+ * Tempo set by hand. Taps about a beat apart set the BPM (averaged over the
+ * last few) and the last tap marks the downbeat. Once set, the tempo keeps
+ * running until clear() is called, and it replaces the detected beat.
+ */
+export class TapTempo {
+  private taps: number[] = [];
+  private bpm = 0;
+  private anchor = 0;
+  private lastBeat = -1;
+
+  /**
+   * Registers a tap at `time` seconds (same clock as apply()).
+   * @returns The tapped BPM, or 0 while there's only one tap in the run.
+   */
+  public tap(time: number): number {
+    const last = this.taps[this.taps.length - 1];
+    if (last === undefined || time - last > TAP_TIMEOUT || time < last) {
+      this.taps = [];
+    }
+    this.taps.push(time);
+    if (this.taps.length > MAX_TAPS) this.taps.shift();
+
+    if (this.taps.length >= 2) {
+      const interval = (this.taps[this.taps.length - 1] - this.taps[0]) / (this.taps.length - 1);
+      this.bpm = Math.min(MAX_BPM, Math.max(MIN_BPM, 60 / interval));
+      this.anchor = time;
+      this.lastBeat = 0;
+    }
+    return this.bpm;
+  }
+
+  public getBpm(): number {
+    return this.bpm;
+  }
+
+  public clear() {
+    this.taps = [];
+    this.bpm = 0;
+    this.lastBeat = -1;
+  }
+
+  /** Overwrites the tempo fields of `features` with the tapped tempo, if there is one. */
+  public apply(features: AudioFeatures, time: number): AudioFeatures {
+    if (this.bpm === 0) return features;
+    const beats = Math.max(0, (time - this.anchor) * this.bpm / 60);
+    const beat = Math.floor(beats);
+    const isNewBeat = beat !== this.lastBeat;
+    this.lastBeat = beat;
+    return { ...features, bpm: this.bpm, beatPhase: beats - beat, beat: isNewBeat };
+  }
+}
@@ -0,0 +1,139 @@
+import { Theme, ThemeColorSlot, ThemeDefinition } from '../types';
+
+const USER_THEMES_KEY = 'neogenesis.themes';
+export const THEME_FORMAT = 'neogenesis-theme';
+
+export const BUILT_IN_THEMES: ThemeDefinition[] = [
+  { id: Theme.Nebula, name: 'Nebula', color1: '#da00ff', color2: '#0099ff', color3: '#ff00b3', emissive: '#8a2be2', background: '#000000', bloomTint: '#ffffff', builtIn: true },
+  { id: Theme.Sunfire, name: 'Sunfire', color1: '#ff4800', color2: '#ffdd00', color3: '#ff8c00', emissive: '#ff4500', background: '#000000', bloomTint: '#ffffff', builtIn: true },
+  { id: Theme.Forest, name: 'Forest', color1: '#00ff00', color2: '#008000', color3: '#9acd32', emissive: '#228b22', background: '#000000', bloomTint: '#ffffff', builtIn: true },
+  { id: Theme.Oceanic, name: 'Oceanic', color1: '#00ffff', color2: '#0000ff', color3: '#4682b4', emissive: '#1e90ff', background: '#000000', bloomTint: '#ffffff', builtIn: true },
+  { id: Theme.Monochrome, name: 'Monochrome', color1: '#ffffff', color2: '#888888', color3: '#cccccc', emissive: '#aaaaaa', background: '#000000', bloomTint: '#ffffff', builtIn: true },
+];
+
+export const THEME_COLOR_SLOTS: { key: keyof Pick<ThemeDefinition, 'color1' | 'color2' | 'color3' | 'emissive' | 'background' | 'bloomTint'>; label: string }[] = [
+  { key: 'color1', label: 'Color 1' },
+  { key: 'color2', label: 'Color 2' },
+  { key: 'color3', label: 'Accent' },
+  { key: 'emissive', label: 'Emissive' },
+  { key: 'background', label: 'Background' },
+  { key: 'bloomTint', label: 'Bloom Tint' },
+];
+
+// The theme colors a scene element can follow
+export const THEME_COLOR_OPTIONS: { value: ThemeColorSlot; label: string }[] = [
+  { value: 'color1', label: 'Theme Color 1' },
+  { value: 'color2', label: 'Theme Color 2' },
+  { value: 'color3', label: 'Theme Accent' },
+  { value: 'emissive', label: 'Theme Emissive' },
+];
+
+const HEX_COLOR = /^#[0-9a-f]{6}$/i;
+
+export const isThemeDefinition = (value: unknown): value is ThemeDefinition => {
+  const theme = value as ThemeDefinition;
+  return typeof theme === 'object' && theme !== null
+    && typeof theme.id === 'string' && theme.id.length > 0
+    && typeof theme.name === 'string'
+    && THEME_COLOR_SLOTS.every(slot => typeof theme[slot.key] === 'string' && HEX_COLOR.test(theme[slot.key]));
+};
+
+// --- Registry ---
+
+const registry = new Map<string, ThemeDefinition>(BUILT_IN_THEMES.map(theme => [theme.id, theme]));
+const listeners = new Set<() => void>();
+let snapshot: ThemeDefinition[] = [...registry.values()];
+
+const notify = () => {
+  snapshot = [...registry.values()];
+  listeners.forEach(listener => listener());
+};
+
+/** Subscribes to registry changes. Shaped for React's useSyncExternalStore. */
+export const subscribeToThemes = (listener: () => void): (() => void) => {
+  listeners.add(listener);
+  return () => { listeners.delete(listener); };
+};
+
+/** All registered themes. The array only changes identity when the registry changes. */
+export const listThemes = (): ThemeDefinition[] => snapshot;
+
+export const hasTheme = (id: string): boolean => registry.has(id);
+
+/** Looks up a theme, falling back to Nebula for ids that aren't registered. */
+export const getTheme = (id: string): ThemeDefinition => registry.get(id) ?? BUILT_IN_THEMES[0];
+
+/** Adds or replaces a user theme. Built-in themes can't be overwritten. */
+export const registerTheme = (theme: ThemeDefinition, persist: boolean = true) => {
+  if (registry.get(theme.id)?.builtIn) {
+    throw new Error(`Cannot overwrite the built-in theme "${theme.id}"`);
+  }
+  registry.set(theme.id, { ...theme, builtIn: false });
+  if (persist) saveUserThemes();
+  notify();
+};
+
+export const unregisterTheme = (id: string) => {
+  if (registry.get(id)?.builtIn) return;
+  if (registry.delete(id)) {
+    saveUserThemes();
+    notify();
+  }
+};
+
+// --- Persistence ---
+
+const saveUserThemes = () => {
+  try {
+    const userThemes = [...registry.values()].filter(theme => !theme.builtIn);
+    localStorage.setItem(USER_THEMES_KEY, JSON.stringify(userThemes));
+  } catch (err) {
+    console.error('Could not save themes:', err);
+  }
+};
+
+export const loadUserThemes = () => {
+  try {
+    const stored = localStorage.getItem(USER_THEMES_KEY);
+    if (!stored) return;
+    const themes: unknown[] = JSON.parse(stored);
+    themes.forEach(theme => {
+      if (isThemeDefinition(theme) && !registry.get(theme.id)?.builtIn) {
+        registry.set(theme.id, { ...theme, builtIn: false });
+      }
+    });
+    notify();
+  } catch (err) {
+    console.error('Could not read stored themes:', err);
+  }
+};
+
+// --- Import / export ---
+
+export const serializeTheme = (theme: ThemeDefinition): string => {
+  const { builtIn, ...definition } = theme;
+  return JSON.stringify({ format: THEME_FORMAT, theme: definition }, null, 2);
+};
+
+export const parseTheme = (json: string): ThemeDefinition => {
+  let data: { format?: string; theme?: unknown };
+  try {
+    data = JSON.parse(json);
+  } catch {
+    throw new Error('Theme is not valid JSON.');
+  }
+  if (data?.format !== THEME_FORMAT || !isThemeDefinition(data.theme)) {
+    throw new Error('This file is not a Neogenesis theme.');
+  }
+  return { ...data.theme, builtIn: false };
+};
+
+/** Creates an editable copy of a theme with a fresh id. */
+export const duplicateTheme = (theme: ThemeDefinition, name: string = `${theme.name} Copy`): ThemeDefinition => ({
+  ...theme,
+  id: `custom-${Date.now()}`,
+  name,
+  builtIn: false,
+});
+
+loadUserThemes();
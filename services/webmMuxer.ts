@@ -0,0 +1,126 @@
+/**
+ * Minimal WebM writer for a single VP8/VP9 video track.
+ * Frames are kept in memory and the file is assembled in finalize(), which lets
+ * every element be written with its real size. Clusters start on each keyframe.
+ */
+
+type EbmlValue = Uint8Array | EbmlValue[];
+
+const MAX_CLUSTER_SPAN_MS = 30000;
+
+const encodeId = (id: number): Uint8Array => {
+  const bytes: number[] = [];
+  for (let v = id; v > 0; v = Math.floor(v / 256)) bytes.unshift(v & 0xff);
+  return new Uint8Array(bytes);
+};
+
+// Sizes are always written as 8-byte vints, which keeps the writer simple
+const encodeSize = (size: number): Uint8Array => {
+  const bytes = new Uint8Array(8);
+  bytes[0] = 0x01;
+  let v = size;
+  for (let i = 7; i > 0; i--) {
+    bytes[i] = v & 0xff;
+    v = Math.floor(v / 256);
+  }
+  return bytes;
+};
+
+const encodeUint = (value: number): Uint8Array => {
+  const bytes: number[] = [];
+  let v = value;
+  do {
+    bytes.unshift(v & 0xff);
+    v = Math.floor(v / 256);
+  } while (v > 0);
+  return new Uint8Array(bytes);
+};
+
+const encodeFloat = (value: number): Uint8Array => {
+  const bytes = new Uint8Array(8);
+  new DataView(bytes.buffer).setFloat64(0, value);
+  return bytes;
+};
+
+const encodeString = (value: string): Uint8Array => new TextEncoder().encode(value);
+
+const flatten = (value: EbmlValue): Uint8Array[] => (value instanceof Uint8Array ? [value] : value.flatMap(flatten));
+
+const byteLength = (value: EbmlValue): number => flatten(value).reduce((sum, part) => sum + part.length, 0);
+
+const element = (id: number, value: EbmlValue): EbmlValue => [encodeId(id), encodeSize(byteLength(value)), value];
+
+interface MuxedFrame {
+  data: Uint8Array;
+  timestampMs: number;
+  keyframe: boolean;
+}
+
+export class WebMMuxer {
+  private frames: MuxedFrame[] = [];
+
+  constructor(private width: number, private height: number, private codecId: 'V_VP8' | 'V_VP9' = 'V_VP8') {}
+
+  /** Adds an encoded chunk as produced by VideoEncoder's output callback. */
+  public addChunk(chunk: EncodedVideoChunk) {
+    const data = new Uint8Array(chunk.byteLength);
+    chunk.copyTo(data);
+    this.frames.push({ data, timestampMs: Math.round(chunk.timestamp / 1000), keyframe: chunk.type === 'key' });
+  }
+
+  public finalize(durationMs: number): Blob {
+    const header = element(0x1a45dfa3, [
+      element(0x4286, encodeUint(1)),
+      element(0x42f7, encodeUint(1)),
+      element(0x42f2, encodeUint(4)),
+      element(0x42f3, encodeUint(8)),
+      element(0x4282, encodeString('webm')),
+      element(0x4287, encodeUint(2)),
+      element(0x4285, encodeUint(2)),
+    ]);
+
+    const info = element(0x1549a966, [
+      element(0x2ad7b1, encodeUint(1000000)),
+      element(0x4d80, encodeString('Neogenesis')),
+      element(0x5741, encodeString('Neogenesis')),
+      element(0x4489, encodeFloat(durationMs)),
+    ]);
+
+    const tracks = element(0x1654ae6b, [
+      element(0xae, [
+        element(0xd7, encodeUint(1)),
+        element(0x73c5, encodeUint(1)),
+        element(0x83, encodeUint(1)),
+        element(0x86, encodeString(this.codecId)),
+        element(0xe0, [
+          element(0xb0, encodeUint(this.width)),
+          element(0xba, encodeUint(this.height)),
+        ]),
+      ]),
+    ]);
+
+    const clusters: EbmlValue[] = [];
+    let clusterStart = 0;
+    let blocks: EbmlValue[] = [];
+    const flushCluster = () => {
+      if (blocks.length === 0) return;
+      clusters.push(element(0x1f43b675, [element(0xe7, encodeUint(clusterStart)), ...blocks]));
+      blocks = [];
+    };
+    this.frames.forEach(frame => {
+      if (blocks.length === 0 || frame.keyframe || frame.timestampMs - clusterStart > MAX_CLUSTER_SPAN_MS) {
+        flushCluster();
+        clusterStart = frame.timestampMs;
+      }
+      const blockHeader = new Uint8Array(4);
+      blockHeader[0] = 0x81; // track number 1 as a vint
+      new DataView(blockHeader.buffer).setInt16(1, frame.timestampMs - clusterStart);
+      blockHeader[3] = frame.keyframe ? 0x80 : 0x00;
+      blocks.push(element(0xa3, [blockHeader, frame.data]));
+    });
+    flushCluster();
+
+    const segment = element(0x18538067, [info, tracks, ...clusters]);
+    return new Blob(flatten([header, segment]), { type: 'video/webm' });
+  }
+}
@@ -3,6 +3,35 @@ export enum AudioSource {
   None,
   Microphone,
   File,
+  InputDevice,
+  SystemAudio,
+  Stream,
+  Synthetic,
+  FeatureTrack,
+}
+
+// Entrada de audio disponible (la etiqueta queda vacía hasta que se concede el permiso)
+export interface AudioInputDevice {
+  deviceId: string;
+  label: string;
+}
+
+// Lista de entradas y la que está en uso (null = entrada por defecto, o ninguna entrada en vivo)
+export interface AudioInputChange {
+  devices: AudioInputDevice[];
+  deviceId: string | null;
+}
+
+// Estado de la fuente de audio: sin fuente, esperando permiso, sonando, contexto suspendido por el navegador o fallo
+export type AudioState = 'idle' | 'requesting' | 'active' | 'suspended' | 'error';
+
+// Por qué falló una fuente de audio; 'unavailable' (red caída, dirección que no responde) puede ir bien al reintentar
+export type AudioErrorCause = 'permissionDenied' | 'noDevice' | 'deviceLost' | 'autoplayBlocked' | 'decodeFailure' | 'unavailable';
+
+// Estado nuevo y, si se llegó a él por un fallo, su causa
+export interface AudioStateChange {
+  state: AudioState;
+  cause: AudioErrorCause | null;
 }
 
 export enum Theme {
@@ -13,28 +42,268 @@ export enum Theme {
     Monochrome = 'Monochrome',
 }
 
+// Colores de un tema, en hexadecimal '#rrggbb' para que se puedan serializar
+export interface ThemeDefinition {
+  id: string;
+  name: string;
+  color1: string;
+  color2: string;
+  color3: string;
+  emissive: string;
+  background: string;
+  bloomTint: string;
+  builtIn?: boolean;
+}
+
+// Color del tema que toma un elemento de la escena
+export type ThemeColorSlot = 'color1' | 'color2' | 'color3' | 'emissive';
+
+// Una capa del planeta. Todas comparten la geometría; la capa i se escala por fractalLayerSpacing^i
+export interface FractalLayer {
+  // Único en la lista; el motor lo usa para que cada capa conserve su malla al quitar o reordenar otras
+  id: string;
+  // null sigue los deslizadores Metalness y Roughness del planeta (y su modulación)
+  material: { metalness: number; roughness: number } | null;
+  // Planet Wireframe pasa todas las capas a alambre, tengan esto o no
+  wireframe: boolean;
+  opacity: number;
+  emissive: ThemeColorSlot;
+  rotationAxis: Vec3Tuple;
+  // Multiplica la Rotation Speed global
+  rotationSpeed: number;
+  // Banda que mueve el brillo y el pulso de la capa; vacía = el rol bass
+  bandId: string;
+}
+
+export type ThemeCycleMode = 'off' | 'timer' | 'beat';
+
+// Programa de la cámara cinematográfica; 'path' recorre los keyframes de cameraPath
+export type CameraProgram = 'orbit' | 'flyThrough' | 'surfaceSkim' | 'dollyZoom' | 'path';
+
+export type CameraEasing = 'linear' | 'easeIn' | 'easeOut' | 'easeInOut';
+
+export type Vec3Tuple = [number, number, number];
+
+// Una vista capturada del recorrido de cámara
+export interface CameraKeyframe {
+  position: Vec3Tuple;
+  // Punto al que mira la cámara (el centro de OrbitControls)
+  target: Vec3Tuple;
+  fov: number;
+  // Segundos hasta el siguiente keyframe, con la curva de easing de este tramo
+  duration: number;
+  easing: CameraEasing;
+}
+
+// Posición, objetivo y lente de la cámara en un momento dado
+export type CameraView = Pick<CameraKeyframe, 'position' | 'target' | 'fov'>;
+
+export type PostEffectKind = 'chromaticAberration' | 'filmGrain' | 'afterimage' | 'kaleidoscope' | 'rgbShift' | 'vignette';
+
+export type ToneMappingMode = 'none' | 'linear' | 'reinhard' | 'cineon' | 'aces' | 'agx' | 'neutral';
+
+// Un efecto de la pila de postproceso; su posición en la lista es su lugar en la cadena
+export interface PostEffect {
+  kind: PostEffectKind;
+  enabled: boolean;
+  // 0-1
+  intensity: number;
+  // Banda que hace latir el efecto ('' = sin banda)
+  bandId: string;
+  // Cuánto suma el nivel de la banda a la intensidad, 0-1
+  audioAmount: number;
+}
+
+// Opciones de un generador de fractales, validadas contra su esquema
+export type FractalOptionValues = Record<string, number | string | boolean>;
+
+// Cómo se reparte el espectro sobre la esfera del wireframe
+export type FractalWaveMapping = 'latitude' | 'longitude' | 'geodesic';
+
+// Forma de la galaxia de partículas; 'image' usa la imagen cargada, que no se guarda en los presets
+export type ParticleDistribution = 'sphere' | 'spiral' | 'disc' | 'torus' | 'helix' | 'fractal' | 'text' | 'image';
+
+// 'static' desplaza cada partícula en el vertex shader (barato); 'simulated' integra posición y velocidad en la GPU
+export type ParticleMotion = 'static' | 'simulated';
+
+// 'ring' dibuja la onda alrededor de un anillo; 'lissajous' traza el canal izquierdo contra el derecho (X/Y)
+export type OscilloscopeMode = 'ring' | 'lissajous';
+
+export type OnsetBand = 'kick' | 'snare' | 'hihat';
+
+export interface OnsetEvent {
+  band: OnsetBand;
+  time: number;
+  // Cuánto superó el flujo al umbral adaptativo, normalizado a 0-1
+  strength: number;
+}
+
+export interface BeatEvent {
+  time: number;
+  bpm: number;
+}
+
+// Instantánea de las características de audio de un cuadro
+export interface AudioFeatures {
+  time: number;
+  rms: number;
+  spectralFlux: number;
+  onset: boolean;
+  kick: boolean;
+  snare: boolean;
+  hihat: boolean;
+  kickStrength: number;
+  snareStrength: number;
+  hihatStrength: number;
+  bpm: number;
+  beatPhase: number;
+  beat: boolean;
+}
+
+export type BandRole = 'bass' | 'mids' | 'treble' | 'none';
+
+export type BandScale = 'log' | 'mel' | 'octave';
+
+// Banda de análisis definida en Hz, independiente del sampleRate y del tamaño de FFT
+export interface FrequencyBand {
+  id: string;
+  label: string;
+  minHz: number;
+  maxHz: number;
+  gain: number;
+  // Qué señal de la escena alimenta esta banda
+  role: BandRole;
+}
+
+// Lo que el bucle de render necesita de una fuente de análisis de audio
+export interface AudioFeatureSource {
+  frequencyData: Uint8Array;
+  analyze(): AudioFeatures;
+  getSampleRate(): number;
+  getBands(): FrequencyBand[];
+  setBands(bands: FrequencyBand[]): void;
+  setBandEnvelope(attack: number, release: number): void;
+  getBandEnergies(): Float32Array;
+  // Forma de onda del último analyze(), muestras de -1 a 1; opcional, solo la usa el osciloscopio
+  getFloatTimeDomainData?(): Float32Array;
+  // Canales izquierdo y derecho por separado, para el modo Lissajous
+  getStereoTimeDomainData?(): [Float32Array, Float32Array];
+}
+
+export type ModulationSourceKind = 'band' | 'rms' | 'flux' | 'kick' | 'snare' | 'hihat' | 'onset' | 'beatPhase' | 'lfo';
+
+export type ModulationCurve = 'linear' | 'exponential' | 'logarithmic' | 'smoothstep' | 'inverted';
+
+export type LfoShape = 'sine' | 'triangle' | 'saw' | 'square';
+
+// Una ruta de la matriz de modulación: una fuente (audio o LFO) que mueve un parámetro numérico
+export interface ModulationRoute {
+  id: string;
+  enabled: boolean;
+  source: ModulationSourceKind;
+  // Solo para source === 'band'
+  bandId: string;
+  // Solo para source === 'lfo'
+  lfoShape: LfoShape;
+  lfoRate: number;
+  target: ModulationTarget;
+  // -1 a 1: fracción del rango [min, max] que se suma al valor base
+  depth: number;
+  min: number;
+  max: number;
+  curve: ModulationCurve;
+  // Constante de tiempo del suavizado, en segundos
+  smoothing: number;
+}
+
 export interface NeogenesisProps {
   isAudioReactive: boolean;
-  theme: Theme;
+  // Id de un tema registrado; los temas de fábrica usan los valores de Theme
+  theme: string;
   particleSize: number;
-  bassSensitivity: number;
-  trebleSensitivity: number;
+  // --- Análisis por bandas (Hz) ---
+  bands: FrequencyBand[];
+  bandAttack: number;
+  bandRelease: number;
   noiseStrength: number;
   rotationSpeed: number;
   fieldOfView: number;
   bloomStrength: number;
+  bloomRadius: number;
+  bloomThreshold: number;
+  // --- Postproceso ---
+  toneMapping: ToneMappingMode;
+  toneMappingExposure: number;
+  postEffects: PostEffect[];
   recursionDepth: number;
+  // --- Generador de fractales y sus opciones (por id de generador) ---
+  fractalGenerator: string;
+  fractalOptions: Record<string, FractalOptionValues>;
   // --- Nuevas propiedades para el control separado ---
   showFractal: boolean;
   fractalWireframe: boolean;
   particleDistributionRadius: number;
+  // --- Forma de la galaxia ---
+  particleDistribution: ParticleDistribution;
+  particleSpiralArms: number;
+  // Vueltas de cada brazo desde el núcleo hasta el borde
+  particleSpiralTwist: number;
+  particleText: string;
+  // --- Movimiento de la galaxia ---
+  particleMotion: ParticleMotion;
+  // Largo de las estelas (0 las oculta); solo en modo simulado, igual que las dos siguientes
+  particleTrailLength: number;
+  particleDamping: number;
+  // Intensidad del campo de flujo curl-noise
+  particleTurbulence: number;
   // --- Propiedades para el material y estructura del fractal ---
   fractalLayerSpacing: number;
   fractalMetalness: number;
   fractalRoughness: number;
+  fractalLayers: FractalLayer[];
   // --- Propiedades para la animación de ruido del wireframe ---
   fractalWaveAmplitude: number;
   fractalWaveSmoothing: number;
+  fractalWaveMapping: FractalWaveMapping;
+  // --- Osciloscopio alrededor del planeta ---
+  showOscilloscope: boolean;
+  oscilloscopeMode: OscilloscopeMode;
+  oscilloscopeThickness: number;
+  oscilloscopeRadius: number;
+  oscilloscopeColor: ThemeColorSlot;
   // --- Propiedad para la cámara cinematográfica ---
   cinematicCamera: boolean;
-}
\ No newline at end of file
+  cameraProgram: CameraProgram;
+  // Cortes a otro programa cada cameraCutBeats pulsos
+  cameraCuts: boolean;
+  cameraCutBeats: number;
+  // Segundos sin tocar la cámara antes de devolverla al programa
+  cameraIdleTimeout: number;
+  cameraPath: CameraKeyframe[];
+  cameraPathLoop: boolean;
+  // --- Propiedades para la reacción a pulsos detectados ---
+  beatReactive: boolean;
+  beatIntensity: number;
+  // --- Ciclo automático de temas ---
+  themeCycleMode: ThemeCycleMode;
+  themeCycleList: string[];
+  themeCycleInterval: number;
+  themeCycleBeats: number;
+  // --- Matriz de modulación ---
+  modulationRoutes: ModulationRoute[];
+}
+
+// Parámetros numéricos que la matriz de modulación puede mover cada cuadro.
+// recursionDepth y particleDistributionRadius quedan fuera: cambiarlos reconstruye geometría.
+export type ModulationTarget =
+  | 'particleSize'
+  | 'noiseStrength'
+  | 'rotationSpeed'
+  | 'fieldOfView'
+  | 'bloomStrength'
+  | 'fractalLayerSpacing'
+  | 'fractalMetalness'
+  | 'fractalRoughness'
+  | 'fractalWaveAmplitude'
+  | 'fractalWaveSmoothing'
+  | 'beatIntensity';
\ No newline at end of file
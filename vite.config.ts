@@ -10,6 +10,15 @@ export default defineConfig(({ mode }) => {
         host: '0.0.0.0',
       },
       plugins: [react()],
+      build: {
+        rollupOptions: {
+          // The visualizer and the phone remote for it (see server/relay.mjs)
+          input: {
+            main: path.resolve(__dirname, 'index.html'),
+            remote: path.resolve(__dirname, 'remote.html'),
+          },
+        },
+      },
       define: {
         'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
         'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
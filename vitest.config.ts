@@ -0,0 +1,9 @@
+import { defineConfig } from 'vitest/config';
+
+// The engine and services are tested headless: no DOM, stub renderer (see NeogenesisEngineOptions)
+export default defineConfig({
+  test: {
+    environment: 'node',
+    setupFiles: ['./vitest.setup.ts'],
+  },
+});
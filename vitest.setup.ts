@@ -0,0 +1,11 @@
+// Node has no Web Storage; themes and presets keep their state in it
+const storage = new Map<string, string>();
+
+globalThis.localStorage = {
+  get length() { return storage.size; },
+  key: index => [...storage.keys()][index] ?? null,
+  getItem: key => storage.get(key) ?? null,
+  setItem: (key, value) => { storage.set(key, String(value)); },
+  removeItem: key => { storage.delete(key); },
+  clear: () => { storage.clear(); },
+};